@@ -145,17 +145,14 @@ export interface Vault {
   getRoot(): TFolder
 }
 
-export interface TFile extends TAbstractFile {
-  path: string
-  name: string
-  basename: string
-  extension: string
-  stat: {
-    size: number
-    ctime: number
-    mtime: number
-  }
-  parent: TFolder | null
+// Mock TFile class (a class, so instanceof checks work in tests)
+export class TFile implements TAbstractFile {
+  path = ''
+  name = ''
+  basename = ''
+  extension = ''
+  stat = { size: 0, ctime: 0, mtime: 0 }
+  parent: TFolder | null = null
 }
 
 export interface TFolder extends TAbstractFile {
@@ -195,6 +192,9 @@ export interface PluginSettingTab {
   display(): void
 }
 
+// Obsidian re-exports moment
+export { default as moment } from 'moment'
+
 // Mock requestUrl function
 // Note: This is a simplified mock for testing purposes.
 // The actual Obsidian API provides more functionality (headers, timeout, etc.)
@@ -216,7 +216,6 @@ export async function requestUrl(options: {
 // Export all types
 export type {
   Vault,
-  TFile,
   TFolder,
   TAbstractFile,
   App,
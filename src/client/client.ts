@@ -15,6 +15,7 @@ import type {
 	ProgressUpdate,
 	ReconnectAttemptInfo,
 	HealthCheckResult,
+	McpServerEndpoint,
 } from "./types";
 import type { SessionListItem, Message, SearchQuery, SearchResult, FileResult, SymbolResult } from "../types";
 import { ConnectionHandler } from "./connection-handler";
@@ -552,6 +553,21 @@ export class OpenCodeServerClient {
 		this.streamHandler.onPermissionRequest(callback);
 	}
 
+	/**
+	 * Subscribes to tool calls the server starts running.
+	 * 
+	 * Emitted for every tool, once its input is complete, with the session and
+	 * call ID the server assigned. Tools of an MCP server added via
+	 * {@link addMcpServer} are then requested from that MCP server.
+	 * 
+	 * @param callback - Function to call when a tool call starts
+	 */
+	onToolCall(
+		callback: (sessionId: string, callId: string, toolName: string, args: unknown) => void,
+	): void {
+		this.streamHandler.onToolCall(callback);
+	}
+
 	/**
 	 * Connect to OpenCode Server and set up event subscriptions
 	 */
@@ -696,6 +712,12 @@ export class OpenCodeServerClient {
 				color: agent.color,
 				hidden: agent.hidden,
 				mode: agent.mode,
+				// Agents the server does not let edit files are read-only for the plugin's tools too
+				permissionLevel: agent.permissionLevel ??
+					(agent.permission?.edit === "deny" || (agent.tools?.write === false && agent.tools?.edit === false)
+						? "read-only"
+						: undefined),
+				permissionScope: agent.permissionScope,
 			}));
 		} catch (error) {
 			this.errorHandler.handleError(
@@ -755,6 +777,18 @@ export class OpenCodeServerClient {
 		return this.sessionOps.respondToPermission(sessionId, requestId, approved, reason);
 	}
 
+	/**
+	 * Adds an MCP server the plugin runs, so the server's agents can call its tools.
+	 * Adding a server under a name already in use replaces it.
+	 * 
+	 * @param name - Name the server lists the MCP server's tools under (`<name>_<tool>`)
+	 * @param endpoint - URL and headers the server connects with
+	 * @throws Error if the server rejects it or cannot connect to it
+	 */
+	async addMcpServer(name: string, endpoint: McpServerEndpoint): Promise<void> {
+		return this.sessionOps.addMcpServer(name, endpoint);
+	}
+
 	/**
 	 * List all sessions from the server
 	 */
@@ -780,7 +814,8 @@ export class OpenCodeServerClient {
 	 * Delete a session from the server
 	 */
 	async deleteSession(sessionId: string): Promise<void> {
-		return this.sessionOps.deleteSession(sessionId);
+		await this.sessionOps.deleteSession(sessionId);
+		this.streamHandler.endSession(sessionId, "deleted");
 	}
 
 	/**
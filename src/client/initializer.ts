@@ -1,6 +1,8 @@
 import { OpenCodeServerClient } from "./client";
 import { ConnectionManager } from "../session/connection-manager";
 import { PermissionCoordinator } from "../tools/obsidian/permission-coordinator";
+import { ToolBridge } from "../tools/obsidian/tool-bridge";
+import type { ObsidianToolRegistry } from "../tools/obsidian/tool-registry";
 import { App } from "obsidian";
 import { SessionEventBus } from "../session/session-event-bus";
 import { PermissionManager } from "../tools/obsidian/permission-manager";
@@ -15,6 +17,7 @@ export interface ClientSetup {
     client: OpenCodeServerClient;
     connectionManager: ConnectionManager;
     permissionCoordinator: PermissionCoordinator;
+    toolBridge: ToolBridge | null;
 }
 
 /**
@@ -28,7 +31,8 @@ export async function initializeClient(
     auditLogger: AuditLogger,
     app: App,
     onAgentsLoaded?: (agents: Agent[]) => Promise<void>,
-    getDefaultAgents?: () => Agent[]
+    getDefaultAgents?: () => Agent[],
+    toolRegistry?: ObsidianToolRegistry | null
 ): Promise<ClientSetup | null> {
     // 验证配置
     if (!serverConfig.url) {
@@ -48,10 +52,16 @@ export async function initializeClient(
         sessionEventBus,
         permissionManager,
         auditLogger,
-        errorHandler
+        errorHandler,
+        toolRegistry
     );
     permissionCoordinator.setApp(app);
 
+    // 创建工具桥接（连接/重连时向服务器注册工具，并执行服务器的工具调用）
+    const toolBridge = toolRegistry
+        ? new ToolBridge(client, sessionEventBus, toolRegistry, errorHandler)
+        : null;
+
     // 健康检查（阻塞），确保服务器可用再加载代理
     try {
         const healthResult = await client.healthCheck();
@@ -84,7 +94,7 @@ export async function initializeClient(
     }
 
     console.debug("[OpenCode Obsidian] OpenCode Server client initialized");
-    return { client, connectionManager, permissionCoordinator };
+    return { client, connectionManager, permissionCoordinator, toolBridge };
 }
 
 /**
@@ -99,8 +109,13 @@ export async function reinitializeClient(
     auditLogger: AuditLogger,
     app: App,
     onAgentsLoaded?: (agents: Agent[]) => Promise<void>,
-    getDefaultAgents?: () => Agent[]
+    getDefaultAgents?: () => Agent[],
+    toolRegistry?: ObsidianToolRegistry | null,
+    oldToolBridge?: ToolBridge | null
 ): Promise<ClientSetup | null> {
+    // 停止旧的工具桥接
+    oldToolBridge?.dispose();
+
     // 断开旧客户端
     if (oldClient) {
         await oldClient.disconnect();
@@ -115,7 +130,8 @@ export async function reinitializeClient(
         auditLogger,
         app,
         onAgentsLoaded,
-        getDefaultAgents
+        getDefaultAgents,
+        toolRegistry
     );
 }
 
@@ -150,6 +166,9 @@ function bindClientCallbacks(
             } | undefined,
         })
     );
+    client.onToolCall((sessionId, callId, toolName, args) =>
+        eventBus.emitToolCall({ sessionId, callId, toolName, args })
+    );
     client.onError((error) => eventBus.emitError({ error }));
 }
 
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { OpenCodeServerClient } from "./client";
+import { OpenCodeServerClient, type OpenCodeClient } from "./client";
 import { ErrorHandler } from "../utils/error-handler";
 import type { OpenCodeServerConfig } from "./types";
 
@@ -10,6 +10,9 @@ const mockSdkClient = {
 		update: vi.fn(),
 		delete: vi.fn(),
 	},
+	mcp: {
+		add: vi.fn(),
+	},
 };
 
 vi.mock("@opencode-ai/sdk/client", () => ({
@@ -32,6 +35,7 @@ describe("OpenCodeServerClient - Session Methods", () => {
 		mockSdkClient.session.messages.mockReset();
 		mockSdkClient.session.update.mockReset();
 		mockSdkClient.session.delete.mockReset();
+		mockSdkClient.mcp.add.mockReset();
 	});
 
 	describe("listSessions", () => {
@@ -232,4 +236,29 @@ describe("OpenCodeServerClient - Session Methods", () => {
 			);
 		});
 	});
+
+	describe("addMcpServer", () => {
+		const endpoint = { url: "http://127.0.0.1:51234/mcp", headers: { Authorization: "Bearer token" } };
+
+		it("should add the MCP server through the SDK's mcp.add", async () => {
+			mockSdkClient.mcp.add.mockResolvedValue({ data: { obsidian: { status: "connected" } } });
+
+			await client.addMcpServer("obsidian", endpoint);
+
+			// Typed with the SDK's own request type, so the call has to match what the pinned SDK accepts
+			const request: Parameters<OpenCodeClient["mcp"]["add"]>[0] = {
+				body: {
+					name: "obsidian",
+					config: { type: "remote", url: endpoint.url, headers: endpoint.headers, oauth: false, enabled: true },
+				},
+			};
+			expect(mockSdkClient.mcp.add).toHaveBeenCalledWith(request);
+		});
+
+		it("should fail when the server cannot connect to the MCP server", async () => {
+			mockSdkClient.mcp.add.mockResolvedValue({ data: { obsidian: { status: "failed", error: "Connection refused" } } });
+
+			await expect(client.addMcpServer("obsidian", endpoint)).rejects.toThrow("MCP server obsidian did not connect (failed: Connection refused)");
+		});
+	});
 });
@@ -2,7 +2,7 @@ import type { Session } from "@opencode-ai/sdk/client";
 import { ErrorHandler, ErrorSeverity } from "../utils/error-handler";
 import { formatISOTimestamp } from "../utils/data-helpers";
 import { getErrorStatusCode } from "../utils/error-messages";
-import type { SessionContext } from "./types";
+import type { SessionContext, McpServerEndpoint } from "./types";
 import type { SessionListItem, Message, SessionDiff, SearchQuery, SearchResult, FileResult, SymbolResult } from "../types";
 import type { OpenCodeClient } from "./client";
 
@@ -631,6 +631,37 @@ export class SessionOperations {
 		);
 	}
 
+	/**
+	 * Add (or replace) a remote MCP server the OpenCode Server connects to for tools.
+	 * Fails if the server could not connect to it.
+	 */
+	async addMcpServer(name: string, endpoint: McpServerEndpoint): Promise<void> {
+		try {
+			const response = await this.sdkClient.mcp.add({
+				body: {
+					name,
+					config: { type: "remote", url: endpoint.url, headers: endpoint.headers, oauth: false, enabled: true },
+				},
+			});
+
+			if (response.error) {
+				throw new Error(`Adding MCP server failed: ${JSON.stringify(response.error)}`);
+			}
+			const status = response.data?.[name];
+			if (status && status.status !== "connected") {
+				throw new Error(`MCP server ${name} did not connect (${status.status}${"error" in status ? `: ${status.error}` : ""})`);
+			}
+		} catch (error) {
+			this.handleOperationError(
+				error,
+				"addMcpServer",
+				"Adding MCP server",
+				{ name, url: endpoint.url },
+				ErrorSeverity.Warning,
+			);
+		}
+	}
+
 	/**
 	 * List all sessions from the server
 	 */
@@ -284,6 +284,40 @@ describe("StreamHandler", () => {
 			);
 		});
 
+		it("should report tool parts once their call is running", async () => {
+			const callback = vi.fn();
+			handler.onToolCall(callback);
+
+			const toolPart = (status: string) => ({
+				type: "message.part.updated",
+				properties: {
+					part: {
+						id: "part-1",
+						sessionID: "session-1",
+						messageID: "message-1",
+						type: "tool",
+						callID: "call-123",
+						tool: "obsidian_read_note",
+						state: { status, input: { path: "notes/a.md" } },
+					},
+				},
+			});
+			const stream = (async function* () {
+				yield toolPart("pending");
+				yield toolPart("running");
+			})();
+
+			await handler.processEventStream(stream);
+
+			expect(callback).toHaveBeenCalledTimes(1);
+			expect(callback).toHaveBeenCalledWith(
+				"session-1",
+				"call-123",
+				"obsidian_read_note",
+				{ path: "notes/a.md" },
+			);
+		});
+
 		it("should handle session.idle events", async () => {
 			const callback = vi.fn();
 			handler.onStreamToken(callback);
@@ -539,6 +573,35 @@ describe("StreamHandler", () => {
 		});
 	});
 
+	describe("Tool call validation", () => {
+		it("should warn on malformed tool part", async () => {
+			const consoleWarnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+			const callback = vi.fn();
+			handler.onToolCall(callback);
+
+			const stream = (async function* () {
+				yield {
+					type: "message.part.updated",
+					properties: {
+						// Missing tool
+						part: { type: "tool", sessionID: "session-1", callID: "call-123", state: { status: "running", input: {} } },
+					},
+				};
+			})();
+
+			await handler.processEventStream(stream);
+
+			expect(consoleWarnSpy).toHaveBeenCalledWith(
+				expect.stringContaining("Malformed tool part"),
+				expect.any(Object),
+			);
+			expect(callback).not.toHaveBeenCalled();
+
+			consoleWarnSpy.mockRestore();
+		});
+	});
+
 	describe("Unhandled event types", () => {
 		it("should log debug message for unhandled event types", async () => {
 			const consoleDebugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
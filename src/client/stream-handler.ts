@@ -30,6 +30,9 @@ export class StreamHandler {
 	private permissionRequestCallbacks: Array<
 		(sessionId: string, requestId: string, operation: string, resourcePath: string, context?: unknown) => void
 	> = [];
+	private toolCallCallbacks: Array<
+		(sessionId: string, callId: string, toolName: string, args: unknown) => void
+	> = [];
 
 	// Session state tracking (references to client state)
 	private sessionState: {
@@ -107,6 +110,15 @@ export class StreamHandler {
 		this.permissionRequestCallbacks.push(callback);
 	}
 
+	/**
+	 * Subscribe to tool calls the server starts running (tool message parts whose input is complete)
+	 */
+	onToolCall(
+		callback: (sessionId: string, callId: string, toolName: string, args: unknown) => void,
+	): void {
+		this.toolCallCallbacks.push(callback);
+	}
+
 	/**
 	 * Get last event ID for SSE reconnection
 	 */
@@ -371,6 +383,7 @@ export class StreamHandler {
 
 					case "session.ended":
 					case "session.aborted":
+					case "session.deleted":
 						this.handleSessionEnded(event, sessionId);
 						return;
 
@@ -435,6 +448,11 @@ export class StreamHandler {
 			return;
 		}
 
+		if (part?.type === "tool") {
+			this.handleToolPart(part, sessionId);
+			return;
+		}
+
 		// Prefer delta (incremental update) over part.text (which might be full content)
 		const content = delta || (part?.text || "");
 
@@ -484,8 +502,14 @@ export class StreamHandler {
 	 * Handle session ended events
 	 */
 	private handleSessionEnded(event: any, sessionId: string): void {
-		const reason = event.data?.reason || event.reason || "completed";
+		const defaultReason = event.type === "session.deleted" ? "deleted" : "completed";
+		this.endSession(sessionId, event.data?.reason || event.reason || defaultReason);
+	}
 
+	/**
+	 * Forget a session that ended or was deleted, and notify session end listeners
+	 */
+	endSession(sessionId: string, reason: string): void {
 		this.sessionState.sessions.delete(sessionId);
 		if (this.sessionState.currentSessionId === sessionId) {
 			this.sessionState.currentSessionId = null;
@@ -521,6 +545,29 @@ export class StreamHandler {
 		);
 	}
 
+	/**
+	 * Handle tool parts: a part is reported once its call is running, when the input is final
+	 * (the part is updated again as the call progresses and completes)
+	 */
+	private handleToolPart(part: any, sessionId: string): void {
+		if (part.state?.status !== "running") {
+			return;
+		}
+		if (!part.callID || !part.tool) {
+			console.warn(
+				"[StreamHandler] Malformed tool part - missing required fields:",
+				{ callID: part.callID, tool: part.tool },
+			);
+			return;
+		}
+
+		this.invokeCallbacks(
+			this.toolCallCallbacks,
+			[part.sessionID || sessionId, part.callID, part.tool, part.state.input ?? {}],
+			"tool call",
+		);
+	}
+
 	/**
 	 * Handle SDK client errors
 	 */
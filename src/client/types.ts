@@ -42,6 +42,42 @@ export interface SessionContext {
 	properties?: Record<string, unknown>;
 }
 
+/**
+ * Tool definition the plugin serves to the server over MCP
+ */
+export interface ClientToolDefinition {
+	name: string;
+	description: string;
+	inputSchema: object;
+	outputSchema: object;
+	permission: string;
+}
+
+/**
+ * Result of a client-side tool call, returned to the server as the MCP tool result
+ */
+export interface ToolCallResult {
+	/** Whether the tool executed successfully */
+	success: boolean;
+	/** Tool output (only for successful calls) */
+	result?: unknown;
+	/** Error details (only for failed calls) */
+	error?: {
+		code: "PERMISSION_DENIED" | "FILE_NOT_FOUND" | "VALIDATION_ERROR" | "RATE_LIMITED" | "EXECUTION_ERROR";
+		message: string;
+		details?: unknown;
+	};
+}
+
+/**
+ * Where the OpenCode Server reaches an MCP server the plugin runs
+ */
+export interface McpServerEndpoint {
+	url: string;
+	/** Sent with every request (the bearer token) */
+	headers: Record<string, string>;
+}
+
 /**
  * Progress update information
  */
@@ -5,10 +5,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ErrorHandler } from "./utils/error-handler";
 import type { Agent } from "./types";
+import { ToolPermission } from "./tools/obsidian/types";
 
 // Mock Obsidian API
 vi.mock("obsidian", () => ({
-	Plugin: class {},
+	Plugin: class {
+		constructor(
+			public app: unknown,
+			public manifest: unknown,
+		) {}
+	},
 	Notice: vi.fn(),
 }));
 
@@ -29,6 +35,9 @@ vi.mock("./client/client", () => ({
 			onProgressUpdate: vi.fn(),
 			onSessionEnd: vi.fn(),
 			onPermissionRequest: vi.fn(),
+			onToolCall: vi.fn(),
+			onConnectionStateChange: vi.fn().mockReturnValue(() => {}),
+			isConnected: vi.fn().mockReturnValue(false),
 			onError: vi.fn(),
 		};
 	}),
@@ -61,13 +70,19 @@ vi.mock("./views/opencode-obsidian-view", () => ({
 	VIEW_TYPE_OPENCODE_OBSIDIAN: "opencode-obsidian-view",
 }));
 
+vi.mock("./views/modals/confirmation-modal", () => ({
+	ConfirmationModal: vi.fn(),
+}));
+
 vi.mock("./settings", () => ({
 	OpenCodeObsidianSettingTab: vi.fn(),
 }));
 
 vi.mock("./tools/obsidian/tool-registry", () => ({
 	ObsidianToolRegistry: vi.fn().mockImplementation(function() {
-		return {};
+		return {
+			setToolLimits: vi.fn(),
+		};
 	}),
 }));
 
@@ -83,6 +98,11 @@ vi.mock("./tools/obsidian/permission-manager", () => ({
 			getPermissionLevel: vi.fn().mockReturnValue("read-only"),
 			setPermissionLevel: vi.fn(),
 			setScope: vi.fn(),
+			setApprovalRules: vi.fn(),
+			setPolicyErrorHandler: vi.fn(),
+			setAgentResolver: vi.fn(),
+			setSecretHandling: vi.fn(),
+			refreshPolicy: vi.fn().mockResolvedValue(undefined),
 			validatePath: vi.fn().mockResolvedValue({ allowed: true }),
 		};
 	}),
@@ -118,6 +138,9 @@ vi.mock("./session/session-event-bus", () => ({
 			emitProgressUpdate: vi.fn(),
 			emitSessionEnd: vi.fn(),
 			emitPermissionRequest: vi.fn(),
+			emitToolCall: vi.fn(),
+			onToolCall: vi.fn().mockReturnValue(() => {}),
+			onSessionEnd: vi.fn().mockReturnValue(() => {}),
 			emitError: vi.fn(),
 		};
 	}),
@@ -137,6 +160,7 @@ describe("OpenCodeObsidianPlugin - Agent Loading", () => {
 		mockApp = {
 			vault: {
 				adapter: {},
+				on: vi.fn(),
 			},
 			workspace: {
 				getLeavesOfType: vi.fn().mockReturnValue([]),
@@ -164,6 +188,7 @@ describe("OpenCodeObsidianPlugin - Agent Loading", () => {
 		plugin.addRibbonIcon = vi.fn();
 		plugin.addCommand = vi.fn();
 		plugin.addSettingTab = vi.fn();
+		plugin.registerEvent = vi.fn();
 
 		// Track saveSettings calls for testing
 		const originalSaveSettings = plugin.saveSettings.bind(plugin);
@@ -205,6 +230,30 @@ describe("OpenCodeObsidianPlugin - Agent Loading", () => {
 				id: "read-only",
 				name: "Read Only",
 				systemPrompt: "",
+				permissionLevel: "read-only",
+			});
+		});
+
+		it("should resolve the permission profile of the session's agent", () => {
+			plugin.settings = {
+				agent: "assistant",
+				agents: [
+					{ id: "assistant", name: "Assistant", systemPrompt: "" },
+					{ id: "read-only", name: "Read Only", systemPrompt: "" },
+					{ id: "inbox", name: "Inbox", systemPrompt: "", permissionLevel: "full-write", permissionScope: { deniedPaths: ["Private/**"] } },
+				],
+				agentPermissions: { inbox: { permissionLevel: "scoped-write", permissionScope: { allowedPaths: ["Inbox/**"] } } },
+			};
+			plugin.setSessionAgent("ses_1", "read-only");
+			plugin.setSessionAgent("ses_2", "inbox");
+
+			const getProfile = (sessionId?: string) => (plugin as any).getAgentPermissionProfile(sessionId);
+			expect(getProfile()).toEqual({ agentId: "assistant", level: undefined, scope: undefined });
+			expect(getProfile("ses_1")).toEqual({ agentId: "read-only", level: ToolPermission.ReadOnly, scope: undefined });
+			expect(getProfile("ses_2")).toEqual({
+				agentId: "inbox",
+				level: ToolPermission.ScopedWrite,
+				scope: { allowedPaths: ["Inbox/**"], deniedPaths: ["Private/**"] },
 			});
 		});
 
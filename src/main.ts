@@ -11,18 +11,24 @@ import { debounceAsync } from "./utils/helpers";
 import { initializeClient, reinitializeClient } from "./client/initializer";
 import { OpenCodeServerClient } from "./client/client";
 import { ObsidianToolRegistry } from "./tools/obsidian/tool-registry";
-import { ObsidianToolExecutor } from "./tools/obsidian/tool-executor";
+import { ObsidianToolExecutor, UndoConflictError } from "./tools/obsidian/tool-executor";
 import { PermissionManager } from "./tools/obsidian/permission-manager";
 import { AuditLogger } from "./tools/obsidian/audit-logger";
+import { VaultSearchIndex } from "./tools/obsidian/vault-search-index";
+import { SnapshotStore } from "./tools/obsidian/snapshot-store";
+import { ApprovalRuleStore } from "./tools/obsidian/approval-rules";
 import { ToolPermission } from "./tools/obsidian/types";
-import type { PermissionScope } from "./tools/obsidian/permission-types";
+import type { ObsidianToolApi } from "./tools/obsidian/types";
+import type { AgentPermissionProfile, PermissionScope } from "./tools/obsidian/permission-types";
 import { ConnectionManager } from "./session/connection-manager";
 import { SessionEventBus } from "./session/session-event-bus";
 import { PermissionCoordinator } from "./tools/obsidian/permission-coordinator";
+import { ToolBridge } from "./tools/obsidian/tool-bridge";
 import { ServerManager } from "./embedded-server/ServerManager";
 import { ServerStateChangeEvent } from "./embedded-server/types";
 import { TodoManager } from "./todo/todo-manager";
 import { TodoListComponent } from "./todo/todo-list-component";
+import { ConfirmationModal } from "./views/modals/confirmation-modal";
 
 /**
  * Maps string permission level settings to ToolPermission enum values
@@ -55,6 +61,8 @@ function toPermissionScope(
 		deniedPaths: scope.deniedPaths,
 		maxFileSize: scope.maxFileSize,
 		allowedExtensions: scope.allowedExtensions,
+		maxAttachmentSize: scope.maxAttachmentSize,
+		attachmentExtensions: scope.attachmentExtensions,
 	} as PermissionScope;
 }
 
@@ -87,11 +95,33 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 	connectionManager: ConnectionManager | null = null;
 	sessionEventBus = new SessionEventBus();
 	toolRegistry: ObsidianToolRegistry | null = null;
+	toolExecutor: ObsidianToolExecutor | null = null;
 	permissionManager: PermissionManager | null = null;
 	permissionCoordinator: PermissionCoordinator | null = null;
+	toolBridge: ToolBridge | null = null;
 	serverManager: ServerManager | null = null;
 	todoManager: TodoManager | null = null;
 	todoListComponent: TodoListComponent | null = null;
+	/** Agent that sent the last prompt of each session, whose permission profile applies to its tool calls */
+	private sessionAgents = new Map<string, string>();
+
+	/**
+	 * API for other plugins: app.plugins.plugins["opencode-obsidian"].api
+	 */
+	api: ObsidianToolApi = {
+		registerTool: (toolDef, handler, options) => {
+			if (!this.toolRegistry) {
+				throw new Error("Tool system not initialized");
+			}
+
+			const unregister = this.toolRegistry.registerTool(toolDef, handler, options);
+			this.readvertiseTools();
+			return () => {
+				unregister();
+				this.readvertiseTools();
+			};
+		},
+	};
 
 
 
@@ -161,20 +191,69 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 			toPermissionScope(this.settings.permissionScope),
 		);
 
+		// Rules remembered from the permission modal; persistent ones are saved with the settings
+		this.permissionManager.setApprovalRules(
+			new ApprovalRuleStore(this.settings.approvalRules ?? [], async (rules) => {
+				this.settings.approvalRules = rules;
+				await this.saveSettings();
+			}),
+		);
+
+		// API keys, passwords and #private notes are redacted, blocked or confirmed before reads return them
+		this.permissionManager.setSecretHandling(this.settings.secretHandling ?? "redact");
+
+		// Vault permission policy (.opencode/permissions.yaml), reloaded by permission checks when it changes.
+		// An invalid file stays on screen until a check finds it fixed.
+		let policyNotice: Notice | null = null;
+		this.permissionManager.setPolicyErrorHandler((error) => {
+			policyNotice?.hide();
+			policyNotice = null;
+			if (!error) {
+				new Notice("Permission policy loaded");
+				return;
+			}
+			const effect = this.permissionManager?.isPolicyFailClosed()
+				? "Tool reads and writes are denied until it is fixed."
+				: "The previous version stays in effect.";
+			policyNotice = new Notice(`Permission policy not loaded: ${error.message}. ${effect}`, 0);
+		});
+		await this.permissionManager.refreshPolicy();
+
+		// Each agent's permission level and scope narrow the plugin-wide ones for its sessions
+		this.permissionManager.setAgentResolver((sessionId) =>
+			this.getAgentPermissionProfile(sessionId),
+		);
+
 		const auditLogger = new AuditLogger(this.app.vault);
 
-		const toolExecutor = new ObsidianToolExecutor(
+		// Full-text index for search_vault, kept up to date from vault events
+		const searchIndex = new VaultSearchIndex(this.app.vault);
+		searchIndex.registerEvents(this);
+
+		// Pre-images of agent writes, for undo, kept in the plugin's folder rather than the vault
+		const pluginDir =
+			this.manifest.dir ??
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		const snapshotStore = new SnapshotStore(
+			this.app.vault.adapter,
+			`${pluginDir}/snapshots`,
+		);
+
+		this.toolExecutor = new ObsidianToolExecutor(
 			this.app.vault,
 			this.app,
 			this.app.metadataCache,
 			this.permissionManager,
 			auditLogger,
+			searchIndex,
+			snapshotStore,
 		);
 
 		this.toolRegistry = new ObsidianToolRegistry(
-			toolExecutor,
+			this.toolExecutor,
 			this.app,
 		);
+		this.toolRegistry.setToolLimits(this.settings.toolLimits ?? {});
 
 		console.debug("[OpenCode Obsidian] Tool system initialized");
 	}
@@ -264,13 +343,15 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 						await this.saveSettings();
 					}
 				},
-				() => this.getDefaultAgents()
+				() => this.getDefaultAgents(),
+				this.toolRegistry
 			);
 
 			if (clientSetup) {
 				this.opencodeClient = clientSetup.client;
 				this.connectionManager = clientSetup.connectionManager;
 				this.permissionCoordinator = clientSetup.permissionCoordinator;
+				this.toolBridge = clientSetup.toolBridge;
 			}
 		}
 	}
@@ -358,6 +439,15 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 			},
 		});
 
+		// Add command to undo the last vault write made through the plugin's tools
+		this.addCommand({
+			id: "undo-last-agent-change",
+			name: "Undo last agent change",
+			callback: () => {
+				void this.undoLastAgentChange();
+			},
+		});
+
 		// Add command to open todo list
 		this.addCommand({
 			id: "open-todo-list",
@@ -379,6 +469,82 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 		});
 	}
 
+	/**
+	 * Send the current tool list to the server after tools were added or removed
+	 * (when disconnected, the next connection registers them anyway)
+	 */
+	private readvertiseTools(): void {
+		if (this.toolBridge && this.opencodeClient?.isConnected()) {
+			void this.toolBridge.registerTools();
+		}
+	}
+
+	/**
+	 * Undo the most recent vault write made through the plugin's tools
+	 * @param force - Undo even if the note was edited after the write (asked for when it was)
+	 */
+	async undoLastAgentChange(force: boolean = false): Promise<void> {
+		if (!this.toolExecutor) {
+			new Notice("Tool system not initialized");
+			return;
+		}
+
+		try {
+			const result = await this.toolExecutor.undoLastChange(undefined, force);
+			new Notice(
+				result
+					? `Undid ${result.toolName}: restored ${result.restored.join(", ")}`
+					: "No agent changes to undo",
+			);
+		} catch (error) {
+			if (error instanceof UndoConflictError) {
+				this.confirmUndoOverEdits(error, () => this.undoLastAgentChange(true));
+				return;
+			}
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Failed to undo: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Undo every vault write a session made through the plugin's tools
+	 * @param force - Undo even writes whose notes were edited after them (asked for when they were)
+	 */
+	async undoSessionChanges(sessionId: string, force: boolean = false): Promise<void> {
+		if (!this.toolExecutor) {
+			new Notice("Tool system not initialized");
+			return;
+		}
+
+		try {
+			const results = await this.toolExecutor.undoSession(sessionId, force);
+			new Notice(
+				results.length > 0
+					? `Undid ${results.length} agent change${results.length !== 1 ? "s" : ""}`
+					: "No agent changes to undo in this session",
+			);
+		} catch (error) {
+			if (error instanceof UndoConflictError) {
+				this.confirmUndoOverEdits(error, () => this.undoSessionChanges(sessionId, true));
+				return;
+			}
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Failed to undo session changes: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Ask before an undo discards edits made to the notes after the agent's write
+	 */
+	private confirmUndoOverEdits(conflict: UndoConflictError, undo: () => Promise<void>): void {
+		new ConfirmationModal(
+			this.app,
+			"Notes changed since the agent's change",
+			`${conflict.message}. Undoing ${conflict.toolName} restores the notes as they were before it and discards those edits. Undo anyway?`,
+			() => void undo(),
+		).open();
+	}
+
 	/**
 	 * Finalize setup (server status check)
 	 */
@@ -475,6 +641,12 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 		// Cleanup permission coordinator
 		this.permissionCoordinator = null;
 
+		// Stop answering server tool calls
+		if (this.toolBridge) {
+			this.toolBridge.dispose();
+			this.toolBridge = null;
+		}
+
 		// Stop embedded server if running
 		if (this.serverManager) {
 			this.serverManager.stop();
@@ -561,6 +733,7 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 					({} as PermissionScope),
 			);
 		}
+		this.toolRegistry?.setToolLimits(this.settings.toolLimits ?? {});
 
 		// Check if server URL changed and reinitialize client if needed
 		const normalizeUrl = (url?: string) => url?.trim().replace(/\/+$/, "") || "";
@@ -594,13 +767,16 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 						await this.saveSettings();
 					}
 				},
-				() => this.getDefaultAgents()
+				() => this.getDefaultAgents(),
+				this.toolRegistry,
+				this.toolBridge
 			);
 			
 			if (clientSetup) {
 				this.opencodeClient = clientSetup.client;
 				this.connectionManager = clientSetup.connectionManager;
 				this.permissionCoordinator = clientSetup.permissionCoordinator;
+				this.toolBridge = clientSetup.toolBridge;
 			}
 			
 			console.debug(
@@ -697,7 +873,42 @@ export default class OpenCodeObsidianPlugin extends Plugin {
 			{ id: "bootstrap", name: "Bootstrap", systemPrompt: "" },
 			{ id: "thinking-partner", name: "Thinking Partner", systemPrompt: "" },
 			{ id: "research-assistant", name: "Research Assistant", systemPrompt: "" },
-			{ id: "read-only", name: "Read Only", systemPrompt: "" },
+			{ id: "read-only", name: "Read Only", systemPrompt: "", permissionLevel: "read-only" },
 		];
 	}
+
+	/**
+	 * Record the agent a prompt was sent to, so the session's tool calls get that agent's permission profile
+	 */
+	setSessionAgent(sessionId: string, agentId: string): void {
+		this.sessionAgents.set(sessionId, agentId);
+	}
+
+	/**
+	 * Get the permission profile of the agent running a session (the selected agent if none was recorded)
+	 * A profile set in settings overrides the one the agent was loaded with. The Read Only agent is
+	 * read-only unless settings say otherwise, even if it was loaded without a profile.
+	 */
+	private getAgentPermissionProfile(sessionId?: string): AgentPermissionProfile {
+		const agentId =
+			(sessionId && this.sessionAgents.get(sessionId)) || this.settings.agent;
+		const agent = this.settings.agents?.find((a) => a.id === agentId);
+		const override = this.settings.agentPermissions?.[agentId];
+		const level =
+			override?.permissionLevel ??
+			agent?.permissionLevel ??
+			(agentId === "read-only" ? "read-only" : undefined);
+		const allowedPaths =
+			override?.permissionScope?.allowedPaths ??
+			agent?.permissionScope?.allowedPaths;
+		const deniedPaths =
+			override?.permissionScope?.deniedPaths ??
+			agent?.permissionScope?.deniedPaths;
+
+		return {
+			agentId,
+			level: level ? getPermissionLevel(level) : undefined,
+			scope: allowedPaths || deniedPaths ? { allowedPaths, deniedPaths } : undefined,
+		};
+	}
 }
@@ -75,6 +75,23 @@ export interface PermissionRequestEvent {
 	};
 }
 
+/**
+ * Event emitted when the server starts running a tool call.
+ * 
+ * Calls of the tools the plugin serves over MCP arrive at its MCP server
+ * without a session; this event tells which session and call they belong to.
+ */
+export interface ToolCallEvent {
+	/** ID of the session the call belongs to */
+	sessionId: string;
+	/** Unique identifier for this tool call (correlation ID) */
+	callId: string;
+	/** Name of the tool as the server knows it (e.g., 'obsidian_read_note' for the plugin's MCP tools) */
+	toolName: string;
+	/** Arguments passed to the tool */
+	args: unknown;
+}
+
 /**
  * Event emitted when an error occurs.
  */
@@ -96,6 +113,7 @@ type Unsubscribe = () => void;
  * - Progress updates
  * - Session lifecycle events
  * - Permission requests
+ * - Tool calls
  * - Errors
  * 
  * @example
@@ -126,6 +144,7 @@ export class SessionEventBus {
 	private permissionRequestListeners: Array<
 		(event: PermissionRequestEvent) => void
 	> = [];
+	private toolCallListeners: Array<(event: ToolCallEvent) => void> = [];
 
 	/**
 	 * Subscribes to stream token events.
@@ -219,6 +238,24 @@ export class SessionEventBus {
 		};
 	}
 
+	/**
+	 * Subscribes to tool call events.
+	 * 
+	 * Tool call events are emitted when the server starts running a tool call,
+	 * including calls of the Obsidian tools the plugin serves over MCP.
+	 * 
+	 * @param listener - Callback function to handle tool call events
+	 * @returns Function to unsubscribe from the event
+	 */
+	onToolCall(listener: (event: ToolCallEvent) => void): Unsubscribe {
+		this.toolCallListeners.push(listener);
+		return () => {
+			this.toolCallListeners = this.toolCallListeners.filter(
+				(l) => l !== listener,
+			);
+		};
+	}
+
 	/**
 	 * Subscribes to error events.
 	 * 
@@ -292,6 +329,20 @@ export class SessionEventBus {
 		}
 	}
 
+	/**
+	 * Emits a tool call event to all registered listeners.
+	 * 
+	 * This is called by the OpenCode Server client when a tool message part
+	 * reaches the running state.
+	 * 
+	 * @param event - The tool call event to emit
+	 */
+	emitToolCall(event: ToolCallEvent): void {
+		for (const listener of this.toolCallListeners) {
+			listener(event);
+		}
+	}
+
 	/**
 	 * Emits an error event to all registered listeners.
 	 * 
@@ -1,5 +1,7 @@
 import { App, PluginSettingTab, Setting, Notice } from "obsidian";
 import type OpenCodeObsidianPlugin from "./main";
+import type { OpenCodeObsidianSettings } from "./types";
+import { describeApprovalRule } from "./tools/obsidian/approval-rules";
 import {
 	createTextarea,
 	hasClass,
@@ -476,6 +478,7 @@ export class OpenCodeObsidianSettingTab extends PluginSettingTab {
 							maxFileSize: 10485760, // 10MB
 							allowedExtensions: [
 								".md",
+								".canvas",
 								".txt",
 								".json",
 								".yaml",
@@ -490,6 +493,24 @@ export class OpenCodeObsidianSettingTab extends PluginSettingTab {
 				});
 		});
 
+		// Secret handling applies to reads, so it is shown at every permission level
+		new Setting(containerEl)
+			.setName("Secrets in notes")
+			.setDesc("What to do when reading or searching notes would send API keys, private keys, tokens, passwords in frontmatter or notes tagged #private to the model. A secrets setting in .opencode/permissions.yaml takes precedence.")
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("redact", "Redact the values")
+					.addOption("block", "Block the read")
+					.addOption("ask", "Ask me first")
+					.setValue(this.plugin.settings.secretHandling || "redact")
+					.onChange(async (value) => {
+						const handling = value as "redact" | "block" | "ask";
+						this.plugin.settings.secretHandling = handling;
+						this.plugin.permissionManager?.setSecretHandling(handling);
+						await this.plugin.saveSettings();
+					});
+			});
+
 		// Permission scope configuration (only shown for scoped-write or full-write)
 		const showScopeSettings =
 			this.plugin.settings.toolPermission === "scoped-write" ||
@@ -498,6 +519,215 @@ export class OpenCodeObsidianSettingTab extends PluginSettingTab {
 		if (showScopeSettings) {
 			this.renderPermissionScope(containerEl);
 		}
+
+		this.renderAgentPermissions(containerEl);
+
+		// Rate limits apply to read tools too, so they are shown at every permission level
+		this.renderToolLimits(containerEl);
+
+		this.renderApprovalRules(containerEl);
+	}
+
+	/**
+	 * Render a permission level and allowed paths for each agent, narrowing the settings above while it runs
+	 */
+	private renderAgentPermissions(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Agent permissions").setHeading();
+
+		containerEl.createEl("p", {
+			text: "Limit what each agent's tool calls may do. An agent never gets more than the permission level and scope above.",
+			cls: "setting-item-description",
+		});
+
+		const agents = this.plugin.settings.agents?.filter((a) => !a.hidden) || [];
+		const updateProfile = async (
+			agentId: string,
+			update: NonNullable<OpenCodeObsidianSettings["agentPermissions"]>[string],
+		) => {
+			const profiles = this.plugin.settings.agentPermissions ?? {};
+			const profile = { ...profiles[agentId], ...update };
+			if (!profile.permissionLevel && !profile.permissionScope?.allowedPaths && !profile.permissionScope?.deniedPaths) {
+				delete profiles[agentId];
+			} else {
+				profiles[agentId] = profile;
+			}
+			this.plugin.settings.agentPermissions = profiles;
+			await this.plugin.debouncedSaveSettings();
+		};
+
+		for (const agent of agents) {
+			const profile = this.plugin.settings.agentPermissions?.[agent.id];
+			const agentLevel = agent.permissionLevel ?? (agent.id === "read-only" ? "read-only" : undefined);
+			const agentSetting = new Setting(containerEl)
+				.setName(agent.name)
+				.setDesc("Allowed paths: glob patterns, one per line. Leave empty to use the agent's own scope.");
+
+			agentSetting.addDropdown((dropdown) => {
+				dropdown
+					.addOption("", agentLevel ? `Agent default (${agentLevel})` : "Agent default (no limit)")
+					.addOption("read-only", "Read-only")
+					.addOption("scoped-write", "Scoped write")
+					.addOption("full-write", "Full write")
+					.setValue(profile?.permissionLevel ?? "")
+					.onChange(async (value) => {
+						await updateProfile(agent.id, {
+							permissionLevel: (value || undefined) as
+								| "read-only"
+								| "scoped-write"
+								| "full-write"
+								| undefined,
+						});
+					});
+			});
+
+			const allowedPathsTextarea = createTextarea({
+				className: "opencode-setting-textarea",
+				placeholder: agent.permissionScope?.allowedPaths?.join("\n") || "notes/**",
+				rows: 2,
+				value: profile?.permissionScope?.allowedPaths?.join("\n") || "",
+				onChange: async (value) => {
+					const paths = splitLines(value);
+					await updateProfile(agent.id, {
+						permissionScope: {
+							...this.plugin.settings.agentPermissions?.[agent.id]?.permissionScope,
+							allowedPaths: paths.length > 0 ? paths : undefined,
+						},
+					});
+				},
+			});
+			agentSetting.controlEl.appendChild(allowedPathsTextarea);
+		}
+	}
+
+	/**
+	 * Render the approval rules remembered from the permission modal, with a button to revoke each
+	 */
+	private renderApprovalRules(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Approval rules").setHeading();
+
+		const store = this.plugin.permissionManager?.getApprovalRules();
+		const rules = store?.list() ?? [];
+		if (!store || rules.length === 0) {
+			containerEl.createEl("p", {
+				text: "No rules yet. Use \"Allow for this session\", \"Allow always\" or \"Always deny\" in a permission request to add one.",
+				cls: "setting-item-description",
+			});
+			return;
+		}
+
+		for (const rule of rules) {
+			new Setting(containerEl)
+				.setName(describeApprovalRule(rule))
+				.setDesc(`Added ${new Date(rule.createdAt).toLocaleString()}`)
+				.addExtraButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("Revoke")
+						.onClick(async () => {
+							await store.remove(rule.id);
+							this.display();
+							new Notice("Approval rule revoked");
+						});
+				});
+		}
+	}
+
+	/**
+	 * Render per-session rate limit and quota configuration
+	 */
+	private renderToolLimits(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Tool limits").setHeading();
+
+		containerEl.createEl("p", {
+			text: "Limit how much a single chat session can do, so a looping agent is stopped. Leave empty for no limit.",
+			cls: "setting-item-description",
+		});
+
+		const limits = this.plugin.settings.toolLimits || {};
+		const addLimit = (
+			name: string,
+			desc: string,
+			key: "callsPerMinute" | "toolCallsPerMinute" | "maxBytesRead" | "maxFilesWritten",
+			placeholder: string,
+		) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) => {
+					const currentValue = limits[key];
+					text.setPlaceholder(placeholder).setValue(
+						currentValue ? currentValue.toString() : "",
+					);
+					text.inputEl.type = "number";
+					text.inputEl.min = "1";
+					text.onChange(async (value: string) => {
+						if (!this.plugin.settings.toolLimits) {
+							this.plugin.settings.toolLimits = {};
+						}
+						const numValue = parseNumber(value, 0, 0);
+						this.plugin.settings.toolLimits[key] =
+							numValue > 0 ? numValue : undefined;
+						await this.plugin.debouncedSaveSettings();
+					});
+				});
+		};
+
+		addLimit(
+			"Calls per minute",
+			"Maximum tool calls per minute in one session, across all tools.",
+			"callsPerMinute",
+			"60",
+		);
+		addLimit(
+			"Calls per minute for each tool",
+			"Maximum calls per minute in one session to any single tool.",
+			"toolCallsPerMinute",
+			"20",
+		);
+		addLimit(
+			"Maximum bytes read",
+			"Total bytes read tools may return in one session.",
+			"maxBytesRead",
+			"5000000",
+		);
+		addLimit(
+			"Maximum files written",
+			"Total files write tools may change in one session.",
+			"maxFilesWritten",
+			"50",
+		);
+
+		// Per-tool overrides, one "tool: limit" per line
+		const overridesSetting = new Setting(containerEl)
+			.setName("Per-tool call limits")
+			.setDesc(
+				"Calls per minute for specific tools, overriding the limit for each tool. One \"tool: limit\" per line.",
+			);
+
+		const overridesTextarea = createTextarea({
+			className: "opencode-setting-textarea",
+			placeholder: "obsidian.search_vault: 10\nobsidian.update_note: 5",
+			rows: 3,
+			value: Object.entries(limits.toolOverrides ?? {})
+				.map(([tool, limit]) => `${tool}: ${limit}`)
+				.join("\n"),
+			onChange: async (value) => {
+				if (!this.plugin.settings.toolLimits) {
+					this.plugin.settings.toolLimits = {};
+				}
+				const overrides: Record<string, number> = {};
+				for (const line of splitLines(value)) {
+					const match = /^(\S+)\s*[:=]\s*(\d+)$/.exec(line);
+					if (match?.[1] && match[2]) {
+						overrides[match[1]] = parseInt(match[2], 10);
+					}
+				}
+				this.plugin.settings.toolLimits.toolOverrides =
+					Object.keys(overrides).length > 0 ? overrides : undefined;
+				await this.plugin.debouncedSaveSettings();
+			},
+		});
+		overridesSetting.controlEl.appendChild(overridesTextarea);
 	}
 
 	/**
@@ -639,6 +869,58 @@ export class OpenCodeObsidianSettingTab extends PluginSettingTab {
 					}
 				});
 		});
+
+		// Attachment limits (binary files read and saved by the attachment tools)
+		const maxAttachmentSizeSetting = new Setting(containerEl);
+		maxAttachmentSizeSetting.setName("Maximum attachment size");
+		// eslint-disable-next-line obsidianmd/ui/sentence-case
+		maxAttachmentSizeSetting.setDesc(
+			"Maximum size in bytes of images and other attachments the agent can read or save. Leave empty for the default of the permission level.",
+		);
+
+		maxAttachmentSizeSetting.addText((text) => {
+			const currentValue = scope.maxAttachmentSize;
+			// eslint-disable-next-line obsidianmd/ui/sentence-case
+			text.setPlaceholder("10485760 (10MB)").setValue(
+				currentValue ? currentValue.toString() : "",
+			);
+			text.inputEl.type = "number";
+			text.inputEl.min = "1";
+			text.onChange(async (value: string) => {
+				if (!this.plugin.settings.permissionScope) {
+					this.plugin.settings.permissionScope = {};
+				}
+				const numValue = parseInt(value.trim(), 10);
+				this.plugin.settings.permissionScope.maxAttachmentSize =
+					value.trim() && !isNaN(numValue) && numValue > 0
+						? numValue
+						: undefined;
+				await this.plugin.debouncedSaveSettings();
+			});
+		});
+
+		const attachmentExtensionsSetting = new Setting(containerEl);
+		attachmentExtensionsSetting.setName("Attachment extensions");
+		// eslint-disable-next-line obsidianmd/ui/sentence-case
+		attachmentExtensionsSetting.setDesc(
+			"Comma-separated list of attachment extensions the agent can read or save (e.g., .png, .jpg, .pdf). Leave empty for the default image, PDF, audio and video types.",
+		);
+
+		attachmentExtensionsSetting.addText((text) => {
+			// eslint-disable-next-line obsidianmd/ui/sentence-case
+			text.setPlaceholder(".png, .jpg, .pdf").setValue(
+				scope.attachmentExtensions?.join(", ") || "",
+			);
+			text.onChange(async (value: string) => {
+				if (!this.plugin.settings.permissionScope) {
+					this.plugin.settings.permissionScope = {};
+				}
+				const extensions = splitCommaList(value).map(normalizeExtension);
+				this.plugin.settings.permissionScope.attachmentExtensions =
+					extensions.length > 0 ? extensions : undefined;
+				await this.plugin.debouncedSaveSettings();
+			});
+		});
 	}
 
 	/**
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ApprovalRuleStore, describeApprovalRule } from './approval-rules'
+
+describe('ApprovalRuleStore', () => {
+	it('should match allow rules only when every path matches, and let deny rules win', async () => {
+		const rules = new ApprovalRuleStore()
+		await rules.add({ decision: 'allow', toolName: 'obsidian.update_note', pathPattern: 'Daily/**' })
+
+		expect(rules.match('obsidian.update_note', ['Daily/2026-10-19.md'])?.decision).toBe('allow')
+		expect(rules.match('obsidian.update_note', ['Daily/2026-10-19.md', 'Projects/plan.md'])).toBeUndefined()
+		expect(rules.match('obsidian.update_note', [])).toBeUndefined()
+		expect(rules.match('obsidian.delete_note', ['Daily/2026-10-19.md'])).toBeUndefined()
+
+		const deny = await rules.add({ decision: 'deny', toolName: 'obsidian.update_note', pathPattern: 'Daily/private/**' })
+		expect(rules.match('obsidian.update_note', ['Daily/private/diary.md'])).toEqual(deny)
+		expect(describeApprovalRule(deny)).toBe('Deny obsidian.update_note on Daily/private/** always')
+	})
+
+	it('should keep session rules in memory and save persistent rules', async () => {
+		const onChange = vi.fn().mockResolvedValue(undefined)
+		const rules = new ApprovalRuleStore([], onChange)
+
+		const sessionRule = await rules.add({ decision: 'allow', toolName: 'obsidian.create_note', sessionId: 'ses_1' })
+		expect(onChange).not.toHaveBeenCalled()
+		expect(rules.match('obsidian.create_note', ['a.md'], 'ses_1')).toEqual(sessionRule)
+		expect(rules.match('obsidian.create_note', ['a.md'], 'ses_2')).toBeUndefined()
+
+		const always = await rules.add({ decision: 'allow', toolName: 'obsidian.create_note', pathPattern: 'Inbox/*' })
+		expect(onChange).toHaveBeenLastCalledWith([always])
+
+		rules.clearSession('ses_1')
+		await rules.remove(always.id)
+		expect(onChange).toHaveBeenLastCalledWith([])
+		expect(rules.list()).toEqual([])
+	})
+})
@@ -0,0 +1,111 @@
+import { minimatch } from 'minimatch'
+
+/**
+ * Approval rules remembered from the permission modal
+ * A matching rule answers a write tool call (or a server permission request) without prompting:
+ * "Allow for this session", "Allow always" for a path pattern, or "Always deny".
+ */
+
+export type ApprovalDecision = 'allow' | 'deny'
+
+export interface ApprovalRule {
+	id: string
+	decision: ApprovalDecision
+	/** Tool the rule applies to */
+	toolName: string
+	/** Glob pattern the call's paths must match (undefined: any path) */
+	pathPattern?: string
+	/** Session the rule is limited to; session rules are kept in memory only */
+	sessionId?: string
+	createdAt: number
+}
+
+export type ApprovalRuleInput = Omit<ApprovalRule, 'id' | 'createdAt'>
+
+/**
+ * Describe a rule for notices, errors and the settings page
+ */
+export function describeApprovalRule(rule: ApprovalRule): string {
+	const action = rule.decision === 'allow' ? 'Allow' : 'Deny'
+	const path = rule.pathPattern ? ` on ${rule.pathPattern}` : ''
+	const scope = rule.sessionId ? ' for this session' : ' always'
+	return `${action} ${rule.toolName}${path}${scope}`
+}
+
+/**
+ * Holds the approval rules and finds the one that applies to a call
+ * Persistent rules are handed to onChange whenever they change, so the caller can save them.
+ */
+export class ApprovalRuleStore {
+	private rules: ApprovalRule[]
+	private sessionRules: ApprovalRule[] = []
+	private onChange?: (rules: ApprovalRule[]) => Promise<void>
+
+	constructor(rules: ApprovalRule[] = [], onChange?: (rules: ApprovalRule[]) => Promise<void>) {
+		this.rules = [...rules]
+		this.onChange = onChange
+	}
+
+	/**
+	 * All rules: persistent rules first, then session rules
+	 */
+	list(): ApprovalRule[] {
+		return [...this.rules, ...this.sessionRules]
+	}
+
+	/**
+	 * Find the rule that decides a call, if any
+	 * Deny rules win over allow rules. A deny rule matches if any path matches its pattern;
+	 * an allow rule with a pattern only matches if the call has paths and all of them match.
+	 */
+	match(toolName: string, paths: string[], sessionId?: string): ApprovalRule | undefined {
+		const candidates = this.list().filter(rule =>
+			rule.toolName === toolName && (!rule.sessionId || rule.sessionId === sessionId)
+		)
+		const pattern = (rule: ApprovalRule) => rule.pathPattern ?? ''
+
+		return candidates.find(rule =>
+			rule.decision === 'deny' && (!rule.pathPattern || paths.some(path => minimatch(path, pattern(rule))))
+		) ?? candidates.find(rule =>
+			rule.decision === 'allow' &&
+			(!rule.pathPattern || (paths.length > 0 && paths.every(path => minimatch(path, pattern(rule)))))
+		)
+	}
+
+	/**
+	 * Add a rule (a rule with a session ID is only kept until the session ends)
+	 */
+	async add(input: ApprovalRuleInput): Promise<ApprovalRule> {
+		const rule: ApprovalRule = {
+			...input,
+			id: `rule_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+			createdAt: Date.now()
+		}
+		if (rule.sessionId) {
+			this.sessionRules.push(rule)
+		} else {
+			this.rules.push(rule)
+			await this.onChange?.([...this.rules])
+		}
+		return rule
+	}
+
+	/**
+	 * Revoke a rule
+	 */
+	async remove(id: string): Promise<void> {
+		this.sessionRules = this.sessionRules.filter(rule => rule.id !== id)
+		const remaining = this.rules.filter(rule => rule.id !== id)
+		if (remaining.length !== this.rules.length) {
+			this.rules = remaining
+			await this.onChange?.([...this.rules])
+		}
+	}
+
+	/**
+	 * Forget the rules of a session that ended
+	 */
+	clearSession(sessionId: string): void {
+		this.sessionRules = this.sessionRules.filter(rule => rule.sessionId !== sessionId)
+	}
+}
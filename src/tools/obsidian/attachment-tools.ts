@@ -0,0 +1,105 @@
+import type { App, Vault } from 'obsidian'
+import { base64ToArrayBuffer } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { getBase64Size, getMimeType, parseBase64Data, resolveAttachmentFileName } from './attachments'
+import type { WriteContext, WritePreview } from './write-context'
+import type { ObsidianSaveAttachmentInput, ObsidianSaveAttachmentOutput } from './types'
+
+/**
+ * Write tool for binary attachments (save_attachment)
+ */
+export class AttachmentTools {
+	private vault: Vault
+	private app: App
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.app = context.app
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Save binary content in the attachment folder configured in Obsidian
+	 */
+	async saveAttachment(
+		input: ObsidianSaveAttachmentInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianSaveAttachmentOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+		const path = await this.resolveAttachmentPath(input)
+
+		return this.context.executeWithAuditLog(
+			'obsidian.save_attachment',
+			sessionId,
+			effectiveCallId,
+			input,
+			'create',
+			path,
+			approved,
+			dryRun,
+			async () => {
+				const { base64, mimeType, size } = await this.prepareAttachment(input, path)
+
+				if (dryRun) {
+					return { path, mimeType, size, saved: false }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.save_attachment', 'create') && !approved) {
+					throw new PermissionPendingError('User approval required for save attachment operation')
+				}
+
+				await this.context.captureSnapshot('obsidian.save_attachment', sessionId, effectiveCallId, [{ path }])
+
+				await this.context.ensureParentFolder(path)
+				const file = await this.vault.createBinary(path, base64ToArrayBuffer(base64))
+				const link = this.app.fileManager.generateMarkdownLink(file, input.sourcePath ?? '')
+				return { path, mimeType, size, saved: true, embed: link.startsWith('!') ? link : `!${link}` }
+			}
+		)
+	}
+
+	/**
+	 * Get a free path for an attachment from Obsidian's attachment folder setting
+	 */
+	async resolveAttachmentPath(input: ObsidianSaveAttachmentInput): Promise<string> {
+		const { mimeType } = parseBase64Data(input.data)
+		const fileName = resolveAttachmentFileName(input.fileName, mimeType)
+		return this.app.fileManager.getAvailablePathForAttachment(fileName, input.sourcePath)
+	}
+
+	/**
+	 * Decode attachment data and check permissions for its path and size (used by execution and preview)
+	 */
+	private async prepareAttachment(
+		input: ObsidianSaveAttachmentInput,
+		path: string
+	): Promise<{ base64: string; mimeType: string; size: number }> {
+		const { base64 } = parseBase64Data(input.data)
+		const size = getBase64Size(base64)
+		const permission = await this.permissionManager.canCreateAttachment(path, size)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+		return { base64, mimeType: getMimeType(path.split('.').pop() ?? ''), size }
+	}
+
+	/**
+	 * Preview where the attachment will be saved, with its type and size
+	 */
+	async preview(input: ObsidianSaveAttachmentInput): Promise<WritePreview> {
+		const path = await this.resolveAttachmentPath(input)
+		const { mimeType, size } = await this.prepareAttachment(input, path)
+		return {
+			newContent: '',
+			mode: 'create',
+			summary: `Save attachment ${path} (${mimeType}, ${size} bytes)`
+		}
+	}
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { getBase64Size, getMimeType, isImageExtension, parseBase64Data, resolveAttachmentFileName } from './attachments'
+
+describe('getMimeType', () => {
+	it('should map attachment extensions to MIME types', () => {
+		expect(getMimeType('PNG')).toBe('image/png')
+		expect(getMimeType('.jpg')).toBe('image/jpeg')
+		expect(getMimeType('zip')).toBe('application/octet-stream')
+		expect(isImageExtension('svg')).toBe(true)
+		expect(isImageExtension('pdf')).toBe(false)
+	})
+})
+
+describe('parseBase64Data', () => {
+	it('should accept plain base64 and data URLs', () => {
+		expect(parseBase64Data('aGVs\nbG8=')).toEqual({ base64: 'aGVsbG8=', mimeType: undefined })
+		expect(parseBase64Data('data:image/PNG;base64,iVBORw0KGgo=')).toEqual({ base64: 'iVBORw0KGgo=', mimeType: 'image/png' })
+	})
+
+	it('should reject data that is not base64', () => {
+		expect(() => parseBase64Data('not base64!')).toThrow('Attachment data must be base64')
+		expect(() => parseBase64Data('abc')).toThrow('Attachment data must be base64')
+		expect(() => parseBase64Data('')).toThrow('Attachment data must be base64')
+	})
+})
+
+describe('getBase64Size', () => {
+	it('should count decoded bytes', () => {
+		expect(getBase64Size('aGVsbG8=')).toBe(5)
+		expect(getBase64Size('aGk=')).toBe(2)
+		expect(getBase64Size('aGVsbG8h')).toBe(6)
+	})
+})
+
+describe('resolveAttachmentFileName', () => {
+	it('should keep extensions and add them from the MIME type', () => {
+		expect(resolveAttachmentFileName('diagram.png')).toBe('diagram.png')
+		expect(resolveAttachmentFileName('diagram', 'image/jpeg')).toBe('diagram.jpg')
+		expect(() => resolveAttachmentFileName('diagram')).toThrow('needs an extension')
+		expect(() => resolveAttachmentFileName('../diagram.png')).toThrow('Invalid attachment file name')
+	})
+})
@@ -0,0 +1,93 @@
+/**
+ * Attachment helpers
+ * MIME types for the binary files Obsidian embeds, and checks on the base64 data agents send.
+ * Encoding and the attachment folder itself are left to Obsidian (base64ToArrayBuffer,
+ * FileManager.getAvailablePathForAttachment), so these stay pure string functions.
+ */
+
+/**
+ * MIME types by lowercase file extension
+ */
+export const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	svg: 'image/svg+xml',
+	bmp: 'image/bmp',
+	avif: 'image/avif',
+	pdf: 'application/pdf',
+	mp3: 'audio/mpeg',
+	wav: 'audio/wav',
+	m4a: 'audio/mp4',
+	ogg: 'audio/ogg',
+	flac: 'audio/flac',
+	mp4: 'video/mp4',
+	webm: 'video/webm',
+	mov: 'video/quicktime'
+}
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)?(?:;[\w-]+=[^;,]*)*;base64,/i
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+
+/**
+ * Get the MIME type for a file extension (with or without the leading dot)
+ */
+export function getMimeType(extension: string): string {
+	return ATTACHMENT_MIME_TYPES[extension.replace(/^\./, '').toLowerCase()] ?? 'application/octet-stream'
+}
+
+/**
+ * Check whether a file extension is an image type
+ */
+export function isImageExtension(extension: string): boolean {
+	return getMimeType(extension).startsWith('image/')
+}
+
+/**
+ * Get the file extension for a MIME type, if it is a known attachment type
+ */
+export function getExtensionForMimeType(mimeType: string): string | undefined {
+	const normalized = mimeType.toLowerCase()
+	return Object.keys(ATTACHMENT_MIME_TYPES).find(extension => ATTACHMENT_MIME_TYPES[extension] === normalized)
+}
+
+/**
+ * Parse attachment data sent as plain base64 or as a data URL (`data:image/png;base64,...`)
+ * Whitespace is ignored, so wrapped base64 is accepted.
+ */
+export function parseBase64Data(data: string): { base64: string; mimeType?: string } {
+	const match = DATA_URL_PATTERN.exec(data.trimStart())
+	const base64 = (match ? data.trimStart().slice(match[0].length) : data).replace(/\s+/g, '')
+	if (!base64 || base64.length % 4 !== 0 || !BASE64_PATTERN.test(base64)) {
+		throw new Error('Attachment data must be base64 or a base64 data URL')
+	}
+	return { base64, mimeType: match?.[1]?.toLowerCase() }
+}
+
+/**
+ * Number of bytes encoded by a base64 string
+ */
+export function getBase64Size(base64: string): number {
+	const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0
+	return (base64.length / 4) * 3 - padding
+}
+
+/**
+ * Check an attachment file name and add the extension of its MIME type if it has none
+ */
+export function resolveAttachmentFileName(fileName: string, mimeType?: string): string {
+	const name = fileName.trim()
+	if (!name || /[\\/]/.test(name)) {
+		throw new Error(`Invalid attachment file name: "${fileName}". Use a file name without folders.`)
+	}
+	if (/\.[^.]+$/.test(name)) {
+		return name
+	}
+	const extension = mimeType ? getExtensionForMimeType(mimeType) : undefined
+	if (!extension) {
+		throw new Error(`Attachment file name "${fileName}" needs an extension`)
+	}
+	return `${name}.${extension}`
+}
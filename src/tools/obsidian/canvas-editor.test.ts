@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { applyCanvasOperations, parseCanvas, serializeCanvas, summarizeCanvas, validateCanvas, type CanvasData } from './canvas-editor'
+
+const canvas: CanvasData = {
+	nodes: [
+		{ id: 'group1', type: 'group', x: 0, y: 0, width: 600, height: 400, label: 'Phase 1' },
+		{ id: 'task1', type: 'text', x: 20, y: 40, width: 250, height: 60, text: 'Write the brief\nwith details' },
+		{ id: 'spec', type: 'file', x: 700, y: 0, width: 400, height: 400, file: 'Projects/Spec.md' }
+	],
+	edges: [
+		{ id: 'edge1', fromNode: 'task1', toNode: 'spec', toEnd: 'arrow' }
+	]
+}
+
+let nextId = 0
+const ids = () => `new${++nextId}`
+
+describe('parseCanvas', () => {
+	it('should parse canvas files and keep unknown properties', () => {
+		const parsed = parseCanvas(JSON.stringify({ ...canvas, metadata: { version: '1.0' } }))
+
+		expect(parsed.nodes).toHaveLength(3)
+		expect((parsed as unknown as Record<string, unknown>).metadata).toEqual({ version: '1.0' })
+		expect(parseCanvas('')).toEqual({ nodes: [], edges: [] })
+	})
+
+	it('should reject invalid JSON and invalid canvases', () => {
+		expect(() => parseCanvas('{"nodes": [')).toThrow('Canvas is not valid JSON')
+		expect(() => parseCanvas(JSON.stringify({ nodes: [{ id: 'a', type: 'text', x: 0, y: 0, width: 10, height: 10 }] })))
+			.toThrow('Invalid canvas: Node a: text nodes need a text string')
+	})
+})
+
+describe('validateCanvas', () => {
+	it('should report duplicate ids, dangling edges and bad values', () => {
+		expect(validateCanvas({
+			nodes: [
+				{ id: 'a', type: 'link', x: 0, y: 0, width: 0, height: 10, url: 'https://example.com', color: 'red' },
+				{ id: 'a', type: 'shape', x: '1', y: 0, width: 10, height: 10 }
+			],
+			edges: [{ id: 'e', fromNode: 'a', toNode: 'missing', toSide: 'middle' }]
+		})).toEqual([
+			'Node a: width and height must be positive',
+			'Node a: color must be "1"-"6" or "#RRGGBB"',
+			'Node a: duplicate id',
+			'Node a: type must be one of text, file, link, group',
+			'Node a: x must be a number',
+			'Edge e: toNode must be the id of an existing node',
+			'Edge e: toSide must be one of top, right, bottom, left'
+		])
+	})
+})
+
+describe('applyCanvasOperations', () => {
+	it('should add nodes with default sizes and connect them', () => {
+		const { canvas: result, changes } = applyCanvasOperations(canvas, [
+			{ action: 'add_node', type: 'text', x: 20, y: 140, text: 'Review' },
+			{ action: 'add_edge', fromNode: 'task1', toNode: 'new1', label: 'then', fromSide: 'bottom', toSide: 'top' }
+		], ids)
+
+		expect(result.nodes[3]).toEqual({ id: 'new1', type: 'text', x: 20, y: 140, width: 250, height: 60, text: 'Review' })
+		expect(result.edges[1]).toEqual({ id: 'new2', fromNode: 'task1', toNode: 'new1', label: 'then', fromSide: 'bottom', toSide: 'top' })
+		expect(changes).toEqual([
+			'Add text node new1 "Review" at (20, 140)',
+			'Connect text node task1 "Write the brief" → text node new1 "Review" "then"'
+		])
+		expect(canvas.nodes).toHaveLength(3)
+	})
+
+	it('should move groups together with their contents', () => {
+		const { canvas: result, changes } = applyCanvasOperations(canvas, [{ action: 'move_node', id: 'group1', dx: 100, dy: -50 }])
+
+		expect(result.nodes.map(node => [node.id, node.x, node.y])).toEqual([
+			['group1', 100, -50],
+			['task1', 120, -10],
+			['spec', 700, 0]
+		])
+		expect(changes).toEqual(['Move group group1 "Phase 1" with 1 node(s) inside to (100, -50)'])
+	})
+
+	it('should update nodes and remove nodes with their edges', () => {
+		const { canvas: result, changes } = applyCanvasOperations(canvas, [
+			{ action: 'update_node', id: 'spec', subpath: '#Goals', color: '4' },
+			{ action: 'remove_node', id: 'task1' }
+		])
+
+		expect(result.nodes.find(node => node.id === 'spec')).toMatchObject({ subpath: '#Goals', color: '4' })
+		expect(result.edges).toEqual([])
+		expect(changes[1]).toBe('Remove text node task1 "Write the brief" and 1 edge(s)')
+	})
+
+	it('should reject operations that do not fit the canvas', () => {
+		expect(() => applyCanvasOperations(canvas, [{ action: 'update_node', id: 'spec', text: 'x' }]))
+			.toThrow('Operation 1 (update_node): text can only be set on text nodes')
+		expect(() => applyCanvasOperations(canvas, [{ action: 'add_edge', fromNode: 'task1', toNode: 'nope' }]))
+			.toThrow('Node not found: nope')
+		expect(() => applyCanvasOperations(canvas, [{ action: 'add_node', id: 'spec', type: 'link', x: 0, y: 0, url: 'https://example.com' }]))
+			.toThrow('id spec is already in use')
+		expect(() => applyCanvasOperations(canvas, [{ action: 'add_node', type: 'file', x: 0, y: 0 }]))
+			.toThrow('file nodes need a file path')
+	})
+})
+
+describe('serializeCanvas and summarizeCanvas', () => {
+	it('should write tab-indented JSON and count nodes by type', () => {
+		expect(serializeCanvas({ nodes: [], edges: [] })).toBe('{\n\t"nodes": [],\n\t"edges": []\n}')
+		expect(summarizeCanvas(canvas)).toBe('3 node(s) (1 text, 1 file, 1 group), 1 edge(s)')
+	})
+})
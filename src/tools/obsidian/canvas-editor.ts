@@ -0,0 +1,465 @@
+/**
+ * JSON Canvas (.canvas) parsing, validation and editing
+ * Follows the JSON Canvas 1.0 format used by Obsidian. Properties this module does not know about
+ * (written by other plugins) are kept as they are when a canvas is edited.
+ */
+
+export type CanvasNodeType = 'text' | 'file' | 'link' | 'group'
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left'
+export type CanvasEnd = 'none' | 'arrow'
+
+interface CanvasNodeBase {
+	id: string
+	x: number
+	y: number
+	width: number
+	height: number
+	/** Preset color "1"-"6" or a hex color "#RRGGBB" */
+	color?: string
+}
+
+export interface CanvasTextNode extends CanvasNodeBase {
+	type: 'text'
+	text: string
+}
+
+export interface CanvasFileNode extends CanvasNodeBase {
+	type: 'file'
+	file: string
+	/** Heading or block in the file, starting with # */
+	subpath?: string
+}
+
+export interface CanvasLinkNode extends CanvasNodeBase {
+	type: 'link'
+	url: string
+}
+
+export interface CanvasGroupNode extends CanvasNodeBase {
+	type: 'group'
+	label?: string
+	background?: string
+	backgroundStyle?: 'cover' | 'ratio' | 'repeat'
+}
+
+export type CanvasNode = CanvasTextNode | CanvasFileNode | CanvasLinkNode | CanvasGroupNode
+
+export interface CanvasEdge {
+	id: string
+	fromNode: string
+	fromSide?: CanvasSide
+	fromEnd?: CanvasEnd
+	toNode: string
+	toSide?: CanvasSide
+	toEnd?: CanvasEnd
+	color?: string
+	label?: string
+}
+
+/**
+ * A parsed canvas (nodes are in z-order, first is bottom-most)
+ */
+export interface CanvasData {
+	nodes: CanvasNode[]
+	edges: CanvasEdge[]
+}
+
+/**
+ * Node content and style fields that operations can set
+ */
+interface CanvasNodeFields {
+	width?: number
+	height?: number
+	color?: string
+	text?: string
+	file?: string
+	subpath?: string
+	url?: string
+	label?: string
+}
+
+/**
+ * A single canvas edit
+ */
+export type CanvasOperation =
+	| ({ action: 'add_node'; id?: string; type: CanvasNodeType; x: number; y: number } & CanvasNodeFields)
+	| ({ action: 'update_node'; id: string } & CanvasNodeFields)
+	| { action: 'move_node'; id: string; x?: number; y?: number; dx?: number; dy?: number }
+	| { action: 'remove_node'; id: string }
+	| { action: 'add_edge'; id?: string; fromNode: string; toNode: string; fromSide?: CanvasSide; toSide?: CanvasSide; fromEnd?: CanvasEnd; toEnd?: CanvasEnd; color?: string; label?: string }
+	| { action: 'remove_edge'; id: string }
+
+/**
+ * Result of applying canvas operations
+ */
+export interface CanvasEdit {
+	canvas: CanvasData
+	/** One human-readable line per change */
+	changes: string[]
+}
+
+const NODE_TYPES: CanvasNodeType[] = ['text', 'file', 'link', 'group']
+const SIDES: CanvasSide[] = ['top', 'right', 'bottom', 'left']
+const ENDS: CanvasEnd[] = ['none', 'arrow']
+const BACKGROUND_STYLES = ['cover', 'ratio', 'repeat']
+const COLOR_PATTERN = /^([1-6]|#[0-9a-fA-F]{6})$/
+const MAX_REPORTED_ERRORS = 5
+
+/** Sizes Obsidian uses for new nodes */
+const DEFAULT_NODE_SIZES: Record<CanvasNodeType, { width: number; height: number }> = {
+	text: { width: 250, height: 60 },
+	file: { width: 400, height: 400 },
+	link: { width: 400, height: 400 },
+	group: { width: 400, height: 400 }
+}
+
+/** Fields that only apply to one node type */
+const TYPE_FIELDS: Record<'text' | 'file' | 'subpath' | 'url' | 'label', CanvasNodeType> = {
+	text: 'text',
+	file: 'file',
+	subpath: 'file',
+	url: 'link',
+	label: 'group'
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value)
+}
+
+/**
+ * Generate a node or edge id in the style Obsidian uses (16 hex characters)
+ */
+export function generateCanvasId(): string {
+	let id = ''
+	for (let index = 0; index < 16; index++) {
+		id += Math.floor(Math.random() * 16).toString(16)
+	}
+	return id
+}
+
+/**
+ * Check a value against the JSON Canvas format
+ * @returns Problems found (empty if the canvas is valid)
+ */
+export function validateCanvas(data: unknown): string[] {
+	if (!isRecord(data)) {
+		return ['Canvas must be a JSON object']
+	}
+	const errors: string[] = []
+	const nodes = data.nodes ?? []
+	const edges = data.edges ?? []
+	if (!Array.isArray(nodes)) errors.push('"nodes" must be an array')
+	if (!Array.isArray(edges)) errors.push('"edges" must be an array')
+	if (errors.length > 0) return errors
+
+	const checkColor = (label: string, color: unknown) => {
+		if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+			errors.push(`${label}: color must be "1"-"6" or "#RRGGBB"`)
+		}
+	}
+
+	const nodeIds = new Set<string>()
+	;(nodes as unknown[]).forEach((node, index) => {
+		if (!isRecord(node)) {
+			errors.push(`Node ${index}: must be an object`)
+			return
+		}
+		const label = typeof node.id === 'string' && node.id ? `Node ${node.id}` : `Node ${index}`
+		if (typeof node.id !== 'string' || !node.id) {
+			errors.push(`${label}: id must be a non-empty string`)
+		} else if (nodeIds.has(node.id)) {
+			errors.push(`${label}: duplicate id`)
+		} else {
+			nodeIds.add(node.id)
+		}
+		if (!NODE_TYPES.includes(node.type as CanvasNodeType)) {
+			errors.push(`${label}: type must be one of ${NODE_TYPES.join(', ')}`)
+		}
+		for (const key of ['x', 'y', 'width', 'height']) {
+			if (!isFiniteNumber(node[key])) {
+				errors.push(`${label}: ${key} must be a number`)
+			}
+		}
+		if ((isFiniteNumber(node.width) && node.width <= 0) || (isFiniteNumber(node.height) && node.height <= 0)) {
+			errors.push(`${label}: width and height must be positive`)
+		}
+		checkColor(label, node.color)
+		if (node.type === 'text' && typeof node.text !== 'string') {
+			errors.push(`${label}: text nodes need a text string`)
+		}
+		if (node.type === 'file') {
+			if (typeof node.file !== 'string' || !node.file) {
+				errors.push(`${label}: file nodes need a file path`)
+			}
+			if (node.subpath !== undefined && (typeof node.subpath !== 'string' || !node.subpath.startsWith('#'))) {
+				errors.push(`${label}: subpath must start with #`)
+			}
+		}
+		if (node.type === 'link' && (typeof node.url !== 'string' || !node.url)) {
+			errors.push(`${label}: link nodes need a url`)
+		}
+		if (node.type === 'group') {
+			if (node.label !== undefined && typeof node.label !== 'string') {
+				errors.push(`${label}: label must be a string`)
+			}
+			if (node.backgroundStyle !== undefined && !BACKGROUND_STYLES.includes(node.backgroundStyle as string)) {
+				errors.push(`${label}: backgroundStyle must be one of ${BACKGROUND_STYLES.join(', ')}`)
+			}
+		}
+	})
+
+	const edgeIds = new Set<string>()
+	;(edges as unknown[]).forEach((edge, index) => {
+		if (!isRecord(edge)) {
+			errors.push(`Edge ${index}: must be an object`)
+			return
+		}
+		const label = typeof edge.id === 'string' && edge.id ? `Edge ${edge.id}` : `Edge ${index}`
+		if (typeof edge.id !== 'string' || !edge.id) {
+			errors.push(`${label}: id must be a non-empty string`)
+		} else if (edgeIds.has(edge.id)) {
+			errors.push(`${label}: duplicate id`)
+		} else {
+			edgeIds.add(edge.id)
+		}
+		for (const key of ['fromNode', 'toNode']) {
+			if (typeof edge[key] !== 'string' || !nodeIds.has(edge[key])) {
+				errors.push(`${label}: ${key} must be the id of an existing node`)
+			}
+		}
+		for (const key of ['fromSide', 'toSide']) {
+			if (edge[key] !== undefined && !SIDES.includes(edge[key] as CanvasSide)) {
+				errors.push(`${label}: ${key} must be one of ${SIDES.join(', ')}`)
+			}
+		}
+		for (const key of ['fromEnd', 'toEnd']) {
+			if (edge[key] !== undefined && !ENDS.includes(edge[key] as CanvasEnd)) {
+				errors.push(`${label}: ${key} must be one of ${ENDS.join(', ')}`)
+			}
+		}
+		if (edge.label !== undefined && typeof edge.label !== 'string') {
+			errors.push(`${label}: label must be a string`)
+		}
+		checkColor(label, edge.color)
+	})
+
+	return errors
+}
+
+/**
+ * Throw if a canvas is not valid, listing the first few problems
+ */
+function assertValidCanvas(data: unknown): void {
+	const errors = validateCanvas(data)
+	if (errors.length > 0) {
+		const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : ''
+		throw new Error(`Invalid canvas: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}${more}`)
+	}
+}
+
+/**
+ * Parse and validate canvas file content (an empty file is an empty canvas)
+ */
+export function parseCanvas(content: string): CanvasData {
+	if (!content.trim()) {
+		return { nodes: [], edges: [] }
+	}
+	let data: unknown
+	try {
+		data = JSON.parse(content)
+	} catch (error) {
+		throw new Error(`Canvas is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+	}
+	assertValidCanvas(data)
+	const canvas = data as Partial<CanvasData>
+	return { ...canvas, nodes: canvas.nodes ?? [], edges: canvas.edges ?? [] }
+}
+
+/**
+ * Serialize a canvas the way Obsidian writes it (tab-indented JSON)
+ */
+export function serializeCanvas(canvas: CanvasData): string {
+	return JSON.stringify(canvas, null, '\t')
+}
+
+/**
+ * Describe a node for change lists and previews
+ */
+export function describeNode(node: CanvasNode): string {
+	switch (node.type) {
+		case 'text': {
+			const firstLine = node.text.split('\n').find(line => line.trim())?.trim() ?? ''
+			return `text node ${node.id} "${firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine}"`
+		}
+		case 'file':
+			return `file node ${node.id} (${node.file}${node.subpath ?? ''})`
+		case 'link':
+			return `link node ${node.id} (${node.url})`
+		case 'group':
+			return `group ${node.id}${node.label ? ` "${node.label}"` : ''}`
+	}
+}
+
+/**
+ * Summarize a canvas as node and edge counts
+ */
+export function summarizeCanvas(canvas: CanvasData): string {
+	const counts = NODE_TYPES
+		.map(type => [type, canvas.nodes.filter(node => node.type === type).length] as const)
+		.filter(([, count]) => count > 0)
+		.map(([type, count]) => `${count} ${type}`)
+	const nodes = `${canvas.nodes.length} node(s)${counts.length > 0 ? ` (${counts.join(', ')})` : ''}`
+	return `${nodes}, ${canvas.edges.length} edge(s)`
+}
+
+/**
+ * Check that type-specific fields are only set on nodes of that type
+ */
+function checkFieldsForType(fields: CanvasNodeFields, type: CanvasNodeType): void {
+	for (const [field, fieldType] of Object.entries(TYPE_FIELDS)) {
+		if (fields[field as keyof typeof TYPE_FIELDS] !== undefined && fieldType !== type) {
+			throw new Error(`${field} can only be set on ${fieldType} nodes`)
+		}
+	}
+}
+
+/**
+ * Copy the node content and style fields that are set in an operation
+ */
+function pickNodeFields(operation: CanvasNodeFields): CanvasNodeFields {
+	const fields: CanvasNodeFields = {}
+	for (const key of ['width', 'height', 'color', 'text', 'file', 'subpath', 'url', 'label'] as const) {
+		if (operation[key] !== undefined) {
+			(fields as Record<string, unknown>)[key] = operation[key]
+		}
+	}
+	return fields
+}
+
+/**
+ * Whether a node lies entirely inside a group
+ */
+function isInside(node: CanvasNode, group: CanvasNode): boolean {
+	return node.x >= group.x && node.y >= group.y
+		&& node.x + node.width <= group.x + group.width
+		&& node.y + node.height <= group.y + group.height
+}
+
+/**
+ * Apply operations in order to a copy of a canvas, validating the result
+ * Moving a group also moves the nodes inside it, as dragging it in Obsidian does.
+ * Removing a node also removes its edges.
+ */
+export function applyCanvasOperations(
+	original: CanvasData,
+	operations: CanvasOperation[],
+	generateId: () => string = generateCanvasId
+): CanvasEdit {
+	const canvas = JSON.parse(JSON.stringify(original)) as CanvasData
+	const changes: string[] = []
+	const uniqueId = (requested: string | undefined, taken: Array<{ id: string }>): string => {
+		if (requested !== undefined) {
+			if (taken.some(item => item.id === requested)) {
+				throw new Error(`id ${requested} is already in use`)
+			}
+			return requested
+		}
+		let id = generateId()
+		while (taken.some(item => item.id === id)) {
+			id = generateId()
+		}
+		return id
+	}
+	const findNode = (id: string): CanvasNode => {
+		const node = canvas.nodes.find(candidate => candidate.id === id)
+		if (!node) {
+			throw new Error(`Node not found: ${id}`)
+		}
+		return node
+	}
+
+	operations.forEach((operation, index) => {
+		try {
+			switch (operation.action) {
+				case 'add_node': {
+					checkFieldsForType(operation, operation.type)
+					const node = {
+						id: uniqueId(operation.id, canvas.nodes),
+						type: operation.type,
+						x: operation.x,
+						y: operation.y,
+						...DEFAULT_NODE_SIZES[operation.type],
+						...(operation.type === 'text' ? { text: '' } : {}),
+						...pickNodeFields(operation)
+					} as CanvasNode
+					// Groups go below existing nodes so they do not cover them
+					if (node.type === 'group') {
+						canvas.nodes.unshift(node)
+					} else {
+						canvas.nodes.push(node)
+					}
+					changes.push(`Add ${describeNode(node)} at (${node.x}, ${node.y})`)
+					break
+				}
+				case 'update_node': {
+					const node = findNode(operation.id)
+					checkFieldsForType(operation, node.type)
+					const fields = pickNodeFields(operation)
+					Object.assign(node, fields)
+					changes.push(`Update ${describeNode(node)}: ${Object.keys(fields).join(', ') || 'no changes'}`)
+					break
+				}
+				case 'move_node': {
+					const node = findNode(operation.id)
+					const dx = (operation.x ?? node.x + (operation.dx ?? 0)) - node.x
+					const dy = (operation.y ?? node.y + (operation.dy ?? 0)) - node.y
+					const moved = node.type === 'group'
+						? canvas.nodes.filter(candidate => candidate === node || isInside(candidate, node))
+						: [node]
+					for (const target of moved) {
+						target.x += dx
+						target.y += dy
+					}
+					const contents = moved.length > 1 ? ` with ${moved.length - 1} node(s) inside` : ''
+					changes.push(`Move ${describeNode(node)}${contents} to (${node.x}, ${node.y})`)
+					break
+				}
+				case 'remove_node': {
+					const node = findNode(operation.id)
+					const edges = canvas.edges.filter(edge => edge.fromNode === node.id || edge.toNode === node.id)
+					canvas.nodes = canvas.nodes.filter(candidate => candidate !== node)
+					canvas.edges = canvas.edges.filter(edge => !edges.includes(edge))
+					changes.push(`Remove ${describeNode(node)}${edges.length > 0 ? ` and ${edges.length} edge(s)` : ''}`)
+					break
+				}
+				case 'add_edge': {
+					const from = findNode(operation.fromNode)
+					const to = findNode(operation.toNode)
+					const { action: _action, id, ...fields } = operation
+					const edge: CanvasEdge = { id: uniqueId(id, canvas.edges), ...fields }
+					canvas.edges.push(edge)
+					changes.push(`Connect ${describeNode(from)} → ${describeNode(to)}${edge.label ? ` "${edge.label}"` : ''}`)
+					break
+				}
+				case 'remove_edge': {
+					const edge = canvas.edges.find(candidate => candidate.id === operation.id)
+					if (!edge) {
+						throw new Error(`Edge not found: ${operation.id}`)
+					}
+					canvas.edges = canvas.edges.filter(candidate => candidate !== edge)
+					changes.push(`Remove edge ${edge.id} (${edge.fromNode} → ${edge.toNode})`)
+					break
+				}
+			}
+		} catch (error) {
+			throw new Error(`Operation ${index + 1} (${operation.action}): ${error instanceof Error ? error.message : String(error)}`)
+		}
+	})
+
+	assertValidCanvas(canvas)
+	return { canvas, changes }
+}
@@ -0,0 +1,151 @@
+import type { TFile, Vault } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { applyCanvasOperations, parseCanvas, serializeCanvas, summarizeCanvas, type CanvasData, type CanvasEdit } from './canvas-editor'
+import { isTFile, redactOutputSecrets, type WriteContext, type WritePreview } from './write-context'
+import type { ObsidianUpdateCanvasInput, ObsidianUpdateCanvasOutput } from './types'
+
+/**
+ * Write tool for canvas files (update_canvas)
+ */
+export class CanvasTools {
+	private vault: Vault
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Edit the nodes and edges of a canvas file
+	 */
+	async updateCanvas(
+		input: ObsidianUpdateCanvasInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdateCanvasOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+		const operation = isTFile(this.vault.getAbstractFileByPath(input.path)) ? 'modify' : 'create'
+
+		return this.context.executeWithAuditLog(
+			'obsidian.update_canvas',
+			sessionId,
+			effectiveCallId,
+			input,
+			operation,
+			input.path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, originalContent, edit } = await this.prepareCanvasUpdate(input)
+				const newContent = serializeCanvas(edit.canvas)
+				const result = {
+					path: input.path,
+					created: file === null,
+					...this.redactCanvasOutput(newContent, edit)
+				}
+
+				if (dryRun) {
+					return { ...result, updated: false }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.update_canvas', operation) && !approved) {
+					throw new PermissionPendingError('User approval required for update canvas operation')
+				}
+
+				await this.context.checkPreviewVersion(effectiveCallId, input.path)
+				await this.context.captureSnapshot('obsidian.update_canvas', sessionId, effectiveCallId, [{ path: input.path }])
+
+				if (!file) {
+					await this.context.ensureParentFolder(input.path)
+					await this.vault.create(input.path, newContent)
+					return { ...result, updated: true }
+				}
+
+				// Keep the previewed result (and its generated ids) unless the canvas changed since it was read
+				let applied = edit
+				let written = newContent
+				await this.vault.process(file, current => {
+					if (current === originalContent) {
+						return newContent
+					}
+					applied = applyCanvasOperations(parseCanvas(current), input.operations)
+					written = serializeCanvas(applied.canvas)
+					return written
+				})
+
+				return { ...result, updated: true, ...this.redactCanvasOutput(written, applied) }
+			}
+		)
+	}
+
+	/**
+	 * Changes, summary, nodes and edges of an update_canvas output, with secrets in cards and links redacted
+	 */
+	private redactCanvasOutput(content: string, edit: CanvasEdit): Pick<ObsidianUpdateCanvasOutput, 'changes' | 'summary' | 'nodes' | 'edges'> {
+		const canvas: CanvasData = {
+			...edit.canvas,
+			nodes: edit.canvas.nodes.map(node => node.type === 'text'
+				? { ...node, text: redactOutputSecrets(node.text, content) }
+				: node.type === 'link'
+					? { ...node, url: redactOutputSecrets(node.url, content) }
+					: node)
+		}
+		return {
+			changes: edit.changes.map(change => redactOutputSecrets(change, content)),
+			summary: summarizeCanvas(canvas),
+			nodes: canvas.nodes,
+			edges: canvas.edges
+		}
+	}
+
+	/**
+	 * Check permissions and apply canvas operations in memory (used by execution and preview)
+	 */
+	private async prepareCanvasUpdate(
+		input: ObsidianUpdateCanvasInput
+	): Promise<{ file: TFile | null; originalContent?: string; edit: CanvasEdit }> {
+		if (!input.path.toLowerCase().endsWith('.canvas')) {
+			throw new Error(`Not a canvas file: ${input.path}`)
+		}
+
+		const existing = this.vault.getAbstractFileByPath(input.path)
+		const file = isTFile(existing) ? existing : null
+		const permission = file
+			? await this.permissionManager.canModify(input.path)
+			: await this.permissionManager.canCreate(input.path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+		if (!file && !input.create) {
+			throw new Error(`File not found: ${input.path}. Use create=true to create a new canvas.`)
+		}
+
+		const originalContent = file ? await this.vault.read(file) : undefined
+		const edit = applyCanvasOperations(parseCanvas(originalContent ?? ''), input.operations)
+		return { file, originalContent, edit }
+	}
+
+	/**
+	 * Preview the canvas after the operations, with a summary of each change
+	 */
+	async preview(input: ObsidianUpdateCanvasInput): Promise<WritePreview> {
+		const { file, originalContent, edit } = await this.prepareCanvasUpdate(input)
+		const before = originalContent !== undefined ? summarizeCanvas(parseCanvas(originalContent)) : 'new canvas'
+		return {
+			originalContent,
+			newContent: serializeCanvas(edit.canvas),
+			mode: 'canvas',
+			summary: [
+				`${file ? 'Update' : 'Create'} canvas: ${before} → ${summarizeCanvas(edit.canvas)}`,
+				'',
+				...edit.changes.map(change => `- ${change}`)
+			].join('\n')
+		}
+	}
+}
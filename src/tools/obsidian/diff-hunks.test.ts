@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { applyHunks, computeHunks, describeHunkSelection } from './diff-hunks'
+
+const original = ['# Plan', 'Buy milk', 'Call Bob', 'Fix bike', 'Read book'].join('\n')
+const proposed = ['# Plan', 'Buy oat milk', 'Call Bob', 'Read book', 'Water plants'].join('\n')
+
+describe('computeHunks', () => {
+	it('should split a change into runs of changed lines', () => {
+		expect(computeHunks(original, proposed)).toEqual([
+			{ hunk: 1, oldStart: 1, removed: ['Buy milk'], added: ['Buy oat milk'] },
+			{ hunk: 2, oldStart: 3, removed: ['Fix bike'], added: [] },
+			{ hunk: 3, oldStart: 5, removed: [], added: ['Water plants'] }
+		])
+		expect(computeHunks(original, original)).toEqual([])
+	})
+})
+
+describe('applyHunks', () => {
+	it('should write only the kept hunks, with the user\'s edits', () => {
+		const hunks = computeHunks(original, proposed)
+
+		expect(applyHunks(original, hunks, hunks.map(() => ({ accepted: true }))).content).toBe(proposed)
+
+		const selection = applyHunks(original, hunks, [
+			{ accepted: true },
+			{ accepted: false },
+			{ accepted: true, editedText: 'Water plants\nFeed cat' }
+		])
+		expect(selection.content).toBe(['# Plan', 'Buy oat milk', 'Call Bob', 'Fix bike', 'Read book', 'Water plants', 'Feed cat'].join('\n'))
+		expect(selection).toMatchObject({ total: 3, accepted: [1, 3], edited: [3], rejected: [2] })
+		expect(describeHunkSelection(selection)).toBe('Kept 2 of 3 hunks (1, 3); edited hunk 3; rejected hunk 2')
+
+		const none = applyHunks(original, hunks, [])
+		expect(none.content).toBe(original)
+		expect(describeHunkSelection(none)).toBe('Kept 0 of 3 hunks; rejected hunks 1, 2, 3')
+	})
+})
@@ -0,0 +1,127 @@
+/**
+ * Line-based diff hunks for reviewing a proposed change piece by piece
+ * The permission modal shows an update's result as hunks the user can keep, reject or edit,
+ * and only the kept hunks are written.
+ */
+
+import { matchLines } from './three-way-merge'
+
+/**
+ * A run of changed lines between two versions of a note
+ */
+export interface ChangeHunk {
+	/** 1-based hunk number */
+	hunk: number
+	/** 0-based index of the first original line the hunk replaces (or inserts before) */
+	oldStart: number
+	/** Original lines the change removes */
+	removed: string[]
+	/** Lines the change puts in their place */
+	added: string[]
+}
+
+/**
+ * The user's answer for one hunk
+ */
+export interface HunkDecision {
+	accepted: boolean
+	/** Text to write instead of the hunk's added lines, if the user edited them */
+	editedText?: string
+}
+
+/**
+ * Which hunks of a change the user kept, and the content that results
+ */
+export interface HunkSelection {
+	/** Original content with only the kept hunks applied */
+	content: string
+	total: number
+	/** 1-based numbers of the kept, edited and rejected hunks */
+	accepted: number[]
+	edited: number[]
+	rejected: number[]
+}
+
+/**
+ * Split the change from original to proposed into hunks
+ * @throws Error if the versions are too large to compare
+ */
+export function computeHunks(original: string, proposed: string): ChangeHunk[] {
+	const oldLines = original.split('\n')
+	const newLines = proposed.split('\n')
+	const matches = matchLines(oldLines, newLines)
+
+	const hunks: ChangeHunk[] = []
+	let o = 0
+	let n = 0
+	while (o < oldLines.length || n < newLines.length) {
+		// Next original line the proposal keeps
+		let kept = o
+		while (kept < oldLines.length && (matches[kept] ?? -1) < n) {
+			kept++
+		}
+		const newEnd = kept < oldLines.length ? matches[kept] ?? newLines.length : newLines.length
+
+		if (kept === o && newEnd === n) {
+			o++
+			n++
+			continue
+		}
+
+		hunks.push({
+			hunk: hunks.length + 1,
+			oldStart: o,
+			removed: oldLines.slice(o, kept),
+			added: newLines.slice(n, newEnd)
+		})
+		o = kept
+		n = newEnd
+	}
+	return hunks
+}
+
+/**
+ * Apply the kept hunks (with the user's edits) to the original content
+ * Hunks without a decision are rejected.
+ */
+export function applyHunks(original: string, hunks: ChangeHunk[], decisions: HunkDecision[]): HunkSelection {
+	const oldLines = original.split('\n')
+	const lines: string[] = []
+	const selection: Omit<HunkSelection, 'content'> = { total: hunks.length, accepted: [], edited: [], rejected: [] }
+
+	let o = 0
+	hunks.forEach((hunk, index) => {
+		lines.push(...oldLines.slice(o, hunk.oldStart))
+		const decision = decisions[index]
+		if (!decision?.accepted) {
+			selection.rejected.push(hunk.hunk)
+			lines.push(...hunk.removed)
+		} else if (decision.editedText !== undefined && decision.editedText !== hunk.added.join('\n')) {
+			selection.accepted.push(hunk.hunk)
+			selection.edited.push(hunk.hunk)
+			lines.push(...(decision.editedText ? decision.editedText.split('\n') : []))
+		} else {
+			selection.accepted.push(hunk.hunk)
+			lines.push(...hunk.added)
+		}
+		o = hunk.oldStart + hunk.removed.length
+	})
+	lines.push(...oldLines.slice(o))
+
+	return { content: lines.join('\n'), ...selection }
+}
+
+/**
+ * Describe a selection for the agent and the audit log, e.g. "Kept 2 of 3 hunks (1, 3); edited hunk 3; rejected hunk 2"
+ */
+export function describeHunkSelection(selection: HunkSelection): string {
+	const list = (label: string, hunks: number[]) => `${label} hunk${hunks.length === 1 ? '' : 's'} ${hunks.join(', ')}`
+	const parts = [`Kept ${selection.accepted.length} of ${selection.total} hunks${selection.accepted.length ? ` (${selection.accepted.join(', ')})` : ''}`]
+	if (selection.edited.length) {
+		parts.push(list('edited', selection.edited))
+	}
+	if (selection.rejected.length) {
+		parts.push(list('rejected', selection.rejected))
+	}
+	return parts.join('; ')
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { formatYamlValue, updateFrontmatter } from './frontmatter-editor'
+
+const note = [
+	'---',
+	'# Project metadata',
+	'status: draft',
+	'"owner name": Alice',
+	'tags:',
+	'  - project',
+	'  - q4',
+	'aliases: [Roadmap, "Plan, 2026"]',
+	'summary: |',
+	'  First line',
+	'',
+	'  Second paragraph',
+	'---',
+	'# Body',
+	'',
+	'status: not a property'
+].join('\n')
+
+describe('updateFrontmatter', () => {
+	it('should set a property and leave every other line untouched', () => {
+		const result = updateFrontmatter(note, { set: { status: 'active' } })
+
+		expect(result.content).toBe(note.replace('status: draft', 'status: active'))
+		expect(result.changedKeys).toEqual(['status'])
+	})
+
+	it('should keep quoted keys as written', () => {
+		const result = updateFrontmatter(note, { set: { 'owner name': 'Bob' } })
+
+		expect(result.content).toContain('"owner name": Bob')
+	})
+
+	it('should append to block lists without rewriting existing items', () => {
+		const result = updateFrontmatter(note, { append: { tags: ['q4', 'planning'] } })
+
+		expect(result.content).toContain('tags:\n  - project\n  - q4\n  - planning\naliases:')
+		expect(result.changedKeys).toEqual(['tags'])
+	})
+
+	it('should append to flow lists in flow style', () => {
+		const result = updateFrontmatter(note, { append: { aliases: 'Plan, 2026' } })
+		expect(result.changedKeys).toEqual([])
+
+		const appended = updateFrontmatter(note, { append: { aliases: 'Q4 plan' } })
+		expect(appended.content).toContain('aliases: [Roadmap, "Plan, 2026", Q4 plan]')
+	})
+
+	it('should turn scalars into lists when appending', () => {
+		const result = updateFrontmatter(note, { append: { status: 'review' } })
+
+		expect(result.content).toContain('status:\n  - draft\n  - review\n"owner name"')
+	})
+
+	it('should remove properties including their continuation lines', () => {
+		const result = updateFrontmatter(note, { remove: ['summary', 'tags'] })
+
+		expect(result.newFrontmatter).toBe([
+			'# Project metadata',
+			'status: draft',
+			'"owner name": Alice',
+			'aliases: [Roadmap, "Plan, 2026"]'
+		].join('\n'))
+		expect(result.content.endsWith('---\n# Body\n\nstatus: not a property')).toBe(true)
+	})
+
+	it('should create frontmatter when the note has none', () => {
+		const result = updateFrontmatter('# Title\n', { set: { due: '2026-10-31', owners: ['[[Alice]]'] } })
+
+		expect(result.content).toBe('---\ndue: 2026-10-31\nowners:\n  - "[[Alice]]"\n---\n# Title\n')
+		expect(result.originalFrontmatter).toBeUndefined()
+	})
+
+	it('should preserve CRLF line endings', () => {
+		const result = updateFrontmatter('---\r\na: 1\r\n---\r\nBody', { set: { b: 2 } })
+
+		expect(result.content).toBe('---\r\na: 1\r\nb: 2\r\n---\r\nBody')
+	})
+
+	it('should reject conflicting changes and unterminated frontmatter', () => {
+		expect(() => updateFrontmatter(note, { set: { status: 'x' }, remove: ['status'] })).toThrow('cannot be both removed and changed')
+		expect(() => updateFrontmatter('---\na: 1\nBody', { set: { a: 2 } })).toThrow('not terminated')
+	})
+})
+
+describe('formatYamlValue', () => {
+	it('should quote strings that YAML would otherwise reinterpret', () => {
+		expect(formatYamlValue('plain text')).toBe('plain text')
+		expect(formatYamlValue('true')).toBe('"true"')
+		expect(formatYamlValue('42')).toBe('"42"')
+		expect(formatYamlValue('#tag')).toBe('"#tag"')
+		expect(formatYamlValue('key: value')).toBe('"key: value"')
+		expect(formatYamlValue(42)).toBe('42')
+		expect(formatYamlValue(null)).toBe('')
+	})
+})
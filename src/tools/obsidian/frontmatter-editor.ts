@@ -0,0 +1,338 @@
+/**
+ * Line-based frontmatter editing
+ * Changes only the top-level properties it is asked to change and keeps every other line
+ * (comments, key order, quoting, list style, the note body) exactly as written.
+ * Serializing the whole frontmatter with a YAML library would reformat it, which is what we avoid here.
+ */
+
+/**
+ * Property changes to apply to a note's frontmatter
+ */
+export interface PropertyChanges {
+	/** Properties to set (created if missing, replaced if present) */
+	set?: Record<string, unknown>
+	/** Properties to remove */
+	remove?: string[]
+	/** Values to append to list properties (scalars are converted to lists; existing values are not duplicated) */
+	append?: Record<string, unknown>
+}
+
+/**
+ * Result of applying property changes
+ */
+export interface FrontmatterUpdate {
+	/** Full note content after the change */
+	content: string
+	/** Frontmatter YAML before the change (without delimiters), or undefined if the note had none */
+	originalFrontmatter?: string
+	/** Frontmatter YAML after the change (without delimiters) */
+	newFrontmatter: string
+	/** Keys whose lines actually changed */
+	changedKeys: string[]
+}
+
+/**
+ * A top-level frontmatter entry: a key with its continuation lines, or a standalone comment/blank line
+ */
+interface FrontmatterEntry {
+	key: string | null
+	lines: string[]
+}
+
+/**
+ * How a list property is written
+ */
+interface ListStyle {
+	flow: boolean
+	itemIndent: string
+}
+
+const KEY_LINE_PATTERN = /^("[^"]*"|'[^']*'|[^\s#\-"'][^:]*?):(?=\s|$)/
+const LIST_ITEM_PATTERN = /^(\s*)-(?:\s+(.*))?$/
+const DEFAULT_LIST_STYLE: ListStyle = { flow: false, itemIndent: '  ' }
+
+/**
+ * Remove quotes from a YAML key or scalar
+ */
+function unquote(text: string): string {
+	const trimmed = text.trim()
+	if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+		try {
+			return JSON.parse(trimmed) as string
+		} catch {
+			return trimmed.slice(1, -1)
+		}
+	}
+	if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+		return trimmed.slice(1, -1).replace(/''/g, "'")
+	}
+	return trimmed
+}
+
+/**
+ * Whether a string must be quoted to stay a string in YAML
+ */
+function needsQuotes(value: string): boolean {
+	return value === ''
+		|| value !== value.trim()
+		|| value.includes('\n')
+		|| /^[-?:,[\]{}#&*!|>'"%@`]/.test(value)
+		|| /: | #|:$/.test(value)
+		|| /^(true|false|yes|no|on|off|null|~)$/i.test(value)
+		|| /^[-+]?(\d[\d_]*)?\.?\d+(e[-+]?\d+)?$/i.test(value)
+}
+
+/**
+ * Format a value as a YAML scalar (objects are written as JSON, which is valid YAML flow syntax)
+ */
+export function formatYamlValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return ''
+	}
+	if (typeof value === 'number' || typeof value === 'boolean') {
+		return String(value)
+	}
+	if (typeof value === 'string') {
+		return needsQuotes(value) ? JSON.stringify(value) : value
+	}
+	return JSON.stringify(value)
+}
+
+/**
+ * Split the items of a flow sequence (`a, "b, c", d`), respecting quotes and brackets
+ */
+function splitFlowItems(inner: string): string[] {
+	const items: string[] = []
+	let current = ''
+	let quote: string | null = null
+	let depth = 0
+
+	for (const char of inner) {
+		if (quote) {
+			if (char === quote) quote = null
+		} else if (char === '"' || char === "'") {
+			quote = char
+		} else if (char === '[' || char === '{') {
+			depth++
+		} else if (char === ']' || char === '}') {
+			depth--
+		} else if (char === ',' && depth === 0) {
+			items.push(current.trim())
+			current = ''
+			continue
+		}
+		current += char
+	}
+	if (current.trim()) {
+		items.push(current.trim())
+	}
+	return items
+}
+
+/**
+ * Split frontmatter lines into top-level entries
+ */
+function parseEntries(lines: string[]): FrontmatterEntry[] {
+	const entries: FrontmatterEntry[] = []
+	let current: FrontmatterEntry | null = null
+
+	lines.forEach((line, index) => {
+		const keyMatch = KEY_LINE_PATTERN.exec(line)
+		if (keyMatch) {
+			current = { key: unquote(keyMatch[1] ?? ''), lines: [line] }
+			entries.push(current)
+			return
+		}
+
+		const isContinuation = /^\s+\S/.test(line) || LIST_ITEM_PATTERN.test(line)
+		// Blank lines inside block scalars belong to their key; other blank lines stand alone
+		const nextContent = lines.slice(index + 1).find(next => next.trim() !== '')
+		const isInnerBlank = line.trim() === '' && nextContent !== undefined && /^\s+\S/.test(nextContent)
+
+		if (current?.key && (isContinuation || isInnerBlank)) {
+			current.lines.push(line)
+			return
+		}
+
+		current = { key: null, lines: [line] }
+		entries.push(current)
+	})
+
+	return entries
+}
+
+/**
+ * Get the text after `key:` on an entry's first line
+ */
+function getInlineValue(entry: FrontmatterEntry): string {
+	const firstLine = entry.lines[0] ?? ''
+	const match = KEY_LINE_PATTERN.exec(firstLine)
+	return match ? firstLine.slice(match[0].length).trim() : ''
+}
+
+/**
+ * Get the key exactly as written on an entry's first line (keeps quoting)
+ */
+function getRawKey(entry: FrontmatterEntry): string {
+	return KEY_LINE_PATTERN.exec(entry.lines[0] ?? '')?.[1] ?? entry.key ?? ''
+}
+
+/**
+ * Read the items of an entry as written (raw YAML scalars) together with its list style
+ */
+function readListItems(entry: FrontmatterEntry): { items: string[]; style: ListStyle; isBlockList: boolean } {
+	const inlineValue = getInlineValue(entry)
+
+	if (inlineValue.startsWith('[') && inlineValue.endsWith(']')) {
+		return { items: splitFlowItems(inlineValue.slice(1, -1)), style: { flow: true, itemIndent: '' }, isBlockList: false }
+	}
+
+	if (inlineValue === '') {
+		const items: string[] = []
+		let itemIndent: string | null = null
+		for (const line of entry.lines.slice(1)) {
+			const match = LIST_ITEM_PATTERN.exec(line)
+			if (match && (itemIndent === null || match[1] === itemIndent)) {
+				itemIndent = match[1] ?? ''
+				items.push((match[2] ?? '').trim())
+			}
+		}
+		return {
+			items,
+			style: { flow: false, itemIndent: itemIndent ?? DEFAULT_LIST_STYLE.itemIndent },
+			isBlockList: items.length > 0
+		}
+	}
+
+	// Scalar value becomes the first list item
+	return { items: [inlineValue], style: DEFAULT_LIST_STYLE, isBlockList: false }
+}
+
+/**
+ * Format a property as frontmatter lines
+ */
+function formatEntryLines(rawKey: string, value: unknown, style: ListStyle): string[] {
+	if (Array.isArray(value)) {
+		return formatListLines(rawKey, value.map(formatYamlValue), style)
+	}
+	const formatted = formatYamlValue(value)
+	return [formatted ? `${rawKey}: ${formatted}` : `${rawKey}:`]
+}
+
+/**
+ * Format a list property from already formatted items
+ */
+function formatListLines(rawKey: string, items: string[], style: ListStyle): string[] {
+	if (items.length === 0) {
+		return [`${rawKey}: []`]
+	}
+	if (style.flow) {
+		return [`${rawKey}: [${items.join(', ')}]`]
+	}
+	return [`${rawKey}:`, ...items.map(item => `${style.itemIndent}- ${item}`)]
+}
+
+/**
+ * Format a key for a new entry (quoted only if needed)
+ */
+function formatKey(key: string): string {
+	return KEY_LINE_PATTERN.test(`${key}: `) && !key.includes(':') ? key : JSON.stringify(key)
+}
+
+/**
+ * Apply property changes to note content
+ *
+ * @throws Error if a key is both removed and changed, or the frontmatter is not terminated
+ */
+export function updateFrontmatter(content: string, changes: PropertyChanges): FrontmatterUpdate {
+	const eol = content.includes('\r\n') ? '\r\n' : '\n'
+	const lines = content.split(/\r?\n/)
+
+	for (const key of changes.remove ?? []) {
+		if ((changes.set && key in changes.set) || (changes.append && key in changes.append)) {
+			throw new Error(`Property "${key}" cannot be both removed and changed`)
+		}
+	}
+
+	// Locate existing frontmatter
+	let frontmatterLines: string[] = []
+	let bodyLines = lines
+	let hasFrontmatter = false
+	if (lines[0]?.trimEnd() === '---') {
+		const closeIndex = lines.findIndex((line, index) => index > 0 && (line.trimEnd() === '---' || line.trimEnd() === '...'))
+		if (closeIndex === -1) {
+			throw new Error('Frontmatter is not terminated (missing closing ---)')
+		}
+		frontmatterLines = lines.slice(1, closeIndex)
+		bodyLines = lines.slice(closeIndex + 1)
+		hasFrontmatter = true
+	}
+
+	const entries = parseEntries(frontmatterLines)
+	const changedKeys = new Set<string>()
+	const findEntry = (key: string) => entries.find(entry => entry.key === key)
+	const replaceLines = (entry: FrontmatterEntry, newLines: string[]) => {
+		if (newLines.join('\n') !== entry.lines.join('\n')) {
+			entry.lines = newLines
+			changedKeys.add(entry.key ?? '')
+		}
+	}
+
+	for (const [key, value] of Object.entries(changes.set ?? {})) {
+		const entry = findEntry(key)
+		if (entry) {
+			replaceLines(entry, formatEntryLines(getRawKey(entry), value, readListItems(entry).style))
+		} else {
+			entries.push({ key, lines: formatEntryLines(formatKey(key), value, DEFAULT_LIST_STYLE) })
+			changedKeys.add(key)
+		}
+	}
+
+	for (const [key, value] of Object.entries(changes.append ?? {})) {
+		const newItems = (Array.isArray(value) ? value : [value]).map(formatYamlValue)
+		const entry = findEntry(key)
+		if (!entry) {
+			entries.push({ key, lines: formatListLines(formatKey(key), newItems, DEFAULT_LIST_STYLE) })
+			changedKeys.add(key)
+			continue
+		}
+
+		const { items, style, isBlockList } = readListItems(entry)
+		const existing = new Set(items.map(unquote))
+		const additions = newItems.filter(item => !existing.has(unquote(item)))
+		if (additions.length === 0) {
+			continue
+		}
+
+		if (isBlockList) {
+			// Keep existing item lines untouched and add new items after them
+			replaceLines(entry, [...entry.lines, ...additions.map(item => `${style.itemIndent}- ${item}`)])
+		} else {
+			replaceLines(entry, formatListLines(getRawKey(entry), [...items, ...additions], style))
+		}
+	}
+
+	for (const key of changes.remove ?? []) {
+		const index = entries.findIndex(entry => entry.key === key)
+		if (index !== -1) {
+			entries.splice(index, 1)
+			changedKeys.add(key)
+		}
+	}
+
+	const newFrontmatterLines = entries.flatMap(entry => entry.lines)
+	const newFrontmatter = newFrontmatterLines.join(eol)
+	const originalFrontmatter = hasFrontmatter ? frontmatterLines.join(eol) : undefined
+
+	if (changedKeys.size === 0) {
+		return { content, originalFrontmatter, newFrontmatter, changedKeys: [] }
+	}
+
+	const closingDelimiter = hasFrontmatter ? (lines[frontmatterLines.length + 1] ?? '---') : '---'
+	const newContent = ['---', ...newFrontmatterLines, closingDelimiter].join(eol)
+		+ (hasFrontmatter
+			? (bodyLines.length > 0 ? eol + bodyLines.join(eol) : '')
+			: eol + content)
+
+	return { content: newContent, originalFrontmatter, newFrontmatter, changedKeys: Array.from(changedKeys) }
+}
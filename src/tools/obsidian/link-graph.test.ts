@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { LinkGraph, type LinkMaps } from './link-graph'
+
+const links: LinkMaps = {
+	resolvedLinks: {
+		'Index.md': { 'Projects/Alpha.md': 1, 'Projects/Beta.md': 2 },
+		'Projects/Alpha.md': { 'People/Alice.md': 1, 'Projects/Alpha.md': 1 },
+		'Projects/Beta.md': { 'People/Alice.md': 1 },
+		'People/Alice.md': {},
+		'Daily/2026-10-14.md': { 'Projects/Beta.md': 1 },
+		'Secret/Plan.md': { 'Index.md': 1 }
+	},
+	unresolvedLinks: {
+		'Projects/Alpha.md': { 'Future idea': 1 },
+		'Projects/Beta.md': { 'Future idea': 2 }
+	}
+}
+
+const notes = [...Object.keys(links.resolvedLinks), 'Inbox/Loose.md']
+
+describe('LinkGraph', () => {
+	const graph = new LinkGraph(links, { notes, isHidden: path => path.startsWith('Secret/') })
+
+	it('should return the neighborhood with distances and the links between its nodes', () => {
+		const result = graph.neighborhood('Projects/Alpha.md', 1, 'both', 50)
+
+		expect(result.nodes.map(node => [node.path, node.distance])).toEqual([
+			['Projects/Alpha.md', 0],
+			['People/Alice.md', 1],
+			['Index.md', 1]
+		])
+		expect(result.edges).toEqual([
+			{ from: 'Projects/Alpha.md', to: 'People/Alice.md', count: 1 },
+			{ from: 'Index.md', to: 'Projects/Alpha.md', count: 1 }
+		])
+		expect(result.truncated).toBe(false)
+	})
+
+	it('should follow only the requested direction and respect the limit', () => {
+		expect(graph.neighborhood('Projects/Beta.md', 2, 'in', 50).nodes.map(node => node.path)).toEqual([
+			'Projects/Beta.md', 'Index.md', 'Daily/2026-10-14.md'
+		])
+		expect(graph.neighborhood('Index.md', 3, 'out', 2)).toMatchObject({ truncated: true, nodes: [{ path: 'Index.md' }, { path: 'Projects/Alpha.md' }] })
+	})
+
+	it('should find shortest paths and report link directions', () => {
+		const path = graph.shortestPath('Daily/2026-10-14.md', 'Projects/Alpha.md', 'both')
+
+		expect(path).toEqual(['Daily/2026-10-14.md', 'Projects/Beta.md', 'People/Alice.md', 'Projects/Alpha.md'])
+		expect(graph.pathEdges(path ?? [])).toEqual([
+			{ from: 'Daily/2026-10-14.md', to: 'Projects/Beta.md', count: 1 },
+			{ from: 'Projects/Beta.md', to: 'People/Alice.md', count: 1 },
+			{ from: 'Projects/Alpha.md', to: 'People/Alice.md', count: 1 }
+		])
+		expect(graph.shortestPath('Daily/2026-10-14.md', 'Projects/Alpha.md', 'out')).toBeNull()
+	})
+
+	it('should leave hidden notes out entirely', () => {
+		expect(graph.has('Secret/Plan.md')).toBe(false)
+		expect(graph.getNode('Index.md').inlinks).toBe(0)
+	})
+
+	it('should list orphans and hubs', () => {
+		expect(graph.orphans(() => true).map(node => node.path)).toEqual(['Daily/2026-10-14.md', 'Inbox/Loose.md', 'Index.md'])
+		expect(graph.hubs(path => path.startsWith('Projects/') || path.startsWith('People/')).map(node => [node.path, node.inlinks])).toEqual([
+			['Projects/Beta.md', 2],
+			['People/Alice.md', 2],
+			['Projects/Alpha.md', 1]
+		])
+	})
+
+	it('should include unresolved targets when requested', () => {
+		const withUnresolved = new LinkGraph(links, { notes, includeUnresolved: true })
+
+		expect(withUnresolved.getNode('Future idea')).toEqual({ path: 'Future idea', inlinks: 2, outlinks: 0, unresolved: true })
+		expect(withUnresolved.shortestPath('Projects/Alpha.md', 'Projects/Beta.md', 'out')).toBeNull()
+		expect(withUnresolved.orphans(() => true).map(node => node.path)).not.toContain('Future idea')
+	})
+})
@@ -0,0 +1,236 @@
+/**
+ * Link graph over the metadata cache's resolvedLinks/unresolvedLinks maps
+ * Nodes are note paths; with includeUnresolved, unresolved link texts become nodes too.
+ * Used by the graph tool for neighborhoods, shortest paths, orphans and hubs.
+ */
+
+/**
+ * Link maps as provided by the metadata cache (source path to target to link count)
+ */
+export interface LinkMaps {
+	resolvedLinks: Record<string, Record<string, number>>
+	unresolvedLinks: Record<string, Record<string, number>>
+}
+
+/**
+ * Direction in which links are followed
+ */
+export type LinkDirection = 'out' | 'in' | 'both'
+
+/**
+ * A node with its link counts
+ */
+export interface GraphNode {
+	path: string
+	/** Number of distinct notes linking to this node */
+	inlinks: number
+	/** Number of distinct nodes this note links to */
+	outlinks: number
+	/** Hops from the start note (neighborhood and path only) */
+	distance?: number
+	/** Whether this is an unresolved link target rather than a note */
+	unresolved?: boolean
+}
+
+/**
+ * A link between two nodes
+ */
+export interface GraphEdge {
+	from: string
+	to: string
+	/** Number of links from `from` to `to` */
+	count: number
+}
+
+/**
+ * Options for building a graph
+ */
+export interface LinkGraphOptions {
+	/** All note paths, so notes without any links are part of the graph */
+	notes: string[]
+	/** Whether unresolved link targets become nodes */
+	includeUnresolved?: boolean
+	/** Notes to leave out entirely (e.g. outside the permission scope) */
+	isHidden?: (path: string) => boolean
+}
+
+/**
+ * Directed link graph
+ */
+export class LinkGraph {
+	private outgoing: Map<string, Map<string, number>> = new Map()
+	private incoming: Map<string, Map<string, number>> = new Map()
+	private unresolvedNodes: Set<string> = new Set()
+
+	constructor(links: LinkMaps, options: LinkGraphOptions) {
+		const isHidden = options.isHidden ?? (() => false)
+		for (const note of options.notes) {
+			if (!isHidden(note)) {
+				this.addNode(note)
+			}
+		}
+
+		const addLinks = (maps: Record<string, Record<string, number>>, unresolved: boolean) => {
+			for (const [source, targets] of Object.entries(maps)) {
+				if (isHidden(source)) continue
+				this.addNode(source)
+				for (const [target, count] of Object.entries(targets)) {
+					if (target === source || (!unresolved && isHidden(target))) continue
+					if (unresolved) {
+						this.unresolvedNodes.add(target)
+					}
+					this.addNode(target)
+					this.outgoing.get(source)?.set(target, count)
+					this.incoming.get(target)?.set(source, count)
+				}
+			}
+		}
+		addLinks(links.resolvedLinks, false)
+		if (options.includeUnresolved) {
+			addLinks(links.unresolvedLinks, true)
+		}
+	}
+
+	/**
+	 * Check whether a node is in the graph
+	 */
+	has(path: string): boolean {
+		return this.outgoing.has(path)
+	}
+
+	/**
+	 * Get a node with its link counts
+	 */
+	getNode(path: string, distance?: number): GraphNode {
+		return {
+			path,
+			inlinks: this.incoming.get(path)?.size ?? 0,
+			outlinks: this.outgoing.get(path)?.size ?? 0,
+			...(distance !== undefined ? { distance } : {}),
+			...(this.unresolvedNodes.has(path) ? { unresolved: true } : {})
+		}
+	}
+
+	/**
+	 * Get the nodes within `depth` hops of a note, nearest first
+	 * Also returns every link between the returned nodes.
+	 */
+	neighborhood(start: string, depth: number, direction: LinkDirection, limit: number): { nodes: GraphNode[]; edges: GraphEdge[]; truncated: boolean } {
+		const distances = new Map<string, number>([[start, 0]])
+		let frontier = [start]
+		let truncated = false
+
+		for (let distance = 1; distance <= depth && frontier.length > 0 && !truncated; distance++) {
+			const next: string[] = []
+			for (const node of frontier) {
+				for (const neighbor of this.neighbors(node, direction)) {
+					if (distances.has(neighbor)) continue
+					if (distances.size >= limit) {
+						truncated = true
+						break
+					}
+					distances.set(neighbor, distance)
+					next.push(neighbor)
+				}
+				if (truncated) break
+			}
+			frontier = next
+		}
+
+		const nodes = Array.from(distances.entries()).map(([path, distance]) => this.getNode(path, distance))
+		const edges: GraphEdge[] = []
+		for (const from of distances.keys()) {
+			for (const [to, count] of this.outgoing.get(from) ?? []) {
+				if (distances.has(to)) {
+					edges.push({ from, to, count })
+				}
+			}
+		}
+		return { nodes, edges, truncated }
+	}
+
+	/**
+	 * Find a shortest link path between two notes (breadth-first)
+	 * @returns Nodes from start to end, or null if they are not connected
+	 */
+	shortestPath(from: string, to: string, direction: LinkDirection): string[] | null {
+		if (!this.has(from) || !this.has(to)) {
+			return null
+		}
+		const previous = new Map<string, string | null>([[from, null]])
+		let frontier = [from]
+
+		while (frontier.length > 0 && !previous.has(to)) {
+			const next: string[] = []
+			for (const node of frontier) {
+				// Unresolved targets have no outgoing links; only pass through notes
+				if (node !== from && this.unresolvedNodes.has(node)) continue
+				for (const neighbor of this.neighbors(node, direction)) {
+					if (!previous.has(neighbor)) {
+						previous.set(neighbor, node)
+						next.push(neighbor)
+					}
+				}
+			}
+			frontier = next
+		}
+
+		if (!previous.has(to)) {
+			return null
+		}
+		const path: string[] = []
+		for (let node: string | null | undefined = to; node; node = previous.get(node)) {
+			path.unshift(node)
+		}
+		return path
+	}
+
+	/**
+	 * Get the links along a path, in their actual direction
+	 */
+	pathEdges(path: string[]): GraphEdge[] {
+		const edges: GraphEdge[] = []
+		for (let index = 0; index + 1 < path.length; index++) {
+			const a = path[index] ?? ''
+			const b = path[index + 1] ?? ''
+			const forward = this.outgoing.get(a)?.get(b)
+			edges.push(forward !== undefined
+				? { from: a, to: b, count: forward }
+				: { from: b, to: a, count: this.outgoing.get(b)?.get(a) ?? 0 })
+		}
+		return edges
+	}
+
+	/**
+	 * Notes that no other note links to, sorted by path
+	 */
+	orphans(include: (path: string) => boolean): GraphNode[] {
+		return Array.from(this.outgoing.keys())
+			.filter(path => !this.unresolvedNodes.has(path) && include(path) && (this.incoming.get(path)?.size ?? 0) === 0)
+			.sort((a, b) => a.localeCompare(b))
+			.map(path => this.getNode(path))
+	}
+
+	/**
+	 * The most linked nodes (by distinct linking notes), then by outgoing links
+	 */
+	hubs(include: (path: string) => boolean): GraphNode[] {
+		return Array.from(this.outgoing.keys())
+			.filter(path => include(path) && (this.incoming.get(path)?.size ?? 0) > 0)
+			.map(path => this.getNode(path))
+			.sort((a, b) => b.inlinks - a.inlinks || b.outlinks - a.outlinks || a.path.localeCompare(b.path))
+	}
+
+	private addNode(path: string): void {
+		if (!this.outgoing.has(path)) {
+			this.outgoing.set(path, new Map())
+			this.incoming.set(path, new Map())
+		}
+	}
+
+	private neighbors(node: string, direction: LinkDirection): string[] {
+		const out = direction !== 'in' ? Array.from(this.outgoing.get(node)?.keys() ?? []) : []
+		const incoming = direction !== 'out' ? Array.from(this.incoming.get(node)?.keys() ?? []) : []
+		return direction === 'both' ? Array.from(new Set([...out, ...incoming])) : [...out, ...incoming]
+	}
+}
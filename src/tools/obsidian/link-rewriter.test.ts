@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+	applyLinkRewrites,
+	computeNewLinkpath,
+	getRelativePath,
+	replaceLinkTarget
+} from './link-rewriter'
+
+describe('computeNewLinkpath', () => {
+	const base = {
+		oldTargetPath: 'Projects/Old Note.md',
+		newTargetPath: 'Archive/New Note.md',
+		sourcePath: 'Daily/2024-01-01.md',
+		basenameIsUnique: true
+	}
+
+	it('should keep bare-name wikilinks short while the new name is unique', () => {
+		expect(computeNewLinkpath({ ...base, oldLinkpath: 'Old Note', isWikilink: true })).toBe('New Note')
+	})
+
+	it('should fall back to the full path when the new name is ambiguous', () => {
+		expect(computeNewLinkpath({ ...base, oldLinkpath: 'Old Note', isWikilink: true, basenameIsUnique: false }))
+			.toBe('Archive/New Note')
+	})
+
+	it('should keep path-style wikilinks as paths and preserve an explicit extension', () => {
+		expect(computeNewLinkpath({ ...base, oldLinkpath: 'Projects/Old Note', isWikilink: true })).toBe('Archive/New Note')
+		expect(computeNewLinkpath({ ...base, oldLinkpath: 'Old Note.md', isWikilink: true })).toBe('New Note.md')
+	})
+
+	it('should keep vault-absolute markdown links absolute and relative ones relative', () => {
+		expect(computeNewLinkpath({ ...base, oldLinkpath: 'Projects/Old Note.md', isWikilink: false }))
+			.toBe('Archive/New Note.md')
+		expect(computeNewLinkpath({ ...base, oldLinkpath: '../Projects/Old Note.md', isWikilink: false }))
+			.toBe('../Archive/New Note.md')
+	})
+
+	it('should always keep extensions of non-markdown files', () => {
+		expect(computeNewLinkpath({
+			...base,
+			oldLinkpath: 'image.png',
+			oldTargetPath: 'image.png',
+			newTargetPath: 'Attachments/image.png',
+			isWikilink: true
+		})).toBe('image.png')
+	})
+})
+
+describe('replaceLinkTarget', () => {
+	it('should keep subpaths, aliases and embed markers of wikilinks', () => {
+		expect(replaceLinkTarget('[[Old Note#Heading|see here]]', 'New Note')).toBe('[[New Note#Heading|see here]]')
+		expect(replaceLinkTarget('![[Old Note#^block-1]]', 'New Note')).toBe('![[New Note#^block-1]]')
+	})
+
+	it('should encode markdown link paths unless they use angle brackets', () => {
+		expect(replaceLinkTarget('[text](Old%20Note.md#Heading)', 'Archive/New Note.md'))
+			.toBe('[text](Archive/New%20Note.md#Heading)')
+		expect(replaceLinkTarget('[text](<Old Note.md>)', 'New Note.md')).toBe('[text](<New Note.md>)')
+	})
+
+	it('should return null for text that is not a link', () => {
+		expect(replaceLinkTarget('Old Note', 'New Note')).toBeNull()
+	})
+})
+
+describe('applyLinkRewrites', () => {
+	it('should replace links at their offsets', () => {
+		const content = 'See [[A]] and [[A|alias]].'
+		const result = applyLinkRewrites(content, [
+			{ start: 4, end: 9, original: '[[A]]', replacement: '[[B]]' },
+			{ start: 14, end: 25, original: '[[A|alias]]', replacement: '[[B|alias]]' }
+		])
+
+		expect(result).toEqual({ content: 'See [[B]] and [[B|alias]].', applied: 2 })
+	})
+
+	it('should find links whose cached offsets are stale and skip missing ones', () => {
+		const content = 'New line\nSee [[A]].'
+		const result = applyLinkRewrites(content, [
+			{ start: 4, end: 9, original: '[[A]]', replacement: '[[B]]' },
+			{ start: 0, end: 5, original: '[[Gone]]', replacement: '[[Other]]' }
+		])
+
+		expect(result).toEqual({ content: 'New line\nSee [[B]].', applied: 1 })
+	})
+})
+
+describe('relative paths', () => {
+	it('should compute paths between folders', () => {
+		expect(getRelativePath('Daily', 'Projects/Note.md')).toBe('../Projects/Note.md')
+		expect(getRelativePath('', 'Projects/Note.md')).toBe('Projects/Note.md')
+		expect(getRelativePath('Projects', 'Projects/Note.md')).toBe('Note.md')
+	})
+})
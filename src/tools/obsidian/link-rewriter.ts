@@ -0,0 +1,203 @@
+/**
+ * Link rewriting helpers for note rename and move operations
+ * Pure string functions: the executor collects link references from the metadata cache,
+ * these helpers decide what each link should look like after the target (or the linking note) moves.
+ */
+
+/**
+ * A single text replacement inside a note
+ */
+export interface LinkRewrite {
+	/** Start offset of the link text in the note */
+	start: number
+	/** End offset of the link text in the note */
+	end: number
+	/** Link text as currently written (e.g. `[[Old Note|alias]]`) */
+	original: string
+	/** Link text to write instead */
+	replacement: string
+}
+
+/**
+ * Options for computing the link path that should point at a moved file
+ */
+export interface NewLinkpathOptions {
+	/** Link path as written in the note (decoded, without #subpath) */
+	oldLinkpath: string
+	/** Vault path of the target before the move */
+	oldTargetPath: string
+	/** Vault path of the target after the move */
+	newTargetPath: string
+	/** Vault path of the note containing the link (after any move) */
+	sourcePath: string
+	/** Whether the link is a wikilink (`[[...]]`) rather than a markdown link (`[...](...)`) */
+	isWikilink: boolean
+	/** Whether the new file name is unique in the vault, so a bare name resolves to it */
+	basenameIsUnique: boolean
+}
+
+const WIKILINK_PATTERN = /^(!?)\[\[([^\]]*)\]\]$/
+const MARKDOWN_LINK_PATTERN = /^(!?)\[([^\]]*)\]\((<)?([^)>]*?)(>)?(\s+"[^"]*")?\)$/
+
+/**
+ * Split a link target into its path and subpath (`#Heading` or `#^block-id`)
+ */
+export function splitLinkTarget(link: string): { path: string; subpath: string } {
+	const hashIndex = link.indexOf('#')
+	if (hashIndex === -1) {
+		return { path: link, subpath: '' }
+	}
+	return { path: link.slice(0, hashIndex), subpath: link.slice(hashIndex) }
+}
+
+/**
+ * Whether link text is a wikilink or embed (`[[...]]` / `![[...]]`)
+ */
+export function isWikilink(original: string): boolean {
+	return WIKILINK_PATTERN.test(original)
+}
+
+/**
+ * Get the parent folder of a vault path ('' for the vault root)
+ */
+export function getParentFolder(path: string): string {
+	const index = path.lastIndexOf('/')
+	return index === -1 ? '' : path.slice(0, index)
+}
+
+/**
+ * Get the file name of a vault path (with extension)
+ */
+export function getFileName(path: string): string {
+	return path.slice(path.lastIndexOf('/') + 1)
+}
+
+/**
+ * Remove the `.md` extension, which Obsidian omits in links by default
+ */
+function stripMarkdownExtension(path: string): string {
+	return path.toLowerCase().endsWith('.md') ? path.slice(0, -3) : path
+}
+
+/**
+ * Compute a relative path from a folder to a vault path
+ */
+export function getRelativePath(fromFolder: string, toPath: string): string {
+	const fromParts = fromFolder ? fromFolder.split('/') : []
+	const toParts = toPath.split('/')
+
+	let common = 0
+	while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) {
+		common++
+	}
+
+	const upward = fromParts.slice(common).map(() => '..')
+	return [...upward, ...toParts.slice(common)].join('/')
+}
+
+/**
+ * Decode a markdown link URL (`My%20Note.md` -> `My Note.md`), leaving malformed escapes as-is
+ */
+export function decodeLinkpath(linkpath: string): string {
+	try {
+		return decodeURIComponent(linkpath)
+	} catch {
+		return linkpath
+	}
+}
+
+/**
+ * Encode a vault path for use as a markdown link URL
+ */
+function encodeLinkpath(linkpath: string): string {
+	return linkpath.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')
+}
+
+/**
+ * Decide the link path that should point at the file after it moves
+ *
+ * Mirrors Obsidian's own rename behaviour:
+ * - Wikilinks written as a bare name keep using the bare (new) name while it stays unique
+ * - Links written as a vault path keep using the (new) vault path
+ * - Relative markdown links stay relative to the linking note
+ * - The `.md` extension is kept only if the original link had it
+ */
+export function computeNewLinkpath(options: NewLinkpathOptions): string {
+	const { oldLinkpath, oldTargetPath, newTargetPath, sourcePath, basenameIsUnique } = options
+	const keepExtension = oldLinkpath.toLowerCase().endsWith('.md') || !newTargetPath.toLowerCase().endsWith('.md')
+	const format = (path: string) => keepExtension ? path : stripMarkdownExtension(path)
+
+	if (options.isWikilink) {
+		if (!oldLinkpath.includes('/') && basenameIsUnique) {
+			return format(getFileName(newTargetPath))
+		}
+		return format(newTargetPath)
+	}
+
+	// Markdown links: vault-absolute if they were written that way, otherwise relative
+	const oldAbsolute = oldLinkpath.startsWith('/') ? oldLinkpath.slice(1) : oldLinkpath
+	if (format(oldTargetPath) === oldAbsolute || oldTargetPath === oldAbsolute) {
+		return (oldLinkpath.startsWith('/') ? '/' : '') + format(newTargetPath)
+	}
+	return format(getRelativePath(getParentFolder(sourcePath), newTargetPath))
+}
+
+/**
+ * Rewrite the target of a link while keeping its subpath, alias and embed marker
+ *
+ * @returns The new link text, or null if the text is not a recognisable link
+ */
+export function replaceLinkTarget(original: string, newLinkpath: string): string | null {
+	const wikilink = WIKILINK_PATTERN.exec(original)
+	if (wikilink) {
+		const [, embed, inner = ''] = wikilink
+		const pipeIndex = inner.indexOf('|')
+		const target = pipeIndex === -1 ? inner : inner.slice(0, pipeIndex)
+		const alias = pipeIndex === -1 ? '' : inner.slice(pipeIndex)
+		const { subpath } = splitLinkTarget(target)
+		return `${embed}[[${newLinkpath}${subpath}${alias}]]`
+	}
+
+	const markdownLink = MARKDOWN_LINK_PATTERN.exec(original)
+	if (markdownLink) {
+		const [, embed, text, openAngle, url = '', closeAngle, title = ''] = markdownLink
+		const { subpath } = splitLinkTarget(url)
+		const angled = openAngle !== undefined && closeAngle !== undefined
+		const linkpath = angled ? newLinkpath : encodeLinkpath(newLinkpath)
+		return `${embed}[${text}](${angled ? '<' : ''}${linkpath}${subpath}${angled ? '>' : ''}${title})`
+	}
+
+	return null
+}
+
+/**
+ * Apply link rewrites to note content
+ *
+ * Offsets come from the metadata cache and may be stale if the note changed since it was indexed,
+ * so each rewrite is verified against the current text and falls back to the nearest occurrence
+ * of the original link text. Rewrites whose link can no longer be found are skipped.
+ *
+ * @returns The rewritten content and the number of links that were actually replaced
+ */
+export function applyLinkRewrites(content: string, rewrites: LinkRewrite[]): { content: string; applied: number } {
+	let result = content
+	let applied = 0
+
+	// Apply from the end so earlier offsets stay valid
+	const ordered = [...rewrites].sort((a, b) => b.start - a.start)
+	for (const rewrite of ordered) {
+		let start = rewrite.start
+		if (result.slice(start, rewrite.end) !== rewrite.original) {
+			const before = result.lastIndexOf(rewrite.original, rewrite.start)
+			const after = result.indexOf(rewrite.original, rewrite.start)
+			if (before === -1 && after === -1) {
+				continue
+			}
+			start = before === -1 || (after !== -1 && after - rewrite.start < rewrite.start - before) ? after : before
+		}
+		result = result.slice(0, start) + rewrite.replacement + result.slice(start + rewrite.original.length)
+		applied++
+	}
+
+	return { content: result, applied }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { McpToolServer, toMcpToolName } from "./mcp-tool-server";
+import type { McpServerEndpoint } from "../../client/types";
+
+describe("McpToolServer", () => {
+	const tools = [
+		{
+			name: "obsidian.read_note",
+			description: "Read the content of a note file",
+			inputSchema: { type: "object", properties: { path: { type: "string" } } },
+			outputSchema: { type: "object" },
+			permission: "read-only",
+		},
+	];
+	let server: McpToolServer | null = null;
+
+	const post = (endpoint: McpServerEndpoint, body: unknown, headers = endpoint.headers) =>
+		fetch(endpoint.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+			body: JSON.stringify(body),
+		});
+
+	const start = async (callTool = vi.fn().mockResolvedValue({ success: true, result: { content: "hi" } })) => {
+		server = new McpToolServer({ listTools: () => tools, callTool });
+		return { endpoint: await server.start(), callTool };
+	};
+
+	afterEach(async () => {
+		await server?.stop();
+		server = null;
+	});
+
+	it("should name tools without the obsidian namespace", () => {
+		expect(toMcpToolName("obsidian.read_note")).toBe("read_note");
+		expect(toMcpToolName("dataview.query")).toBe("dataview_query");
+	});
+
+	it("should listen on localhost and reject requests without the token", async () => {
+		const { endpoint } = await start();
+
+		expect(endpoint.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+		const response = await post(endpoint, { jsonrpc: "2.0", id: 1, method: "tools/list" }, { Authorization: "Bearer wrong" });
+		expect(response.status).toBe(401);
+	});
+
+	it("should answer the initialize handshake and list the tools", async () => {
+		const { endpoint } = await start();
+
+		const initialize = await post(endpoint, {
+			jsonrpc: "2.0",
+			id: 1,
+			method: "initialize",
+			params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "opencode", version: "1" } },
+		});
+		expect(await initialize.json()).toMatchObject({
+			id: 1,
+			result: { protocolVersion: "2025-06-18", capabilities: { tools: {} } },
+		});
+		expect((await post(endpoint, { jsonrpc: "2.0", method: "notifications/initialized" })).status).toBe(202);
+
+		const list = await post(endpoint, { jsonrpc: "2.0", id: 2, method: "tools/list" });
+		expect(await list.json()).toEqual({
+			jsonrpc: "2.0",
+			id: 2,
+			result: { tools: [{ name: "read_note", description: tools[0]!.description, inputSchema: tools[0]!.inputSchema }] },
+		});
+	});
+
+	it("should run tool calls by registry name and return errors as tool errors", async () => {
+		const { endpoint, callTool } = await start();
+
+		const call = await post(endpoint, {
+			jsonrpc: "2.0",
+			id: 3,
+			method: "tools/call",
+			params: { name: "read_note", arguments: { path: "a.md" } },
+		});
+		expect(callTool).toHaveBeenCalledWith("obsidian.read_note", { path: "a.md" });
+		expect((await call.json()).result).toEqual({ content: [{ type: "text", text: '{"content":"hi"}' }] });
+
+		callTool.mockResolvedValue({ success: false, error: { code: "PERMISSION_DENIED", message: "Permission denied: a.md" } });
+		const denied = await post(endpoint, { jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "read_note", arguments: {} } });
+		expect((await denied.json()).result).toEqual({
+			content: [{ type: "text", text: '{"code":"PERMISSION_DENIED","message":"Permission denied: a.md"}' }],
+			isError: true,
+		});
+
+		const unknown = await post(endpoint, { jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "delete_vault" } });
+		expect((await unknown.json()).result).toMatchObject({ isError: true });
+		expect(callTool).toHaveBeenCalledTimes(2);
+	});
+
+	it("should stop accepting connections when stopped", async () => {
+		const { endpoint } = await start();
+		await server?.stop();
+
+		await expect(post(endpoint, { jsonrpc: "2.0", id: 1, method: "ping" })).rejects.toThrow();
+	});
+});
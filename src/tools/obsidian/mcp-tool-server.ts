@@ -0,0 +1,240 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { ClientToolDefinition, McpServerEndpoint, ToolCallResult } from '../../client/types';
+
+/** MCP protocol version answered when the client asks for one this server does not know */
+const PROTOCOL_VERSION = '2025-03-26';
+const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26', '2025-06-18'];
+
+/** Largest request body accepted (tool input carrying base64 attachments can be large) */
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * What the MCP server offers: the tools to list and how to run one
+ */
+export interface McpToolHandlers {
+	/** Tools to advertise, with registry names */
+	listTools(): ClientToolDefinition[];
+	/** Run a tool by registry name */
+	callTool(name: string, args: unknown): Promise<ToolCallResult>;
+}
+
+interface JsonRpcRequest {
+	jsonrpc: '2.0';
+	id?: string | number | null;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+	jsonrpc: '2.0';
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+/**
+ * Name a registry tool is listed under over MCP
+ * The server prefixes MCP tools with the server's name, so the `obsidian.` namespace is dropped
+ * and characters MCP tool names cannot contain are replaced.
+ */
+export function toMcpToolName(name: string): string {
+	return name.replace(/^obsidian\./, '').replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/**
+ * Minimal Model Context Protocol server (streamable HTTP transport, JSON responses only) for the vault tools.
+ *
+ * The OpenCode Server SDK has no way for a client to provide tools, but it can add MCP servers at runtime.
+ * This serves the registry's tools on a random localhost port; requests must carry the bearer token
+ * generated on start, so other local processes cannot call the tools.
+ *
+ * @example
+ * ```typescript
+ * const server = new McpToolServer({ listTools, callTool });
+ * const endpoint = await server.start(); // Pass to client.addMcpServer()
+ * await server.stop();
+ * ```
+ */
+export class McpToolServer {
+	private server: Server | null = null;
+	private endpoint: McpServerEndpoint | null = null;
+	private starting: Promise<McpServerEndpoint> | null = null;
+
+	/**
+	 * @param handlers - Tools to list and how to run them
+	 */
+	constructor(private handlers: McpToolHandlers) {}
+
+	/**
+	 * Starts listening on a random localhost port, unless already started.
+	 *
+	 * @returns URL and headers the OpenCode Server should use
+	 */
+	async start(): Promise<McpServerEndpoint> {
+		if (this.endpoint) {
+			return this.endpoint;
+		}
+		if (!this.starting) {
+			this.starting = this.listen().finally(() => {
+				this.starting = null;
+			});
+		}
+		return this.starting;
+	}
+
+	/**
+	 * Stops listening. Calls in progress are answered before the connections close.
+	 */
+	async stop(): Promise<void> {
+		const server = this.server;
+		this.server = null;
+		this.endpoint = null;
+		if (server) {
+			await new Promise<void>(resolve => server.close(() => resolve()));
+		}
+	}
+
+	private async listen(): Promise<McpServerEndpoint> {
+		const token = crypto.randomUUID();
+		const server = createServer((request, response) => {
+			void this.handleRequest(request, response, token);
+		});
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(0, '127.0.0.1', () => {
+				server.off('error', reject);
+				resolve();
+			});
+		});
+
+		const { port } = server.address() as AddressInfo;
+		this.server = server;
+		this.endpoint = { url: `http://127.0.0.1:${port}/mcp`, headers: { Authorization: `Bearer ${token}` } };
+		return this.endpoint;
+	}
+
+	private async handleRequest(request: IncomingMessage, response: ServerResponse, token: string): Promise<void> {
+		if (request.headers.authorization !== `Bearer ${token}`) {
+			response.writeHead(401).end();
+			return;
+		}
+		// No server-initiated messages, so there is no event stream to open
+		if (request.method !== 'POST') {
+			response.writeHead(405, { Allow: 'POST' }).end();
+			return;
+		}
+
+		let message: unknown;
+		try {
+			message = JSON.parse(await readBody(request));
+		} catch (error) {
+			const status = error instanceof RangeError ? 413 : 400;
+			this.sendJson(response, status, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+			return;
+		}
+
+		const messages = Array.isArray(message) ? message : [message];
+		const replies: JsonRpcResponse[] = [];
+		for (const entry of messages) {
+			const reply = await this.handleMessage(entry);
+			if (reply) {
+				replies.push(reply);
+			}
+		}
+
+		if (replies.length === 0) {
+			// Only notifications or responses
+			response.writeHead(202).end();
+		} else {
+			this.sendJson(response, 200, Array.isArray(message) ? replies : replies[0]);
+		}
+	}
+
+	private async handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+		const request = message as Partial<JsonRpcRequest> | null;
+		if (typeof request?.method !== 'string') {
+			return null;
+		}
+		const id = request.id;
+		if (id === undefined) {
+			return null;
+		}
+
+		switch (request.method) {
+			case 'initialize': {
+				const requested = request.params?.protocolVersion;
+				return {
+					jsonrpc: '2.0',
+					id,
+					result: {
+						protocolVersion: typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSION,
+						capabilities: { tools: {} },
+						serverInfo: { name: 'obsidian', version: '1.0.0' }
+					}
+				};
+			}
+			case 'ping':
+				return { jsonrpc: '2.0', id, result: {} };
+			case 'tools/list':
+				return {
+					jsonrpc: '2.0',
+					id,
+					result: {
+						tools: this.handlers.listTools().map(tool => ({
+							name: toMcpToolName(tool.name),
+							description: tool.description,
+							inputSchema: tool.inputSchema
+						}))
+					}
+				};
+			case 'tools/call':
+				return { jsonrpc: '2.0', id, result: await this.callTool(request.params ?? {}) };
+			default:
+				return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+		}
+	}
+
+	/**
+	 * Runs a tool call and turns its result into MCP content; failures are reported as tool errors the agent can read
+	 */
+	private async callTool(params: Record<string, unknown>): Promise<unknown> {
+		const tool = this.handlers.listTools().find(candidate => toMcpToolName(candidate.name) === params.name);
+		const result: ToolCallResult = tool
+			? await this.handlers.callTool(tool.name, params.arguments ?? {})
+			: { success: false, error: { code: 'VALIDATION_ERROR', message: `Tool not found: ${String(params.name)}` } };
+
+		if (!result.success) {
+			return { content: [{ type: 'text', text: JSON.stringify(result.error) }], isError: true };
+		}
+		return { content: [{ type: 'text', text: JSON.stringify(result.result ?? null) }] };
+	}
+
+	private sendJson(response: ServerResponse, status: number, body: unknown): void {
+		response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+	}
+}
+
+/**
+ * Reads a request body as text
+ * @throws RangeError if it is larger than MAX_BODY_BYTES
+ */
+function readBody(request: IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		request.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				// Drain the rest so the error response can still be sent
+				request.removeAllListeners('data');
+				request.resume();
+				reject(new RangeError('Request body too large'));
+				return;
+			}
+			chunks.push(chunk);
+		});
+		request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+		request.on('error', reject);
+	});
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { compareNotesBy, evaluateNoteQuery, parseDateRange, parseNoteQuery, type NoteQueryContext } from './note-query'
+
+// Wednesday 2026-10-14 12:00 local time
+const now = new Date(2026, 9, 14, 12).getTime()
+
+function note(overrides: Partial<NoteQueryContext>): NoteQueryContext {
+	return {
+		path: 'Note.md',
+		name: 'Note',
+		tags: [],
+		frontmatter: {},
+		outlinks: [],
+		backlinks: [],
+		mtime: now,
+		ctime: now,
+		size: 100,
+		...overrides
+	}
+}
+
+const project = note({
+	path: 'Projects/Alpha.md',
+	name: 'Alpha',
+	tags: ['project/alpha', 'q4'],
+	frontmatter: { status: 'active', priority: 2, due: '2026-10-31', owners: ['[[Alice]]', '[[Bob]]'] },
+	outlinks: ['Projects/Roadmap.md', 'Unresolved idea'],
+	backlinks: ['Daily/2026-10-13.md'],
+	mtime: new Date(2026, 9, 13, 9).getTime(),
+	ctime: new Date(2026, 5, 1).getTime()
+})
+
+const matches = (query: string, target: NoteQueryContext = project) => evaluateNoteQuery(parseNoteQuery(query), target, now)
+
+describe('parseNoteQuery', () => {
+	it('should parse implicit AND, OR, NOT and parentheses', () => {
+		expect(parseNoteQuery('#project (status = active OR -has:due)')).toEqual({
+			type: 'and',
+			children: [
+				{ type: 'tag', tag: 'project' },
+				{
+					type: 'or',
+					children: [
+						{ type: 'compare', field: 'status', operator: '=', value: 'active' },
+						{ type: 'not', child: { type: 'has', field: 'due' } }
+					]
+				}
+			]
+		})
+	})
+
+	it('should accept quoted and link values', () => {
+		expect(parseNoteQuery('folder:"My Projects" owner = [[Alice]]')).toEqual({
+			type: 'and',
+			children: [
+				{ type: 'folder', folder: 'My Projects' },
+				{ type: 'compare', field: 'owner', operator: '=', value: '[[Alice]]' }
+			]
+		})
+	})
+
+	it('should return null for an empty query', () => {
+		expect(parseNoteQuery('   ')).toBeNull()
+	})
+
+	it('should report syntax errors', () => {
+		expect(() => parseNoteQuery('status active')).toThrow('Expected an operator')
+		expect(() => parseNoteQuery('(#a OR #b')).toThrow('Missing closing parenthesis')
+		expect(() => parseNoteQuery('file.modified > today')).toThrow('Unknown file field')
+		expect(() => parseNoteQuery('title = "open')).toThrow('Unterminated quote')
+	})
+})
+
+describe('evaluateNoteQuery', () => {
+	it('should match tags including nested tags', () => {
+		expect(matches('#project')).toBe(true)
+		expect(matches('tag:#Q4')).toBe(true)
+		expect(matches('#proj')).toBe(false)
+	})
+
+	it('should compare frontmatter values', () => {
+		expect(matches('status = Active AND priority >= 2 AND priority < 10')).toBe(true)
+		expect(matches('status != active')).toBe(false)
+		expect(matches('owners = [[Bob]]')).toBe(true)
+		expect(matches('owners != Carol')).toBe(true)
+		expect(matches('status ~ act')).toBe(true)
+		expect(matches('missing = x')).toBe(false)
+	})
+
+	it('should compare dates as periods', () => {
+		expect(matches('due < 2026-11-01 AND due >= this-month')).toBe(true)
+		expect(matches('due = 2026-10-31')).toBe(true)
+		expect(matches('file.mtime >= this-week')).toBe(true)
+		expect(matches('file.mtime = yesterday')).toBe(true)
+		expect(matches('file.mtime > yesterday')).toBe(false)
+		expect(matches('file.ctime < -3m')).toBe(true)
+		expect(() => matches('file.mtime > soon')).toThrow('Invalid date "soon"')
+	})
+
+	it('should match folders, paths and links', () => {
+		expect(matches('folder:Projects path:**/A*.md')).toBe(true)
+		expect(matches('folder:Proj')).toBe(false)
+		expect(matches('[[Roadmap]] links:"Unresolved idea"')).toBe(true)
+		expect(matches('links:[[Projects/Roadmap|the roadmap]]')).toBe(true)
+		expect(matches('linkedfrom:2026-10-13')).toBe(true)
+		expect(matches('linkedfrom:Roadmap')).toBe(false)
+	})
+
+	it('should match every note for an empty query', () => {
+		expect(evaluateNoteQuery(null, note({}))).toBe(true)
+	})
+})
+
+describe('parseDateRange', () => {
+	it('should resolve weeks from Monday', () => {
+		expect(parseDateRange('this-week', now)).toEqual([new Date(2026, 9, 12).getTime(), new Date(2026, 9, 19).getTime()])
+	})
+
+	it('should return null for non-dates', () => {
+		expect(parseDateRange('active', now)).toBeNull()
+		expect(parseDateRange('2026-10', now)).toBeNull()
+	})
+})
+
+describe('compareNotesBy', () => {
+	it('should sort by property and keep notes without it last', () => {
+		const notes = [
+			note({ path: 'a.md', frontmatter: { priority: 10 } }),
+			note({ path: 'b.md' }),
+			note({ path: 'c.md', frontmatter: { priority: 2 } })
+		]
+
+		expect([...notes].sort((a, b) => compareNotesBy(a, b, 'priority', 'asc')).map(n => n.path)).toEqual(['c.md', 'a.md', 'b.md'])
+		expect([...notes].sort((a, b) => compareNotesBy(a, b, 'priority', 'desc')).map(n => n.path)).toEqual(['a.md', 'c.md', 'b.md'])
+	})
+})
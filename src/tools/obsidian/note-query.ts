@@ -0,0 +1,491 @@
+import { minimatch } from 'minimatch'
+
+/**
+ * Filter language for query_notes
+ *
+ * Conditions (combined with AND - also implicit between conditions -, OR, NOT or `-`, and parentheses):
+ * - `#project`, `tag:project`: note has the tag or a nested tag below it (`#project/alpha`)
+ * - `folder:Projects`: note is in the folder or a subfolder
+ * - `path:Projects/**\/*Plan*`: note path matches the glob
+ * - `[[Roadmap]]`, `links:Roadmap`: note links to the note
+ * - `linkedfrom:Roadmap`: note is linked from the note
+ * - `has:due`: frontmatter property is set
+ * - `status = active`, `priority >= 2`, `due < 2026-11-01`, `title ~ plan`: frontmatter comparisons
+ *   (`=`, `!=`, `<`, `<=`, `>`, `>=`, `~` for contains; list properties match if any item matches)
+ * - `file.mtime >= this-week`, `file.ctime < -30d`, `file.size > 10000`, `file.name ~ draft`: file properties
+ *
+ * Dates are ISO dates or datetimes, `now`, `today`, `yesterday`, `tomorrow`, `this-week` (from Monday),
+ * `this-month`, `this-year`, or relative offsets like `-7d`, `-2w`, `-3m`, `-1y`. A date covers its whole
+ * period, so `= today` matches the whole day and `> yesterday` starts at midnight today.
+ */
+
+/**
+ * Comparison operator
+ */
+export type CompareOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '~'
+
+/**
+ * Parsed filter expression
+ */
+export type QueryNode =
+	| { type: 'and'; children: QueryNode[] }
+	| { type: 'or'; children: QueryNode[] }
+	| { type: 'not'; child: QueryNode }
+	| { type: 'tag'; tag: string }
+	| { type: 'folder'; folder: string }
+	| { type: 'path'; pattern: string }
+	| { type: 'links'; target: string }
+	| { type: 'linkedfrom'; source: string }
+	| { type: 'has'; field: string }
+	| { type: 'compare'; field: string; operator: CompareOperator; value: string }
+
+/**
+ * Note data a query is evaluated against
+ */
+export interface NoteQueryContext {
+	path: string
+	/** File name without extension */
+	name: string
+	/** Tags without `#` (inline and frontmatter) */
+	tags: string[]
+	frontmatter: Record<string, unknown>
+	/** Link targets: resolved note paths and unresolved link texts */
+	outlinks: string[]
+	/** Paths of notes linking to this note */
+	backlinks: string[]
+	mtime: number
+	ctime: number
+	size: number
+}
+
+/**
+ * Lexer token
+ */
+type Token =
+	| { type: 'word' | 'string' | 'link' | 'operator'; value: string }
+	| { type: 'open' | 'close' }
+
+const OPERATORS: CompareOperator[] = ['!=', '<=', '>=', '=', '<', '>', '~']
+const FILE_FIELDS = ['file.path', 'file.name', 'file.folder', 'file.mtime', 'file.ctime', 'file.size']
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Split a query into tokens
+ */
+function lex(query: string): Token[] {
+	const tokens: Token[] = []
+	let index = 0
+
+	while (index < query.length) {
+		const char = query[index] ?? ''
+		if (/\s/.test(char)) {
+			index++
+		} else if (char === '(' || char === ')') {
+			tokens.push({ type: char === '(' ? 'open' : 'close' })
+			index++
+		} else if (char === '"') {
+			const end = query.indexOf('"', index + 1)
+			if (end === -1) {
+				throw new Error(`Unterminated quote at position ${index + 1}`)
+			}
+			tokens.push({ type: 'string', value: query.slice(index + 1, end) })
+			index = end + 1
+		} else if (query.startsWith('[[', index)) {
+			const end = query.indexOf(']]', index)
+			if (end === -1) {
+				throw new Error(`Unterminated link at position ${index + 1}`)
+			}
+			tokens.push({ type: 'link', value: query.slice(index + 2, end) })
+			index = end + 2
+		} else {
+			const operator = OPERATORS.find(op => query.startsWith(op, index))
+			if (operator) {
+				tokens.push({ type: 'operator', value: operator })
+				index += operator.length
+				continue
+			}
+			let end = index
+			while (end < query.length && !/[\s()"=<>!~]/.test(query[end] ?? '') && !query.startsWith('[[', end)) {
+				end++
+			}
+			if (end === index) {
+				throw new Error(`Unexpected character "${char}" at position ${index + 1}`)
+			}
+			tokens.push({ type: 'word', value: query.slice(index, end) })
+			index = end
+		}
+	}
+
+	return tokens
+}
+
+/**
+ * Recursive descent parser over lexer tokens
+ */
+class QueryParser {
+	private tokens: Token[]
+	private position = 0
+
+	constructor(tokens: Token[]) {
+		this.tokens = tokens
+	}
+
+	parse(): QueryNode {
+		const node = this.parseOr()
+		const next = this.peek()
+		if (next) {
+			throw new Error(`Unexpected ${next.type === 'close' ? '")"' : `"${'value' in next ? next.value : next.type}"`} in query`)
+		}
+		return node
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.position]
+	}
+
+	private next(): Token | undefined {
+		return this.tokens[this.position++]
+	}
+
+	private isKeyword(keyword: string): boolean {
+		const token = this.peek()
+		return token?.type === 'word' && token.value.toUpperCase() === keyword
+	}
+
+	private parseOr(): QueryNode {
+		const children = [this.parseAnd()]
+		while (this.isKeyword('OR')) {
+			this.next()
+			children.push(this.parseAnd())
+		}
+		return children.length === 1 ? children[0]! : { type: 'or', children }
+	}
+
+	private parseAnd(): QueryNode {
+		const children = [this.parseUnary()]
+		for (;;) {
+			if (this.isKeyword('AND')) {
+				this.next()
+			} else if (!this.peek() || this.peek()?.type === 'close' || this.isKeyword('OR')) {
+				break
+			}
+			children.push(this.parseUnary())
+		}
+		return children.length === 1 ? children[0]! : { type: 'and', children }
+	}
+
+	private parseUnary(): QueryNode {
+		const token = this.peek()
+		if (!token) {
+			throw new Error('Query ends unexpectedly (expected a condition)')
+		}
+		if (this.isKeyword('NOT')) {
+			this.next()
+			return { type: 'not', child: this.parseUnary() }
+		}
+		if (token.type === 'open') {
+			this.next()
+			const node = this.parseOr()
+			if (this.next()?.type !== 'close') {
+				throw new Error('Missing closing parenthesis in query')
+			}
+			return node
+		}
+		if (token.type === 'word' && token.value.length > 1 && token.value.startsWith('-')) {
+			// "-#tag" or "-folder:x": consume the "-" and negate the rest of the word
+			this.tokens[this.position] = { type: 'word', value: token.value.slice(1) }
+			return { type: 'not', child: this.parseUnary() }
+		}
+		return this.parseCondition()
+	}
+
+	private parseCondition(): QueryNode {
+		const token = this.next()
+		if (!token || !('value' in token) || token.type === 'operator') {
+			throw new Error(`Expected a condition but found ${token ? `"${'value' in token ? token.value : token.type}"` : 'end of query'}`)
+		}
+
+		if (token.type === 'link') {
+			return { type: 'links', target: token.value }
+		}
+		if (token.type === 'word' && token.value.startsWith('#') && token.value.length > 1) {
+			return { type: 'tag', tag: token.value.slice(1) }
+		}
+
+		// prefix:value (the value may also be a quoted string or a [[link]])
+		const prefixMatch = token.type === 'word' ? /^(tag|folder|path|links|linkedfrom|has):(.*)$/i.exec(token.value) : null
+		if (prefixMatch) {
+			const prefix = (prefixMatch[1] ?? '').toLowerCase()
+			let value = prefixMatch[2] ?? ''
+			if (!value) {
+				const valueToken = this.next()
+				if (!valueToken || (valueToken.type !== 'string' && valueToken.type !== 'link')) {
+					throw new Error(`Missing value for ${prefix}:`)
+				}
+				value = valueToken.value
+			}
+			switch (prefix) {
+				case 'tag': return { type: 'tag', tag: value.replace(/^#/, '') }
+				case 'folder': return { type: 'folder', folder: value }
+				case 'path': return { type: 'path', pattern: value }
+				case 'links': return { type: 'links', target: value }
+				case 'linkedfrom': return { type: 'linkedfrom', source: value }
+				default: return { type: 'has', field: value }
+			}
+		}
+
+		// field operator value
+		const operator = this.next()
+		if (operator?.type !== 'operator') {
+			throw new Error(`Expected an operator (=, !=, <, <=, >, >=, ~) after "${token.value}"`)
+		}
+		const value = this.next()
+		if (!value || (value.type !== 'word' && value.type !== 'string' && value.type !== 'link')) {
+			throw new Error(`Missing value after "${token.value} ${operator.value}"`)
+		}
+		const field = token.value
+		if (field.startsWith('file.') && !FILE_FIELDS.includes(field)) {
+			throw new Error(`Unknown file field "${field}". Available: ${FILE_FIELDS.join(', ')}`)
+		}
+		return {
+			type: 'compare',
+			field,
+			operator: operator.value as CompareOperator,
+			value: value.type === 'link' ? `[[${value.value}]]` : value.value
+		}
+	}
+}
+
+/**
+ * Parse a filter expression
+ * @returns The expression, or null for an empty query (matches every note)
+ * @throws Error describing the syntax error
+ */
+export function parseNoteQuery(query: string): QueryNode | null {
+	const tokens = lex(query)
+	if (tokens.length === 0) {
+		return null
+	}
+	return new QueryParser(tokens).parse()
+}
+
+/**
+ * Resolve a date expression to the period it covers
+ * @returns [start, end) in milliseconds, or null if the value is not a date
+ */
+export function parseDateRange(value: string, now: number): [number, number] | null {
+	const text = value.trim().toLowerCase()
+	const startOfDay = (time: number) => {
+		const date = new Date(time)
+		return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+	}
+	const today = startOfDay(now)
+	const date = new Date(now)
+
+	switch (text) {
+		case 'now': return [now, now + 1]
+		case 'today': return [today, startOfDay(today + DAY * 1.5)]
+		case 'yesterday': return [startOfDay(today - DAY / 2), today]
+		case 'tomorrow': {
+			const tomorrow = startOfDay(today + DAY * 1.5)
+			return [tomorrow, startOfDay(tomorrow + DAY * 1.5)]
+		}
+		case 'this-week': {
+			const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7)).getTime()
+			return [start, new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7) + 7).getTime()]
+		}
+		case 'this-month': return [new Date(date.getFullYear(), date.getMonth(), 1).getTime(), new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()]
+		case 'this-year': return [new Date(date.getFullYear(), 0, 1).getTime(), new Date(date.getFullYear() + 1, 0, 1).getTime()]
+	}
+
+	const relative = /^([-+])(\d+)([dwmy])$/.exec(text)
+	if (relative) {
+		const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1)
+		const shifted = new Date(now)
+		switch (relative[3]) {
+			case 'd': shifted.setDate(shifted.getDate() + amount); break
+			case 'w': shifted.setDate(shifted.getDate() + amount * 7); break
+			case 'm': shifted.setMonth(shifted.getMonth() + amount); break
+			default: shifted.setFullYear(shifted.getFullYear() + amount)
+		}
+		return [shifted.getTime(), shifted.getTime() + 1]
+	}
+
+	const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text)
+	if (dateOnly) {
+		const start = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+		return [start.getTime(), new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1).getTime()]
+	}
+	if (/^\d{4}-\d{2}-\d{2}[t ]\d{2}:\d{2}/.test(text)) {
+		const time = new Date(value.trim()).getTime()
+		return Number.isNaN(time) ? null : [time, time + 1]
+	}
+	return null
+}
+
+/**
+ * Strip `[[...]]`, aliases and headings from a link reference
+ */
+function normalizeLinkTarget(target: string): string {
+	const inner = target.trim().replace(/^\[\[/, '').replace(/\]\]$/, '')
+	return inner.split('|')[0]?.split('#')[0]?.trim().toLowerCase() ?? ''
+}
+
+/**
+ * Check whether a note path or link text refers to a note named by the user
+ * (full path, path without extension, or note name)
+ */
+function matchesNoteReference(candidate: string, reference: string): boolean {
+	const target = normalizeLinkTarget(reference)
+	const path = candidate.toLowerCase()
+	const withoutExtension = path.replace(/\.md$/, '')
+	const name = withoutExtension.split('/').pop() ?? ''
+	return path === target || withoutExtension === target || name === target || withoutExtension === target.replace(/\.md$/, '')
+}
+
+/**
+ * Read a frontmatter value, following dotted paths into nested objects
+ */
+function getFrontmatterValue(frontmatter: Record<string, unknown>, field: string): unknown {
+	if (field in frontmatter) {
+		return frontmatter[field]
+	}
+	let value: unknown = frontmatter
+	for (const part of field.split('.')) {
+		if (value === null || typeof value !== 'object') {
+			return undefined
+		}
+		value = (value as Record<string, unknown>)[part]
+	}
+	return value
+}
+
+/**
+ * Get a file field or frontmatter value
+ */
+function getFieldValue(note: NoteQueryContext, field: string): unknown {
+	switch (field) {
+		case 'file.path': return note.path
+		case 'file.name': return note.name
+		case 'file.folder': return note.path.includes('/') ? note.path.slice(0, note.path.lastIndexOf('/')) : ''
+		case 'file.mtime': return note.mtime
+		case 'file.ctime': return note.ctime
+		case 'file.size': return note.size
+		default: return getFrontmatterValue(note.frontmatter, field)
+	}
+}
+
+/**
+ * Compare one (scalar) field value with a query value
+ */
+function compareValue(actual: unknown, operator: CompareOperator, expected: string, isTimestamp: boolean, now: number): boolean {
+	if (actual === null || actual === undefined || typeof actual === 'object') {
+		return false
+	}
+
+	// Dates: the expected value covers a period (e.g. a whole day)
+	const range = parseDateRange(expected, now)
+	if (range) {
+		const time = typeof actual === 'number' && isTimestamp ? actual : parseDateRange(String(actual), now)?.[0]
+		if (time !== undefined) {
+			const [start, end] = range
+			switch (operator) {
+				case '=': return time >= start && time < end
+				case '!=': return time < start || time >= end
+				case '<': return time < start
+				case '<=': return time < end
+				case '>': return time >= end
+				case '>=': return time >= start
+			}
+		}
+	}
+	if (isTimestamp && operator !== '~') {
+		throw new Error(`Invalid date "${expected}"`)
+	}
+
+	const actualText = String(actual).replace(/^\[\[(.*)\]\]$/, '$1').toLowerCase()
+	const expectedText = expected.replace(/^\[\[(.*)\]\]$/, '$1').toLowerCase()
+	const actualNumber = typeof actual === 'number' ? actual : Number(actualText)
+	const expectedNumber = Number(expectedText)
+	const numeric = actualText.trim() !== '' && expectedText.trim() !== '' && !Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber)
+	const order = numeric
+		? actualNumber - expectedNumber
+		: actualText.localeCompare(expectedText, undefined, { numeric: true })
+
+	switch (operator) {
+		case '=': return numeric ? order === 0 : actualText === expectedText
+		case '!=': return numeric ? order !== 0 : actualText !== expectedText
+		case '<': return order < 0
+		case '<=': return order <= 0
+		case '>': return order > 0
+		case '>=': return order >= 0
+		case '~': return actualText.includes(expectedText)
+	}
+}
+
+/**
+ * Evaluate a filter expression against a note
+ */
+export function evaluateNoteQuery(node: QueryNode | null, note: NoteQueryContext, now: number = Date.now()): boolean {
+	if (!node) {
+		return true
+	}
+
+	switch (node.type) {
+		case 'and':
+			return node.children.every(child => evaluateNoteQuery(child, note, now))
+		case 'or':
+			return node.children.some(child => evaluateNoteQuery(child, note, now))
+		case 'not':
+			return !evaluateNoteQuery(node.child, note, now)
+		case 'tag': {
+			const tag = node.tag.toLowerCase()
+			return note.tags.some(noteTag => {
+				const lower = noteTag.toLowerCase()
+				return lower === tag || lower.startsWith(`${tag}/`)
+			})
+		}
+		case 'folder': {
+			const folder = node.folder.replace(/^\/+|\/+$/g, '')
+			return folder === '' || note.path.startsWith(`${folder}/`)
+		}
+		case 'path':
+			return minimatch(note.path, node.pattern, { nocase: true })
+		case 'links':
+			return note.outlinks.some(target => matchesNoteReference(target, node.target))
+		case 'linkedfrom':
+			return note.backlinks.some(source => matchesNoteReference(source, node.source))
+		case 'has': {
+			const value = getFieldValue(note, node.field)
+			return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+		}
+		case 'compare': {
+			const value = getFieldValue(note, node.field)
+			const isTimestamp = node.field === 'file.mtime' || node.field === 'file.ctime'
+			const values = Array.isArray(value) ? value : [value]
+			// "!=" on a list means no item is equal
+			return node.operator === '!='
+				? values.every(item => item === undefined || item === null || compareValue(item, '!=', node.value, isTimestamp, now))
+				: values.some(item => compareValue(item, node.operator, node.value, isTimestamp, now))
+		}
+	}
+}
+
+/**
+ * Compare two notes for sorting by a file field or frontmatter property
+ * Notes without the property sort last in either direction.
+ */
+export function compareNotesBy(a: NoteQueryContext, b: NoteQueryContext, sortBy: string, order: 'asc' | 'desc'): number {
+	const aValue = getFieldValue(a, sortBy)
+	const bValue = getFieldValue(b, sortBy)
+	const aMissing = aValue === undefined || aValue === null
+	const bMissing = bValue === undefined || bValue === null
+	if (aMissing || bMissing) {
+		return aMissing === bMissing ? a.path.localeCompare(b.path) : aMissing ? 1 : -1
+	}
+
+	const result = typeof aValue === 'number' && typeof bValue === 'number'
+		? aValue - bValue
+		: String(aValue).localeCompare(String(bValue), undefined, { numeric: true })
+	return (order === 'desc' ? -result : result) || a.path.localeCompare(b.path)
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { findTemplateVariables, readTemplateSettings, renderTemplate } from './note-template'
+
+const now = new Date(2026, 9, 19, 9, 30)
+const settings = { dateFormat: 'YYYY-MM-DD', timeFormat: 'HH:mm' }
+
+const meetingTemplate = [
+	'---',
+	'created: {{date}}',
+	'project: "[[{{project}}]]"',
+	'---',
+	'# {{title}}',
+	'Attendees: {{ attendees }}',
+	'Next review: {{date+7d:dddd D MMMM}} at {{time}}',
+	'Project again: {{project}}'
+].join('\n')
+
+describe('readTemplateSettings', () => {
+	it('should prefer core Templates, then Templater, then the default folder', () => {
+		const app = (templates?: unknown, templater?: unknown) => ({
+			plugins: { getPlugin: (id: string) => (id === 'templater-obsidian' ? templater : null) },
+			internalPlugins: { getPluginById: (id: string) => (id === 'templates' ? templates : null) }
+		})
+
+		expect(readTemplateSettings(app({ enabled: true, instance: { options: { folder: '/Meta/Templates/', dateFormat: 'DD.MM.YYYY' } } })))
+			.toEqual({ folder: 'Meta/Templates', dateFormat: 'DD.MM.YYYY', timeFormat: 'HH:mm', source: 'templates' })
+		expect(readTemplateSettings(app({ enabled: false }, { settings: { templates_folder: 'Tpl' } })))
+			.toEqual({ folder: 'Tpl', dateFormat: 'YYYY-MM-DD', timeFormat: 'HH:mm', source: 'templater' })
+		expect(readTemplateSettings({}).source).toBe('default')
+	})
+})
+
+describe('findTemplateVariables', () => {
+	it('should list custom variables once, without the built-in ones', () => {
+		expect(findTemplateVariables(meetingTemplate)).toEqual(['project', 'attendees'])
+	})
+})
+
+describe('renderTemplate', () => {
+	it('should fill in built-in and custom variables', () => {
+		const result = renderTemplate(meetingTemplate, {
+			title: 'Kickoff',
+			variables: { project: 'Launch', attendees: 'Alice, Bob' },
+			settings,
+			now
+		})
+
+		expect(result.missing).toEqual([])
+		expect(result.content).toBe([
+			'---',
+			'created: 2026-10-19',
+			'project: "[[Launch]]"',
+			'---',
+			'# Kickoff',
+			'Attendees: Alice, Bob',
+			'Next review: Monday 26 October at 09:30',
+			'Project again: Launch'
+		].join('\n'))
+	})
+
+	it('should report missing variables and let callers override the title', () => {
+		const result = renderTemplate('# {{title}} for {{client}}', { title: 'Note', variables: { title: 'Proposal' }, settings, now })
+
+		expect(result).toEqual({ content: '# Proposal for {{client}}', missing: ['client'] })
+	})
+
+	it('should insert supplied values and the title without expanding the date variables in them', () => {
+		const result = renderTemplate('# {{title}}\nDue {{due}} (created {{date}})', {
+			title: 'Notes on {{date}}',
+			variables: { due: '{{date+1d}} or {{time}}' },
+			settings,
+			now
+		})
+
+		expect(result).toEqual({ content: '# Notes on {{date}}\nDue {{date+1d}} or {{time}} (created 2026-10-19)', missing: [] })
+	})
+})
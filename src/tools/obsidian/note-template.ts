@@ -0,0 +1,114 @@
+/**
+ * Note templates
+ * Finds the templates folder configured for the core Templates plugin (or Templater), lists the
+ * variables a template uses, and fills them in: the core {{title}}, {{date}} and {{time}} variables
+ * plus custom {{field}} placeholders supplied by the caller.
+ */
+
+import { fillDateVariables } from './periodic-notes'
+
+/**
+ * Where templates live and how their date variables are formatted
+ */
+export interface TemplateSettings {
+	/** Templates folder ('' if none is configured) */
+	folder: string
+	dateFormat: string
+	timeFormat: string
+	/** Which configuration the settings came from */
+	source: 'templates' | 'templater' | 'default'
+}
+
+/**
+ * A filled-in template
+ */
+export interface RenderedTemplate {
+	content: string
+	/** Custom variables the template uses that were not supplied */
+	missing: string[]
+}
+
+/**
+ * The parts of the app object plugin settings are read from (not part of the public API)
+ */
+interface PluginHost {
+	plugins?: { getPlugin?: (id: string) => unknown }
+	internalPlugins?: { getPluginById?: (id: string) => unknown }
+}
+
+/** Folder used when no templates plugin is configured */
+export const DEFAULT_TEMPLATES_FOLDER = 'Templates'
+
+const BUILT_IN_VARIABLES = new Set(['title', 'date', 'time'])
+const VARIABLE_PATTERN = /{{\s*([A-Za-z_][\w.-]*)\s*}}/g
+
+/**
+ * Read the templates folder and formats: core Templates if enabled, then Templater, then the defaults
+ */
+export function readTemplateSettings(app: unknown): TemplateSettings {
+	const host = (app ?? {}) as PluginHost
+	const normalize = (folder: string | undefined) => (folder ?? '').trim().replace(/^\/+|\/+$/g, '')
+	const defaults = { dateFormat: 'YYYY-MM-DD', timeFormat: 'HH:mm' }
+
+	const templates = host.internalPlugins?.getPluginById?.('templates') as { enabled?: boolean; instance?: { options?: { folder?: string; dateFormat?: string; timeFormat?: string } } } | null | undefined
+	if (templates?.enabled) {
+		const options = templates.instance?.options ?? {}
+		return {
+			folder: normalize(options.folder),
+			dateFormat: options.dateFormat?.trim() || defaults.dateFormat,
+			timeFormat: options.timeFormat?.trim() || defaults.timeFormat,
+			source: 'templates'
+		}
+	}
+
+	const templater = host.plugins?.getPlugin?.('templater-obsidian') as { settings?: { templates_folder?: string } } | null | undefined
+	if (templater?.settings?.templates_folder) {
+		return { folder: normalize(templater.settings.templates_folder), ...defaults, source: 'templater' }
+	}
+
+	return { folder: DEFAULT_TEMPLATES_FOLDER, ...defaults, source: 'default' }
+}
+
+/**
+ * List the custom variables a template uses ({{field}} placeholders other than title, date and time)
+ */
+export function findTemplateVariables(template: string): string[] {
+	const variables = new Set<string>()
+	for (const match of template.matchAll(VARIABLE_PATTERN)) {
+		const name = match[1] ?? ''
+		if (!BUILT_IN_VARIABLES.has(name.toLowerCase())) {
+			variables.add(name)
+		}
+	}
+	return Array.from(variables)
+}
+
+/**
+ * Fill in a template
+ * Date and time variables are filled first, so supplied values and the title are inserted as-is
+ * and never expanded. Supplied variables may override {{title}}; unknown placeholders are left in
+ * place and reported as missing.
+ */
+export function renderTemplate(
+	template: string,
+	options: { title: string; variables?: Record<string, string>; settings: Pick<TemplateSettings, 'dateFormat' | 'timeFormat'>; now?: Date }
+): RenderedTemplate {
+	const variables = options.variables ?? {}
+	const missing = new Set<string>()
+
+	const withDates = fillDateVariables(template, options.now ?? new Date(), options.settings.dateFormat, options.settings.timeFormat)
+	const content = withDates.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+		if (Object.prototype.hasOwnProperty.call(variables, name)) {
+			return variables[name] ?? ''
+		}
+		if (name.toLowerCase() === 'title') {
+			return options.title
+		}
+		if (!BUILT_IN_VARIABLES.has(name.toLowerCase())) {
+			missing.add(name)
+		}
+		return placeholder
+	})
+
+	return { content, missing: Array.from(missing) }
+}
@@ -0,0 +1,175 @@
+import type { App, MetadataCache, TFile, Vault } from 'obsidian'
+import { moment } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { appendToNoteSection, renderPeriodicTemplate, resolvePeriodicNote } from './periodic-notes'
+import { getFileName } from './link-rewriter'
+import { isTFile, redactContentPreview, type WriteContext, type WritePreview } from './write-context'
+import type { ObsidianUpdatePeriodicNoteInput, ObsidianUpdatePeriodicNoteOutput } from './types'
+
+/**
+ * Write tool for daily, weekly and monthly notes (update_periodic_note)
+ */
+export class PeriodicNoteTools {
+	private vault: Vault
+	private app: App
+	private metadataCache: MetadataCache
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.app = context.app
+		this.metadataCache = context.metadataCache
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Create a daily, weekly or monthly note from its template if missing and append to it
+	 */
+	async updatePeriodicNote(
+		input: ObsidianUpdatePeriodicNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdatePeriodicNoteOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+		const period = input.period ?? 'daily'
+		const { path, date } = resolvePeriodicNote(this.app, period, input.date ?? 'today')
+		const operation = isTFile(this.vault.getAbstractFileByPath(path)) ? 'modify' : 'create'
+
+		return this.context.executeWithAuditLog(
+			'obsidian.update_periodic_note',
+			sessionId,
+			effectiveCallId,
+			input,
+			operation,
+			path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, originalContent, newContent, template } = await this.preparePeriodicNoteUpdate(input)
+				const result = {
+					path,
+					period,
+					date: moment(date).format('YYYY-MM-DD'),
+					created: file === null,
+					template,
+					preview: redactContentPreview(originalContent, newContent)
+				}
+
+				if (dryRun || newContent === originalContent) {
+					return { ...result, updated: false }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.update_periodic_note', operation) && !approved) {
+					throw new PermissionPendingError('User approval required for update periodic note operation')
+				}
+
+				await this.context.checkPreviewVersion(effectiveCallId, path)
+				await this.context.captureSnapshot('obsidian.update_periodic_note', sessionId, effectiveCallId, [{ path }])
+
+				if (!file) {
+					await this.context.ensureParentFolder(path)
+					await this.vault.create(path, newContent)
+					return { ...result, updated: true }
+				}
+
+				// Append to the latest content so concurrent edits are not lost
+				const content = input.content ?? ''
+				let written = newContent
+				await this.vault.process(file, current => {
+					written = appendToNoteSection(current, input.section, content)
+					return written
+				})
+				return { ...result, updated: true, preview: redactContentPreview(originalContent, written) }
+			}
+		)
+	}
+
+	/**
+	 * Resolve the note path for audit entries, without failing the preview on an invalid date
+	 */
+	resolvePeriodicNotePath(input: ObsidianUpdatePeriodicNoteInput): string | undefined {
+		try {
+			return resolvePeriodicNote(this.app, input.period ?? 'daily', input.date ?? 'today').path
+		} catch {
+			return undefined
+		}
+	}
+
+	/**
+	 * Check permissions and compute a periodic note's content after the update (used by execution and preview)
+	 */
+	private async preparePeriodicNoteUpdate(
+		input: ObsidianUpdatePeriodicNoteInput
+	): Promise<{ file: TFile | null; path: string; originalContent?: string; newContent: string; template?: string }> {
+		const period = input.period ?? 'daily'
+		const { path, date, settings } = resolvePeriodicNote(this.app, period, input.date ?? 'today')
+		const existing = this.vault.getAbstractFileByPath(path)
+		const file = isTFile(existing) ? existing : null
+
+		const permission = file ? await this.permissionManager.canModify(path) : await this.permissionManager.canCreate(path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+
+		if (file) {
+			const originalContent = await this.vault.read(file)
+			const newContent = input.content !== undefined
+				? appendToNoteSection(originalContent, input.section, input.content)
+				: originalContent
+			return { file, path, originalContent, newContent }
+		}
+
+		if (input.createIfMissing === false) {
+			throw new Error(`File not found: ${path}. Use createIfMissing=true to create it.`)
+		}
+
+		let initialContent = ''
+		let templatePath: string | undefined
+		if (settings.template) {
+			const templateFile = this.vault.getAbstractFileByPath(settings.template)
+				?? this.vault.getAbstractFileByPath(`${settings.template}.md`)
+				?? this.metadataCache.getFirstLinkpathDest(settings.template, '')
+			if (!isTFile(templateFile)) {
+				throw new Error(`Template not found: ${settings.template}`)
+			}
+			const templatePermission = await this.permissionManager.canRead(templateFile.path)
+			if (!templatePermission.allowed) {
+				throw new Error(`Permission denied: ${templatePermission.reason}`)
+			}
+			templatePath = templateFile.path
+			initialContent = renderPeriodicTemplate(await this.vault.read(templateFile), {
+				title: getFileName(path).replace(/\.md$/, ''),
+				period,
+				date,
+				format: settings.format
+			})
+		}
+
+		const newContent = input.content !== undefined
+			? appendToNoteSection(initialContent, input.section, input.content)
+			: initialContent
+		return { file: null, path, newContent, template: templatePath }
+	}
+
+	/**
+	 * Preview the note after the append, and whether it is created from its template
+	 */
+	async preview(input: ObsidianUpdatePeriodicNoteInput): Promise<WritePreview> {
+		const { file, path, originalContent, newContent, template } = await this.preparePeriodicNoteUpdate(input)
+		const summaryLines = [file ? `Update ${path}` : `Create ${path}${template ? ` from template ${template}` : ''}`]
+		if (input.content !== undefined) {
+			summaryLines.push(input.section ? `Append to section "${input.section}"` : 'Append to the end of the note')
+		}
+		return {
+			originalContent,
+			newContent,
+			mode: 'append',
+			summary: summaryLines.join('\n')
+		}
+	}
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { appendToNoteSection, getPeriodStart, getPeriodicNotePath, readPeriodicNoteSettings, renderPeriodicTemplate, resolvePeriodicNote } from './periodic-notes'
+
+// Monday 2026-10-19 14:05:09 local time
+const monday = new Date(2026, 9, 19, 14, 5, 9)
+
+describe('getPeriodStart', () => {
+	it('should start weeks on Sunday, or Monday for ISO formats', () => {
+		expect(getPeriodStart(monday, 'weekly', 'gggg-[W]ww')).toEqual(new Date(2026, 9, 18))
+		expect(getPeriodStart(monday, 'weekly', 'GGGG-[W]WW')).toEqual(new Date(2026, 9, 19))
+		expect(getPeriodStart(monday, 'monthly')).toEqual(new Date(2026, 9, 1))
+		expect(getPeriodStart(monday, 'daily')).toEqual(new Date(2026, 9, 19))
+	})
+})
+
+describe('readPeriodicNoteSettings', () => {
+	const app = (periodic?: unknown, daily?: unknown) => ({
+		plugins: { getPlugin: (id: string) => (id === 'periodic-notes' ? periodic : null) },
+		internalPlugins: { getPluginById: (id: string) => (id === 'daily-notes' ? daily : null) }
+	})
+
+	it('should prefer Periodic Notes, then core Daily Notes, then defaults', () => {
+		const daily = { enabled: true, instance: { options: { folder: '/Journal/', format: 'YYYY/MM/YYYY-MM-DD', template: 'Templates/Daily' } } }
+		const periodic = { settings: { weekly: { enabled: true, folder: 'Weekly', format: '', template: 'Templates/Week.md' }, daily: { enabled: false } } }
+
+		expect(readPeriodicNoteSettings(app(periodic, daily), 'daily')).toEqual({ folder: 'Journal', format: 'YYYY/MM/YYYY-MM-DD', template: 'Templates/Daily', source: 'daily-notes' })
+		expect(readPeriodicNoteSettings(app(periodic, daily), 'weekly')).toEqual({ folder: 'Weekly', format: 'gggg-[W]ww', template: 'Templates/Week.md', source: 'periodic-notes' })
+		expect(readPeriodicNoteSettings(app(periodic, { enabled: false }), 'daily').source).toBe('default')
+		expect(readPeriodicNoteSettings({}, 'monthly')).toEqual({ folder: '', format: 'YYYY-MM', template: '', source: 'default' })
+	})
+})
+
+describe('getPeriodicNotePath', () => {
+	it('should build the note path from folder and format', () => {
+		expect(getPeriodicNotePath({ folder: 'Journal', format: 'YYYY/MM/YYYY-MM-DD', template: '', source: 'daily-notes' }, 'daily', monday))
+			.toBe('Journal/2026/10/2026-10-19.md')
+		expect(getPeriodicNotePath({ folder: '', format: 'gggg-[W]ww', template: '', source: 'default' }, 'weekly', monday))
+			.toBe('2026-W43.md')
+	})
+
+	it('should number locale and ISO weeks across year boundaries', () => {
+		// 2027-01-01 is a Friday: locale week 1 of 2027, ISO week 53 of 2026
+		const weekly = (format: string, date: Date) => getPeriodicNotePath({ folder: '', format, template: '', source: 'default' }, 'weekly', date)
+		expect(weekly('gggg-[W]ww', new Date(2027, 0, 1))).toBe('2027-W01.md')
+		expect(weekly('GGGG-[W]WW', new Date(2027, 0, 1))).toBe('2026-W53.md')
+		expect(weekly('gggg-[W]ww', new Date(2026, 11, 28))).toBe('2027-W01.md')
+		expect(weekly('GGGG-[W]WW', monday)).toBe('2026-W43.md')
+	})
+})
+
+describe('resolvePeriodicNote', () => {
+	it('should resolve date expressions to the note of their period', () => {
+		expect(resolvePeriodicNote({}, 'daily', 'yesterday', monday.getTime())).toEqual({
+			path: '2026-10-18.md',
+			date: new Date(2026, 9, 18),
+			settings: { folder: '', format: 'YYYY-MM-DD', template: '', source: 'default' }
+		})
+		expect(resolvePeriodicNote({}, 'monthly', '2026-02-14', monday.getTime()).path).toBe('2026-02.md')
+		expect(() => resolvePeriodicNote({}, 'daily', 'someday', monday.getTime())).toThrow('Invalid date "someday"')
+	})
+})
+
+describe('appendToNoteSection', () => {
+	const note = '# 2026-10-19\n\n## Log\n- 09:00 standup\n\n## Notes\n'
+
+	it('should append to the end of the note or of a section', () => {
+		expect(appendToNoteSection(note, undefined, '- later')).toBe(`${note}- later\n`)
+		expect(appendToNoteSection(note, 'Log', '- 14:05 review')).toBe('# 2026-10-19\n\n## Log\n- 09:00 standup\n- 14:05 review\n\n## Notes\n')
+	})
+
+	it('should add a missing section at the end', () => {
+		expect(appendToNoteSection(note, '### Ideas', 'Try canvases')).toBe(`${note}\n### Ideas\nTry canvases\n`)
+		expect(appendToNoteSection('', 'Log', '- first')).toBe('## Log\n- first\n')
+		expect(() => appendToNoteSection(note, '^missing', 'x')).toThrow('Block not found')
+	})
+})
+
+describe('renderPeriodicTemplate', () => {
+	it('should fill in title, date, time and offset variables', () => {
+		const template = '# {{title}}\n{{date}} {{time}} {{date:dddd}} {{date+1d:YYYY-MM-DD}} {{date-1M:MMMM}}\n<< {{yesterday}} | {{tomorrow}} >>'
+		expect(renderPeriodicTemplate(template, { title: '2026-10-19', period: 'daily', date: new Date(2026, 9, 19), format: 'YYYY-MM-DD', now: monday }))
+			.toBe('# 2026-10-19\n2026-10-19 14:05 Monday 2026-10-20 September\n<< 2026-10-18 | 2026-10-20 >>')
+	})
+
+	it('should fill in weekday variables for weekly notes', () => {
+		const week = renderPeriodicTemplate('{{monday:YYYY-MM-DD}} to {{sunday:YYYY-MM-DD}}', {
+			title: '2026-W43', period: 'weekly', date: new Date(2026, 9, 19), format: 'GGGG-[W]WW', now: monday
+		})
+		expect(week).toBe('2026-10-19 to 2026-10-25')
+	})
+})
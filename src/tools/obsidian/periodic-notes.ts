@@ -0,0 +1,193 @@
+/**
+ * Daily, weekly and monthly note resolution
+ * Reads the Periodic Notes plugin or core Daily Notes settings, formats note names with
+ * Obsidian's moment (so locale week numbering matches those plugins), and fills in template
+ * variables the way those plugins do.
+ */
+
+import { moment } from 'obsidian'
+import { parseDateRange } from './note-query'
+import { applySectionEdit, buildHeadingCache, parseSectionTarget, resolveSection } from './section-resolver'
+
+export type NotePeriod = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Where and how notes of a period are created
+ */
+export interface PeriodicNoteSettings {
+	/** Folder for new notes ('' for the vault root) */
+	folder: string
+	/** Moment-style date format of the note name (may contain folders) */
+	format: string
+	/** Template note path ('' for none) */
+	template: string
+	/** Which configuration the settings came from */
+	source: 'periodic-notes' | 'daily-notes' | 'default'
+}
+
+/**
+ * Default formats, as used by the Daily Notes and Periodic Notes plugins
+ */
+export const DEFAULT_PERIODIC_FORMATS: Record<NotePeriod, string> = {
+	daily: 'YYYY-MM-DD',
+	weekly: 'gggg-[W]ww',
+	monthly: 'YYYY-MM'
+}
+
+/**
+ * Plugin settings entry as stored by Periodic Notes or core Daily Notes
+ */
+interface StoredPeriodSettings {
+	enabled?: boolean
+	folder?: string
+	format?: string
+	template?: string
+}
+
+/**
+ * The parts of the app object plugin settings are read from (not part of the public API)
+ */
+interface PluginHost {
+	plugins?: { getPlugin?: (id: string) => unknown }
+	internalPlugins?: { getPluginById?: (id: string) => unknown }
+}
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const ISO_WEEK_TOKEN_PATTERN = /GG|W|E/
+
+/**
+ * Get the first day of the period containing a date
+ * Weeks start on Monday for ISO week formats (GGGG, WW) and on the locale's first day otherwise.
+ */
+export function getPeriodStart(date: Date, period: NotePeriod, format: string = DEFAULT_PERIODIC_FORMATS[period]): Date {
+	switch (period) {
+		case 'daily':
+			return moment(date).startOf('day').toDate()
+		case 'weekly':
+			return moment(date).startOf(ISO_WEEK_TOKEN_PATTERN.test(format.replace(/\[[^\]]*]/g, '')) ? 'isoWeek' : 'week').toDate()
+		case 'monthly':
+			return moment(date).startOf('month').toDate()
+	}
+}
+
+/**
+ * Read the settings for a period: Periodic Notes if it is enabled for the period,
+ * then core Daily Notes (daily only), then the defaults
+ */
+export function readPeriodicNoteSettings(app: unknown, period: NotePeriod): PeriodicNoteSettings {
+	const host = (app ?? {}) as PluginHost
+	const fromStored = (stored: StoredPeriodSettings, source: PeriodicNoteSettings['source']): PeriodicNoteSettings => ({
+		folder: (stored.folder ?? '').trim().replace(/^\/+|\/+$/g, ''),
+		format: stored.format?.trim() || DEFAULT_PERIODIC_FORMATS[period],
+		template: (stored.template ?? '').trim(),
+		source
+	})
+
+	const periodicNotes = host.plugins?.getPlugin?.('periodic-notes') as { settings?: Partial<Record<NotePeriod, StoredPeriodSettings>> } | null | undefined
+	const periodSettings = periodicNotes?.settings?.[period]
+	if (periodSettings?.enabled) {
+		return fromStored(periodSettings, 'periodic-notes')
+	}
+
+	if (period === 'daily') {
+		const dailyNotes = host.internalPlugins?.getPluginById?.('daily-notes') as { enabled?: boolean; instance?: { options?: StoredPeriodSettings } } | null | undefined
+		if (dailyNotes?.enabled) {
+			return fromStored(dailyNotes.instance?.options ?? {}, 'daily-notes')
+		}
+	}
+
+	return fromStored({}, 'default')
+}
+
+/**
+ * Get the path of the note for the period containing a date
+ */
+export function getPeriodicNotePath(settings: PeriodicNoteSettings, period: NotePeriod, date: Date): string {
+	const name = moment(getPeriodStart(date, period, settings.format)).format(settings.format)
+	return `${settings.folder ? `${settings.folder}/` : ''}${name}.md`
+}
+
+/**
+ * Resolve the note for a period from a date expression (YYYY-MM-DD, today, yesterday, tomorrow, -1w, ...)
+ * @returns The note path, the first day of its period, and the settings used
+ */
+export function resolvePeriodicNote(
+	app: unknown,
+	period: NotePeriod,
+	dateExpression: string,
+	now: number = Date.now()
+): { path: string; date: Date; settings: PeriodicNoteSettings } {
+	const range = parseDateRange(dateExpression, now)
+	if (!range) {
+		throw new Error(`Invalid date "${dateExpression}". Use YYYY-MM-DD, today, yesterday, tomorrow or an offset such as -1d or +1w`)
+	}
+	const settings = readPeriodicNoteSettings(app, period)
+	const date = getPeriodStart(new Date(range[0]), period, settings.format)
+	return { path: getPeriodicNotePath(settings, period, date), date, settings }
+}
+
+/**
+ * Append text to the end of a note, or to the end of a heading section
+ * A missing heading section is added at the end of the note (as `## Section` unless a level is given).
+ */
+export function appendToNoteSection(content: string, section: string | undefined, text: string): string {
+	if (!section) {
+		const body = content.replace(/\s+$/, '')
+		return `${body}${body ? '\n' : ''}${text.replace(/\s+$/, '')}\n`
+	}
+
+	try {
+		return applySectionEdit(content, resolveSection(content, buildHeadingCache(content), section), 'append', text)
+	} catch (error) {
+		const target = parseSectionTarget(section)
+		if (target.type !== 'heading' || target.path.length !== 1 || !(error instanceof Error) || !error.message.startsWith('Heading not found')) {
+			throw error
+		}
+		const heading = target.path[0]
+		const body = content.replace(/\s+$/, '')
+		return `${body}${body ? '\n\n' : ''}${'#'.repeat(heading?.level ?? 2)} ${heading?.text ?? ''}\n${text.replace(/\s+$/, '')}\n`
+	}
+}
+
+/**
+ * Fill in {{date}}, {{time}}, {{date:FORMAT}} and offset variables such as {{date+1d:FORMAT}}
+ * (offsets in y, q, M, w, d, h, m), as the core Templates and Daily Notes plugins do
+ */
+export function fillDateVariables(text: string, date: Date, dateFormat: string, timeFormat: string = 'HH:mm'): string {
+	return text.replace(/{{\s*(date|time)\s*(?:([+-]\d+)\s*([yqMwdhm]))?\s*(?::(.*?))?}}/gi, (_match, kind: string, amount?: string, unit?: string, customFormat?: string) => {
+		const target = moment(date)
+		if (amount && unit) {
+			target.add(Number(amount), unit === 'q' ? 'Q' : unit as moment.unitOfTime.DurationConstructor)
+		}
+		const defaultFormat = kind.toLowerCase() === 'time' ? timeFormat : dateFormat
+		return target.format(customFormat?.trim() || defaultFormat)
+	})
+}
+
+/**
+ * Fill in template variables as the Daily Notes and Periodic Notes plugins do:
+ * {{title}}, the date variables of {@link fillDateVariables}, {{yesterday}} and {{tomorrow}}
+ * for daily notes, and {{monday:FORMAT}} etc. for weekly notes
+ */
+export function renderPeriodicTemplate(
+	template: string,
+	options: { title: string; period: NotePeriod; date: Date; format: string; now?: Date }
+): string {
+	const { title, period, date, format } = options
+	const now = moment(options.now ?? new Date())
+	const withTime = moment(date).set({ hour: now.hour(), minute: now.minute(), second: now.second() }).toDate()
+
+	let result = fillDateVariables(template.replace(/{{\s*title\s*}}/gi, title), withTime, format)
+	if (period === 'daily') {
+		result = result
+			.replace(/{{\s*yesterday\s*}}/gi, moment(date).subtract(1, 'day').format(format))
+			.replace(/{{\s*tomorrow\s*}}/gi, moment(date).add(1, 'day').format(format))
+	}
+	if (period === 'weekly') {
+		result = result.replace(/{{\s*(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\s*:(.*?)}}/gi, (_match, dayName: string, dayFormat: string) => {
+			const dayIndex = DAY_NAMES.indexOf(dayName.toLowerCase())
+			return moment(date).add((dayIndex - date.getDay() + 7) % 7, 'days').format(dayFormat.trim())
+		})
+	}
+	return result
+}
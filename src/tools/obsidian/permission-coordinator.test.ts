@@ -1,11 +1,16 @@
-import { describe, it, expect, beforeEach, vi, type Mock } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from "vitest";
 import { PermissionCoordinator } from "./permission-coordinator";
 import { SessionEventBus, type PermissionRequestEvent } from "../../session/session-event-bus";
 import { ErrorHandler, ErrorSeverity } from "../../utils/error-handler";
 import { ToolPermission } from "./types";
 import { OpenCodeServerClient } from "../../client/client";
-import type { PermissionManager } from "./permission-manager";
+import { PermissionManager } from "./permission-manager";
 import { AuditLogger } from "./audit-logger";
+import { ApprovalRuleStore } from "./approval-rules";
+import type { Vault } from "obsidian";
+import { PermissionModal, type PermissionResponseCallback } from "./permission-modal";
+import type { ObsidianToolRegistry } from "./tool-registry";
+import type { HunkSelection } from "./diff-hunks";
 
 describe("PermissionCoordinator - handleRequest", () => {
 	let coordinator: PermissionCoordinator;
@@ -36,6 +41,10 @@ describe("PermissionCoordinator - handleRequest", () => {
 		mockPermissionManager = {
 			validatePath: vi.fn().mockResolvedValue({ allowed: true, secrets: false }),
 			getPermissionLevel: vi.fn().mockReturnValue(ToolPermission.ScopedWrite),
+			getApprovalRules: vi.fn().mockReturnValue(new ApprovalRuleStore()),
+			checkPolicy: vi.fn().mockReturnValue({ allowed: true, secrets: false }),
+			getAgentProfile: vi.fn().mockReturnValue(undefined),
+			checkAgentProfile: vi.fn().mockReturnValue({ allowed: true, secrets: false }),
 		} as unknown as PermissionManager;
 
 		// Mock audit logger
@@ -334,6 +343,102 @@ describe("PermissionCoordinator - handleRequest", () => {
 		});
 	});
 
+	describe("approval rules", () => {
+		const event: PermissionRequestEvent = {
+			sessionId: "session-123",
+			requestId: "req-456",
+			operation: "write",
+			resourcePath: "Daily/2026-10-19.md",
+			context: { toolName: "obsidian.update_note" },
+		};
+
+		it("should deny without a modal when a deny rule matches", async () => {
+			const rules = new ApprovalRuleStore();
+			await rules.add({ decision: "deny", toolName: "obsidian.update_note", pathPattern: "Daily/**" });
+			mockPermissionManager.getApprovalRules.mockReturnValue(rules);
+
+			eventBus.emitPermissionRequest(event);
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockClient.respondToPermission).toHaveBeenCalledWith(
+				"session-123",
+				"req-456",
+				false,
+				"Denied by rule: Deny obsidian.update_note on Daily/** always"
+			);
+		});
+
+		it("should approve without a modal when a session rule allows it", async () => {
+			const rules = new ApprovalRuleStore();
+			await rules.add({ decision: "allow", toolName: "obsidian.update_note", sessionId: "session-123" });
+			mockPermissionManager.getApprovalRules.mockReturnValue(rules);
+
+			eventBus.emitPermissionRequest(event);
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockClient.respondToPermission).toHaveBeenCalledWith(
+				"session-123",
+				"req-456",
+				true,
+				"Allowed by rule: Allow obsidian.update_note for this session"
+			);
+			const approvalLog = mockAuditLogger.log.mock.calls[1]?.[0];
+			expect(approvalLog.approved).toBe(true);
+
+			// The rule ends with the session
+			eventBus.emitSessionEnd({ sessionId: "session-123" });
+			expect(rules.list()).toHaveLength(0);
+		});
+	});
+
+	describe("agent permission profiles", () => {
+		beforeEach(() => {
+			const manager = new PermissionManager({} as Vault, ToolPermission.FullWrite);
+			mockPermissionManager.checkAgentProfile.mockImplementation(manager.checkAgentProfile.bind(manager));
+			mockPermissionManager.getAgentProfile.mockImplementation((sessionId?: string) =>
+				sessionId === "session-123"
+					? { agentId: "read-only", level: ToolPermission.ReadOnly }
+					: { agentId: "assistant", scope: { deniedPaths: ["Private/**"] } }
+			);
+		});
+
+		it("should deny writes for a read-only agent", async () => {
+			eventBus.emitPermissionRequest({
+				sessionId: "session-123",
+				requestId: "req-456",
+				operation: "write",
+				resourcePath: "Daily/2026-10-19.md",
+			});
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockPermissionManager.getAgentProfile).toHaveBeenCalledWith("session-123");
+			expect(mockClient.respondToPermission).toHaveBeenCalledWith(
+				"session-123",
+				"req-456",
+				false,
+				"Plugin denied: Agent 'read-only' is read-only. Write operations are not allowed."
+			);
+		});
+
+		it("should deny paths outside the agent's scope", async () => {
+			eventBus.emitPermissionRequest({
+				sessionId: "session-789",
+				requestId: "req-789",
+				operation: "read",
+				resourcePath: "Private/diary.md",
+			});
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockClient.respondToPermission).toHaveBeenCalledWith(
+				"session-789",
+				"req-789",
+				false,
+				"Plugin denied: Path 'Private/diary.md' matches denied pattern 'Private/**' of agent 'assistant'"
+			);
+			expect(mockPermissionManager.checkPolicy).not.toHaveBeenCalled();
+		});
+	});
+
 	describe("show modal when plugin allows", () => {
 		it("should throw error if app is not set", async () => {
 			mockPermissionManager.validatePath.mockResolvedValue({
@@ -484,6 +589,10 @@ describe("PermissionCoordinator - modal display and queueing", () => {
 		mockPermissionManager = {
 			validatePath: vi.fn().mockResolvedValue({ allowed: true, secrets: false }),
 			getPermissionLevel: vi.fn().mockReturnValue(ToolPermission.ScopedWrite),
+			getApprovalRules: vi.fn().mockReturnValue(new ApprovalRuleStore()),
+			checkPolicy: vi.fn().mockReturnValue({ allowed: true, secrets: false }),
+			getAgentProfile: vi.fn().mockReturnValue(undefined),
+			checkAgentProfile: vi.fn().mockReturnValue({ allowed: true, secrets: false }),
 		} as unknown as PermissionManager;
 
 		// Mock audit logger
@@ -967,3 +1076,86 @@ describe("PermissionCoordinator - modal display and queueing", () => {
 	});
 });
 });
+
+describe("PermissionCoordinator - partial approvals", () => {
+	const hunks: HunkSelection = { content: "kept", total: 2, accepted: [1], edited: [], rejected: [2] };
+	let respondToPermission: Mock<(sessionId: string, requestId: string, approved: boolean, reason?: string) => Promise<void>>;
+	let applyKeptHunks: Mock<(path: string, hunks: HunkSelection, sessionId: string | undefined, callId: string) => Promise<unknown>>;
+	let eventBus: SessionEventBus;
+	let respond: PermissionResponseCallback | undefined;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		// The modal needs a DOM; keep its callback so the test can answer it
+		vi.stubGlobal("document", { createElement: () => ({}) });
+		vi.spyOn(PermissionModal.prototype, "open").mockImplementation(function (this: PermissionModal) {
+			respond = (this as unknown as { onResponse: PermissionResponseCallback }).onResponse;
+		});
+
+		eventBus = new SessionEventBus();
+		respondToPermission = vi.fn().mockResolvedValue(undefined);
+		applyKeptHunks = vi.fn().mockResolvedValue({ success: true });
+		const permissionManager = {
+			validatePath: vi.fn().mockResolvedValue({ allowed: true, secrets: false }),
+			getPermissionLevel: vi.fn().mockReturnValue(ToolPermission.ScopedWrite),
+			getApprovalRules: vi.fn().mockReturnValue(new ApprovalRuleStore()),
+			checkPolicy: vi.fn().mockReturnValue({ allowed: true, secrets: false }),
+			getAgentProfile: vi.fn().mockReturnValue(undefined),
+		} as unknown as PermissionManager;
+
+		const coordinator = new PermissionCoordinator(
+			{ respondToPermission } as unknown as OpenCodeServerClient,
+			eventBus,
+			permissionManager,
+			{ log: vi.fn().mockResolvedValue(undefined) } as unknown as AuditLogger,
+			new ErrorHandler({ logToConsole: false }),
+			{ applyKeptHunks } as unknown as ObsidianToolRegistry
+		);
+		coordinator.setApp({} as any);
+	});
+
+	afterEach(() => {
+		respond = undefined;
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	const answerWithKeptHunks = async () => {
+		eventBus.emitPermissionRequest({
+			sessionId: "session-123",
+			requestId: "req-456",
+			operation: "update",
+			resourcePath: "Notes/plan.md",
+			context: { toolName: "edit", preview: { originalContent: "a", newContent: "b" } },
+		});
+		await vi.advanceTimersByTimeAsync(10);
+		respond?.(true, undefined, undefined, hunks);
+		await vi.advanceTimersByTimeAsync(10);
+	};
+
+	it("should write the kept hunks and tell the server not to write its change", async () => {
+		await answerWithKeptHunks();
+
+		expect(applyKeptHunks).toHaveBeenCalledWith("Notes/plan.md", hunks, "session-123", "req-456");
+		expect(respondToPermission).toHaveBeenCalledWith(
+			"session-123",
+			"req-456",
+			false,
+			"Kept 1 of 2 hunks (1); rejected hunk 2. The kept hunks were written to Notes/plan.md; do not apply this change again."
+		);
+	});
+
+	it("should say so when the kept hunks could not be written", async () => {
+		applyKeptHunks.mockRejectedValue(new Error("Permission denied: outside scope"));
+
+		await answerWithKeptHunks();
+
+		expect(respondToPermission).toHaveBeenCalledWith(
+			"session-123",
+			"req-456",
+			false,
+			"Kept 1 of 2 hunks (1); rejected hunk 2. The kept hunks could not be written (Permission denied: outside scope), so the note is unchanged."
+		);
+	});
+});
@@ -6,6 +6,9 @@ import type { AuditLogger } from './audit-logger';
 import { ErrorHandler, ErrorSeverity } from '../../utils/error-handler';
 import type { OperationType } from './permission-types';
 import { PermissionModal, type PermissionRequest } from './permission-modal';
+import { describeApprovalRule, type ApprovalRuleInput } from './approval-rules';
+import { describeHunkSelection, type HunkSelection } from './diff-hunks';
+import type { ObsidianToolRegistry } from './tool-registry';
 
 /** Timeout duration for permission requests in milliseconds (60 seconds) */
 const TIMEOUT_MS = 60000;
@@ -72,13 +75,15 @@ export class PermissionCoordinator {
 	 * @param permissionManager - Plugin permission manager for validation
 	 * @param auditLogger - Logger for recording permission decisions
 	 * @param errorHandler - Error handler for logging errors
+	 * @param toolRegistry - Registry that writes the kept hunks of a partly approved change
 	 */
 	constructor(
 		private client: OpenCodeServerClient,
 		private eventBus: SessionEventBus,
 		private permissionManager: PermissionManager,
 		private auditLogger: AuditLogger,
-		private errorHandler: ErrorHandler
+		private errorHandler: ErrorHandler,
+		private toolRegistry: ObsidianToolRegistry | null = null
 	) {
 		this.setupListeners();
 	}
@@ -119,9 +124,10 @@ export class PermissionCoordinator {
 	 * 
 	 * This method orchestrates the complete permission request flow:
 	 * 1. Logs the request to the audit log
-	 * 2. Validates the request against plugin permission rules
+	 * 2. Validates the request against plugin permission rules and the session agent's profile
 	 * 3. Auto-denies if plugin denies (no modal shown)
-	 * 4. Shows modal to user if plugin allows
+	 * 4. Answers with a matching approval rule, if any (no modal shown)
+	 * 5. Shows modal to user otherwise
 	 * 
 	 * @param event - The permission request event from the server
 	 * @returns Promise that resolves when the request has been processed
@@ -147,7 +153,17 @@ export class PermissionCoordinator {
 
 			// Validate with plugin permission system
 			const opType = this.mapOperation(operation);
-			const validation = await this.permissionManager.validatePath(resourcePath, opType);
+			const toolName = (context as any)?.toolName || operation;
+			const agent = this.permissionManager.getAgentProfile(sessionId);
+			let validation = await this.permissionManager.validatePath(resourcePath, opType);
+			if (validation.allowed && agent) {
+				// The session's agent may be limited to a lower permission level or fewer paths
+				validation = this.permissionManager.checkAgentProfile(agent, resourcePath, opType);
+			}
+			if (validation.allowed) {
+				// The permission policy may also have rules for this tool and agent
+				validation = this.permissionManager.checkPolicy(resourcePath, opType, { toolName, agentId: agent?.agentId });
+			}
 
 			if (!validation.allowed) {
 				// Auto-deny if plugin denies (no modal shown)
@@ -155,6 +171,17 @@ export class PermissionCoordinator {
 				return;
 			}
 
+			// Answer with a remembered approval rule (no modal shown)
+			const rule = this.permissionManager.getApprovalRules().match(toolName, [resourcePath], sessionId);
+			if (rule?.decision === 'deny') {
+				await this.denyRequest(sessionId, requestId, `Denied by rule: ${describeApprovalRule(rule)}`);
+				return;
+			}
+			if (rule?.decision === 'allow') {
+				await this.approveRequest(sessionId, requestId, `Allowed by rule: ${describeApprovalRule(rule)}`);
+				return;
+			}
+
 			// Show modal to user (plugin allows the operation)
 			await this.showModal(sessionId, requestId, operation, resourcePath, context);
 		} catch (error) {
@@ -232,6 +259,42 @@ export class PermissionCoordinator {
 		}
 	}
 
+	/**
+	 * Approves a permission request without asking, because an approval rule allows it.
+	 * 
+	 * @param sessionId - ID of the session the request belongs to
+	 * @param requestId - Unique identifier for the permission request
+	 * @param reason - Human-readable reason for the approval (the matching rule)
+	 * @returns Promise that resolves when the approval has been sent and logged
+	 * @private
+	 */
+	private async approveRequest(sessionId: string, requestId: string, reason: string): Promise<void> {
+		try {
+			await this.client.respondToPermission(sessionId, requestId, true, reason);
+
+			await this.auditLogger.log({
+				id: `perm_rule_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+				timestamp: Date.now(),
+				toolName: 'server.operation',
+				sessionId,
+				callId: requestId,
+				input: { reason },
+				output: { approved: true, reason },
+				permissionLevel: this.permissionManager.getPermissionLevel(),
+				requiredApproval: true,
+				approved: true,
+				dryRun: false,
+				isError: false
+			});
+		} catch (error) {
+			this.errorHandler.handleError(error, {
+				module: 'PermissionCoordinator',
+				function: 'approveRequest',
+				metadata: { sessionId, requestId, reason }
+			}, ErrorSeverity.Warning);
+		}
+	}
+
 	/**
 	 * Shows a permission modal to the user for approval.
 	 * 
@@ -300,8 +363,8 @@ export class PermissionCoordinator {
 		this.currentModal = new PermissionModal(
 			this.app,
 			permRequest,
-			async (approved: boolean, reason?: string) => {
-				await this.handleUserResponse(requestId, approved, reason);
+			async (approved: boolean, reason?: string, rule?: ApprovalRuleInput, hunks?: HunkSelection) => {
+				await this.handleUserResponse(requestId, approved, reason, rule, hunks);
 			}
 		);
 		this.currentModal.open();
@@ -316,20 +379,26 @@ export class PermissionCoordinator {
 	 * Actions performed:
 	 * 1. Clears the timeout for this request
 	 * 2. Removes the request from pending
-	 * 3. Sends the response to the server
-	 * 4. Logs the decision to the audit log
-	 * 5. Processes the next queued request (if any)
+	 * 3. Writes the kept hunks, if only part of the change was approved
+	 * 4. Sends the response to the server
+	 * 5. Logs the decision to the audit log
+	 * 6. Saves the approval rule, if the user chose to remember the decision
+	 * 7. Processes the next queued request (if any)
 	 * 
 	 * @param requestId - Unique identifier for the permission request
 	 * @param approved - Whether the user approved or denied the request
 	 * @param reason - Optional reason for the decision
+	 * @param rule - Optional approval rule to remember for later requests
+	 * @param hunks - The hunks the user kept, if only part of the change was approved
 	 * @returns Promise that resolves when the response has been sent and logged
 	 * @private
 	 */
 	private async handleUserResponse(
 		requestId: string,
 		approved: boolean,
-		reason?: string
+		reason?: string,
+		rule?: ApprovalRuleInput,
+		hunks?: HunkSelection
 	): Promise<void> {
 		const request = this.pendingRequests.get(requestId);
 		if (!request) return;
@@ -339,13 +408,19 @@ export class PermissionCoordinator {
 		this.pendingRequests.delete(requestId);
 		this.currentModal = null;
 
+		// The server writes the change itself and can only write all of it, so the plugin writes the kept hunks
+		// and the server is told not to write its version
+		const response = hunks
+			? { approved: false, reason: await this.applyKeptHunks(request, requestId, hunks) }
+			: { approved, reason };
+
 		try {
 			// Send response to server
 			await this.client.respondToPermission(
 				request.sessionId,
 				requestId,
-				approved,
-				reason
+				response.approved,
+				response.reason
 			);
 
 			// Log decision to audit logger
@@ -356,13 +431,19 @@ export class PermissionCoordinator {
 				sessionId: request.sessionId,
 				callId: requestId,
 				input: { operation: request.operation, resourcePath: request.resourcePath },
-				output: { approved, reason },
+				output: hunks
+					? { ...response, hunks: { total: hunks.total, accepted: hunks.accepted, edited: hunks.edited, rejected: hunks.rejected } }
+					: response,
 				permissionLevel: this.permissionManager.getPermissionLevel(),
 				requiredApproval: true,
-				approved,
+				approved: response.approved,
 				dryRun: false,
 				isError: false
 			});
+
+			if (rule) {
+				await this.permissionManager.getApprovalRules().add(rule);
+			}
 		} catch (error) {
 			this.errorHandler.handleError(error, {
 				module: 'PermissionCoordinator',
@@ -375,6 +456,34 @@ export class PermissionCoordinator {
 		await this.processNextQueued();
 	}
 
+	/**
+	 * Writes the hunks the user kept of a partly approved change to the note.
+	 * 
+	 * @param request - The request whose change was partly approved
+	 * @param requestId - Unique identifier for the permission request
+	 * @param hunks - The hunks the user kept
+	 * @returns Reason to answer the server with, saying whether the kept hunks were written
+	 * @private
+	 */
+	private async applyKeptHunks(request: PendingRequest, requestId: string, hunks: HunkSelection): Promise<string> {
+		const summary = describeHunkSelection(hunks);
+		if (!this.toolRegistry) {
+			return `${summary}. The change was not written; resubmit it with only the kept hunks.`;
+		}
+		try {
+			await this.toolRegistry.applyKeptHunks(request.resourcePath, hunks, request.sessionId, requestId);
+			return `${summary}. The kept hunks were written to ${request.resourcePath}; do not apply this change again.`;
+		} catch (error) {
+			this.errorHandler.handleError(error, {
+				module: 'PermissionCoordinator',
+				function: 'applyKeptHunks',
+				metadata: { requestId, resourcePath: request.resourcePath }
+			}, ErrorSeverity.Warning);
+			const message = error instanceof Error ? error.message : String(error);
+			return `${summary}. The kept hunks could not be written (${message}), so the note is unchanged.`;
+		}
+	}
+
 	/**
 	 * Handles timeout for a permission request that wasn't responded to in time.
 	 * 
@@ -444,6 +553,7 @@ export class PermissionCoordinator {
 	 * 2. Clears all timeouts for those requests
 	 * 3. Removes requests from the queue
 	 * 4. Closes the current modal if it belongs to this session
+	 * 5. Forgets the session's approval rules
 	 * 
 	 * @param sessionId - ID of the session that ended
 	 * @private
@@ -461,6 +571,9 @@ export class PermissionCoordinator {
 		// Remove from queue
 		this.requestQueue = this.requestQueue.filter(r => r.sessionId !== sessionId);
 
+		// "Allow for this session" rules end with the session
+		this.permissionManager.getApprovalRules().clearSession(sessionId);
+
 		// Close current modal if it's for this session
 		if (this.currentModal) {
 			// Check if current modal is for this session by checking pending requests
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { Vault } from 'obsidian'
+import { PermissionManager } from './permission-manager'
+import { ToolPermission } from './types'
+
+/**
+ * Vault with a JSON permission policy whose content and modification time the test can change
+ */
+function policyVault(initial: string) {
+  const policy = { text: initial, mtime: 1 }
+  const vault = {
+    adapter: {
+      stat: vi.fn(async (path: string) => (path === '.opencode/permissions.json' ? { mtime: policy.mtime } : null)),
+      read: vi.fn(async () => policy.text)
+    }
+  } as unknown as Vault
+  return { vault, policy }
+}
+
+describe('PermissionManager permission policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should deny reads and writes while a policy that never loaded is invalid, until it parses', async () => {
+    let now = 10_000
+    vi.spyOn(Date, 'now').mockImplementation(() => now)
+    const { vault, policy } = policyVault('{ "rules": [ { "effect": "deny"')
+    const manager = new PermissionManager(vault, ToolPermission.FullWrite)
+    const onPolicyError = vi.fn()
+    manager.setPolicyErrorHandler(onPolicyError)
+
+    const modify = await manager.canModify('Notes/plan.md')
+    expect(modify.allowed).toBe(false)
+    expect(modify.reason).toContain('reads and writes are denied until it is fixed')
+    expect(await manager.canDelete('Notes/plan.md')).toMatchObject({ allowed: false })
+    expect(await manager.canRead('Private/diary.md')).toMatchObject({ allowed: false })
+    expect(manager.isPolicyFailClosed()).toBe(true)
+    expect(onPolicyError).toHaveBeenCalledWith(expect.any(Error))
+
+    policy.text = JSON.stringify({ rules: [{ effect: 'deny', paths: ['Private/**'] }] })
+    policy.mtime = 2
+    now += 5_000
+    expect(await manager.canModify('Notes/plan.md')).toMatchObject({ allowed: true })
+    expect(await manager.canModify('Private/diary.md')).toMatchObject({ allowed: false })
+    expect(await manager.canRead('Notes/plan.md')).toMatchObject({ allowed: true })
+    expect(onPolicyError).toHaveBeenLastCalledWith(null)
+  })
+
+  it('should keep the previous policy when a later edit is invalid', async () => {
+    let now = 10_000
+    vi.spyOn(Date, 'now').mockImplementation(() => now)
+    const { vault, policy } = policyVault(JSON.stringify({ rules: [{ effect: 'deny', paths: ['Private/**'] }] }))
+    const manager = new PermissionManager(vault, ToolPermission.FullWrite)
+    manager.setPolicyErrorHandler(vi.fn())
+    expect(await manager.canModify('Private/diary.md')).toMatchObject({ allowed: false })
+
+    policy.text = '{'
+    policy.mtime = 2
+    now += 5_000
+    expect(await manager.canModify('Notes/plan.md')).toMatchObject({ allowed: true })
+    expect(await manager.canModify('Private/diary.md')).toMatchObject({ allowed: false })
+    expect(manager.isPolicyFailClosed()).toBe(false)
+  })
+})
@@ -1,8 +1,20 @@
 import { minimatch } from 'minimatch'
-import type { Vault } from 'obsidian'
+import { parseYaml, type Vault } from 'obsidian'
 import { ToolPermission } from './types'
-import type { PermissionScope, PermissionValidationResult, OperationType } from './permission-types'
+import type { AgentPermissionProfile, PermissionScope, PermissionValidationResult, OperationType } from './permission-types'
 import { DEFAULT_PERMISSION_CONFIGS } from './permission-types'
+import { ApprovalRuleStore } from './approval-rules'
+import { describeSecretFindings, scanForSecrets, type SecretFinding, type SecretHandling } from './secret-scanner'
+import {
+  PERMISSION_POLICY_PATHS,
+  evaluatePolicy,
+  parsePermissionPolicy,
+  type PermissionPolicy,
+  type PolicyContext
+} from './permission-policy'
+
+// How often permission checks look for changes to the policy file
+const POLICY_CHECK_INTERVAL_MS = 2000
 
 /**
  * Permission manager for Obsidian tools
@@ -12,6 +24,21 @@ export class PermissionManager {
   private vault: Vault
   private permissionLevel: ToolPermission
   private scope: PermissionScope
+  private approvalRules = new ApprovalRuleStore()
+  private policy: PermissionPolicy | null = null
+  /** Path and modification time of the policy file last loaded, to skip unchanged files */
+  private policyVersion: string | null = null
+  private policyCheckedAt = 0
+  /** Why the policy file last failed to load, until it loads or is removed */
+  private policyError: Error | null = null
+  private onPolicyError: (error: Error | null) => void = error => {
+    if (error) {
+      console.warn('[PermissionManager] Failed to load permission policy:', error)
+    }
+  }
+  private secretHandling: SecretHandling = 'redact'
+  /** Finds the permission profile of the agent running a session */
+  private agentResolver: (sessionId?: string) => AgentPermissionProfile | undefined = () => undefined
 
   constructor(
     vault: Vault,
@@ -34,7 +61,9 @@ export class PermissionManager {
       allowedPaths: userScope.allowedPaths ?? defaultScope.allowedPaths ?? undefined,
       deniedPaths: [...(defaultScope.deniedPaths || []), ...(userScope.deniedPaths || [])],
       maxFileSize: userScope.maxFileSize ?? defaultScope.maxFileSize ?? undefined,
-      allowedExtensions: userScope.allowedExtensions ?? defaultScope.allowedExtensions ?? undefined
+      allowedExtensions: userScope.allowedExtensions ?? defaultScope.allowedExtensions ?? undefined,
+      maxAttachmentSize: userScope.maxAttachmentSize ?? defaultScope.maxAttachmentSize ?? undefined,
+      attachmentExtensions: userScope.attachmentExtensions ?? defaultScope.attachmentExtensions ?? undefined
     }
     return merged
   }
@@ -62,6 +91,14 @@ export class PermissionManager {
     return this.validatePath(path, 'read')
   }
 
+  /**
+   * Check if a path can be read, against the policy as last loaded
+   * For checking many paths in one go (such as search hits) after a single refreshPolicy().
+   */
+  checkRead(path: string): PermissionValidationResult {
+    return this.checkPath(path, 'read')
+  }
+
   /**
    * Check if a path can be written to
    */
@@ -127,12 +164,76 @@ export class PermissionManager {
   }
 
   /**
-   * Validate a path against the permission scope
+   * Check if an attachment (binary file) can be read
    */
-  async validatePath(path: string, operation: OperationType): Promise<PermissionValidationResult> {
+  async canReadAttachment(path: string): Promise<PermissionValidationResult> {
+    return this.validatePath(path, 'read', { attachment: true })
+  }
+
+  /**
+   * Check if an attachment of the given size (in bytes) can be created at a path
+   */
+  async canCreateAttachment(path: string, size: number): Promise<PermissionValidationResult> {
+    if (this.permissionLevel === ToolPermission.ReadOnly) {
+      return {
+        allowed: false,
+        reason: 'Permission level is read-only. Create operations are not allowed.',
+        secrets: false
+      }
+    }
+    return this.validatePath(path, 'create', { attachment: true, size })
+  }
+
+  /**
+   * Validate a path against the vault permission policy and the permission scope
+   * Attachments are checked against attachmentExtensions and maxAttachmentSize instead of the text file limits;
+   * size is the size of content about to be written.
+   */
+  async validatePath(
+    path: string,
+    operation: OperationType,
+    options: { attachment?: boolean; size?: number } = {}
+  ): Promise<PermissionValidationResult> {
+    await this.refreshPolicy()
+    return this.checkPath(path, operation, options)
+  }
+
+  /**
+   * Validate a path against the policy as last loaded and the permission scope
+   */
+  private checkPath(
+    path: string,
+    operation: OperationType,
+    options: { attachment?: boolean; size?: number } = {}
+  ): PermissionValidationResult {
     // Normalize path (remove leading/trailing slashes, handle relative paths)
     const normalizedPath = this.normalizePath(path)
 
+    // Tools must not be able to loosen their own permissions
+    if (operation !== 'read' && PERMISSION_POLICY_PATHS.includes(normalizedPath)) {
+      return {
+        allowed: false,
+        reason: `Path '${normalizedPath}' is the permission policy and cannot be changed by tools`,
+        secrets: false
+      }
+    }
+
+    // Check the vault permission policy (ordered rules, first match wins)
+    // A policy file that never loaded may have been meant to deny these paths, so nothing is allowed until it does
+    if (!this.policy && this.policyError) {
+      return {
+        allowed: false,
+        reason: `The permission policy could not be loaded (${this.policyError.message}); reads and writes are denied until it is fixed`,
+        secrets: false
+      }
+    }
+    if (this.policy) {
+      const policyResult = evaluatePolicy(this.policy, normalizedPath, operation)
+      if (!policyResult.allowed) {
+        return policyResult
+      }
+    }
+
     // Check denied paths first (highest priority)
     if (this.scope.deniedPaths && this.scope.deniedPaths.length > 0) {
       for (const deniedPattern of this.scope.deniedPaths) {
@@ -161,32 +262,44 @@ export class PermissionManager {
     }
 
     // Check file extension (if specified)
-    if (this.scope.allowedExtensions && this.scope.allowedExtensions.length > 0) {
+    const allowedExtensions = options.attachment ? this.scope.attachmentExtensions : this.scope.allowedExtensions
+    if (allowedExtensions && allowedExtensions.length > 0) {
       const pathLower = normalizedPath.toLowerCase()
-      const matchesExtension = this.scope.allowedExtensions.some(ext => {
+      const matchesExtension = allowedExtensions.some(ext => {
         const extLower = ext.startsWith('.') ? ext.toLowerCase() : `.${ext.toLowerCase()}`
         return pathLower.endsWith(extLower)
       })
       if (!matchesExtension) {
         return {
           allowed: false,
-          reason: `File extension is not in allowed list: ${this.scope.allowedExtensions.join(', ')}`,
+          reason: `${options.attachment ? 'Attachment' : 'File'} extension is not in allowed list: ${allowedExtensions.join(', ')}`,
           secrets: false
         }
       }
     }
 
+    const maxSize = options.attachment ? this.scope.maxAttachmentSize : this.scope.maxFileSize
+
+    // Check the size of content about to be written (if given)
+    if (options.size !== undefined && maxSize && options.size > maxSize) {
+      return {
+        allowed: false,
+        reason: `File size (${options.size} bytes) exceeds maximum allowed size (${maxSize} bytes)`,
+        secrets: false
+      }
+    }
+
     // Check file size (only for read/modify operations on existing files)
-    if ((operation === 'read' || operation === 'modify') && this.scope.maxFileSize) {
+    if ((operation === 'read' || operation === 'modify') && maxSize) {
       try {
         // Check if file exists
         const file = this.vault.getAbstractFileByPath(normalizedPath)
         if (file && 'stat' in file) {
           const stat = (file as { stat: { size: number } }).stat
-          if (stat.size > this.scope.maxFileSize) {
+          if (stat.size > maxSize) {
             return {
               allowed: false,
-              reason: `File size (${stat.size} bytes) exceeds maximum allowed size (${this.scope.maxFileSize} bytes)`,
+              reason: `File size (${stat.size} bytes) exceeds maximum allowed size (${maxSize} bytes)`,
               secrets: false
             }
           }
@@ -218,6 +331,206 @@ export class PermissionManager {
       .replace(/\/+$/, '')  // Remove trailing slashes
   }
 
+  /**
+   * Load the vault permission policy, or reload it if the file changed since the last call
+   * Removing the file removes the policy. An invalid file keeps the previous policy, or denies all writes
+   * if no policy was loaded yet.
+   * @returns Whether the policy changed
+   * @throws Error if the policy file cannot be parsed
+   */
+  async loadPolicy(): Promise<boolean> {
+    const adapter = this.vault.adapter
+    for (const path of PERMISSION_POLICY_PATHS) {
+      const stat = await adapter.stat(path)
+      if (!stat) {
+        continue
+      }
+
+      const version = `${path}:${stat.mtime}`
+      if (version === this.policyVersion) {
+        return false
+      }
+      // Remember the version first so a broken file is only reported once
+      this.policyVersion = version
+      try {
+        const text = await adapter.read(path)
+        const raw: unknown = path.endsWith('.json') ? JSON.parse(text) : parseYaml(text)
+        this.policy = parsePermissionPolicy(raw)
+      } catch (error) {
+        this.policyError = error instanceof Error ? error : new Error(String(error))
+        throw this.policyError
+      }
+      this.policyError = null
+      return true
+    }
+
+    const hadPolicy = this.policyVersion !== null
+    this.policy = null
+    this.policyVersion = null
+    this.policyError = null
+    return hadPolicy
+  }
+
+  /**
+   * Reload the policy if the file changed (looks at most every few seconds, so edits apply without restarting)
+   * Errors go to the policy error handler instead of failing the permission check.
+   */
+  async refreshPolicy(): Promise<void> {
+    const now = Date.now()
+    if (now - this.policyCheckedAt < POLICY_CHECK_INTERVAL_MS) {
+      return
+    }
+    this.policyCheckedAt = now
+    const failed = this.policyError !== null
+    try {
+      await this.loadPolicy()
+      if (failed && !this.policyError) {
+        this.onPolicyError(null)
+      }
+    } catch (error) {
+      this.onPolicyError(error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  /**
+   * Set what to do when a changed policy file cannot be loaded
+   * The handler is called again with null once the file loads or is removed.
+   */
+  setPolicyErrorHandler(handler: (error: Error | null) => void): void {
+    this.onPolicyError = handler
+  }
+
+  /**
+   * Whether a vault permission policy is loaded
+   */
+  hasPolicy(): boolean {
+    return this.policy !== null
+  }
+
+  /**
+   * Whether every path is denied because the policy file failed to load and no earlier version of it applies
+   */
+  isPolicyFailClosed(): boolean {
+    return this.policy === null && this.policyError !== null
+  }
+
+  /**
+   * Check a path against the vault permission policy, including the sections for a tool and agent
+   * validatePath() applies the policy's base rules to every check; this adds the tool and agent sections,
+   * which only callers that know who is asking can apply.
+   */
+  checkPolicy(path: string, operation: OperationType, context: PolicyContext): PermissionValidationResult {
+    if (!this.policy) {
+      return { allowed: true, secrets: false }
+    }
+    return evaluatePolicy(this.policy, this.normalizePath(path), operation, context)
+  }
+
+  /**
+   * Set how to find the permission profile of the agent running a session
+   */
+  setAgentResolver(resolver: (sessionId?: string) => AgentPermissionProfile | undefined): void {
+    this.agentResolver = resolver
+  }
+
+  /**
+   * Get the permission profile of the agent running a session
+   */
+  getAgentProfile(sessionId?: string): AgentPermissionProfile | undefined {
+    return this.agentResolver(sessionId)
+  }
+
+  /**
+   * Check a path against an agent's permission profile
+   * The profile only narrows: the plugin-wide level and scope are applied by the other checks.
+   */
+  checkAgentProfile(profile: AgentPermissionProfile, path: string, operation: OperationType): PermissionValidationResult {
+    const normalizedPath = this.normalizePath(path)
+
+    if (operation !== 'read' && profile.level === ToolPermission.ReadOnly) {
+      return {
+        allowed: false,
+        reason: `Agent '${profile.agentId}' is read-only. ${operation.charAt(0).toUpperCase()}${operation.slice(1)} operations are not allowed.`,
+        secrets: false
+      }
+    }
+    if (operation === 'delete' && profile.level === ToolPermission.ScopedWrite) {
+      return {
+        allowed: false,
+        reason: `Agent '${profile.agentId}' cannot delete: delete operations require full-write permission level.`,
+        secrets: false
+      }
+    }
+
+    const deniedPattern = profile.scope?.deniedPaths?.find(pattern => minimatch(normalizedPath, pattern))
+    if (deniedPattern) {
+      return {
+        allowed: false,
+        reason: `Path '${normalizedPath}' matches denied pattern '${deniedPattern}' of agent '${profile.agentId}'`,
+        secrets: false
+      }
+    }
+
+    const allowedPaths = profile.scope?.allowedPaths
+    if (allowedPaths && allowedPaths.length > 0 && !allowedPaths.some(pattern => minimatch(normalizedPath, pattern))) {
+      return {
+        allowed: false,
+        reason: `Path '${normalizedPath}' does not match any allowed pattern of agent '${profile.agentId}'`,
+        secrets: false
+      }
+    }
+
+    return { allowed: true, secrets: false }
+  }
+
+  /**
+   * Set the approval rules remembered from the permission modal
+   */
+  setApprovalRules(rules: ApprovalRuleStore): void {
+    this.approvalRules = rules
+  }
+
+  /**
+   * Get the approval rules consulted before prompting for a write
+   */
+  getApprovalRules(): ApprovalRuleStore {
+    return this.approvalRules
+  }
+
+  /**
+   * Set what to do with tool output that contains secrets
+   */
+  setSecretHandling(handling: SecretHandling): void {
+    this.secretHandling = handling
+  }
+
+  /**
+   * Get what to do with tool output that contains secrets (the permission policy's setting wins)
+   */
+  getSecretHandling(): SecretHandling {
+    return this.policy?.secrets ?? this.secretHandling
+  }
+
+  /**
+   * Scan note content a tool is about to return to the model for secrets
+   * secrets is set when any are found; the content may not be returned when secret handling is set to block.
+   */
+  checkSecrets(path: string, content: string): PermissionValidationResult & { findings: SecretFinding[] } {
+    const findings = scanForSecrets(content)
+    if (findings.length === 0) {
+      return { allowed: true, secrets: false, findings }
+    }
+    if (this.getSecretHandling() === 'block') {
+      return {
+        allowed: false,
+        reason: `'${this.normalizePath(path)}' contains secrets (${describeSecretFindings(findings)})`,
+        secrets: true,
+        findings
+      }
+    }
+    return { allowed: true, secrets: true, findings }
+  }
+
   /**
    * Get current permission level
    */
@@ -234,7 +547,8 @@ export class PermissionManager {
 
   /**
    * Check if a tool call requires user approval
-   * Write operations always require approval (even with full-write permission)
+   * Write operations always require approval (even with full-write permission);
+   * approval rules may then answer for the user without showing the modal
    */
   requiresApproval(toolName: string, operation: OperationType): boolean {
     // Read-only operations never require approval
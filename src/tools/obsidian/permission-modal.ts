@@ -1,6 +1,8 @@
-import { Modal, Setting } from 'obsidian'
+import { Modal, Notice, Setting } from 'obsidian'
 import type { App } from 'obsidian'
 import type { ObsidianUpdateNoteInput } from './types'
+import type { ApprovalRuleInput } from './approval-rules'
+import { applyHunks, computeHunks, describeHunkSelection, type ChangeHunk, type HunkDecision, type HunkSelection } from './diff-hunks'
 
 /**
  * Permission request data structure
@@ -16,13 +18,18 @@ export interface PermissionRequest {
     mode?: string
     addedLines?: number
     removedLines?: number
+    /** Human-readable description of the operation (e.g. files that will be renamed, moved or trashed) */
+    summary?: string
+    /** Secrets found in newContent, described without their values */
+    secrets?: string
   }
 }
 
 /**
  * Permission response callback
+ * rule is set when the user chose to remember the decision; hunks is set when the user kept only part of an update
  */
-export type PermissionResponseCallback = (allowed: boolean, reason?: string) => void
+export type PermissionResponseCallback = (allowed: boolean, reason?: string, rule?: ApprovalRuleInput, hunks?: HunkSelection) => void
 
 /**
  * Permission modal for requesting user approval for tool operations
@@ -35,6 +42,9 @@ export class PermissionModal extends Modal {
   private countdownInterval: ReturnType<typeof setInterval> | null = null
   private countdownEl: HTMLElement | null = null
   private responseHandled = false
+  /** Hunks of the update under review and the user's answer for each */
+  private hunks: ChangeHunk[] = []
+  private hunkDecisions: HunkDecision[] = []
 
   constructor(app: App, request: PermissionRequest, onResponse: PermissionResponseCallback) {
     super(app)
@@ -66,8 +76,13 @@ export class PermissionModal extends Modal {
       toolInfo.createEl('p', { text: `File: ${(this.request.args as { path: string }).path}` })
     }
 
+    if (this.request.preview?.secrets) {
+      contentEl.createEl('p', { text: `Contains secrets: ${this.request.preview.secrets}`, cls: 'mod-warning' })
+    }
+
     // Preview content based on tool type
-    if (this.request.toolName === 'obsidian.update_note') {
+    // Merged updates (after a version conflict) show their summary like other tools
+    if (this.request.toolName === 'obsidian.update_note' && this.request.preview?.mode !== 'merge') {
       this.renderUpdateNotePreview(contentEl)
     } else if (this.request.preview) {
       this.renderGenericPreview(contentEl)
@@ -89,12 +104,91 @@ export class PermissionModal extends Modal {
       .addButton(btn => btn
         .setButtonText('Approve')
         .setCta()
-        .onClick(() => {
-          this.responseHandled = true
-          this.onResponse(true)
-          this.close()
+        .onClick(() => this.approve())
+      )
+
+    // Merged updates are a one-off follow-up of an approved call, so they are not remembered
+    if (this.request.preview?.mode !== 'merge') {
+      this.renderRememberOptions(contentEl)
+    }
+  }
+
+  /**
+   * Render the options that answer this call and turn the decision into an approval rule
+   */
+  private renderRememberOptions(container: HTMLElement) {
+    const { toolName, sessionId } = this.request
+    const path = this.request.args && typeof this.request.args === 'object' && 'path' in this.request.args
+      ? String((this.request.args as { path: unknown }).path)
+      : undefined
+    let pathPattern = path ?? ''
+
+    const respond = (allowed: boolean, rule: ApprovalRuleInput) => {
+      if (allowed) {
+        this.approve(rule)
+        return
+      }
+      this.responseHandled = true
+      this.onResponse(false, 'Denied by an approval rule', rule)
+      this.close()
+    }
+
+    const rememberSetting = new Setting(container)
+      .setName('Remember')
+      .setDesc(path
+        ? 'Path pattern for "Allow always" and "Always deny" (glob, e.g. Daily/**)'
+        : 'Applies to every call of this tool')
+
+    if (path) {
+      rememberSetting.addText(text => text
+        .setValue(pathPattern)
+        .onChange(value => {
+          pathPattern = value.trim()
         })
       )
+    }
+
+    if (sessionId) {
+      rememberSetting.addButton(btn => btn
+        .setButtonText('Allow for this session')
+        .onClick(() => respond(true, { decision: 'allow', toolName, sessionId }))
+      )
+    }
+
+    rememberSetting
+      .addButton(btn => btn
+        .setButtonText('Allow always')
+        .onClick(() => respond(true, { decision: 'allow', toolName, pathPattern: pathPattern || undefined }))
+      )
+      .addButton(btn => btn
+        .setButtonText('Always deny')
+        .setWarning()
+        .onClick(() => respond(false, { decision: 'deny', toolName, pathPattern: pathPattern || undefined }))
+      )
+  }
+
+  /**
+   * Approve the call, or only the hunks the user kept
+   * Rejecting every hunk denies the call. An allow rule is only remembered when the whole change was approved,
+   * since it would approve later changes in full.
+   */
+  private approve(rule?: ApprovalRuleInput) {
+    this.responseHandled = true
+    const selection = this.hunks.length > 0
+      ? applyHunks(this.request.preview?.originalContent ?? '', this.hunks, this.hunkDecisions)
+      : undefined
+
+    if (selection && selection.accepted.length === 0) {
+      this.onResponse(false, 'User rejected every hunk')
+    } else if (selection && (selection.rejected.length > 0 || selection.edited.length > 0)) {
+      if (rule) {
+        new Notice('Only part of the change was approved, so the decision was not remembered')
+      }
+      this.onResponse(true, describeHunkSelection(selection), undefined, selection)
+    } else {
+      this.onResponse(true, undefined, rule)
+    }
+    this.close()
   }
 
   /**
@@ -146,7 +240,7 @@ export class PermissionModal extends Modal {
     if (this.request.preview) {
       const stats = previewSection.createDiv('opencode-obsidian-permission-stats')
       
-      if (args.mode === 'replace' && this.request.preview.removedLines !== undefined) {
+      if ((args.mode === 'replace' || args.mode === 'patch') && this.request.preview.removedLines !== undefined) {
         stats.createEl('span', { 
           text: `Removed: ${this.request.preview.removedLines} lines` 
         })
@@ -162,6 +256,11 @@ export class PermissionModal extends Modal {
 
     // Display content preview based on mode
     const contentPreview = previewSection.createDiv('opencode-obsidian-permission-content')
+
+    // Changes to an existing note are reviewed hunk by hunk (insert previews only show the inserted text)
+    if (args.mode !== 'insert' && this.renderHunkPreview(contentPreview)) {
+      return
+    }
     
     switch (args.mode) {
       case 'replace':
@@ -183,6 +282,11 @@ export class PermissionModal extends Modal {
         // Show insertion point and content
         this.renderInsertPreview(contentPreview, args)
         break
+
+      case 'patch':
+        // Show the diff being applied
+        this.renderPatchPreview(contentPreview, args)
+        break
       
       default:
         // Generic preview
@@ -190,6 +294,62 @@ export class PermissionModal extends Modal {
     }
   }
 
+  /**
+   * Render the change as hunks, each with a checkbox to keep it and an inline editor for its new lines
+   * @returns false if there is nothing to split into hunks (new notes, unchanged or too large notes)
+   */
+  private renderHunkPreview(container: HTMLElement): boolean {
+    const preview = this.request.preview
+    if (preview?.originalContent === undefined) {
+      return false
+    }
+    try {
+      this.hunks = computeHunks(preview.originalContent, preview.newContent)
+    } catch {
+      this.hunks = []
+    }
+    if (this.hunks.length === 0) {
+      return false
+    }
+    this.hunkDecisions = []
+
+    container.createEl('h4', { text: 'Changes' })
+    for (const hunk of this.hunks) {
+      const decision: HunkDecision = { accepted: true }
+      this.hunkDecisions.push(decision)
+      const hunkEl = container.createDiv('opencode-obsidian-permission-hunk')
+      const header = hunkEl.createDiv('opencode-obsidian-permission-hunk-header')
+
+      const checkbox = header.createEl('input', { type: 'checkbox' })
+      checkbox.checked = true
+      checkbox.addEventListener('change', () => {
+        decision.accepted = checkbox.checked
+      })
+      header.createEl('span', {
+        text: `Hunk ${hunk.hunk} at line ${hunk.oldStart + 1} (-${hunk.removed.length} +${hunk.added.length})`
+      })
+
+      const code = hunkEl.createEl('pre', { cls: 'opencode-obsidian-code-preview' }).createEl('code')
+      for (const line of hunk.removed) {
+        code.createEl('div', { text: `-${line}`, cls: 'opencode-obsidian-diff-removed' })
+      }
+      for (const line of hunk.added) {
+        code.createEl('div', { text: `+${line}`, cls: 'opencode-obsidian-diff-added' })
+      }
+
+      const editor = hunkEl.createEl('textarea', { cls: 'opencode-obsidian-permission-hunk-edit' })
+      editor.value = hunk.added.join('\n')
+      editor.hide()
+      editor.addEventListener('input', () => {
+        decision.editedText = editor.value
+      })
+      header.createEl('button', { text: 'Edit' }).addEventListener('click', () => {
+        editor.toggle(!editor.isShown())
+      })
+    }
+    return true
+  }
+
   /**
    * Render replace mode preview (show original and new content)
    */
@@ -309,6 +469,40 @@ export class PermissionModal extends Modal {
     }
   }
 
+  /**
+   * Render patch mode preview (the unified diff, with added and removed lines highlighted)
+   */
+  private renderPatchPreview(container: HTMLElement, args: ObsidianUpdateNoteInput) {
+    const patchSection = container.createDiv('opencode-obsidian-permission-patch')
+    patchSection.createEl('h4', { text: 'Patch' })
+    const patchCode = patchSection.createEl('pre', {
+      cls: 'opencode-obsidian-code-preview'
+    })
+    const code = patchCode.createEl('code')
+
+    for (const line of args.content.split('\n')) {
+      let cls = ''
+      if (line.startsWith('@@')) {
+        cls = 'opencode-obsidian-diff-hunk'
+      } else if (line.startsWith('+') && !line.startsWith('+++')) {
+        cls = 'opencode-obsidian-diff-added'
+      } else if (line.startsWith('-') && !line.startsWith('---')) {
+        cls = 'opencode-obsidian-diff-removed'
+      }
+      code.createEl('div', { text: line || ' ', cls })
+    }
+
+    const newContent = this.request.preview?.newContent
+    if (newContent) {
+      const resultSection = container.createDiv('opencode-obsidian-permission-new')
+      resultSection.createEl('h4', { text: 'Result' })
+      const resultCode = resultSection.createEl('pre', {
+        cls: 'opencode-obsidian-code-preview'
+      })
+      resultCode.createEl('code', { text: newContent })
+    }
+  }
+
   /**
    * Render generic preview (for other tools)
    */
@@ -318,6 +512,15 @@ export class PermissionModal extends Modal {
       return
     }
 
+    if (this.request.preview.summary) {
+      const summarySection = container.createDiv('opencode-obsidian-permission-summary')
+      summarySection.createEl('h4', { text: 'Changes' })
+      const summaryCode = summarySection.createEl('pre', {
+        cls: 'opencode-obsidian-code-preview'
+      })
+      summaryCode.createEl('code', { text: this.request.preview.summary })
+    }
+
     if (this.request.preview.originalContent) {
       const originalSection = container.createDiv('opencode-obsidian-permission-original')
       originalSection.createEl('h4', { text: 'Original' })
@@ -327,12 +530,15 @@ export class PermissionModal extends Modal {
       originalCode.createEl('code', { text: this.request.preview.originalContent })
     }
 
-    const newSection = container.createDiv('opencode-obsidian-permission-new')
-    newSection.createEl('h4', { text: 'Modified' })
-    const newCode = newSection.createEl('pre', { 
-      cls: 'opencode-obsidian-code-preview' 
-    })
-    newCode.createEl('code', { text: this.request.preview.newContent })
+    // Deletions and renames have no new content to show
+    if (this.request.preview.newContent) {
+      const newSection = container.createDiv('opencode-obsidian-permission-new')
+      newSection.createEl('h4', { text: 'Modified' })
+      const newCode = newSection.createEl('pre', { 
+        cls: 'opencode-obsidian-code-preview' 
+      })
+      newCode.createEl('code', { text: this.request.preview.newContent })
+    }
   }
 
   onClose() {
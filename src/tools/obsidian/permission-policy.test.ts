@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { evaluatePolicy, parsePermissionPolicy } from './permission-policy'
+
+const policy = parsePermissionPolicy({
+  rules: [
+    { effect: 'allow', paths: ['Daily/Shared/**'] },
+    { effect: 'deny', paths: ['Daily/**'], operations: ['modify', 'delete'] },
+    { effect: 'deny', paths: ['Private/**'] }
+  ],
+  tools: {
+    'obsidian.delete_note': [{ effect: 'deny', paths: ['**'] }]
+  },
+  agents: {
+    'read-only': [{ effect: 'deny', paths: ['**'], operations: ['create', 'modify', 'delete'] }]
+  }
+})
+
+describe('evaluatePolicy', () => {
+  it('should apply the first matching rule for the operation', () => {
+    expect(evaluatePolicy(policy, 'Daily/Shared/plan.md', 'delete').allowed).toBe(true)
+    expect(evaluatePolicy(policy, 'Daily/2026-10-19.md', 'modify')).toEqual({
+      allowed: false,
+      reason: "Path 'Daily/2026-10-19.md' is denied for modify by the permission policy (rule 2)",
+      secrets: false
+    })
+    expect(evaluatePolicy(policy, 'Daily/2026-10-19.md', 'read').allowed).toBe(true)
+    expect(evaluatePolicy(policy, 'Daily/2026-10-19.md', 'write').allowed).toBe(false)
+    expect(evaluatePolicy(policy, 'Private/diary.md', 'read').allowed).toBe(false)
+    expect(evaluatePolicy(policy, 'Projects/plan.md', 'create').allowed).toBe(true)
+  })
+
+  it('should narrow the base rules with the tool and agent sections', () => {
+    expect(evaluatePolicy(policy, 'Daily/Shared/plan.md', 'delete', { toolName: 'obsidian.delete_note' }).reason)
+      .toBe(`Path 'Daily/Shared/plan.md' is denied for delete by the permission policy (tool "obsidian.delete_note" rule 1)`)
+    expect(evaluatePolicy(policy, 'Projects/plan.md', 'create', { agentId: 'read-only' }).allowed).toBe(false)
+    expect(evaluatePolicy(policy, 'Projects/plan.md', 'read', { agentId: 'read-only' }).allowed).toBe(true)
+    // Sections cannot allow what the base rules deny
+    expect(evaluatePolicy(policy, 'Private/diary.md', 'read', { agentId: 'read-only' }).allowed).toBe(false)
+  })
+
+  it('should use the default when no rule matches', () => {
+    const denyByDefault = parsePermissionPolicy({ default: 'deny', rules: [{ effect: 'allow', paths: ['Inbox/*'] }] })
+
+    expect(evaluatePolicy(denyByDefault, 'Inbox/idea.md', 'create').allowed).toBe(true)
+    expect(evaluatePolicy(denyByDefault, 'Projects/plan.md', 'read').reason)
+      .toBe("Path 'Projects/plan.md' is not allowed for read by any permission policy rule")
+    expect(() => parsePermissionPolicy({ rules: [{ effect: 'maybe', paths: [] }] })).toThrow('Invalid permission policy: rules.0.effect')
+    expect(parsePermissionPolicy({ secrets: 'ask' }).secrets).toBe('ask')
+  })
+})
@@ -0,0 +1,121 @@
+import { z } from 'zod'
+import { minimatch } from 'minimatch'
+import type { OperationType, PermissionValidationResult } from './permission-types'
+
+/**
+ * Vault permission policy (.opencode/permissions.yaml or .opencode/permissions.json)
+ * Ordered allow/deny rules per path and operation, with sections that narrow them for specific tools and agents.
+ * Lets a team version its permission rules in the vault instead of configuring every member's settings.
+ */
+
+/** Policy file locations, in order of preference */
+export const PERMISSION_POLICY_PATHS = ['.opencode/permissions.yaml', '.opencode/permissions.yml', '.opencode/permissions.json']
+
+const PolicyRuleSchema = z.object({
+  effect: z.enum(['allow', 'deny']),
+  paths: z.array(z.string()).min(1),
+  operations: z.array(z.enum(['read', 'create', 'modify', 'delete'])).optional()
+})
+
+const PolicyRuleListSchema = z.array(PolicyRuleSchema)
+
+const PermissionPolicySchema = z.object({
+  default: z.enum(['allow', 'deny']).optional(),
+  rules: PolicyRuleListSchema.optional(),
+  tools: z.record(z.string(), PolicyRuleListSchema).optional(),
+  agents: z.record(z.string(), PolicyRuleListSchema).optional(),
+  /** What to do with notes containing secrets (overrides the setting) */
+  secrets: z.enum(['redact', 'block', 'ask']).optional()
+})
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>
+export type PermissionPolicy = z.infer<typeof PermissionPolicySchema>
+
+/**
+ * Who is asking: rules in the tools and agents sections only apply to matching calls
+ */
+export interface PolicyContext {
+  toolName?: string
+  agentId?: string
+}
+
+/**
+ * Validate a parsed policy file
+ * @throws Error describing the first invalid fields
+ */
+export function parsePermissionPolicy(raw: unknown): PermissionPolicy {
+  const result = PermissionPolicySchema.safeParse(raw ?? {})
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+    throw new Error(`Invalid permission policy: ${issues}`)
+  }
+  return result.data
+}
+
+/**
+ * Whether a rule covers an operation (a generic write is covered by create and modify rules)
+ */
+function coversOperation(rule: PolicyRule, operation: OperationType): boolean {
+  if (!rule.operations) {
+    return true
+  }
+  if (operation === 'write') {
+    return rule.operations.includes('create') || rule.operations.includes('modify')
+  }
+  return rule.operations.includes(operation)
+}
+
+/**
+ * First rule of a list matching a path and operation, with its position
+ */
+function findRule(rules: PolicyRule[], path: string, operation: OperationType): { rule: PolicyRule; index: number } | undefined {
+  const index = rules.findIndex(rule =>
+    coversOperation(rule, operation) && rule.paths.some(pattern => minimatch(path, pattern))
+  )
+  const rule = rules[index]
+  return rule ? { rule, index } : undefined
+}
+
+/**
+ * Decide whether the policy allows an operation on a path
+ * The agent's and tool's sections are checked first and can only narrow the base rules: a deny there denies,
+ * anything else falls through to the base rules. In each list the first matching rule wins; if no base rule
+ * matches, the policy's default applies (allow unless set to deny).
+ */
+export function evaluatePolicy(
+  policy: PermissionPolicy,
+  path: string,
+  operation: OperationType,
+  context: PolicyContext = {}
+): PermissionValidationResult {
+  const sections: Array<{ name: string; rules: PolicyRule[] }> = []
+  if (context.agentId && policy.agents?.[context.agentId]) {
+    sections.push({ name: `agent "${context.agentId}"`, rules: policy.agents[context.agentId] ?? [] })
+  }
+  if (context.toolName && policy.tools?.[context.toolName]) {
+    sections.push({ name: `tool "${context.toolName}"`, rules: policy.tools[context.toolName] ?? [] })
+  }
+
+  for (const section of sections) {
+    const match = findRule(section.rules, path, operation)
+    if (match?.rule.effect === 'deny') {
+      return {
+        allowed: false,
+        reason: `Path '${path}' is denied for ${operation} by the permission policy (${section.name} rule ${match.index + 1})`,
+        secrets: false
+      }
+    }
+  }
+
+  const match = findRule(policy.rules ?? [], path, operation)
+  if (match ? match.rule.effect === 'deny' : policy.default === 'deny') {
+    return {
+      allowed: false,
+      reason: match
+        ? `Path '${path}' is denied for ${operation} by the permission policy (rule ${match.index + 1})`
+        : `Path '${path}' is not allowed for ${operation} by any permission policy rule`,
+      secrets: false
+    }
+  }
+  return { allowed: true, secrets: false }
+}
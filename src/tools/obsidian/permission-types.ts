@@ -32,6 +32,21 @@ export interface PermissionScope {
    * Example: ['.md', '.txt', '.json']
    */
   allowedExtensions?: string[]
+
+  /**
+   * Maximum attachment size in bytes
+   * Applies to binary files read and saved by the attachment tools instead of maxFileSize
+   * Example: 10485760 (10MB)
+   */
+  maxAttachmentSize?: number
+
+  /**
+   * Allowed attachment extensions
+   * Checked instead of allowedExtensions for binary files read and saved by the attachment tools
+   * If not specified, all extensions are allowed (subject to deniedPaths)
+   * Example: ['.png', '.jpg', '.pdf']
+   */
+  attachmentExtensions?: string[]
 }
 
 /**
@@ -71,6 +86,21 @@ export interface PermissionLevelConfig {
   scope: PermissionScope
 }
 
+/**
+ * Permission profile of an agent
+ * Narrows the plugin-wide permission level and scope while the agent runs a session; it cannot widen them.
+ */
+export interface AgentPermissionProfile {
+  /** Agent the profile belongs to */
+  agentId: string
+
+  /** Highest permission level the agent's operations get (undefined: the plugin-wide level) */
+  level?: ToolPermission
+
+  /** Paths the agent is limited to, checked in addition to the plugin-wide scope */
+  scope?: Pick<PermissionScope, 'allowedPaths' | 'deniedPaths'>
+}
+
 /**
  * Default permission configurations
  */
@@ -79,7 +109,9 @@ export const DEFAULT_PERMISSION_CONFIGS: Record<ToolPermission, PermissionScope>
     allowedPaths: undefined,
     deniedPaths: undefined,
     maxFileSize: undefined,
-    allowedExtensions: undefined
+    allowedExtensions: undefined,
+    maxAttachmentSize: undefined,
+    attachmentExtensions: undefined
   },
   [ToolPermission.ScopedWrite]: {
     allowedPaths: undefined,
@@ -91,7 +123,9 @@ export const DEFAULT_PERMISSION_CONFIGS: Record<ToolPermission, PermissionScope>
       '**/.opencode/**'
     ],
     maxFileSize: 10485760,
-    allowedExtensions: ['.md', '.txt', '.json', '.yaml', '.yml', '.toml']
+    allowedExtensions: ['.md', '.canvas', '.txt', '.json', '.yaml', '.yml', '.toml'],
+    maxAttachmentSize: 10485760,
+    attachmentExtensions: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.bmp', '.avif', '.pdf', '.mp3', '.wav', '.m4a', '.ogg', '.mp4', '.webm']
   },
   [ToolPermission.FullWrite]: {
     allowedPaths: undefined,
@@ -104,6 +138,18 @@ export const DEFAULT_PERMISSION_CONFIGS: Record<ToolPermission, PermissionScope>
       '**/.obsidian/appearance.json'
     ],
     maxFileSize: undefined,
-    allowedExtensions: undefined
+    allowedExtensions: undefined,
+    maxAttachmentSize: undefined,
+    attachmentExtensions: undefined
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when permission is pending (needs user approval)
+ */
+export class PermissionPendingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermissionPendingError'
+  }
+}
@@ -0,0 +1,164 @@
+import type { TFile, Vault } from 'obsidian'
+import { parseYaml } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { isPrivateNote, PRIVATE_NOTE_PLACEHOLDER, redactSecretProperties, redactSecrets, scanForSecrets } from './secret-scanner'
+import { updateFrontmatter, type FrontmatterUpdate } from './frontmatter-editor'
+import { isTFile, type WriteContext, type WritePreview } from './write-context'
+import type { ObsidianUpdatePropertiesInput, ObsidianUpdatePropertiesOutput } from './types'
+
+/**
+ * Write tool for the frontmatter properties of a note (update_properties)
+ */
+export class PropertyTools {
+	private vault: Vault
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Update frontmatter properties (set, remove, append to lists) without touching the rest of the note
+	 */
+	async updateProperties(
+		input: ObsidianUpdatePropertiesInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdatePropertiesOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+
+		return this.context.executeWithAuditLog(
+			'obsidian.update_properties',
+			sessionId,
+			effectiveCallId,
+			input,
+			'modify',
+			input.path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, update } = await this.prepareProperties(input)
+
+				if (dryRun || update.changedKeys.length === 0) {
+					return {
+						path: input.path,
+						updated: false,
+						changedKeys: update.changedKeys,
+						...this.redactPropertiesOutput(update)
+					}
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.update_properties', 'modify') && !approved) {
+					throw new PermissionPendingError('User approval required for update properties operation')
+				}
+
+				await this.context.checkPreviewVersion(effectiveCallId, input.path)
+				await this.context.captureSnapshot('obsidian.update_properties', sessionId, effectiveCallId, [{ path: input.path }])
+
+				// Re-apply on the latest content inside Vault.process so concurrent edits are not lost
+				let applied = update
+				await this.vault.process(file, current => {
+					applied = updateFrontmatter(current, input)
+					return applied.content
+				})
+
+				return {
+					path: input.path,
+					updated: applied.changedKeys.length > 0,
+					changedKeys: applied.changedKeys,
+					...this.redactPropertiesOutput(applied)
+				}
+			}
+		)
+	}
+
+	/**
+	 * Properties and frontmatter preview of an update_properties output, with secrets redacted
+	 * Frontmatter of a note tagged #private is withheld entirely.
+	 */
+	private redactPropertiesOutput(update: FrontmatterUpdate): {
+		properties: Record<string, unknown>
+		preview: { originalFrontmatter?: string; newFrontmatter: string }
+	} {
+		const redactFrontmatter = (frontmatter: string) => {
+			const note = `---\n${frontmatter}\n---\n`
+			const redacted = redactSecrets(note, scanForSecrets(note))
+			return redacted.startsWith('---\n') ? redacted.slice(4, -5) : redacted
+		}
+		const withheld = isPrivateNote(update.content) ||
+			(update.originalFrontmatter !== undefined && isPrivateNote(`---\n${update.originalFrontmatter}\n---\n`))
+		if (withheld) {
+			return {
+				properties: {},
+				preview: {
+					originalFrontmatter: update.originalFrontmatter !== undefined ? PRIVATE_NOTE_PLACEHOLDER : undefined,
+					newFrontmatter: PRIVATE_NOTE_PLACEHOLDER
+				}
+			}
+		}
+		return {
+			properties: redactSecretProperties(this.parseProperties(update.newFrontmatter)),
+			preview: {
+				originalFrontmatter: update.originalFrontmatter !== undefined ? redactFrontmatter(update.originalFrontmatter) : undefined,
+				newFrontmatter: redactFrontmatter(update.newFrontmatter)
+			}
+		}
+	}
+
+	/**
+	 * Check permissions and compute a frontmatter update (used by execution and preview)
+	 */
+	private async prepareProperties(input: ObsidianUpdatePropertiesInput): Promise<{ file: TFile; update: FrontmatterUpdate }> {
+		const permission = await this.permissionManager.canModify(input.path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+
+		const file = this.vault.getAbstractFileByPath(input.path)
+		if (!isTFile(file)) {
+			throw new Error(`File not found: ${input.path}`)
+		}
+		if (file.extension !== 'md') {
+			throw new Error(`Properties are only supported for markdown notes: ${input.path}`)
+		}
+
+		const update = updateFrontmatter(await this.vault.read(file), input)
+		// Never write frontmatter Obsidian cannot read back
+		this.parseProperties(update.newFrontmatter)
+
+		return { file, update }
+	}
+
+	/**
+	 * Parse frontmatter YAML into properties
+	 */
+	private parseProperties(frontmatter: string): Record<string, unknown> {
+		try {
+			const parsed: unknown = frontmatter.trim() ? parseYaml(frontmatter) : {}
+			return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {}
+		} catch (error) {
+			throw new Error(`Frontmatter is not valid YAML: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	/**
+	 * Preview the frontmatter before and after the update
+	 */
+	async preview(input: ObsidianUpdatePropertiesInput): Promise<WritePreview> {
+		const { update } = await this.prepareProperties(input)
+		return {
+			originalContent: update.originalFrontmatter,
+			newContent: update.newFrontmatter,
+			mode: 'properties',
+			summary: update.changedKeys.length > 0
+				? `Changed properties: ${update.changedKeys.join(', ')}`
+				: 'No property changes'
+		}
+	}
+}
@@ -0,0 +1,468 @@
+import type { MetadataCache, TFile, Vault } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import {
+	applyLinkRewrites,
+	computeNewLinkpath,
+	decodeLinkpath,
+	getFileName,
+	getParentFolder,
+	isWikilink,
+	replaceLinkTarget,
+	splitLinkTarget,
+	type LinkRewrite
+} from './link-rewriter'
+import { isTFile, isTFolder, type WriteContext, type WritePreview } from './write-context'
+import type {
+	ObsidianDeleteNoteInput,
+	ObsidianDeleteNoteOutput,
+	ObsidianRenameNoteInput,
+	ObsidianRenameNoteOutput,
+	ObsidianMoveNoteInput,
+	ObsidianMoveNoteOutput
+} from './types'
+
+/**
+ * Links to rewrite in one note when a file is renamed or moved
+ */
+interface PlannedLinkUpdate {
+	/** Path of the note containing the links (before the operation) */
+	path: string
+	rewrites: LinkRewrite[]
+}
+
+/**
+ * Input shared by rename_note and move_note
+ */
+interface RelocateNoteInput {
+	path: string
+	updateLinks?: boolean
+	dryRun?: boolean
+}
+
+/**
+ * Write tools that delete, rename or move notes (delete_note, rename_note, move_note), keeping links to them up to date
+ */
+export class RelocationTools {
+	private vault: Vault
+	private metadataCache: MetadataCache
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.metadataCache = context.metadataCache
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Delete a note by moving it to the trash
+	 */
+	async deleteNote(
+		input: ObsidianDeleteNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianDeleteNoteOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+
+		return this.context.executeWithAuditLog(
+			'obsidian.delete_note',
+			sessionId,
+			effectiveCallId,
+			input,
+			'delete',
+			input.path,
+			approved,
+			dryRun,
+			async () => {
+				// Check delete permission (full-write only)
+				const permission = await this.permissionManager.canDelete(input.path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const file = this.vault.getAbstractFileByPath(input.path)
+				if (!isTFile(file)) {
+					throw new Error(`File not found: ${input.path}`)
+				}
+
+				const backlinks = this.getBacklinkSources(file.path).filter(source => source !== file.path)
+
+				if (dryRun) {
+					return { path: file.path, deleted: false, backlinks }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.delete_note', 'delete') && !approved) {
+					throw new PermissionPendingError('User approval required for delete operation')
+				}
+
+				await this.context.captureSnapshot('obsidian.delete_note', sessionId, effectiveCallId, [{ path: file.path }])
+
+				// System trash when available, otherwise the vault's .trash folder - never a permanent delete
+				await this.vault.trash(file, true)
+
+				return { path: file.path, deleted: true, backlinks }
+			}
+		)
+	}
+
+	/**
+	 * Rename a note within its folder, updating links to it
+	 */
+	async renameNote(
+		input: ObsidianRenameNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianRenameNoteOutput> {
+		const result = await this.relocateNote(
+			'obsidian.rename_note',
+			input,
+			file => this.resolveRenameTarget(file, input.newName),
+			sessionId,
+			callId,
+			approved
+		)
+		return { path: result.path, newPath: result.newPath, renamed: result.applied, updatedLinks: result.updatedLinks }
+	}
+
+	/**
+	 * Move a note to another folder, updating links to it
+	 */
+	async moveNote(
+		input: ObsidianMoveNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianMoveNoteOutput> {
+		const result = await this.relocateNote(
+			'obsidian.move_note',
+			input,
+			file => this.resolveMoveTarget(file, input.targetFolder),
+			sessionId,
+			callId,
+			approved
+		)
+		return { path: result.path, newPath: result.newPath, moved: result.applied, updatedLinks: result.updatedLinks }
+	}
+
+	/**
+	 * Compute the new path for a rename (keeps the folder and, if omitted, the extension)
+	 */
+	private resolveRenameTarget(file: TFile, newName: string): string {
+		const name = newName.trim()
+		if (!name || name.includes('/')) {
+			throw new Error(`Invalid file name: "${newName}". Use obsidian.move_note to change folders.`)
+		}
+		const fileName = name.toLowerCase().endsWith(`.${file.extension.toLowerCase()}`) ? name : `${name}.${file.extension}`
+		const folder = getParentFolder(file.path)
+		return folder ? `${folder}/${fileName}` : fileName
+	}
+
+	/**
+	 * Compute the new path for a move (keeps the file name)
+	 */
+	private resolveMoveTarget(file: TFile, targetFolder: string): string {
+		const folder = targetFolder.trim().replace(/^\/+|\/+$/g, '')
+		return folder ? `${folder}/${file.name}` : file.name
+	}
+
+	/**
+	 * Rename or move a note and rewrite links to it (shared by rename_note and move_note)
+	 */
+	private async relocateNote(
+		toolName: string,
+		input: RelocateNoteInput,
+		resolveNewPath: (file: TFile) => string,
+		sessionId: string | undefined,
+		callId: string | undefined,
+		approved: boolean
+	): Promise<{ path: string; newPath: string; applied: boolean; updatedLinks: Array<{ path: string; count: number }> }> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+
+		return this.context.executeWithAuditLog(
+			toolName,
+			sessionId,
+			effectiveCallId,
+			input,
+			'modify',
+			input.path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, newPath, plan } = await this.prepareRelocation(input, resolveNewPath)
+				const oldPath = file.path
+				const toNewPath = (path: string) => path === oldPath ? newPath : path
+
+				if (dryRun) {
+					return {
+						path: oldPath,
+						newPath,
+						applied: false,
+						updatedLinks: plan.map(update => ({ path: toNewPath(update.path), count: update.rewrites.length }))
+					}
+				}
+
+				if (this.permissionManager.requiresApproval(toolName, 'modify') && !approved) {
+					throw new PermissionPendingError('User approval required for rename/move operation')
+				}
+
+				await this.context.captureSnapshot(toolName, sessionId, effectiveCallId, [
+					{ path: oldPath, movedTo: newPath },
+					...plan.filter(update => update.path !== oldPath).map(update => ({ path: update.path }))
+				])
+
+				// Ensure destination folder exists
+				const parentPath = getParentFolder(newPath)
+				if (parentPath && !isTFolder(this.vault.getAbstractFileByPath(parentPath))) {
+					await this.vault.createFolder(parentPath)
+				}
+
+				// Vault.rename moves the file only; links are rewritten below so the result
+				// does not depend on the user's "Automatically update internal links" setting
+				await this.vault.rename(file, newPath)
+
+				const updatedLinks: Array<{ path: string; count: number }> = []
+				for (const update of plan) {
+					const source = update.path === oldPath ? file : this.vault.getAbstractFileByPath(update.path)
+					if (!isTFile(source)) {
+						continue
+					}
+					const content = await this.vault.read(source)
+					const rewritten = applyLinkRewrites(content, update.rewrites)
+					if (rewritten.applied > 0) {
+						await this.vault.modify(source, rewritten.content)
+						updatedLinks.push({ path: source.path, count: rewritten.applied })
+					}
+				}
+
+				return { path: oldPath, newPath, applied: true, updatedLinks }
+			}
+		)
+	}
+
+	/**
+	 * Validate a rename/move and plan its link updates (used by execution and preview)
+	 */
+	private async prepareRelocation(
+		input: RelocateNoteInput,
+		resolveNewPath: (file: TFile) => string
+	): Promise<{ file: TFile; newPath: string; plan: PlannedLinkUpdate[] }> {
+		const permission = await this.permissionManager.canModify(input.path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+
+		const file = this.vault.getAbstractFileByPath(input.path)
+		if (!isTFile(file)) {
+			throw new Error(`File not found: ${input.path}`)
+		}
+
+		const newPath = resolveNewPath(file)
+		if (newPath === file.path) {
+			throw new Error(`Note is already at ${newPath}`)
+		}
+
+		const createPermission = await this.permissionManager.canCreate(newPath)
+		if (!createPermission.allowed) {
+			throw new Error(`Permission denied: ${createPermission.reason}`)
+		}
+
+		const existing = this.vault.getAbstractFileByPath(newPath)
+		// Case-only renames resolve to the same file on case-insensitive file systems
+		if (existing && existing !== file) {
+			throw new Error(`File already exists: ${newPath}`)
+		}
+
+		const plan = (input.updateLinks ?? true) ? this.planLinkUpdates(file, newPath) : []
+
+		// Every note whose links change must be modifiable too
+		for (const update of plan) {
+			if (update.path === file.path) {
+				continue
+			}
+			const linkPermission = await this.permissionManager.canModify(update.path)
+			if (!linkPermission.allowed) {
+				throw new Error(`Permission denied: cannot update links in ${update.path}: ${linkPermission.reason}. Use updateLinks=false to skip link updates.`)
+			}
+		}
+
+		return { file, newPath, plan }
+	}
+
+	/**
+	 * Get paths of notes that link to a file (from the resolved link index)
+	 */
+	private getBacklinkSources(path: string): string[] {
+		return Object.entries(this.metadataCache.resolvedLinks)
+			.filter(([, targets]) => targets[path] !== undefined)
+			.map(([source]) => source)
+	}
+
+	/**
+	 * Plan the link rewrites needed when a file moves from its current path to newPath
+	 *
+	 * Covers wikilinks, embeds and markdown links in every linking note (including frontmatter links),
+	 * plus relative markdown links inside the moved note itself when its folder changes.
+	 */
+	private planLinkUpdates(file: TFile, newPath: string): PlannedLinkUpdate[] {
+		const oldPath = file.path
+		const newFileName = getFileName(newPath).toLowerCase()
+		const basenameIsUnique = !this.vault.getFiles().some(other => other !== file && other.name.toLowerCase() === newFileName)
+		const updates = new Map<string, LinkRewrite[]>()
+
+		const addRewrite = (sourcePath: string, rewrite: LinkRewrite) => {
+			if (rewrite.replacement === rewrite.original) {
+				return
+			}
+			const rewrites = updates.get(sourcePath) ?? []
+			rewrites.push(rewrite)
+			updates.set(sourcePath, rewrites)
+		}
+
+		// Links pointing at the file
+		for (const sourcePath of this.getBacklinkSources(oldPath)) {
+			const source = this.vault.getAbstractFileByPath(sourcePath)
+			const cache = isTFile(source) ? this.metadataCache.getFileCache(source) : null
+			if (!cache) {
+				continue
+			}
+			const sourceNewPath = sourcePath === oldPath ? newPath : sourcePath
+
+			const references = [
+				...(cache.links ?? []).map(ref => ({ ...ref, start: ref.position.start.offset, end: ref.position.end.offset })),
+				...(cache.embeds ?? []).map(ref => ({ ...ref, start: ref.position.start.offset, end: ref.position.end.offset })),
+				// Frontmatter links have no position; applyLinkRewrites searches from the start of the frontmatter
+				...(cache.frontmatterLinks ?? []).map(ref => ({
+					...ref,
+					start: cache.frontmatterPosition?.start.offset ?? 0,
+					end: cache.frontmatterPosition?.start.offset ?? 0
+				}))
+			]
+
+			for (const ref of references) {
+				const linkpath = decodeLinkpath(splitLinkTarget(ref.link).path)
+				if (this.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path !== oldPath) {
+					continue
+				}
+				const newLinkpath = computeNewLinkpath({
+					oldLinkpath: linkpath,
+					oldTargetPath: oldPath,
+					newTargetPath: newPath,
+					sourcePath: sourceNewPath,
+					isWikilink: isWikilink(ref.original),
+					basenameIsUnique
+				})
+				const replacement = replaceLinkTarget(ref.original, newLinkpath)
+				if (replacement) {
+					addRewrite(sourcePath, { start: ref.start, end: ref.end, original: ref.original, replacement })
+				}
+			}
+		}
+
+		// Relative markdown links inside the moved note break when its folder changes
+		if (getParentFolder(oldPath) !== getParentFolder(newPath)) {
+			const cache = this.metadataCache.getFileCache(file)
+			for (const ref of [...(cache?.links ?? []), ...(cache?.embeds ?? [])]) {
+				if (isWikilink(ref.original)) {
+					continue
+				}
+				const linkpath = decodeLinkpath(splitLinkTarget(ref.link).path)
+				const target = this.metadataCache.getFirstLinkpathDest(linkpath, oldPath)
+				if (!target || target.path === oldPath) {
+					continue
+				}
+				const newLinkpath = computeNewLinkpath({
+					oldLinkpath: linkpath,
+					oldTargetPath: target.path,
+					newTargetPath: target.path,
+					sourcePath: newPath,
+					isWikilink: false,
+					basenameIsUnique: true
+				})
+				const replacement = replaceLinkTarget(ref.original, newLinkpath)
+				if (replacement) {
+					addRewrite(oldPath, {
+						start: ref.position.start.offset,
+						end: ref.position.end.offset,
+						original: ref.original,
+						replacement
+					})
+				}
+			}
+		}
+
+		return Array.from(updates.entries()).map(([path, rewrites]) => ({ path, rewrites }))
+	}
+
+	/**
+	 * Preview a delete: the note's content and the notes whose links it breaks
+	 */
+	async previewDelete(input: ObsidianDeleteNoteInput): Promise<WritePreview> {
+		const permission = await this.permissionManager.canRead(input.path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+		const file = this.vault.getAbstractFileByPath(input.path)
+		if (!isTFile(file)) {
+			throw new Error(`File not found: ${input.path}`)
+		}
+		const backlinks = this.getBacklinkSources(file.path).filter(source => source !== file.path)
+		const summaryLines = [`Move ${file.path} to the trash`]
+		if (backlinks.length > 0) {
+			summaryLines.push('', `Links in ${backlinks.length} note(s) will become unresolved:`, ...backlinks.map(source => `- ${source}`))
+		}
+		return {
+			originalContent: await this.vault.read(file),
+			newContent: '',
+			mode: 'delete',
+			summary: summaryLines.join('\n')
+		}
+	}
+
+	/**
+	 * Preview a rename or move: the new path and every link rewritten
+	 */
+	async previewRelocation(
+		toolName: string,
+		input: RelocateNoteInput & Partial<ObsidianRenameNoteInput & ObsidianMoveNoteInput>
+	): Promise<WritePreview> {
+		const isRename = toolName === 'obsidian.rename_note'
+		const { file, newPath, plan } = await this.prepareRelocation(input, target => isRename
+			? this.resolveRenameTarget(target, input.newName ?? '')
+			: this.resolveMoveTarget(target, input.targetFolder ?? ''))
+
+		const summaryLines = [`${isRename ? 'Rename' : 'Move'} ${file.path} → ${newPath}`]
+		if (plan.length > 0) {
+			summaryLines.push('', `Links updated in ${plan.length} note(s):`)
+			for (const update of plan) {
+				summaryLines.push(`- ${update.path === file.path ? newPath : update.path}`)
+				for (const rewrite of update.rewrites) {
+					summaryLines.push(`    ${rewrite.original} → ${rewrite.replacement}`)
+				}
+			}
+		}
+		return {
+			newContent: '',
+			mode: isRename ? 'rename' : 'move',
+			summary: summaryLines.join('\n')
+		}
+	}
+
+	/**
+	 * Paths a rename or move changes: the note and, if it exists, its destination
+	 */
+	getRelocationPaths(toolName: string, input: ObsidianRenameNoteInput & ObsidianMoveNoteInput): string[] {
+		const file = this.vault.getAbstractFileByPath(input.path)
+		if (!isTFile(file)) {
+			return [input.path]
+		}
+		return [input.path, toolName === 'obsidian.rename_note'
+			? this.resolveRenameTarget(file, input.newName)
+			: this.resolveMoveTarget(file, input.targetFolder)]
+	}
+}
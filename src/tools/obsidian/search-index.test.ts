@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SearchIndex, buildSnippets, parseSearchQuery, tokenize } from './search-index'
+
+describe('tokenize', () => {
+	it('should lowercase terms, strip diacritics and keep offsets', () => {
+		expect(tokenize('Café, naïve-Test')).toEqual([
+			{ term: 'cafe', start: 0, end: 4 },
+			{ term: 'naive', start: 6, end: 11 },
+			{ term: 'test', start: 12, end: 16 }
+		])
+	})
+})
+
+describe('parseSearchQuery', () => {
+	it('should parse terms, phrases and prefixes', () => {
+		expect(parseSearchQuery('Roadmap "quarterly review" plan*')).toEqual([
+			{ type: 'term', term: 'roadmap' },
+			{ type: 'phrase', terms: ['quarterly', 'review'] },
+			{ type: 'prefix', prefix: 'plan' }
+		])
+	})
+
+	it('should match words that split into several tokens as phrases', () => {
+		expect(parseSearchQuery('e-mail')).toEqual([{ type: 'phrase', terms: ['e', 'mail'] }])
+	})
+
+	it('should ignore empty clauses', () => {
+		expect(parseSearchQuery('"" -- *')).toEqual([])
+	})
+})
+
+describe('SearchIndex', () => {
+	let index: SearchIndex
+
+	beforeEach(() => {
+		index = new SearchIndex()
+		index.add('Projects/Roadmap.md', 'The quarterly review covers the roadmap.\nPlanning starts in October.')
+		index.add('Daily/2026-10-01.md', 'Met with Alice about the review. Review notes are in the roadmap.')
+		index.add('Ideas.md', 'Plants and planets. Nothing about reviews here.')
+	})
+
+	it('should find notes by body content, not only by path', () => {
+		expect(index.search(parseSearchQuery('october')).map(hit => hit.path)).toEqual(['Projects/Roadmap.md'])
+	})
+
+	it('should require every clause to match', () => {
+		expect(index.search(parseSearchQuery('review alice')).map(hit => hit.path)).toEqual(['Daily/2026-10-01.md'])
+		expect(index.search(parseSearchQuery('review missing'))).toEqual([])
+	})
+
+	it('should rank by term frequency and boost path matches', () => {
+		const hits = index.search(parseSearchQuery('roadmap'))
+
+		expect(hits.map(hit => hit.path)).toEqual(['Projects/Roadmap.md', 'Daily/2026-10-01.md'])
+		expect(hits[0]?.matchCount).toBe(2)
+	})
+
+	it('should match exact phrases only', () => {
+		expect(index.search(parseSearchQuery('"quarterly review"')).map(hit => hit.path)).toEqual(['Projects/Roadmap.md'])
+		expect(index.search(parseSearchQuery('"review quarterly"'))).toEqual([])
+	})
+
+	it('should expand prefixes', () => {
+		expect(index.search(parseSearchQuery('plan*')).map(hit => hit.path).sort()).toEqual(['Ideas.md', 'Projects/Roadmap.md'])
+		expect(index.search(parseSearchQuery('2026*')).map(hit => hit.path)).toEqual(['Daily/2026-10-01.md'])
+	})
+
+	it('should update incrementally on add, remove and rename', () => {
+		index.add('Ideas.md', 'Now about October.')
+		expect(index.search(parseSearchQuery('october')).map(hit => hit.path).sort()).toEqual(['Ideas.md', 'Projects/Roadmap.md'])
+		expect(index.search(parseSearchQuery('planets'))).toEqual([])
+
+		index.rename('Ideas.md', 'Archive/Old ideas.md')
+		expect(index.search(parseSearchQuery('archive')).map(hit => hit.path)).toEqual(['Archive/Old ideas.md'])
+
+		index.remove('Archive/Old ideas.md')
+		expect(index.has('Archive/Old ideas.md')).toBe(false)
+		expect(index.size).toBe(2)
+		expect(index.search(parseSearchQuery('october')).map(hit => hit.path)).toEqual(['Projects/Roadmap.md'])
+	})
+})
+
+describe('buildSnippets', () => {
+	it('should highlight matches and return one snippet per matching line', () => {
+		const content = 'Intro line\nThe quarterly review is due.\nOther text\nAnother review later.'
+		const snippets = buildSnippets(content, parseSearchQuery('review'))
+
+		expect(snippets).toEqual([
+			{ line: 2, text: 'The quarterly ==review== is due.' },
+			{ line: 4, text: 'Another ==review== later.' }
+		])
+	})
+
+	it('should highlight phrases as a whole and trim long lines at word boundaries', () => {
+		const content = `${'word '.repeat(30)}the quarterly review ${'tail '.repeat(30)}`
+		const [snippet] = buildSnippets(content, parseSearchQuery('"quarterly review"'))
+
+		expect(snippet?.text).toMatch(/^…word .*the ==quarterly review== tail .*tail…$/)
+		expect(snippet?.text.length).toBeLessThan(200)
+	})
+
+	it('should keep the snippets with the most matches', () => {
+		const content = 'one match here\nmatch and match again\nlast match'
+		const snippets = buildSnippets(content, parseSearchQuery('match'), 1)
+
+		expect(snippets).toEqual([{ line: 2, text: '==match== and ==match== again' }])
+	})
+})
@@ -0,0 +1,613 @@
+/**
+ * Full-text search index for search_vault
+ * An in-memory inverted index ranked with BM25. Supports plain terms,
+ * "quoted phrases" and prefix* queries; all clauses of a query must match (in the note body or its path).
+ * The index has no Obsidian dependency; VaultSearchIndex keeps it in sync with the vault.
+ */
+
+/**
+ * A token with its offsets in the source text
+ */
+export interface SearchToken {
+	/** Normalized term (lowercase, without diacritics) */
+	term: string
+	start: number
+	end: number
+}
+
+/**
+ * A parsed query clause
+ */
+export type QueryClause =
+	| { type: 'term'; term: string }
+	| { type: 'prefix'; prefix: string }
+	| { type: 'phrase'; terms: string[] }
+
+/**
+ * A matching document
+ */
+export interface SearchHit {
+	path: string
+	score: number
+	/** Number of matches in the body, plus one per clause matched in the path */
+	matchCount: number
+}
+
+/**
+ * A highlighted excerpt of a matching note
+ */
+export interface SearchSnippet {
+	/** 1-based line number */
+	line: number
+	/** Excerpt with matches wrapped in `==` (Obsidian highlight syntax) */
+	text: string
+}
+
+/**
+ * An indexed note
+ */
+interface IndexedDocument {
+	path: string
+	/** Terms of the path (folders and file name), matched with a boost */
+	pathTerms: string[]
+	/** Body as term IDs in token order, used for phrase matching and removal */
+	tokens: Uint32Array
+}
+
+/**
+ * Documents containing a term, sorted by document ID
+ * Parallel plain arrays keep the index compact on large vaults (one entry per term and note).
+ */
+interface Posting {
+	documents: number[]
+	frequencies: number[]
+}
+
+/**
+ * Matches of one clause in one document
+ */
+interface ClauseMatch {
+	score: number
+	count: number
+}
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+/** Weight of a clause matched in the note path relative to a body match */
+const PATH_BOOST = 2
+/** Maximum number of index terms a prefix expands to (the most common ones are kept) */
+const MAX_PREFIX_EXPANSIONS = 100
+/** Characters of context shown around a match in snippets */
+const SNIPPET_CONTEXT = 60
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu
+const DIACRITICS_PATTERN = /\p{M}+/gu
+const NON_ASCII_PATTERN = /[^\x00-\x7f]/
+
+/**
+ * Normalize a term for matching: lowercase and without diacritics
+ */
+function normalizeTerm(text: string): string {
+	const lower = text.toLowerCase()
+	return NON_ASCII_PATTERN.test(lower) ? lower.normalize('NFD').replace(DIACRITICS_PATTERN, '') : lower
+}
+
+/**
+ * Split text into normalized tokens
+ */
+export function tokenize(text: string): SearchToken[] {
+	const tokens: SearchToken[] = []
+	for (const match of text.matchAll(TOKEN_PATTERN)) {
+		const start = match.index ?? 0
+		tokens.push({ term: normalizeTerm(match[0]), start, end: start + match[0].length })
+	}
+	return tokens
+}
+
+/**
+ * Parse a query into clauses
+ *
+ * - `word` matches the term
+ * - `"two words"` matches the exact phrase
+ * - `pre*` matches terms starting with `pre`
+ * - Words that split into several tokens (`e-mail`, `v1.2`) are matched as phrases
+ */
+export function parseSearchQuery(query: string): QueryClause[] {
+	const clauses: QueryClause[] = []
+	for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+		const isQuoted = match[1] !== undefined
+		const text = isQuoted ? (match[1] ?? '') : (match[2] ?? '')
+		const isPrefix = !isQuoted && text.endsWith('*')
+		const terms = tokenize(text).map(token => token.term)
+		if (terms.length === 0) {
+			continue
+		}
+
+		if (isPrefix) {
+			const prefix = terms.pop() ?? ''
+			if (terms.length > 0) {
+				clauses.push(terms.length === 1 ? { type: 'term', term: terms[0] ?? '' } : { type: 'phrase', terms })
+			}
+			clauses.push({ type: 'prefix', prefix })
+		} else {
+			clauses.push(terms.length === 1 ? { type: 'term', term: terms[0] ?? '' } : { type: 'phrase', terms })
+		}
+	}
+	return clauses
+}
+
+/**
+ * Get the path terms of a note (folders and file name, without the .md extension)
+ */
+function getPathTerms(path: string): string[] {
+	return tokenize(path.replace(/\.md$/i, '')).map(token => token.term)
+}
+
+/**
+ * Find a phrase in a token sequence
+ * @returns Start indexes of every occurrence
+ */
+function findPhrase(terms: string[], phrase: string[]): number[] {
+	const starts: number[] = []
+	for (let index = 0; index + phrase.length <= terms.length; index++) {
+		if (phrase.every((term, offset) => terms[index + offset] === term)) {
+			starts.push(index)
+		}
+	}
+	return starts
+}
+
+/**
+ * Count occurrences of a phrase (as term IDs) in a token stream
+ */
+function countPhrase(tokens: Uint32Array, phrase: number[]): number {
+	let count = 0
+	for (let index = 0; index + phrase.length <= tokens.length; index++) {
+		if (phrase.every((id, offset) => tokens[index + offset] === id)) {
+			count++
+		}
+	}
+	return count
+}
+
+/**
+ * Find the index of a document in a posting (document IDs are sorted)
+ */
+function findDocument(posting: Posting, id: number): number {
+	let low = 0
+	let high = posting.documents.length - 1
+	while (low <= high) {
+		const middle = (low + high) >>> 1
+		const value = posting.documents[middle] ?? 0
+		if (value === id) return middle
+		if (value < id) {
+			low = middle + 1
+		} else {
+			high = middle - 1
+		}
+	}
+	return -1
+}
+
+/**
+ * Inverted index over note paths and bodies
+ */
+export class SearchIndex {
+	private documents: Map<number, IndexedDocument> = new Map()
+	private ids: Map<string, number> = new Map()
+	/** Body vocabulary: term to term ID, and term ID to term and posting */
+	private termIds: Map<string, number> = new Map()
+	private terms: string[] = []
+	private postings: Posting[] = []
+	/** Path terms to the documents whose path contains them */
+	private pathPostings: Map<string, Set<number>> = new Map()
+	private totalLength = 0
+	private nextId = 0
+	/** Sorted vocabulary for prefix lookups, rebuilt lazily when new terms appear */
+	private sortedTerms: string[] | null = null
+
+	/**
+	 * Number of indexed notes
+	 */
+	get size(): number {
+		return this.documents.size
+	}
+
+	/**
+	 * Check whether a note is indexed
+	 */
+	has(path: string): boolean {
+		return this.ids.has(path)
+	}
+
+	/**
+	 * Paths of all indexed notes
+	 */
+	paths(): string[] {
+		return Array.from(this.ids.keys())
+	}
+
+	/**
+	 * Add a note, replacing it if it is already indexed
+	 */
+	add(path: string, content: string): void {
+		this.remove(path)
+
+		// Document IDs only grow, so appending keeps every posting sorted
+		const id = this.nextId++
+		const tokens = tokenize(content)
+		const termIds = new Uint32Array(tokens.length)
+		const frequencies = new Map<number, number>()
+		tokens.forEach((token, position) => {
+			const termId = this.getTermId(token.term)
+			termIds[position] = termId
+			frequencies.set(termId, (frequencies.get(termId) ?? 0) + 1)
+		})
+
+		for (const [termId, frequency] of frequencies) {
+			const posting = this.postings[termId]
+			posting?.documents.push(id)
+			posting?.frequencies.push(frequency)
+		}
+
+		const document: IndexedDocument = { path, pathTerms: getPathTerms(path), tokens: termIds }
+		this.documents.set(id, document)
+		this.ids.set(path, id)
+		this.addPathTerms(id, document.pathTerms)
+		this.totalLength += tokens.length
+	}
+
+	/**
+	 * Remove a note (no-op if it is not indexed)
+	 */
+	remove(path: string): void {
+		const id = this.ids.get(path)
+		const document = id !== undefined ? this.documents.get(id) : undefined
+		if (id === undefined || !document) {
+			return
+		}
+		for (const termId of new Set(document.tokens)) {
+			const posting = this.postings[termId]
+			const index = posting ? findDocument(posting, id) : -1
+			if (posting && index !== -1) {
+				posting.documents.splice(index, 1)
+				posting.frequencies.splice(index, 1)
+			}
+		}
+		this.removePathTerms(id, document.pathTerms)
+		this.totalLength -= document.tokens.length
+		this.documents.delete(id)
+		this.ids.delete(path)
+	}
+
+	/**
+	 * Move a note to a new path without re-reading its content
+	 */
+	rename(oldPath: string, newPath: string): void {
+		const id = this.ids.get(oldPath)
+		const document = id !== undefined ? this.documents.get(id) : undefined
+		if (id === undefined || !document) {
+			return
+		}
+		this.remove(newPath)
+		this.removePathTerms(id, document.pathTerms)
+		this.ids.delete(oldPath)
+		this.ids.set(newPath, id)
+		document.path = newPath
+		document.pathTerms = getPathTerms(newPath)
+		this.addPathTerms(id, document.pathTerms)
+	}
+
+	/**
+	 * Find notes matching every clause, best matches first
+	 */
+	search(clauses: QueryClause[]): SearchHit[] {
+		if (clauses.length === 0) {
+			return []
+		}
+
+		let combined: Map<number, ClauseMatch> | null = null
+		for (const clause of clauses) {
+			const matches = this.matchClause(clause)
+			if (combined === null) {
+				combined = matches
+			} else {
+				const next = new Map<number, ClauseMatch>()
+				for (const [id, match] of combined) {
+					const other = matches.get(id)
+					if (other) {
+						next.set(id, { score: match.score + other.score, count: match.count + other.count })
+					}
+				}
+				combined = next
+			}
+			if (combined.size === 0) {
+				return []
+			}
+		}
+
+		const hits: SearchHit[] = []
+		for (const [id, match] of combined ?? []) {
+			const document = this.documents.get(id)
+			if (document) {
+				hits.push({ path: document.path, score: match.score, matchCount: match.count })
+			}
+		}
+		return hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+	}
+
+	/**
+	 * Get the ID of a body term, adding it to the vocabulary if needed
+	 */
+	private getTermId(term: string): number {
+		let termId = this.termIds.get(term)
+		if (termId === undefined) {
+			termId = this.terms.length
+			this.termIds.set(term, termId)
+			this.terms.push(term)
+			this.postings.push({ documents: [], frequencies: [] })
+			this.sortedTerms = null
+		}
+		return termId
+	}
+
+	private addPathTerms(id: number, terms: string[]): void {
+		for (const term of terms) {
+			const documents = this.pathPostings.get(term)
+			if (documents) {
+				documents.add(id)
+			} else {
+				this.pathPostings.set(term, new Set([id]))
+			}
+		}
+	}
+
+	private removePathTerms(id: number, terms: string[]): void {
+		for (const term of terms) {
+			const documents = this.pathPostings.get(term)
+			documents?.delete(id)
+			if (documents?.size === 0) {
+				this.pathPostings.delete(term)
+			}
+		}
+	}
+
+	/**
+	 * Inverse document frequency of a term
+	 */
+	private idf(term: string): number {
+		const termId = this.termIds.get(term)
+		const documentFrequency = termId !== undefined ? (this.postings[termId]?.documents.length ?? 0) : 0
+		const total = this.documents.size
+		return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5))
+	}
+
+	/**
+	 * BM25 weight of a term frequency in a document
+	 */
+	private weight(frequency: number, document: IndexedDocument): number {
+		const averageLength = this.documents.size > 0 ? this.totalLength / this.documents.size : 0
+		const norm = averageLength > 0 ? 1 - B + B * (document.tokens.length / averageLength) : 1
+		return (frequency * (K1 + 1)) / (frequency + K1 * norm)
+	}
+
+	/**
+	 * Score every document matching a clause in its body or path
+	 */
+	private matchClause(clause: QueryClause): Map<number, ClauseMatch> {
+		const matches = new Map<number, ClauseMatch>()
+		const addMatch = (id: number, score: number, count: number) => {
+			const existing = matches.get(id)
+			matches.set(id, existing
+				? { score: existing.score + score, count: existing.count + count }
+				: { score, count })
+		}
+
+		if (clause.type === 'phrase') {
+			const idf = clause.terms.reduce((sum, term) => sum + this.idf(term), 0)
+			for (const [id, frequency] of this.findPhraseDocuments(clause.terms)) {
+				const document = this.documents.get(id)
+				if (document) {
+					addMatch(id, idf * this.weight(frequency, document), frequency)
+				}
+			}
+		} else {
+			const terms = clause.type === 'term' ? [clause.term] : this.expandPrefix(clause.prefix)
+			for (const term of terms) {
+				const termId = this.termIds.get(term)
+				const posting = termId !== undefined ? this.postings[termId] : undefined
+				if (!posting) {
+					continue
+				}
+				const idf = this.idf(term)
+				posting.documents.forEach((id, index) => {
+					const frequency = posting.frequencies[index] ?? 0
+					const document = this.documents.get(id)
+					if (document) {
+						addMatch(id, idf * this.weight(frequency, document), frequency)
+					}
+				})
+			}
+		}
+
+		// Path matches (e.g. the note name) count even if the body does not mention the clause
+		const pathScore = PATH_BOOST * (clause.type === 'phrase'
+			? clause.terms.reduce((sum, term) => sum + this.idf(term), 0)
+			: this.idf(clause.type === 'term' ? clause.term : clause.prefix))
+		for (const id of this.findPathDocuments(clause)) {
+			addMatch(id, pathScore, 1)
+		}
+
+		return matches
+	}
+
+	/**
+	 * Find documents whose path matches a clause
+	 */
+	private findPathDocuments(clause: QueryClause): Set<number> {
+		if (clause.type === 'term') {
+			return this.pathPostings.get(clause.term) ?? new Set()
+		}
+		if (clause.type === 'prefix') {
+			const result = new Set<number>()
+			for (const [term, documents] of this.pathPostings) {
+				if (term.startsWith(clause.prefix)) {
+					documents.forEach(id => result.add(id))
+				}
+			}
+			return result
+		}
+		const result = new Set<number>()
+		for (const id of this.pathPostings.get(clause.terms[0] ?? '') ?? []) {
+			const document = this.documents.get(id)
+			if (document && findPhrase(document.pathTerms, clause.terms).length > 0) {
+				result.add(id)
+			}
+		}
+		return result
+	}
+
+	/**
+	 * Find documents containing a phrase
+	 * @returns Document ID to number of occurrences
+	 */
+	private findPhraseDocuments(terms: string[]): Map<number, number> {
+		const result = new Map<number, number>()
+		const termIds = terms.map(term => this.termIds.get(term))
+		const postings = termIds.map(termId => termId !== undefined ? this.postings[termId] : undefined)
+		if (postings.some(posting => !posting || posting.documents.length === 0)) {
+			return result
+		}
+
+		// Candidates come from the rarest term; each candidate's token stream is scanned for the phrase
+		const rarest = (postings as Posting[]).reduce((a, b) => b.documents.length < a.documents.length ? b : a)
+		for (const id of rarest.documents) {
+			const document = this.documents.get(id)
+			const frequency = document ? countPhrase(document.tokens, termIds as number[]) : 0
+			if (frequency > 0) {
+				result.set(id, frequency)
+			}
+		}
+		return result
+	}
+
+	/**
+	 * Expand a prefix to the most common index terms starting with it
+	 */
+	private expandPrefix(prefix: string): string[] {
+		if (!this.sortedTerms) {
+			this.sortedTerms = [...this.terms].sort()
+		}
+		const terms = this.sortedTerms
+
+		// Binary search for the first term >= prefix
+		let low = 0
+		let high = terms.length
+		while (low < high) {
+			const middle = (low + high) >>> 1
+			if ((terms[middle] ?? '') < prefix) {
+				low = middle + 1
+			} else {
+				high = middle
+			}
+		}
+
+		const frequency = (term: string) => this.postings[this.termIds.get(term) ?? -1]?.documents.length ?? 0
+		const expansions: string[] = []
+		for (let index = low; index < terms.length && (terms[index] ?? '').startsWith(prefix); index++) {
+			const term = terms[index] ?? ''
+			// Terms of removed notes stay in the vocabulary with an empty posting
+			if (frequency(term) > 0) {
+				expansions.push(term)
+			}
+		}
+		if (expansions.length <= MAX_PREFIX_EXPANSIONS) {
+			return expansions
+		}
+		return expansions
+			.sort((a, b) => frequency(b) - frequency(a))
+			.slice(0, MAX_PREFIX_EXPANSIONS)
+	}
+}
+
+/**
+ * Build highlighted snippets for the matches of a query in note content
+ *
+ * Matches close to each other on the same line share a snippet. The snippets with the most
+ * matches are returned, in document order.
+ */
+export function buildSnippets(content: string, clauses: QueryClause[], maxSnippets: number = 3): SearchSnippet[] {
+	const tokens = tokenize(content)
+	const terms = tokens.map(token => token.term)
+
+	// Character ranges of every match, sorted and without overlaps
+	const ranges: Array<{ start: number; end: number }> = []
+	for (const clause of clauses) {
+		if (clause.type === 'phrase') {
+			for (const start of findPhrase(terms, clause.terms)) {
+				ranges.push({ start: tokens[start]?.start ?? 0, end: tokens[start + clause.terms.length - 1]?.end ?? 0 })
+			}
+		} else {
+			for (const token of tokens) {
+				if (clause.type === 'term' ? token.term === clause.term : token.term.startsWith(clause.prefix)) {
+					ranges.push({ start: token.start, end: token.end })
+				}
+			}
+		}
+	}
+	ranges.sort((a, b) => a.start - b.start || b.end - a.end)
+	const matches = ranges.filter((range, index) => index === 0 || range.start >= (ranges[index - 1]?.end ?? 0))
+
+	// Group matches into windows on one line
+	const windows: Array<{ lineStart: number; lineEnd: number; matches: Array<{ start: number; end: number }> }> = []
+	for (const match of matches) {
+		const lineStart = content.lastIndexOf('\n', match.start - 1) + 1
+		const newline = content.indexOf('\n', match.end)
+		const lineEnd = newline === -1 ? content.length : newline
+		const current = windows[windows.length - 1]
+		const previous = current?.matches[current.matches.length - 1]
+		if (current && previous && current.lineStart === lineStart && match.start - previous.end <= SNIPPET_CONTEXT * 2) {
+			current.matches.push(match)
+		} else {
+			windows.push({ lineStart, lineEnd, matches: [match] })
+		}
+	}
+
+	const selected = windows
+		.map((window, index) => ({ window, index }))
+		.sort((a, b) => b.window.matches.length - a.window.matches.length || a.index - b.index)
+		.slice(0, maxSnippets)
+		.sort((a, b) => a.index - b.index)
+		.map(({ window }) => window)
+
+	return selected.map(window => {
+		const first = window.matches[0] ?? { start: window.lineStart, end: window.lineStart }
+		const last = window.matches[window.matches.length - 1] ?? first
+		let start = Math.max(window.lineStart, first.start - SNIPPET_CONTEXT)
+		let end = Math.min(window.lineEnd, last.end + SNIPPET_CONTEXT)
+
+		// Do not cut words at the snippet edges
+		if (start > window.lineStart) {
+			const space = content.slice(start, first.start).search(/\s/)
+			start = space === -1 ? first.start : start + space + 1
+		}
+		if (end < window.lineEnd) {
+			const space = content.slice(last.end, end).search(/\s\S*$/)
+			end = space === -1 ? last.end : last.end + space
+		}
+
+		let text = ''
+		let cursor = start
+		for (const match of window.matches) {
+			text += `${content.slice(cursor, match.start)}==${content.slice(match.start, match.end)}==`
+			cursor = match.end
+		}
+		text += content.slice(cursor, end)
+
+		return {
+			line: content.slice(0, window.lineStart).split('\n').length,
+			text: `${start > window.lineStart ? '…' : ''}${text.trim()}${end < window.lineEnd ? '…' : ''}`
+		}
+	})
+}
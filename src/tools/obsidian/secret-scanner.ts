@@ -0,0 +1,236 @@
+/**
+ * Secret detection for note content about to leave the vault
+ * Finds API keys, private keys, tokens, passwords in frontmatter and notes tagged #private,
+ * so tool output can be redacted, blocked or confirmed before it is sent to the model.
+ */
+
+export type SecretKind = 'api-key' | 'private-key' | 'token' | 'password' | 'private-note'
+
+/** What to do with tool output that contains secrets */
+export type SecretHandling = 'redact' | 'block' | 'ask'
+
+export interface SecretFinding {
+	kind: SecretKind
+	/** 1-based lines the secret starts and ends on */
+	line: number
+	endLine: number
+	/** Character range of the secret value (the whole note for private notes) */
+	start: number
+	end: number
+}
+
+const SECRET_LABELS: Record<SecretKind, string> = {
+	'api-key': 'API key',
+	'private-key': 'private key',
+	token: 'token',
+	password: 'password in frontmatter',
+	'private-note': 'note tagged #private'
+}
+
+/** Well-known credential formats (the match is the secret value) */
+const SECRET_PATTERNS: Array<{ kind: SecretKind; pattern: RegExp }> = [
+	{ kind: 'private-key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+	// AWS, Google, OpenAI/Anthropic, Stripe
+	{ kind: 'api-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{ kind: 'api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+	{ kind: 'api-key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+	{ kind: 'api-key', pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}/g },
+	// GitHub, Slack, JWTs, bearer tokens
+	{ kind: 'token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+	{ kind: 'token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ kind: 'token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+	{ kind: 'token', pattern: /(?<=\b[Bb]earer\s+)[A-Za-z0-9._~+/-]{20,}=*/g }
+]
+
+/** Shown instead of a note tagged #private */
+export const PRIVATE_NOTE_PLACEHOLDER = '[Note tagged #private withheld]'
+
+/** Frontmatter properties whose values are secrets */
+const SECRET_PROPERTY_PATTERN = /^(\s*)["']?([\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|apikey|credentials?)[\w.-]*)["']?\s*:[ \t]*(\S.*?)\s*$/i
+const SECRET_PROPERTY_NAME_PATTERN = /password|passwd|pwd|secret|token|api[_-]?key|apikey|credentials?/i
+const TAG_PROPERTY_PATTERN = /^tags?\s*:\s*(.*)$/i
+const PRIVATE_TAG_PATTERN = /(?:^|\s)#private(?![\w-])/
+
+/**
+ * 1-based line number of a character offset
+ */
+function lineAt(content: string, offset: number): number {
+	let line = 1
+	for (let index = content.indexOf('\n'); index !== -1 && index < offset; index = content.indexOf('\n', index + 1)) {
+		line++
+	}
+	return line
+}
+
+/**
+ * Frontmatter YAML (without delimiters) and where it starts, if the note has any
+ */
+function findFrontmatter(content: string): { text: string; offset: number } | undefined {
+	const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(content)
+	return match?.[1] !== undefined ? { text: match[1], offset: match[0].indexOf(match[1]) } : undefined
+}
+
+/**
+ * Whether the frontmatter's tags property lists "private" (flow list, block list or a single value)
+ */
+function hasPrivateTagProperty(frontmatter: string): boolean {
+	const lines = frontmatter.split('\n')
+	for (let index = 0; index < lines.length; index++) {
+		const value = TAG_PROPERTY_PATTERN.exec(lines[index] ?? '')?.[1]
+		if (value === undefined) {
+			continue
+		}
+		const values = value.trim().replace(/^\[|\]$/g, '').split(',')
+		if (!value.trim()) {
+			// Block list on the following lines
+			for (const item of lines.slice(index + 1)) {
+				const listItem = /^\s*-\s*(.*)$/.exec(item)
+				if (!listItem) {
+					break
+				}
+				values.push(listItem[1] ?? '')
+			}
+		}
+		return values.some(tag => tag.trim().replace(/^["'#]|["']$/g, '').toLowerCase() === 'private')
+	}
+	return false
+}
+
+/**
+ * Whether a note is tagged #private, inline or in its tags property
+ */
+export function isPrivateNote(content: string): boolean {
+	const frontmatter = findFrontmatter(content)
+	return PRIVATE_TAG_PATTERN.test(content.slice(frontmatter ? frontmatter.offset + frontmatter.text.length : 0)) ||
+		(frontmatter !== undefined && hasPrivateTagProperty(frontmatter.text))
+}
+
+/**
+ * Find the secrets in note content
+ * Overlapping matches are reported once; a note tagged #private is reported as a whole.
+ */
+export function scanForSecrets(content: string): SecretFinding[] {
+	const findings: SecretFinding[] = []
+	const add = (kind: SecretKind, start: number, end: number) => {
+		findings.push({ kind, line: lineAt(content, start), endLine: lineAt(content, end), start, end })
+	}
+
+	if (isPrivateNote(content)) {
+		add('private-note', 0, content.length)
+	}
+
+	const frontmatter = findFrontmatter(content)
+
+	for (const { kind, pattern } of SECRET_PATTERNS) {
+		for (const match of content.matchAll(pattern)) {
+			add(kind, match.index, match.index + match[0].length)
+		}
+	}
+
+	if (frontmatter) {
+		let offset = frontmatter.offset
+		for (const line of frontmatter.text.split('\n')) {
+			const match = SECRET_PROPERTY_PATTERN.exec(line)
+			const value = match?.[3]
+			if (match && value !== undefined && !/^(?:''|""|null|~)$/.test(value)) {
+				const start = offset + line.lastIndexOf(value)
+				add('password', start, start + value.length)
+			}
+			offset += line.length + 1
+		}
+	}
+
+	findings.sort((a, b) => a.start - b.start || b.end - a.end)
+	return findings.filter((finding, index) =>
+		finding.kind === 'private-note' ||
+		!findings.slice(0, index).some(other => other.kind !== 'private-note' && other.end > finding.start)
+	)
+}
+
+/**
+ * Replace the secrets in content with placeholders (keeping line breaks, so line numbers stay valid)
+ * A note tagged #private is withheld entirely.
+ */
+export function redactSecrets(content: string, findings: SecretFinding[]): string {
+	if (findings.some(finding => finding.kind === 'private-note')) {
+		return PRIVATE_NOTE_PLACEHOLDER
+	}
+
+	let redacted = content
+	for (const finding of [...findings].sort((a, b) => b.start - a.start)) {
+		const placeholder = `[REDACTED ${SECRET_LABELS[finding.kind]}]` + '\n'.repeat(finding.endLine - finding.line)
+		redacted = redacted.slice(0, finding.start) + placeholder + redacted.slice(finding.end)
+	}
+	return redacted
+}
+
+/**
+ * Describe kinds of secrets without their values, e.g. "API key, password in frontmatter"
+ */
+export function describeSecretKinds(kinds: SecretKind[]): string {
+	return kinds.map(kind => SECRET_LABELS[kind]).join(', ')
+}
+
+/**
+ * Describe findings without their values, e.g. "API key (line 3), password in frontmatter (line 2)"
+ */
+export function describeSecretFindings(findings: SecretFinding[]): string {
+	return findings
+		.map(finding => finding.kind === 'private-note' ? SECRET_LABELS[finding.kind] : `${SECRET_LABELS[finding.kind]} (line ${finding.line})`)
+		.join(', ')
+}
+
+/**
+ * Whether a property holds a secret by its name alone (an empty value holds none)
+ */
+function isSecretProperty(name: string, value: unknown): boolean {
+	return SECRET_PROPERTY_NAME_PATTERN.test(name) && value !== null && value !== ''
+}
+
+/**
+ * Find the kinds of secrets in parsed frontmatter properties
+ * Properties named like passwords count as passwords; other text values are scanned like note content.
+ */
+export function findSecretProperties(properties: Record<string, unknown>): SecretKind[] {
+	const kinds = new Set<SecretKind>()
+	const scanValue = (value: unknown): void => {
+		if (typeof value === 'string') {
+			scanForSecrets(value).forEach(finding => kinds.add(finding.kind))
+		} else if (Array.isArray(value)) {
+			value.forEach(scanValue)
+		} else if (value && typeof value === 'object') {
+			Object.values(value).forEach(scanValue)
+		}
+	}
+	for (const [name, value] of Object.entries(properties)) {
+		if (isSecretProperty(name, value)) {
+			kinds.add('password')
+		} else {
+			scanValue(value)
+		}
+	}
+	return [...kinds]
+}
+
+/**
+ * Replace the secrets in parsed frontmatter properties with placeholders
+ * Properties named like passwords lose their value; other text values are scanned like note content.
+ */
+export function redactSecretProperties(properties: Record<string, unknown>): Record<string, unknown> {
+	const redactValue = (value: unknown): unknown => {
+		if (typeof value === 'string') {
+			return redactSecrets(value, scanForSecrets(value))
+		}
+		if (Array.isArray(value)) {
+			return value.map(redactValue)
+		}
+		if (value && typeof value === 'object') {
+			return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)]))
+		}
+		return value
+	}
+	return Object.fromEntries(Object.entries(properties).map(([key, value]) => [
+		key,
+		isSecretProperty(key, value) ? `[REDACTED ${SECRET_LABELS.password}]` : redactValue(value)
+	]))
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import type { CachedMetadata } from 'obsidian'
+import { applySectionEdit, buildHeadingCache, parseSectionTarget, resolveSection } from './section-resolver'
+
+/**
+ * Build the parts of the metadata cache the resolver uses (headings and blocks)
+ */
+function buildCache(content: string): CachedMetadata {
+	const position = (start: number, end: number) => ({
+		start: { line: 0, col: 0, offset: start },
+		end: { line: 0, col: 0, offset: end }
+	})
+	const headings: NonNullable<CachedMetadata['headings']> = []
+	const blocks: NonNullable<CachedMetadata['blocks']> = {}
+
+	let offset = 0
+	for (const line of content.split('\n')) {
+		const heading = /^(#{1,6})\s+(.*)$/.exec(line)
+		if (heading) {
+			headings.push({ heading: heading[2]!, level: heading[1]!.length, position: position(offset, offset + line.length) })
+		}
+		const block = /\s\^([\w-]+)$/.exec(line)
+		if (block) {
+			blocks[block[1]!] = { id: block[1]!, position: position(offset, offset + line.length) }
+		}
+		offset += line.length + 1
+	}
+	return { headings, blocks }
+}
+
+const note = [
+	'# Project',
+	'Intro',
+	'',
+	'## Meetings',
+	'',
+	'### 2026-09',
+	'Kickoff',
+	'',
+	'### 2026-10',
+	'- Review ^review',
+	'- Retro',
+	'',
+	'## Tasks',
+	'A paragraph. ^para'
+].join('\n')
+
+const cache = buildCache(note)
+
+describe('parseSectionTarget', () => {
+	it('should parse heading paths with and without levels', () => {
+		expect(parseSectionTarget('## Meetings > ### 2026-10')).toEqual({
+			type: 'heading',
+			path: [{ text: 'Meetings', level: 2 }, { text: '2026-10', level: 3 }]
+		})
+		expect(parseSectionTarget('Meetings>2026-10')).toEqual({
+			type: 'heading',
+			path: [{ text: 'Meetings' }, { text: '2026-10' }]
+		})
+	})
+
+	it('should parse block references', () => {
+		expect(parseSectionTarget('^review')).toEqual({ type: 'block', id: 'review' })
+		expect(parseSectionTarget('#^review')).toEqual({ type: 'block', id: 'review' })
+	})
+
+	it('should reject empty segments', () => {
+		expect(() => parseSectionTarget('Meetings > ')).toThrow('Invalid section target')
+	})
+})
+
+describe('resolveSection', () => {
+	it('should resolve a nested heading up to the next heading of the same or higher level', () => {
+		const range = resolveSection(note, cache, '## Meetings > ### 2026-10')
+
+		expect(note.slice(range.start, range.end)).toBe('### 2026-10\n- Review ^review\n- Retro\n\n')
+		expect(note.slice(range.bodyStart, range.end)).toBe('- Review ^review\n- Retro\n\n')
+	})
+
+	it('should include subsections in a parent section', () => {
+		const range = resolveSection(note, cache, 'meetings')
+
+		expect(note.slice(range.start, range.end)).toContain('### 2026-09')
+		expect(note.slice(range.start, range.end)).not.toContain('## Tasks')
+	})
+
+	it('should only match headings nested in the previous segment', () => {
+		expect(() => resolveSection(note, cache, 'Tasks > 2026-10')).toThrow('Heading not found: "2026-10"')
+	})
+
+	it('should list available headings when a heading is missing', () => {
+		expect(() => resolveSection(note, cache, '## Notes')).toThrow('Available headings: # Project, ## Meetings')
+	})
+
+	it('should resolve blocks and detect list items', () => {
+		expect(resolveSection(note, cache, '^review')).toMatchObject({ type: 'block', blockId: 'review', isListItem: true })
+		expect(() => resolveSection(note, cache, '^missing')).toThrow('Block not found: ^missing')
+	})
+
+	it('should detect a stale cache', () => {
+		expect(() => resolveSection(`Added line\n${note}`, cache, 'Tasks')).toThrow('Note has changed')
+	})
+})
+
+describe('applySectionEdit', () => {
+	it('should replace a section body and keep the heading and spacing', () => {
+		const range = resolveSection(note, cache, '2026-10')
+		const result = applySectionEdit(note, range, 'replace', '- Planning\n')
+
+		expect(result).toContain('### 2026-10\n- Planning\n\n## Tasks')
+	})
+
+	it('should append and prepend within a section', () => {
+		const range = resolveSection(note, cache, '2026-09')
+
+		expect(applySectionEdit(note, range, 'append', 'Follow-up')).toContain('### 2026-09\nKickoff\nFollow-up\n\n### 2026-10')
+		expect(applySectionEdit(note, range, 'prepend', 'Agenda')).toContain('### 2026-09\nAgenda\nKickoff\n\n### 2026-10')
+	})
+
+	it('should append to the last section of the note', () => {
+		const content = '# Title\n## Log'
+		const result = applySectionEdit(content, resolveSection(content, buildCache(content), 'Log'), 'append', 'Entry')
+
+		expect(result).toBe('# Title\n## Log\nEntry')
+	})
+
+	it('should keep the block id when replacing a block', () => {
+		const range = resolveSection(note, cache, '^para')
+
+		expect(applySectionEdit(note, range, 'replace', 'New paragraph.')).toMatch(/## Tasks\nNew paragraph\. \^para$/)
+	})
+
+	it('should add sibling list items next to a list item block', () => {
+		const range = resolveSection(note, cache, '^review')
+
+		expect(applySectionEdit(note, range, 'append', '- Demo')).toContain('- Review ^review\n- Demo\n- Retro')
+		expect(applySectionEdit(note, range, 'prepend', '- Standup')).toContain('### 2026-10\n- Standup\n- Review ^review')
+	})
+
+	it('should add a separate paragraph next to a paragraph block', () => {
+		const range = resolveSection(note, cache, '^para')
+
+		expect(applySectionEdit(note, range, 'append', 'Next.')).toMatch(/A paragraph\. \^para\n\nNext\.$/)
+	})
+})
+
+describe('buildHeadingCache', () => {
+	it('should find headings outside frontmatter and code blocks', () => {
+		const content = '---\ntitle: x\n# not a heading\n---\n# Day\n```\n## Code\n```\n## Log ##\n- entry\n'
+		const cache = buildHeadingCache(content)
+
+		expect(cache.headings?.map(heading => [heading.level, heading.heading])).toEqual([[1, 'Day'], [2, 'Log']])
+		expect(applySectionEdit(content, resolveSection(content, cache, 'Log'), 'append', '- next')).toBe(content + '- next\n')
+	})
+})
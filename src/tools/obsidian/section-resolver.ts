@@ -0,0 +1,297 @@
+import type { CachedMetadata } from 'obsidian'
+
+/**
+ * Section addressing for section- and block-aware tools
+ * Resolves heading paths (`## Meetings > ### 2026-10`) and block references (`^block-id`)
+ * to offsets using the metadata cache, and applies edits within just that range.
+ */
+
+/**
+ * A parsed section target
+ */
+export type SectionTarget =
+	| { type: 'block'; id: string }
+	| { type: 'heading'; path: Array<{ text: string; level?: number }> }
+
+/**
+ * Location of a section in note content
+ */
+export interface SectionRange {
+	type: 'heading' | 'block'
+	/** Offset of the heading line or the first character of the block */
+	start: number
+	/** Offset where the section body starts (after the heading line; same as start for blocks) */
+	bodyStart: number
+	/** Offset just past the last character of the section */
+	end: number
+	/** Block ID (blocks only) */
+	blockId?: string
+	/** Whether the block is a list item (blocks only) */
+	isListItem?: boolean
+}
+
+/**
+ * Section edit mode
+ */
+export type SectionEditMode = 'replace' | 'append' | 'prepend'
+
+const HEADING_SEGMENT_PATTERN = /^(#{1,6})\s+(.*)$/
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/
+
+/**
+ * Normalize heading text for comparison
+ */
+function normalizeHeading(text: string): string {
+	return text.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Parse a target string: `^block-id` (or `#^block-id`) for blocks, otherwise a `>`-separated heading path
+ */
+export function parseSectionTarget(target: string): SectionTarget {
+	const trimmed = target.trim()
+	const blockMatch = /^#?\^([A-Za-z0-9-]+)$/.exec(trimmed)
+	if (blockMatch) {
+		return { type: 'block', id: blockMatch[1] ?? '' }
+	}
+
+	const path = trimmed.split('>').map(segment => {
+		const text = segment.trim()
+		const headingMatch = HEADING_SEGMENT_PATTERN.exec(text)
+		return headingMatch
+			? { text: (headingMatch[2] ?? '').trim(), level: headingMatch[1]?.length }
+			: { text }
+	})
+	if (path.length === 0 || path.some(segment => !segment.text)) {
+		throw new Error(`Invalid section target: "${target}"`)
+	}
+	return { type: 'heading', path }
+}
+
+/**
+ * Format a heading for error messages (`## Heading`)
+ */
+function formatHeading(heading: { heading: string; level: number }): string {
+	return `${'#'.repeat(heading.level)} ${heading.heading}`
+}
+
+/**
+ * Build a headings-only cache entry from content, for notes the metadata cache has not indexed yet
+ * (e.g. a note created from a template in the same operation). Skips frontmatter and fenced code.
+ */
+export function buildHeadingCache(content: string): CachedMetadata {
+	const headings: NonNullable<CachedMetadata['headings']> = []
+	const lines = content.split('\n')
+	let offset = 0
+	let fence: string | null = null
+	let inFrontmatter = lines[0]?.trimEnd() === '---'
+
+	lines.forEach((line, index) => {
+		const fenceMatch = /^\s{0,3}(`{3,}|~{3,})/.exec(line)
+		if (inFrontmatter) {
+			if (index > 0 && /^(---|\.\.\.)\s*$/.test(line)) inFrontmatter = false
+		} else if (fence) {
+			if (fenceMatch?.[1]?.startsWith(fence)) fence = null
+		} else if (fenceMatch) {
+			fence = fenceMatch[1] ?? null
+		} else {
+			const heading = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line)
+			if (heading) {
+				const end = offset + line.replace(/\r$/, '').length
+				headings.push({
+					heading: heading[2] ?? '',
+					level: heading[1]?.length ?? 1,
+					position: {
+						start: { line: index, col: 0, offset },
+						end: { line: index, col: end - offset, offset: end }
+					}
+				})
+			}
+		}
+		offset += line.length + 1
+	})
+	return { headings }
+}
+
+/**
+ * Resolve a section target to a range in the note content
+ *
+ * @param content - Current note content
+ * @param cache - Metadata cache entry for the note
+ * @param target - Heading path or block reference
+ * @throws Error if the section cannot be found or the cache is out of date
+ */
+export function resolveSection(content: string, cache: CachedMetadata | null, target: string): SectionRange {
+	const parsed = parseSectionTarget(target)
+	return parsed.type === 'block'
+		? resolveBlock(content, cache, parsed.id)
+		: resolveHeadingPath(content, cache, parsed.path)
+}
+
+/**
+ * Resolve a heading path, each segment nested within the previous one
+ */
+function resolveHeadingPath(
+	content: string,
+	cache: CachedMetadata | null,
+	path: Array<{ text: string; level?: number }>
+): SectionRange {
+	const headings = cache?.headings ?? []
+	const sectionEnd = (index: number) => {
+		const level = headings[index]?.level ?? 0
+		const next = headings.slice(index + 1).find(heading => heading.level <= level)
+		return next ? next.position.start.offset : content.length
+	}
+
+	let scopeStart = 0
+	let scopeEnd = content.length
+	let parentLevel = 0
+	let matchIndex = -1
+
+	for (const segment of path) {
+		matchIndex = headings.findIndex(heading =>
+			heading.position.start.offset >= scopeStart &&
+			heading.position.start.offset < scopeEnd &&
+			heading.level > parentLevel &&
+			(segment.level === undefined || heading.level === segment.level) &&
+			normalizeHeading(heading.heading) === normalizeHeading(segment.text)
+		)
+		if (matchIndex === -1) {
+			const available = headings.map(formatHeading).join(', ') || '(none)'
+			throw new Error(`Heading not found: "${segment.level ? `${'#'.repeat(segment.level)} ` : ''}${segment.text}". Available headings: ${available}`)
+		}
+		const match = headings[matchIndex]!
+		scopeStart = match.position.start.offset
+		scopeEnd = sectionEnd(matchIndex)
+		parentLevel = match.level
+	}
+
+	const heading = headings[matchIndex]!
+	const headingLine = content.slice(heading.position.start.offset, heading.position.end.offset)
+	if (!/^\s{0,3}#/.test(headingLine) || !headingLine.includes(heading.heading)) {
+		throw new Error('Note has changed since it was indexed. Please try again.')
+	}
+
+	let bodyStart = heading.position.end.offset
+	if (content.startsWith('\r\n', bodyStart)) {
+		bodyStart += 2
+	} else if (content.startsWith('\n', bodyStart)) {
+		bodyStart += 1
+	}
+
+	return { type: 'heading', start: heading.position.start.offset, bodyStart, end: scopeEnd }
+}
+
+/**
+ * Resolve a block reference
+ */
+function resolveBlock(content: string, cache: CachedMetadata | null, id: string): SectionRange {
+	const blocks = cache?.blocks ?? {}
+	const block = blocks[id] ?? Object.values(blocks).find(candidate => candidate.id.toLowerCase() === id.toLowerCase())
+	if (!block) {
+		throw new Error(`Block not found: ^${id}`)
+	}
+
+	const start = block.position.start.offset
+	const end = block.position.end.offset
+	if (!new RegExp(`\\^${escapeRegExp(block.id)}\\s*$`).test(content.slice(start, end))) {
+		throw new Error('Note has changed since it was indexed. Please try again.')
+	}
+
+	const lineStart = content.lastIndexOf('\n', start - 1) + 1
+	return {
+		type: 'block',
+		start,
+		bodyStart: start,
+		end,
+		blockId: block.id,
+		isListItem: LIST_ITEM_PATTERN.test(content.slice(lineStart, end))
+	}
+}
+
+/**
+ * Get the 1-based line number of an offset
+ */
+export function getLineNumber(content: string, offset: number): number {
+	return content.slice(0, offset).split('\n').length
+}
+
+/**
+ * Apply an edit to a resolved section
+ *
+ * - Heading sections: the heading line is kept; replace/append/prepend act on the body,
+ *   and the blank lines around the body are preserved
+ * - Blocks: replace keeps the `^block-id` marker so existing block links stay valid;
+ *   append/prepend add a sibling list item or a separate paragraph
+ *
+ * @returns The full note content after the edit
+ */
+export function applySectionEdit(content: string, range: SectionRange, mode: SectionEditMode, text: string): string {
+	const newText = text.replace(/\s+$/, '')
+
+	if (range.type === 'block') {
+		return applyBlockEdit(content, range, mode, newText)
+	}
+
+	const body = content.slice(range.bodyStart, range.end)
+	const trailing = /\s*$/.exec(body)?.[0] ?? ''
+	const core = body.slice(0, body.length - trailing.length)
+	const leading = /^(?:[ \t]*\r?\n)*/.exec(core)?.[0] ?? ''
+	const inner = core.slice(leading.length)
+
+	let newCore: string
+	switch (mode) {
+		case 'replace':
+			newCore = leading + newText
+			break
+		case 'append':
+			newCore = inner ? `${core}\n${newText}` : leading + newText
+			break
+		case 'prepend':
+			newCore = inner ? `${leading}${newText}\n${inner}` : leading + newText
+			break
+		default:
+			throw new Error(`Unknown section edit mode: ${String(mode)}`)
+	}
+
+	// The next heading must stay on its own line
+	const newTrailing = range.end < content.length && !trailing.includes('\n') ? '\n' : trailing
+	// Heading on the last line without a newline
+	const separator = range.bodyStart === content.length && !content.endsWith('\n') && newCore ? '\n' : ''
+
+	return content.slice(0, range.bodyStart) + separator + newCore + newTrailing + content.slice(range.end)
+}
+
+/**
+ * Apply an edit to a block
+ */
+function applyBlockEdit(content: string, range: SectionRange, mode: SectionEditMode, newText: string): string {
+	const lineStart = content.lastIndexOf('\n', range.start - 1) + 1
+	const indent = range.isListItem ? (/^\s*/.exec(content.slice(lineStart, range.end))?.[0] ?? '') : ''
+	const indented = newText.split('\n').map(line => line ? indent + line : line).join('\n')
+	const separator = range.isListItem ? '\n' : '\n\n'
+
+	switch (mode) {
+		case 'replace': {
+			const blockText = content.slice(range.start, range.end)
+			const marker = new RegExp(`(\\s+)\\^${escapeRegExp(range.blockId ?? '')}\\s*$`).exec(blockText)
+			const markerSpacing = marker?.[1] ?? ' '
+			return content.slice(0, range.start) + newText + markerSpacing + `^${range.blockId}` + content.slice(range.end)
+		}
+		case 'append':
+			return content.slice(0, range.end) + separator + indented + content.slice(range.end)
+		case 'prepend':
+			return range.isListItem
+				? content.slice(0, lineStart) + indented + separator + content.slice(lineStart)
+				: content.slice(0, range.start) + newText + separator + content.slice(range.start)
+		default:
+			throw new Error(`Unknown section edit mode: ${String(mode)}`)
+	}
+}
@@ -0,0 +1,119 @@
+import type { MetadataCache, TFile, Vault } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { applySectionEdit, resolveSection } from './section-resolver'
+import { isTFile, redactOutputSecrets, type WriteContext, type WritePreview } from './write-context'
+import type { ObsidianUpdateSectionInput, ObsidianUpdateSectionOutput } from './types'
+
+/**
+ * Write tool for the sections of a note (update_section)
+ */
+export class SectionTools {
+	private vault: Vault
+	private metadataCache: MetadataCache
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.metadataCache = context.metadataCache
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Replace, append to or prepend to a single section of a note
+	 */
+	async updateSection(
+		input: ObsidianUpdateSectionInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdateSectionOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+
+		return this.context.executeWithAuditLog(
+			'obsidian.update_section',
+			sessionId,
+			effectiveCallId,
+			input,
+			'modify',
+			input.path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, content, preview: sectionPreview } = await this.prepareSectionUpdate(input)
+				const preview = {
+					originalSection: redactOutputSecrets(sectionPreview.originalSection, content),
+					newSection: redactOutputSecrets(sectionPreview.newSection, content)
+				}
+
+				if (dryRun) {
+					return { path: input.path, target: input.target, updated: false, mode: input.mode, preview }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.update_section', 'modify') && !approved) {
+					throw new PermissionPendingError('User approval required for update section operation')
+				}
+
+				await this.context.checkPreviewVersion(effectiveCallId, input.path)
+				await this.context.captureSnapshot('obsidian.update_section', sessionId, effectiveCallId, [{ path: input.path }])
+
+				// Resolve again on the latest content; fails without writing if the note changed since it was indexed
+				await this.vault.process(file, current => {
+					const range = resolveSection(current, this.metadataCache.getFileCache(file), input.target)
+					return applySectionEdit(current, range, input.mode, input.content)
+				})
+
+				return { path: input.path, target: input.target, updated: true, mode: input.mode, preview }
+			}
+		)
+	}
+
+	/**
+	 * Check permissions and compute a section update preview (used by execution and preview)
+	 */
+	private async prepareSectionUpdate(
+		input: ObsidianUpdateSectionInput
+	): Promise<{ file: TFile; content: string; preview: { originalSection: string; newSection: string } }> {
+		const permission = await this.permissionManager.canModify(input.path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+
+		const file = this.vault.getAbstractFileByPath(input.path)
+		if (!isTFile(file)) {
+			throw new Error(`File not found: ${input.path}`)
+		}
+
+		const content = await this.vault.read(file)
+		const range = resolveSection(content, this.metadataCache.getFileCache(file), input.target)
+		const newContent = applySectionEdit(content, range, input.mode, input.content)
+
+		// Edits only touch the section's lines, so the text before its first line and after its end is unchanged
+		const start = content.lastIndexOf('\n', range.start - 1) + 1
+		const tailLength = content.length - range.end
+		return {
+			file,
+			content,
+			preview: {
+				originalSection: content.slice(start, range.end),
+				newSection: newContent.slice(start, newContent.length - tailLength)
+			}
+		}
+	}
+
+	/**
+	 * Preview the section as it is and as it will be
+	 */
+	async preview(input: ObsidianUpdateSectionInput): Promise<WritePreview> {
+		const { preview } = await this.prepareSectionUpdate(input)
+		return {
+			originalContent: preview.originalSection,
+			newContent: preview.newSection,
+			mode: input.mode,
+			summary: `${input.mode} section ${input.target}`
+		}
+	}
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { SnapshotStore, type SnapshotAdapter } from './snapshot-store'
+
+function memoryAdapter() {
+	const files = new Map<string, string>()
+	const adapter: SnapshotAdapter = {
+		exists: async (path: string) => files.has(path) || Array.from(files.keys()).some(key => key.startsWith(`${path}/`)),
+		read: async (path: string) => {
+			const content = files.get(path)
+			if (content === undefined) {
+				throw new Error(`ENOENT: ${path}`)
+			}
+			return content
+		},
+		write: async (path: string, data: string) => {
+			files.set(path, data)
+		},
+		mkdir: async () => {},
+		remove: async (path: string) => {
+			files.delete(path)
+		}
+	}
+	return { adapter, files }
+}
+
+const snapshot = (id: string, timestamp: number, sessionId = 'ses_1') => ({
+	id,
+	sessionId,
+	toolName: 'obsidian.update_note',
+	timestamp,
+	files: [{ path: `Notes/${id}.md`, content: `before ${id}` }]
+})
+
+describe('SnapshotStore', () => {
+	it('should record snapshots and list them most recent first', async () => {
+		const { adapter, files } = memoryAdapter()
+		const store = new SnapshotStore(adapter, 'plugin/snapshots')
+		await Promise.all([store.record(snapshot('call_1', 1)), store.record(snapshot('call/2', 2, 'ses_2'))])
+
+		expect((await store.list()).map(entry => entry.id)).toEqual(['call/2', 'call_1'])
+		expect(await store.list({ sessionId: 'ses_1' })).toEqual([
+			{ id: 'call_1', sessionId: 'ses_1', toolName: 'obsidian.update_note', timestamp: 1, paths: ['Notes/call_1.md'], size: files.get('plugin/snapshots/call_1.json')?.length }
+		])
+		expect((await store.load('call/2'))?.files).toEqual([{ path: 'Notes/call/2.md', content: 'before call/2' }])
+		expect(files.has('plugin/snapshots/call_2.json')).toBe(true)
+
+		// A new store reads the persisted index
+		expect((await new SnapshotStore(adapter, 'plugin/snapshots').list()).length).toBe(2)
+	})
+
+	it('should hide undone snapshots and prune the oldest', async () => {
+		const { adapter, files } = memoryAdapter()
+		const store = new SnapshotStore(adapter, 'plugin/snapshots', 2)
+		await store.record(snapshot('call_1', 1))
+		await store.record(snapshot('call_2', 2))
+		await store.markUndone('call_2')
+
+		expect((await store.list()).map(entry => entry.id)).toEqual(['call_1'])
+		expect((await store.list({ includeUndone: true })).map(entry => entry.id)).toEqual(['call_2', 'call_1'])
+
+		await store.record(snapshot('call_3', 3))
+		expect((await store.list({ includeUndone: true })).map(entry => entry.id)).toEqual(['call_3', 'call_2'])
+		expect(files.has('plugin/snapshots/call_1.json')).toBe(false)
+		expect(await store.load('call_1')).toBeNull()
+	})
+
+	it('should prune the oldest snapshots beyond the size limit, but keep the latest', async () => {
+		const { adapter, files } = memoryAdapter()
+		const size = JSON.stringify(snapshot('call_1', 1)).length
+		const store = new SnapshotStore(adapter, 'plugin/snapshots', 200, size * 2)
+		await store.record(snapshot('call_1', 1))
+		await store.record(snapshot('call_2', 2))
+		await store.record(snapshot('call_3', 3))
+
+		expect((await store.list()).map(entry => entry.id)).toEqual(['call_3', 'call_2'])
+		expect(files.has('plugin/snapshots/call_1.json')).toBe(false)
+
+		await store.record({ ...snapshot('call_4', 4), files: [{ path: 'Notes/big.md', content: 'x'.repeat(size * 3) }] })
+		expect((await store.list()).map(entry => entry.id)).toEqual(['call_4'])
+	})
+})
@@ -0,0 +1,203 @@
+import type { DataAdapter } from 'obsidian'
+
+/**
+ * Snapshot store for agent writes
+ * Keeps the content files had before each approved write (keyed by tool call and session),
+ * so changes made through the plugin's own tools can be undone from the vault.
+ * Snapshots live in the plugin's data folder rather than the vault, so they are not synced or
+ * searched with the notes they hold copies of, and are written through the adapter.
+ */
+
+/**
+ * A file as it was before a write
+ */
+export interface SnapshotFile {
+	path: string
+	/** Content before the write, or null if the write created the file */
+	content: string | null
+	/** Binary files (attachments) are stored as base64 */
+	encoding?: 'base64'
+	/** Path the write moved the file to (rename and move) */
+	movedTo?: string
+	/** Hash of the content the write left (null if it removed the file); missing in snapshots stored before hashes were kept */
+	afterHash?: string | null
+}
+
+/**
+ * Pre-images of every file touched by one tool call
+ */
+export interface Snapshot {
+	/** Tool call ID of the write */
+	id: string
+	sessionId?: string
+	toolName: string
+	timestamp: number
+	files: SnapshotFile[]
+	/** Set once the change has been undone */
+	undone?: boolean
+}
+
+/**
+ * Snapshot metadata kept in the index (file contents stay in the snapshot's own file)
+ */
+export type SnapshotSummary = Omit<Snapshot, 'files'> & {
+	paths: string[]
+	/** Bytes the snapshot's file takes; missing in indexes stored before sizes were kept */
+	size?: number
+}
+
+/**
+ * Result of undoing one snapshot
+ */
+export interface UndoResult {
+	snapshotId: string
+	toolName: string
+	sessionId?: string
+	/** Paths written back, deleted or moved back */
+	restored: string[]
+}
+
+/**
+ * SHA-256 of a file's content, hex encoded
+ */
+export async function hashContent(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+	return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export type SnapshotAdapter = Pick<DataAdapter, 'exists' | 'read' | 'write' | 'mkdir' | 'remove'>
+
+export class SnapshotStore {
+	private adapter: SnapshotAdapter
+	private snapshotDir: string
+	private maxSnapshots: number
+	private maxBytes: number
+	private index: SnapshotSummary[] | null = null
+	// Index updates run one at a time so concurrent tool calls do not overwrite each other
+	private queue: Promise<void> = Promise.resolve()
+
+	/**
+	 * @param snapshotDir - Folder for the snapshots, normally `snapshots` in the plugin's folder
+	 * @param maxSnapshots - Most snapshots kept
+	 * @param maxBytes - Most bytes all snapshots together may take
+	 */
+	constructor(adapter: SnapshotAdapter, snapshotDir: string, maxSnapshots: number = 200, maxBytes: number = 100 * 1024 * 1024) {
+		this.adapter = adapter
+		this.snapshotDir = snapshotDir
+		this.maxSnapshots = maxSnapshots
+		this.maxBytes = maxBytes
+	}
+
+	/**
+	 * Store a snapshot, replacing one with the same ID and dropping the oldest beyond the count and size limits
+	 * The snapshot just stored is kept even if it is larger than the size limit on its own.
+	 */
+	async record(snapshot: Snapshot): Promise<void> {
+		return this.enqueue(async () => {
+			const index = await this.loadIndex()
+			await this.ensureSnapshotDir()
+			const data = JSON.stringify(snapshot)
+			await this.adapter.write(this.getSnapshotPath(snapshot.id), data)
+
+			const { files, ...summary } = snapshot
+			const entries = index.filter(entry => entry.id !== snapshot.id)
+			entries.push({ ...summary, paths: files.map(file => file.path), size: new TextEncoder().encode(data).length })
+			entries.sort((a, b) => a.timestamp - b.timestamp)
+
+			let total = entries.reduce((sum, entry) => sum + (entry.size ?? 0), 0)
+			const pruned: SnapshotSummary[] = []
+			while (entries.length > 1 && (entries.length > this.maxSnapshots || total > this.maxBytes)) {
+				const oldest = entries[0]?.id === snapshot.id ? entries.splice(1, 1)[0] : entries.shift()
+				if (oldest) {
+					total -= oldest.size ?? 0
+					pruned.push(oldest)
+				}
+			}
+			for (const entry of pruned) {
+				await this.removeSnapshotFile(entry.id)
+			}
+			await this.saveIndex(entries)
+		})
+	}
+
+	/**
+	 * List snapshots, most recent first
+	 */
+	async list(filter: { sessionId?: string; includeUndone?: boolean } = {}): Promise<SnapshotSummary[]> {
+		const index = await this.enqueue(() => this.loadIndex())
+		return index
+			.filter(entry => filter.sessionId === undefined || entry.sessionId === filter.sessionId)
+			.filter(entry => filter.includeUndone || !entry.undone)
+			.reverse()
+	}
+
+	/**
+	 * Load a snapshot with its file contents
+	 * @returns null if the snapshot was pruned or its file is missing
+	 */
+	async load(id: string): Promise<Snapshot | null> {
+		const path = this.getSnapshotPath(id)
+		if (!(await this.adapter.exists(path))) {
+			return null
+		}
+		return JSON.parse(await this.adapter.read(path)) as Snapshot
+	}
+
+	/**
+	 * Mark a snapshot as undone so it is not undone twice
+	 */
+	async markUndone(id: string): Promise<void> {
+		return this.enqueue(async () => {
+			const index = await this.loadIndex()
+			const entry = index.find(candidate => candidate.id === id)
+			if (!entry) {
+				return
+			}
+			entry.undone = true
+			await this.saveIndex(index)
+		})
+	}
+
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.queue.then(task, task)
+		this.queue = run.then(() => undefined, () => undefined)
+		return run
+	}
+
+	private getSnapshotPath(id: string): string {
+		return `${this.snapshotDir}/${id.replace(/[^\w-]/g, '_')}.json`
+	}
+
+	private async loadIndex(): Promise<SnapshotSummary[]> {
+		if (this.index) {
+			return this.index
+		}
+		const path = `${this.snapshotDir}/index.json`
+		try {
+			const parsed: unknown = (await this.adapter.exists(path)) ? JSON.parse(await this.adapter.read(path)) : []
+			this.index = Array.isArray(parsed) ? parsed as SnapshotSummary[] : []
+		} catch (error) {
+			console.warn(`[SnapshotStore] Could not read snapshot index, starting a new one: ${String(error)}`)
+			this.index = []
+		}
+		return this.index
+	}
+
+	private async saveIndex(entries: SnapshotSummary[]): Promise<void> {
+		this.index = entries
+		await this.adapter.write(`${this.snapshotDir}/index.json`, JSON.stringify(entries))
+	}
+
+	private async ensureSnapshotDir(): Promise<void> {
+		if (!(await this.adapter.exists(this.snapshotDir))) {
+			await this.adapter.mkdir(this.snapshotDir)
+		}
+	}
+
+	private async removeSnapshotFile(id: string): Promise<void> {
+		const path = this.getSnapshotPath(id)
+		if (await this.adapter.exists(path)) {
+			await this.adapter.remove(path)
+		}
+	}
+}
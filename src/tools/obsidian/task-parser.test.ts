@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { isTasksPluginEnabled, parseTaskLine, setTaskLineStatus } from './task-parser'
+
+describe('parseTaskLine', () => {
+	it('should read Tasks-plugin dates, priority, recurrence and tags', () => {
+		expect(parseTaskLine('- [ ] Call Bob about #project/launch ⏫ 🔁 every week on Monday 📅 2026-10-23 ⏳ 2026-10-21 ^call')).toEqual({
+			symbol: ' ',
+			status: 'open',
+			text: 'Call Bob about #project/launch ⏫ 🔁 every week on Monday 📅 2026-10-23 ⏳ 2026-10-21 ^call',
+			description: 'Call Bob about #project/launch',
+			priority: 'high',
+			due: '2026-10-23',
+			scheduled: '2026-10-21',
+			recurrence: 'every week on Monday',
+			tags: ['project/launch']
+		})
+	})
+
+	it('should recognize statuses, nested items and callouts', () => {
+		expect(parseTaskLine('    * [x] Ship it ✅ 2026-10-19')).toMatchObject({ status: 'done', done: '2026-10-19', description: 'Ship it' })
+		expect(parseTaskLine('> 1. [-] Dropped')).toMatchObject({ status: 'cancelled', description: 'Dropped' })
+		expect(parseTaskLine('- [/] Halfway 🔽')).toMatchObject({ status: 'in_progress', priority: 'low' })
+		expect(parseTaskLine('- [>] Forwarded')?.status).toBe('open')
+		expect(parseTaskLine('- plain item')).toBeNull()
+		expect(parseTaskLine('[ ] not a list item')).toBeNull()
+	})
+})
+
+describe('setTaskLineStatus', () => {
+	it('should change only the checkbox and the done date', () => {
+		expect(setTaskLineStatus('  - [ ] Review PRs 📅 2026-10-23 ^rev', 'done', '2026-10-19'))
+			.toBe('  - [x] Review PRs 📅 2026-10-23 ✅ 2026-10-19 ^rev')
+		expect(setTaskLineStatus('- [x] Review PRs ✅ 2026-10-19', 'open', '2026-10-20')).toBe('- [ ] Review PRs')
+		expect(setTaskLineStatus('- [ ] Old idea', 'cancelled')).toBe('- [-] Old idea')
+		expect(() => setTaskLineStatus('Just text', 'done')).toThrow('Line is not a task')
+	})
+})
+
+describe('isTasksPluginEnabled', () => {
+	it('should check for the Tasks plugin', () => {
+		expect(isTasksPluginEnabled({ plugins: { getPlugin: (id: string) => (id === 'obsidian-tasks-plugin' ? {} : null) } })).toBe(true)
+		expect(isTasksPluginEnabled({})).toBe(false)
+	})
+})
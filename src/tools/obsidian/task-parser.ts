@@ -0,0 +1,153 @@
+/**
+ * Task parsing for checkbox list items
+ * Reads the status, dates, priority and recurrence that the Tasks plugin writes as emoji
+ * (`- [ ] Call Bob 📅 2026-10-23 ⏫`) and changes a task's status on a single line.
+ */
+
+export type TaskStatus = 'open' | 'in_progress' | 'done' | 'cancelled'
+
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'none' | 'low' | 'lowest'
+
+/**
+ * A checkbox list item and its Tasks-plugin metadata
+ */
+export interface ParsedTask {
+	/** Character between the brackets */
+	symbol: string
+	status: TaskStatus
+	/** Text after the checkbox, as written */
+	text: string
+	/** Text without emoji metadata */
+	description: string
+	priority: TaskPriority
+	due?: string
+	scheduled?: string
+	start?: string
+	created?: string
+	done?: string
+	cancelled?: string
+	/** Recurrence rule, e.g. "every week on Monday" */
+	recurrence?: string
+	tags: string[]
+}
+
+/** Priorities from most to least urgent */
+export const TASK_PRIORITY_ORDER: TaskPriority[] = ['highest', 'high', 'medium', 'none', 'low', 'lowest']
+
+/** Checkbox character written for each status */
+export const TASK_STATUS_SYMBOLS: Record<TaskStatus, string> = {
+	open: ' ',
+	in_progress: '/',
+	done: 'x',
+	cancelled: '-'
+}
+
+const TASK_LINE_PATTERN = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)(\])(.*)$/
+
+const DATE_FIELDS: Array<['due' | 'scheduled' | 'start' | 'created' | 'done' | 'cancelled', RegExp]> = [
+	['due', /(?:📅|📆|🗓)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u],
+	['scheduled', /(?:⏳|⌛)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u],
+	['start', /🛫\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u],
+	['created', /➕\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u],
+	['done', /✅\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u],
+	['cancelled', /❌\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u]
+]
+
+const PRIORITY_FIELDS: Array<[TaskPriority, RegExp]> = [
+	['highest', /🔺\uFE0F?/u],
+	['high', /⏫\uFE0F?/u],
+	['medium', /🔼\uFE0F?/u],
+	['low', /🔽\uFE0F?/u],
+	['lowest', /⏬\uFE0F?/u]
+]
+
+const RECURRENCE_PATTERN = /🔁\uFE0F?\s*([^📅📆🗓⏳⌛🛫➕✅❌🔺⏫🔼🔽⏬🆔⛔#^]*)/u
+const TAG_PATTERN = /(?:^|\s)#([\p{L}\p{N}_/-]+)/gu
+const BLOCK_ID_PATTERN = /\s+\^[\w-]+\s*$/
+
+/**
+ * Get the status a checkbox character stands for (unknown characters count as open)
+ */
+export function getTaskStatus(symbol: string): TaskStatus {
+	switch (symbol) {
+		case 'x':
+		case 'X':
+			return 'done'
+		case '-':
+			return 'cancelled'
+		case '/':
+			return 'in_progress'
+		default:
+			return 'open'
+	}
+}
+
+/**
+ * Parse a checkbox list item
+ * @returns null if the line is not a task
+ */
+export function parseTaskLine(line: string): ParsedTask | null {
+	const match = TASK_LINE_PATTERN.exec(line)
+	if (!match) {
+		return null
+	}
+
+	const symbol = match[2] ?? ' '
+	const text = (match[4] ?? '').trim()
+	const task: ParsedTask = { symbol, status: getTaskStatus(symbol), text, description: text, priority: 'none', tags: [] }
+	let description = text
+
+	for (const [field, pattern] of DATE_FIELDS) {
+		const value = pattern.exec(text)?.[1]
+		if (value) {
+			task[field] = value
+			description = description.replace(new RegExp(pattern.source, 'gu'), '')
+		}
+	}
+	for (const [priority, pattern] of PRIORITY_FIELDS) {
+		if (pattern.test(text)) {
+			task.priority = priority
+			description = description.replace(new RegExp(pattern.source, 'gu'), '')
+			break
+		}
+	}
+	const recurrence = RECURRENCE_PATTERN.exec(text)?.[1]?.trim()
+	if (recurrence) {
+		task.recurrence = recurrence
+		description = description.replace(RECURRENCE_PATTERN, '')
+	}
+
+	task.tags = Array.from(text.matchAll(TAG_PATTERN), tag => tag[1] ?? '')
+	task.description = description.replace(BLOCK_ID_PATTERN, '').replace(/\s{2,}/g, ' ').trim()
+	return task
+}
+
+/**
+ * Change the status of a task line, keeping everything else on it
+ * Done and cancelled dates (✅ / ❌) are removed, and added for the new status when a date is given.
+ */
+export function setTaskLineStatus(line: string, status: TaskStatus, date?: string): string {
+	const match = TASK_LINE_PATTERN.exec(line)
+	if (!match) {
+		throw new Error('Line is not a task')
+	}
+
+	let rest = (match[4] ?? '')
+		.replace(/\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu, '')
+		.replace(/\s*❌\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu, '')
+	const marker = status === 'done' ? '✅' : status === 'cancelled' ? '❌' : null
+	if (date && marker) {
+		// Keep a trailing ^block-id at the end of the line
+		const blockId = BLOCK_ID_PATTERN.exec(rest)?.[0] ?? ''
+		rest = `${rest.slice(0, rest.length - blockId.length).trimEnd()} ${marker} ${date}${blockId}`
+	}
+	return `${match[1]}${TASK_STATUS_SYMBOLS[status]}${match[3]}${rest}`
+}
+
+/**
+ * Check whether the Tasks plugin is enabled (it records done dates when completing tasks)
+ */
+export function isTasksPluginEnabled(app: unknown): boolean {
+	const host = (app ?? {}) as { plugins?: { getPlugin?: (id: string) => unknown } }
+	return Boolean(host.plugins?.getPlugin?.('obsidian-tasks-plugin'))
+}
@@ -0,0 +1,145 @@
+import type { App, TFile, Vault } from 'obsidian'
+import { moment } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { isTasksPluginEnabled, parseTaskLine, setTaskLineStatus, type TaskStatus } from './task-parser'
+import { isTFile, redactOutputSecrets, type WriteContext, type WritePreview } from './write-context'
+import type { ObsidianSetTaskStatusInput, ObsidianSetTaskStatusOutput } from './types'
+
+/**
+ * Write tool for the status of tasks (set_task_status)
+ */
+export class TaskTools {
+	private vault: Vault
+	private app: App
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.app = context.app
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Change the status of one task, rewriting only its line
+	 */
+	async setTaskStatus(
+		input: ObsidianSetTaskStatusInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianSetTaskStatusOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+
+		return this.context.executeWithAuditLog(
+			'obsidian.set_task_status',
+			sessionId,
+			effectiveCallId,
+			input,
+			'modify',
+			input.path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, content, previousStatus, status, originalLine, newLine, warnings } = await this.prepareTaskStatus(input)
+				const result = {
+					path: file.path,
+					line: input.line,
+					previousStatus,
+					status,
+					originalLine: redactOutputSecrets(originalLine, content),
+					newLine: redactOutputSecrets(newLine, content),
+					warnings
+				}
+
+				if (dryRun) {
+					return { ...result, updated: false }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.set_task_status', 'modify') && !approved) {
+					throw new PermissionPendingError('User approval required for set task status operation')
+				}
+
+				await this.context.checkPreviewVersion(effectiveCallId, input.path)
+				await this.context.captureSnapshot('obsidian.set_task_status', sessionId, effectiveCallId, [{ path: file.path }])
+
+				await this.vault.process(file, content => {
+					const lines = content.split('\n')
+					const current = lines[input.line - 1]
+					const ending = current?.endsWith('\r') ? '\r' : ''
+					if (current === undefined || current.slice(0, current.length - ending.length) !== originalLine) {
+						throw new Error(`Line ${input.line} of ${file.path} changed since the preview. List tasks again.`)
+					}
+					lines[input.line - 1] = newLine + ending
+					return lines.join('\n')
+				})
+				return { ...result, updated: true }
+			}
+		)
+	}
+
+	/**
+	 * Check permissions and compute a task line with its new status (used by execution and preview)
+	 */
+	private async prepareTaskStatus(input: ObsidianSetTaskStatusInput): Promise<{
+		file: TFile
+		content: string
+		previousStatus: TaskStatus
+		status: TaskStatus
+		originalLine: string
+		newLine: string
+		warnings: string[]
+	}> {
+		const permission = await this.permissionManager.canModify(input.path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+
+		const file = this.vault.getAbstractFileByPath(input.path)
+		if (!isTFile(file)) {
+			throw new Error(`File not found: ${input.path}`)
+		}
+
+		const content = await this.vault.read(file)
+		const lines = content.split('\n')
+		if (input.line > lines.length) {
+			throw new Error(`Line ${input.line} is out of range (${file.path} has ${lines.length} lines)`)
+		}
+		const originalLine = (lines[input.line - 1] ?? '').replace(/\r$/, '')
+		const task = parseTaskLine(originalLine)
+		if (!task) {
+			throw new Error(`Line ${input.line} of ${file.path} is not a task`)
+		}
+		if (input.text !== undefined && task.text !== input.text.trim()) {
+			throw new Error(`Line ${input.line} of ${file.path} no longer has the expected task. List tasks again.`)
+		}
+
+		const status = input.status ?? (task.status === 'done' ? 'open' : 'done')
+		const addDate = input.doneDate ?? isTasksPluginEnabled(this.app)
+		const newLine = setTaskLineStatus(originalLine, status, addDate ? moment().format('YYYY-MM-DD') : undefined)
+
+		const warnings = task.recurrence && status === 'done'
+			? [`Recurring task (${task.recurrence}): the next occurrence was not created`]
+			: []
+		return { file, content, previousStatus: task.status, status, originalLine, newLine, warnings }
+	}
+
+	/**
+	 * Preview the task line before and after the status change
+	 */
+	async preview(input: ObsidianSetTaskStatusInput): Promise<WritePreview> {
+		const { file, previousStatus, status, originalLine, newLine, warnings } = await this.prepareTaskStatus(input)
+		return {
+			originalContent: originalLine,
+			newContent: newLine,
+			mode: 'task',
+			summary: [
+				`Change task on line ${input.line} of ${file.path} from ${previousStatus} to ${status}`,
+				...warnings.map(warning => `Warning: ${warning}`)
+			].join('\n')
+		}
+	}
+}
@@ -0,0 +1,166 @@
+import type { App, TFile, Vault } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { readTemplateSettings, renderTemplate } from './note-template'
+import { getFileName } from './link-rewriter'
+import { isTFile, redactContentPreview, type WriteContext, type WritePreview } from './write-context'
+import type { ObsidianCreateFromTemplateInput, ObsidianCreateFromTemplateOutput } from './types'
+
+/**
+ * Write tool for notes created from a template (create_from_template)
+ */
+export class TemplateTools {
+	private vault: Vault
+	private app: App
+	private permissionManager: PermissionManager
+	private context: WriteContext
+
+	constructor(context: WriteContext) {
+		this.vault = context.vault
+		this.app = context.app
+		this.permissionManager = context.permissionManager
+		this.context = context
+	}
+
+	/**
+	 * Create a note from a template, filling in its variables
+	 */
+	async createFromTemplate(
+		input: ObsidianCreateFromTemplateInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianCreateFromTemplateOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+		const path = this.resolveTemplateTargetPath(input.path)
+
+		return this.context.executeWithAuditLog(
+			'obsidian.create_from_template',
+			sessionId,
+			effectiveCallId,
+			input,
+			'create',
+			path,
+			approved,
+			dryRun,
+			async () => {
+				const { file, templatePath, originalContent, newContent, warnings } = await this.prepareTemplateNote(input)
+				const result = {
+					path,
+					template: templatePath,
+					existed: file !== null,
+					warnings,
+					preview: redactContentPreview(originalContent, newContent)
+				}
+
+				if (dryRun) {
+					return { ...result, created: false }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.create_from_template', 'create') && !approved) {
+					throw new PermissionPendingError('User approval required for create from template operation')
+				}
+
+				await this.context.checkPreviewVersion(effectiveCallId, path)
+				await this.context.captureSnapshot('obsidian.create_from_template', sessionId, effectiveCallId, [{ path }])
+
+				if (file) {
+					await this.vault.modify(file, newContent)
+				} else {
+					await this.context.ensureParentFolder(path)
+					await this.vault.create(path, newContent)
+				}
+				return { ...result, created: true }
+			}
+		)
+	}
+
+	/**
+	 * Add .md to template targets given without an extension
+	 */
+	resolveTemplateTargetPath(path: string): string {
+		return /\.[^/.]+$/.test(getFileName(path)) ? path : `${path}.md`
+	}
+
+	/**
+	 * Check permissions, find the template and fill it in (used by execution and preview)
+	 */
+	private async prepareTemplateNote(input: ObsidianCreateFromTemplateInput): Promise<{
+		file: TFile | null
+		templatePath: string
+		originalContent?: string
+		newContent: string
+		warnings: string[]
+	}> {
+		const path = this.resolveTemplateTargetPath(input.path)
+		const permission = await this.permissionManager.canCreate(path)
+		if (!permission.allowed) {
+			throw new Error(`Permission denied: ${permission.reason}`)
+		}
+
+		const existing = this.vault.getAbstractFileByPath(path)
+		const file = isTFile(existing) ? existing : null
+		if (file && !input.overwrite) {
+			throw new Error(`File already exists: ${path}. Use overwrite=true to replace it.`)
+		}
+
+		const settings = readTemplateSettings(this.app)
+		const reference = input.template.trim().replace(/\.md$/, '')
+		const candidates = [
+			...(settings.folder ? [`${settings.folder}/${reference}.md`] : []),
+			`${reference}.md`
+		]
+		const template = candidates
+			.map(candidate => this.vault.getAbstractFileByPath(candidate))
+			.find(isTFile)
+		if (!template) {
+			throw new Error(`Template not found: ${input.template}${settings.folder ? ` (templates folder: ${settings.folder})` : ''}`)
+		}
+		const templatePermission = await this.permissionManager.canRead(template.path)
+		if (!templatePermission.allowed) {
+			throw new Error(`Permission denied: ${templatePermission.reason}`)
+		}
+
+		const templateContent = await this.vault.read(template)
+		const rendered = renderTemplate(templateContent, {
+			title: getFileName(path).replace(/\.md$/, ''),
+			variables: input.variables,
+			settings
+		})
+		if (rendered.missing.length > 0) {
+			throw new Error(`Missing template variables: ${rendered.missing.join(', ')}. Provide them in "variables".`)
+		}
+
+		const warnings = /<%[\s\S]*?%>/.test(templateContent)
+			? ['Templater commands (<% ... %>) are not run and were left as written']
+			: []
+		return {
+			file,
+			templatePath: template.path,
+			originalContent: file ? await this.vault.read(file) : undefined,
+			newContent: rendered.content,
+			warnings
+		}
+	}
+
+	/**
+	 * Preview the filled-in note, with the variables supplied and any warnings
+	 */
+	async preview(input: ObsidianCreateFromTemplateInput): Promise<WritePreview> {
+		const { file, templatePath, originalContent, newContent, warnings } = await this.prepareTemplateNote(input)
+		const path = this.resolveTemplateTargetPath(input.path)
+		const summaryLines = [`${file ? 'Overwrite' : 'Create'} ${path} from template ${templatePath}`]
+		const variables = Object.entries(input.variables ?? {})
+		if (variables.length > 0) {
+			summaryLines.push('', 'Variables:', ...variables.map(([name, value]) => `- ${name}: ${value}`))
+		}
+		summaryLines.push(...warnings.map(warning => `Warning: ${warning}`))
+		return {
+			originalContent,
+			newContent,
+			mode: 'create',
+			summary: summaryLines.join('\n')
+		}
+	}
+}
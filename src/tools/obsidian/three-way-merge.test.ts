@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { mergeThreeWay } from './three-way-merge'
+
+const base = ['# Plan', '', 'Intro', '', '## Tasks', '- one', '- two', ''].join('\n')
+
+describe('mergeThreeWay', () => {
+	it('should combine edits made to different parts of the note', () => {
+		const ours = base.replace('Intro', 'Intro, edited by hand')
+		const theirs = `${base}## Notes\nAdded by the agent\n`
+
+		expect(mergeThreeWay(base, ours, theirs)).toEqual({
+			content: ['# Plan', '', 'Intro, edited by hand', '', '## Tasks', '- one', '- two', '## Notes', 'Added by the agent', ''].join('\n'),
+			conflicts: 0
+		})
+	})
+
+	it('should take identical changes and unchanged sides as they are', () => {
+		const edited = base.replace('- two', '- two\n- three')
+
+		expect(mergeThreeWay(base, edited, edited)).toEqual({ content: edited, conflicts: 0 })
+		expect(mergeThreeWay(base, base, edited)).toEqual({ content: edited, conflicts: 0 })
+		expect(mergeThreeWay(base, edited, base)).toEqual({ content: edited, conflicts: 0 })
+	})
+
+	it('should mark regions both sides changed differently', () => {
+		const ours = base.replace('- one', '- one (mine)')
+		const theirs = base.replace('- one', '- one (agent)')
+
+		expect(mergeThreeWay(base, ours, theirs, { ours: 'Your edits', theirs: 'Agent change' })).toEqual({
+			content: [
+				'# Plan', '', 'Intro', '', '## Tasks',
+				'<<<<<<< Your edits', '- one (mine)', '=======', '- one (agent)', '>>>>>>> Agent change',
+				'- two', ''
+			].join('\n'),
+			conflicts: 1
+		})
+	})
+})
@@ -0,0 +1,139 @@
+/**
+ * Line-based three-way merge
+ * Combines two edited versions of a note (the user's edits and the agent's change) made from the same base,
+ * like `git merge-file`: regions changed on only one side are taken from that side, regions changed
+ * differently on both sides are conflicts.
+ */
+
+export interface MergeResult {
+	/** Merged content; conflicting regions are wrapped in conflict markers */
+	content: string
+	/** Number of regions both sides changed differently */
+	conflicts: number
+}
+
+// Above this many compared line pairs the merge gives up instead of using too much memory
+const MAX_COMPARED_LINES = 16_000_000
+
+/**
+ * For each base line, the index of the matching line in the other version (-1 if it was removed or changed)
+ * Uses the longest common subsequence of the lines after skipping a shared prefix and suffix.
+ */
+export function matchLines(base: string[], other: string[]): number[] {
+	const matches = new Array<number>(base.length).fill(-1)
+
+	let prefix = 0
+	while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+		matches[prefix] = prefix
+		prefix++
+	}
+	let suffix = 0
+	while (
+		suffix < base.length - prefix &&
+		suffix < other.length - prefix &&
+		base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+	) {
+		matches[base.length - 1 - suffix] = other.length - 1 - suffix
+		suffix++
+	}
+
+	const rows = base.length - prefix - suffix
+	const columns = other.length - prefix - suffix
+	if (rows === 0 || columns === 0) {
+		return matches
+	}
+	if (rows * columns > MAX_COMPARED_LINES) {
+		throw new Error('Note is too large to merge')
+	}
+
+	// lengths[r][c] = LCS length of base[prefix + r..] and other[prefix + c..], stored row by row
+	const width = columns + 1
+	const lengths = new Uint32Array((rows + 1) * width)
+	for (let r = rows - 1; r >= 0; r--) {
+		for (let c = columns - 1; c >= 0; c--) {
+			lengths[r * width + c] = base[prefix + r] === other[prefix + c]
+				? (lengths[(r + 1) * width + c + 1] ?? 0) + 1
+				: Math.max(lengths[(r + 1) * width + c] ?? 0, lengths[r * width + c + 1] ?? 0)
+		}
+	}
+
+	let r = 0
+	let c = 0
+	while (r < rows && c < columns) {
+		if (base[prefix + r] === other[prefix + c]) {
+			matches[prefix + r] = prefix + c
+			r++
+			c++
+		} else if ((lengths[(r + 1) * width + c] ?? 0) >= (lengths[r * width + c + 1] ?? 0)) {
+			r++
+		} else {
+			c++
+		}
+	}
+	return matches
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+/**
+ * Merge two versions of a text that were both edited from base
+ */
+export function mergeThreeWay(
+	base: string,
+	ours: string,
+	theirs: string,
+	labels: { ours: string; theirs: string } = { ours: 'ours', theirs: 'theirs' }
+): MergeResult {
+	const baseLines = base.split('\n')
+	const ourLines = ours.split('\n')
+	const theirLines = theirs.split('\n')
+	const ourMatches = matchLines(baseLines, ourLines)
+	const theirMatches = matchLines(baseLines, theirLines)
+
+	const merged: string[] = []
+	let conflicts = 0
+	let b = 0
+	let o = 0
+	let t = 0
+
+	while (b < baseLines.length || o < ourLines.length || t < theirLines.length) {
+		// Next base line kept by both sides (a stable line both versions still share)
+		let stable = b
+		while (
+			stable < baseLines.length &&
+			((ourMatches[stable] ?? -1) < o || (theirMatches[stable] ?? -1) < t)
+		) {
+			stable++
+		}
+		const baseEnd = stable
+		const ourEnd = stable < baseLines.length ? ourMatches[stable] ?? ourLines.length : ourLines.length
+		const theirEnd = stable < baseLines.length ? theirMatches[stable] ?? theirLines.length : theirLines.length
+
+		if (baseEnd === b && ourEnd === o && theirEnd === t) {
+			merged.push(baseLines[b] ?? '')
+			b++
+			o++
+			t++
+			continue
+		}
+
+		const baseChunk = baseLines.slice(b, baseEnd)
+		const ourChunk = ourLines.slice(o, ourEnd)
+		const theirChunk = theirLines.slice(t, theirEnd)
+		if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+			merged.push(...theirChunk)
+		} else if (sameLines(theirChunk, baseChunk)) {
+			merged.push(...ourChunk)
+		} else {
+			conflicts++
+			merged.push(`<<<<<<< ${labels.ours}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`)
+		}
+		b = baseEnd
+		o = ourEnd
+		t = theirEnd
+	}
+
+	return { content: merged.join('\n'), conflicts }
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ToolBridge } from "./tool-bridge";
+import { SessionEventBus } from "../../session/session-event-bus";
+import { ErrorHandler } from "../../utils/error-handler";
+import type { OpenCodeServerClient } from "../../client/client";
+import type { ConnectionState } from "../../client/types";
+import type { ObsidianToolRegistry } from "./tool-registry";
+import type { McpToolHandlers } from "./mcp-tool-server";
+import { ToolLimitError } from "./tool-limits";
+
+const mcpServer = vi.hoisted(() => ({
+	handlers: null as McpToolHandlers | null,
+	start: vi.fn(),
+	stop: vi.fn(),
+}));
+
+vi.mock("./mcp-tool-server", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./mcp-tool-server")>()),
+	McpToolServer: vi.fn(function (handlers: McpToolHandlers) {
+		mcpServer.handlers = handlers;
+		return { start: mcpServer.start, stop: mcpServer.stop };
+	}),
+}));
+
+describe("ToolBridge", () => {
+	let bridge: ToolBridge;
+	let eventBus: SessionEventBus;
+	let errorHandler: ErrorHandler;
+	let stateListener: ((state: ConnectionState) => void) | null;
+	let mockClient: {
+		onConnectionStateChange: ReturnType<typeof vi.fn>;
+		isConnected: ReturnType<typeof vi.fn>;
+		addMcpServer: ReturnType<typeof vi.fn>;
+	};
+	let mockRegistry: {
+		listTools: ReturnType<typeof vi.fn>;
+		listToolsAsJSONSchema: ReturnType<typeof vi.fn>;
+		executeWithPermissionHandling: ReturnType<typeof vi.fn>;
+		resetSession: ReturnType<typeof vi.fn>;
+	};
+
+	const endpoint = { url: "http://127.0.0.1:51234/mcp", headers: { Authorization: "Bearer token" } };
+	const toolSchemas = [
+		{
+			name: "obsidian.read_note",
+			description: "Read the content of a note file",
+			inputSchema: { type: "object" },
+			outputSchema: { type: "object" },
+			permission: "read-only",
+		},
+	];
+
+	const createBridge = () =>
+		new ToolBridge(
+			mockClient as unknown as OpenCodeServerClient,
+			eventBus,
+			mockRegistry as unknown as ObsidianToolRegistry,
+			errorHandler
+		);
+
+	/** Calls a tool the way the MCP server does when the OpenCode Server requests it */
+	const callTool = (toolName: string, args: unknown) => mcpServer.handlers!.callTool(toolName, args);
+
+	beforeEach(() => {
+		eventBus = new SessionEventBus();
+		errorHandler = new ErrorHandler({ logToConsole: false });
+		stateListener = null;
+		mcpServer.start.mockReset().mockResolvedValue(endpoint);
+		mcpServer.stop.mockReset().mockResolvedValue(undefined);
+
+		mockClient = {
+			onConnectionStateChange: vi.fn((listener: (state: ConnectionState) => void) => {
+				stateListener = listener;
+				return () => {
+					stateListener = null;
+				};
+			}),
+			isConnected: vi.fn().mockReturnValue(false),
+			addMcpServer: vi.fn().mockResolvedValue(undefined),
+		};
+
+		mockRegistry = {
+			listTools: vi.fn().mockReturnValue(toolSchemas),
+			listToolsAsJSONSchema: vi.fn().mockReturnValue(toolSchemas),
+			executeWithPermissionHandling: vi.fn().mockResolvedValue({ path: "a.md", content: "hi", exists: true }),
+			resetSession: vi.fn(),
+		};
+
+		bridge = createBridge();
+	});
+
+	describe("tool registration", () => {
+		it("should serve the registry's tools and add the MCP server when the client connects", async () => {
+			expect(mockClient.addMcpServer).not.toHaveBeenCalled();
+
+			stateListener?.("connected");
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockClient.addMcpServer).toHaveBeenCalledWith("obsidian", endpoint);
+			expect(mcpServer.handlers?.listTools()).toEqual(toolSchemas);
+		});
+
+		it("should add the MCP server again on reconnect", async () => {
+			stateListener?.("connected");
+			stateListener?.("reconnecting");
+			stateListener?.("connected");
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockClient.addMcpServer).toHaveBeenCalledTimes(2);
+		});
+
+		it("should register immediately if the client is already connected", async () => {
+			mockClient.isConnected.mockReturnValue(true);
+			bridge.dispose();
+			bridge = createBridge();
+			await new Promise(resolve => setTimeout(resolve, 10));
+
+			expect(mockClient.addMcpServer).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not throw when the MCP server cannot start or be added", async () => {
+			mockClient.addMcpServer.mockRejectedValue(new Error("Server rejected"));
+			await expect(bridge.registerTools()).resolves.toBeUndefined();
+
+			mcpServer.start.mockRejectedValue(new Error("EADDRINUSE"));
+			await expect(bridge.registerTools()).resolves.toBeUndefined();
+		});
+	});
+
+	describe("tool calls", () => {
+		it("should run a call in the session and call ID of the server's matching tool part", async () => {
+			eventBus.emitToolCall({
+				sessionId: "session-1",
+				callId: "call-1",
+				toolName: "obsidian_read_note",
+				args: { path: "a.md", heading: "Intro" },
+			});
+
+			const result = await callTool("obsidian.read_note", { heading: "Intro", path: "a.md" });
+
+			expect(mockRegistry.executeWithPermissionHandling).toHaveBeenCalledWith(
+				"obsidian.read_note",
+				{ heading: "Intro", path: "a.md" },
+				"session-1",
+				"call-1"
+			);
+			expect(result).toEqual({ success: true, result: { path: "a.md", content: "hi", exists: true } });
+		});
+
+		it("should wait for the tool part when the MCP request arrives first, and match each part once", async () => {
+			const first = callTool("obsidian.read_note", { path: "a.md" });
+			const second = callTool("obsidian.read_note", { path: "a.md" });
+			eventBus.emitToolCall({ sessionId: "session-1", callId: "call-1", toolName: "obsidian_read_note", args: { path: "a.md" } });
+			eventBus.emitToolCall({ sessionId: "session-1", callId: "call-1", toolName: "obsidian_read_note", args: { path: "a.md" } });
+			eventBus.emitToolCall({ sessionId: "session-2", callId: "call-2", toolName: "obsidian_read_note", args: { path: "a.md" } });
+			await Promise.all([first, second]);
+
+			expect(mockRegistry.executeWithPermissionHandling).toHaveBeenCalledWith("obsidian.read_note", { path: "a.md" }, "session-1", "call-1");
+			expect(mockRegistry.executeWithPermissionHandling).toHaveBeenCalledWith("obsidian.read_note", { path: "a.md" }, "session-2", "call-2");
+		});
+
+		it("should run a call without a session when no tool part arrives", async () => {
+			vi.useFakeTimers();
+			try {
+				eventBus.emitToolCall({ sessionId: "session-1", callId: "call-1", toolName: "bash", args: { path: "a.md" } });
+				const result = callTool("obsidian.read_note", { path: "a.md" });
+				await vi.advanceTimersByTimeAsync(2000);
+				await result;
+			} finally {
+				vi.useRealTimers();
+			}
+
+			expect(mockRegistry.executeWithPermissionHandling).toHaveBeenCalledWith("obsidian.read_note", { path: "a.md" }, undefined, undefined);
+		});
+
+		it.each([
+			["Invalid input for obsidian.read_note: path: Required", "VALIDATION_ERROR"],
+			["Tool not found: obsidian.unknown", "VALIDATION_ERROR"],
+			["Permission denied for obsidian.update_note", "PERMISSION_DENIED"],
+			["Disk full", "EXECUTION_ERROR"],
+		])("should map error '%s' to %s", async (message, code) => {
+			mockRegistry.executeWithPermissionHandling.mockRejectedValue(new Error(message));
+			eventBus.emitToolCall({ sessionId: "session-1", callId: "call-err", toolName: "obsidian_update_note", args: {} });
+
+			await expect(callTool("obsidian.update_note", {})).resolves.toEqual({
+				success: false,
+				error: { code, message },
+			});
+		});
+
+		it("should report rate limits with their details", async () => {
+			const error = new ToolLimitError("tool_calls_per_minute", 20, "obsidian.search_vault", "session-1", 30000);
+			mockRegistry.executeWithPermissionHandling.mockRejectedValue(error);
+			eventBus.emitToolCall({ sessionId: "session-1", callId: "call-limited", toolName: "obsidian_search_vault", args: {} });
+
+			await expect(callTool("obsidian.search_vault", {})).resolves.toEqual({
+				success: false,
+				error: {
+					code: "RATE_LIMITED",
+					message: error.message,
+					details: { limit: "tool_calls_per_minute", max: 20, toolName: "obsidian.search_vault", retryAfterMs: 30000 },
+				},
+			});
+		});
+
+		it("should stop listening and stop the MCP server after dispose", async () => {
+			bridge.dispose();
+
+			expect(mcpServer.stop).toHaveBeenCalled();
+			expect(stateListener).toBeNull();
+		});
+	});
+
+	describe("session end", () => {
+		it("should reset the session's limits when it ends or is deleted", () => {
+			eventBus.emitSessionEnd({ sessionId: "session-1", reason: "deleted" });
+
+			expect(mockRegistry.resetSession).toHaveBeenCalledWith("session-1");
+		});
+	});
+});
@@ -0,0 +1,289 @@
+import type { OpenCodeServerClient } from '../../client/client';
+import type { ToolCallResult } from '../../client/types';
+import type { SessionEventBus, ToolCallEvent } from '../../session/session-event-bus';
+import type { ObsidianToolRegistry } from './tool-registry';
+import { McpToolServer, toMcpToolName } from './mcp-tool-server';
+import { ToolLimitError } from './tool-limits';
+import { ErrorHandler, ErrorSeverity } from '../../utils/error-handler';
+
+/** Name the MCP server is added under; the server lists its tools as `obsidian_<tool>` */
+export const MCP_SERVER_NAME = 'obsidian';
+
+/** How long an MCP call waits for the server's event telling its session */
+const CALL_MATCH_TIMEOUT_MS = 2000;
+
+/** How long a started call can still be matched to an MCP call */
+const STARTED_CALL_TTL_MS = 60_000;
+
+/** Function to unsubscribe from an event listener */
+type Unsubscribe = () => void;
+
+/** A tool call the server started, waiting for its MCP request */
+interface StartedCall {
+	event: ToolCallEvent;
+	args: string;
+	at: number;
+	matched: boolean;
+}
+
+/**
+ * Bridges the plugin's Obsidian tool registry and the OpenCode Server.
+ *
+ * The server runs the agent loop but cannot touch the vault itself, and its SDK
+ * has no way for a client to provide tools. This class serves the registry's
+ * tools from an MCP server inside the plugin and adds it to the server:
+ * 1. Start the MCP server and add it whenever the client connects or reconnects
+ * 2. Receive tool calls from the server as MCP `tools/call` requests
+ * 3. Match each one to the session and call ID from the server's tool part events
+ * 4. Execute it through the registry (validation, permissions, preview, audit)
+ * 5. Answer with the output or a structured error
+ *
+ * @example
+ * ```typescript
+ * const bridge = new ToolBridge(client, eventBus, toolRegistry, errorHandler);
+ * // Bridge adds its MCP server on connect and answers tool calls automatically
+ * bridge.dispose(); // Stop serving (e.g., on plugin unload)
+ * ```
+ */
+export class ToolBridge {
+	/** Unsubscribe functions for client and event bus listeners */
+	private unsubscribers: Unsubscribe[] = [];
+	/** MCP server the OpenCode Server calls the tools through */
+	private toolServer: McpToolServer;
+	/** Recently started calls of the plugin's tools, by call ID */
+	private startedCalls = new Map<string, StartedCall>();
+	/** MCP calls waiting for the event telling their session */
+	private waitingCalls: Array<{ toolName: string; args: string; resolve: (event: ToolCallEvent | null) => void }> = [];
+
+	/**
+	 * Creates a new ToolBridge instance.
+	 *
+	 * @param client - OpenCode Server client for adding the MCP server
+	 * @param eventBus - Event bus for tool call and session events
+	 * @param toolRegistry - Registry that validates and executes tool calls
+	 * @param errorHandler - Error handler for logging errors
+	 */
+	constructor(
+		private client: OpenCodeServerClient,
+		private eventBus: SessionEventBus,
+		private toolRegistry: ObsidianToolRegistry,
+		private errorHandler: ErrorHandler
+	) {
+		this.toolServer = new McpToolServer({
+			listTools: () => this.toolRegistry.listToolsAsJSONSchema(),
+			callTool: (toolName, args) => this.handleToolCall(toolName, args)
+		});
+		this.setupListeners();
+	}
+
+	/**
+	 * Sets up listeners for connection state changes and tool calls.
+	 *
+	 * The MCP server is added every time the connection reaches the
+	 * "connected" state, so a server restart or reconnect picks it up again.
+	 *
+	 * @private
+	 */
+	private setupListeners(): void {
+		this.unsubscribers.push(
+			this.client.onConnectionStateChange(state => {
+				if (state === 'connected') {
+					void this.registerTools();
+				}
+			})
+		);
+
+		this.unsubscribers.push(
+			this.eventBus.onToolCall(event => {
+				this.recordStartedCall(event);
+			})
+		);
+
+		// An ended or deleted session's rate limits and quotas are no longer needed
+		this.unsubscribers.push(
+			this.eventBus.onSessionEnd(event => {
+				this.toolRegistry.resetSession(event.sessionId);
+			})
+		);
+
+		// Client may already be connected when the bridge is created
+		if (this.client.isConnected()) {
+			void this.registerTools();
+		}
+	}
+
+	/**
+	 * Starts the MCP server if needed and adds it to the server.
+	 *
+	 * The server lists the tools again for every prompt, so tools added or
+	 * removed since show up without adding it again. Failures are reported as
+	 * warnings; the next successful connection will try again.
+	 *
+	 * @returns Promise that resolves when the server was added or adding it failed
+	 */
+	async registerTools(): Promise<void> {
+		let endpoint;
+		try {
+			endpoint = await this.toolServer.start();
+		} catch (error) {
+			this.errorHandler.handleError(error, {
+				module: 'ToolBridge',
+				function: 'registerTools',
+				operation: 'Starting the MCP server'
+			}, ErrorSeverity.Warning);
+			return;
+		}
+
+		try {
+			await this.client.addMcpServer(MCP_SERVER_NAME, endpoint);
+			console.debug(`[ToolBridge] Serving ${this.toolRegistry.listTools().length} tools to OpenCode Server at ${endpoint.url}`);
+		} catch {
+			// Already reported by the client
+		}
+	}
+
+	/**
+	 * Remembers a call of one of the plugin's tools the server started, or hands it to the MCP call waiting for it.
+	 *
+	 * @param event - The tool call event from the server
+	 * @private
+	 */
+	private recordStartedCall(event: ToolCallEvent): void {
+		if (!event.toolName.startsWith(`${MCP_SERVER_NAME}_`) || this.startedCalls.has(event.callId)) {
+			return;
+		}
+
+		const now = Date.now();
+		for (const [callId, call] of this.startedCalls) {
+			if (now - call.at > STARTED_CALL_TTL_MS) {
+				this.startedCalls.delete(callId);
+			}
+		}
+
+		const args = stableStringify(event.args);
+		const waiting = this.waitingCalls.findIndex(call => call.toolName === event.toolName && call.args === args);
+		this.startedCalls.set(event.callId, { event, args, at: now, matched: waiting !== -1 });
+		if (waiting !== -1) {
+			const [call] = this.waitingCalls.splice(waiting, 1);
+			call?.resolve(event);
+		}
+	}
+
+	/**
+	 * Finds the started call an MCP call belongs to: the oldest unmatched one of the same tool with the same input.
+	 * The MCP request can arrive before the event, so this waits for it up to CALL_MATCH_TIMEOUT_MS.
+	 *
+	 * @returns The call's event, or null if none arrived in time
+	 * @private
+	 */
+	private matchStartedCall(toolName: string, args: unknown): Promise<ToolCallEvent | null> {
+		const serverToolName = `${MCP_SERVER_NAME}_${toMcpToolName(toolName)}`;
+		const key = stableStringify(args);
+		for (const call of this.startedCalls.values()) {
+			if (!call.matched && call.event.toolName === serverToolName && call.args === key) {
+				call.matched = true;
+				return Promise.resolve(call.event);
+			}
+		}
+
+		return new Promise(resolve => {
+			const waiting = {
+				toolName: serverToolName,
+				args: key,
+				resolve: (event: ToolCallEvent | null) => {
+					clearTimeout(timeout);
+					resolve(event);
+				}
+			};
+			const timeout = setTimeout(() => {
+				this.waitingCalls = this.waitingCalls.filter(call => call !== waiting);
+				resolve(null);
+			}, CALL_MATCH_TIMEOUT_MS);
+			this.waitingCalls.push(waiting);
+		});
+	}
+
+	/**
+	 * Handles a tool call from the MCP server.
+	 *
+	 * Executes the tool with automatic permission handling (which may show the
+	 * permission modal) in the session the call belongs to. A call that cannot be
+	 * matched to a session still runs, under the selected agent's permissions.
+	 *
+	 * @param toolName - Registry name of the tool
+	 * @param args - Tool input
+	 * @returns The tool output or a structured error
+	 * @private
+	 */
+	private async handleToolCall(toolName: string, args: unknown): Promise<ToolCallResult> {
+		const call = await this.matchStartedCall(toolName, args);
+
+		try {
+			const output = await this.toolRegistry.executeWithPermissionHandling(
+				toolName,
+				args,
+				call?.sessionId,
+				call?.callId
+			);
+			return { success: true, result: output };
+		} catch (error) {
+			return { success: false, error: this.toToolError(error) };
+		}
+	}
+
+	/**
+	 * Maps an execution error to the error codes understood by the server.
+	 *
+	 * @param error - Error thrown by the registry or executor
+	 * @returns Structured error for the tool result
+	 * @private
+	 */
+	private toToolError(error: unknown): NonNullable<ToolCallResult['error']> {
+		const message = error instanceof Error ? error.message : String(error);
+
+		if (error instanceof ToolLimitError) {
+			return {
+				code: 'RATE_LIMITED',
+				message,
+				details: { limit: error.kind, max: error.limit, toolName: error.toolName, retryAfterMs: error.retryAfterMs }
+			};
+		}
+		if (message.startsWith('Invalid input for') || message.startsWith('Tool not found')) {
+			return { code: 'VALIDATION_ERROR', message };
+		}
+		if (message.startsWith('Permission denied')) {
+			return { code: 'PERMISSION_DENIED', message };
+		}
+		if (/file not found|does not exist/i.test(message)) {
+			return { code: 'FILE_NOT_FOUND', message };
+		}
+		return { code: 'EXECUTION_ERROR', message };
+	}
+
+	/**
+	 * Stops listening for connection changes and tool calls, and stops the MCP server.
+	 */
+	dispose(): void {
+		for (const unsubscribe of this.unsubscribers) {
+			unsubscribe();
+		}
+		this.unsubscribers = [];
+		for (const call of this.waitingCalls) {
+			call.resolve(null);
+		}
+		this.waitingCalls = [];
+		this.startedCalls.clear();
+		void this.toolServer.stop();
+	}
+}
+
+/**
+ * JSON with object keys sorted, so inputs compare equal whatever order their keys were sent in
+ */
+function stableStringify(value: unknown): string {
+	return JSON.stringify(value ?? {}, (_key, entry: unknown) =>
+		entry && typeof entry === 'object' && !Array.isArray(entry)
+			? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b)))
+			: entry
+	);
+}
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TFile, moment } from 'obsidian'
+import type { App, MetadataCache, Vault } from 'obsidian'
+import { ObsidianToolExecutor, UndoConflictError, VersionConflictError } from './tool-executor'
+import { ObsidianToolRegistry } from './tool-registry'
+import { PermissionManager } from './permission-manager'
+import { buildHeadingCache } from './section-resolver'
+import type { AuditLogger } from './audit-logger'
+import type { VaultSearchIndex } from './vault-search-index'
+import { SnapshotStore, type SnapshotAdapter } from './snapshot-store'
+import {
+	ObsidianBatchEditSchema,
+	ObsidianCreateFromTemplateSchema,
+	ObsidianCreateNoteSchema,
+	ObsidianSetTaskStatusSchema,
+	ObsidianUpdateCanvasSchema,
+	ObsidianUpdateNoteSchema,
+	ObsidianUpdatePeriodicNoteSchema,
+	ObsidianUpdatePropertiesSchema,
+	ObsidianUpdateSectionSchema,
+	ToolPermission
+} from './types'
+
+// The mock has no YAML parser; flat "key: value" frontmatter is all these notes use
+vi.mock('obsidian', async importOriginal => ({
+	...(await importOriginal<typeof import('obsidian')>()),
+	parseYaml: (text: string) => Object.fromEntries(text.split('\n').filter(Boolean).map(line => {
+		const [key, value] = line.split(/:\s*/, 2) as [string, string]
+		return [key, /^\d+$/.test(value) ? Number(value) : value]
+	}))
+}))
+
+const apiKey = `sk-ant-${'a'.repeat(24)}`
+const today = moment().format('YYYY-MM-DD')
+
+const notes: Record<string, string> = {
+	'Notes/Setup.md': ['# Setup', `Use ${apiKey}`, '', '## Links', 'Docs'].join('\n'),
+	'Notes/Diary.md': ['# Diary #private', '', '## Today', 'Dear diary'].join('\n'),
+	'Notes/Server.md': ['---', 'host: example.com', 'password: hunter2', '---', '# Server'].join('\n'),
+	'Notes/Tasks.md': ['# Tasks', `- [ ] Rotate ${apiKey}`].join('\n'),
+	'Boards/Plan.canvas': JSON.stringify({ nodes: [{ id: 'a', type: 'text', text: 'Plan', x: 0, y: 0, width: 100, height: 50 }], edges: [] }),
+	[`${today}.md`]: `# Today\nToken ${apiKey}`,
+	'Templates/Deploy.md': `Deploy {{project}} with ${apiKey}`
+}
+
+const file = (path: string) => Object.assign(new TFile(), { path, extension: path.split('.').pop() ?? '' })
+
+function createExecutor(snapshotStore = {} as SnapshotStore) {
+	const files = new Map(Object.entries(notes).map(([path, content]) => [path, { file: file(path), content }]))
+	const vault = {
+		getAbstractFileByPath: (path: string) => files.get(path)?.file ?? null,
+		read: async (file: TFile) => files.get(file.path)!.content,
+		cachedRead: async (file: TFile) => files.get(file.path)!.content,
+		modify: async (file: TFile, content: string) => {
+			files.get(file.path)!.content = content
+		},
+		process: async (file: TFile, edit: (content: string) => string) => {
+			const entry = files.get(file.path)!
+			entry.content = edit(entry.content)
+			return entry.content
+		},
+		adapter: { stat: vi.fn().mockResolvedValue(null) }
+	} as unknown as Vault
+	const metadataCache = {
+		getFileCache: (file: TFile) => buildHeadingCache(files.get(file.path)!.content)
+	} as unknown as MetadataCache
+	const auditLogger = { log: vi.fn().mockResolvedValue(undefined) }
+	const executor = new ObsidianToolExecutor(
+		vault, {} as App, metadataCache, new PermissionManager(vault, ToolPermission.FullWrite),
+		auditLogger as unknown as AuditLogger, {} as VaultSearchIndex, snapshotStore
+	)
+	return { executor, files, vault }
+}
+
+describe('ObsidianToolExecutor write output secrets', () => {
+	it('should redact secrets in the update_note preview', async () => {
+		const setup = await createExecutor().executor.updateNote(ObsidianUpdateNoteSchema.parse({ path: 'Notes/Setup.md', content: 'More docs', mode: 'append' }))
+		expect(setup.preview?.originalContent).toBe(['# Setup', 'Use [REDACTED API key]', '', '## Links', 'Docs'].join('\n'))
+		expect(setup.preview?.newContent).not.toContain(apiKey)
+
+		const diary = await createExecutor().executor.updateNote(ObsidianUpdateNoteSchema.parse({ path: 'Notes/Diary.md', content: 'More', mode: 'append' }))
+		expect(diary.preview?.newContent).toBe('[Note tagged #private withheld]')
+	})
+
+	it('should redact secrets in the update_section preview, and withhold sections of private notes', async () => {
+		const { executor } = createExecutor()
+		const setup = await executor.updateSection(ObsidianUpdateSectionSchema.parse({ path: 'Notes/Setup.md', target: 'Setup', mode: 'append', content: 'Done' }))
+		expect(setup.preview?.originalSection).toBe(['# Setup', 'Use [REDACTED API key]', '', '## Links', 'Docs'].join('\n'))
+
+		const diary = await executor.updateSection(ObsidianUpdateSectionSchema.parse({ path: 'Notes/Diary.md', target: 'Today', mode: 'append', content: 'More' }))
+		expect(diary.preview).toEqual({ originalSection: '[Note tagged #private withheld]', newSection: '[Note tagged #private withheld]' })
+	})
+
+	it('should redact passwords in the update_properties preview and properties', async () => {
+		const output = await createExecutor().executor.updateProperties(ObsidianUpdatePropertiesSchema.parse({ path: 'Notes/Server.md', set: { port: 22 } }))
+		expect(output.properties).toEqual({ host: 'example.com', password: '[REDACTED password in frontmatter]', port: 22 })
+		expect(output.preview?.originalFrontmatter).toBe('host: example.com\npassword: [REDACTED password in frontmatter]')
+		expect(output.preview?.newFrontmatter).not.toContain('hunter2')
+	})
+
+	it('should redact secrets in the set_task_status lines', async () => {
+		const output = await createExecutor().executor.setTaskStatus(ObsidianSetTaskStatusSchema.parse({ path: 'Notes/Tasks.md', line: 2, doneDate: false }))
+		expect(output).toMatchObject({ originalLine: '- [ ] Rotate [REDACTED API key]', newLine: '- [x] Rotate [REDACTED API key]' })
+	})
+
+	it('should redact secrets in the update_canvas cards and changes', async () => {
+		const output = await createExecutor().executor.updateCanvas(ObsidianUpdateCanvasSchema.parse({
+			path: 'Boards/Plan.canvas',
+			operations: [{ action: 'add_node', id: 'b', type: 'text', x: 200, y: 0, text: `Key ${apiKey}` }]
+		}))
+		expect(output.nodes.map(node => node.text)).toEqual(['Plan', 'Key [REDACTED API key]'])
+		expect(JSON.stringify(output)).not.toContain(apiKey)
+	})
+
+	it('should redact secrets in the update_periodic_note preview', async () => {
+		const { preview } = await createExecutor().executor.updatePeriodicNote(ObsidianUpdatePeriodicNoteSchema.parse({ content: 'Standup' }))
+		expect(preview.originalContent).toBe('# Today\nToken [REDACTED API key]')
+		expect(preview.newContent).toBe('# Today\nToken [REDACTED API key]\nStandup\n')
+	})
+
+	it('should redact secrets in the create_from_template preview', async () => {
+		const { preview } = await createExecutor().executor.createFromTemplate(ObsidianCreateFromTemplateSchema.parse({
+			template: 'Deploy',
+			path: 'Notes/Release',
+			variables: { project: 'api' }
+		}))
+		expect(preview.newContent).toBe('Deploy api with [REDACTED API key]')
+	})
+})
+
+describe('ObsidianToolExecutor patch previews', () => {
+	const patch = (content: string) => ObsidianUpdateNoteSchema.parse({ path: 'Notes/Setup.md', mode: 'patch', content, dryRun: false })
+
+	it('should preview the note as the patch leaves it', async () => {
+		const preview = await createExecutor().executor.generatePreview('obsidian.update_note', patch('@@ -4,2 +4,2 @@\n ## Links\n-Docs\n+Guides'))
+
+		expect(preview).toMatchObject({ newContent: expect.stringContaining('## Links\nGuides'), addedLines: 1, removedLines: 1 })
+	})
+
+	it('should reject a patch that does not apply instead of previewing the raw diff', async () => {
+		const { executor } = createExecutor()
+
+		await expect(executor.generatePreview('obsidian.update_note', patch('@@ -4,2 +4,2 @@\n ## Resources\n-Docs\n+Guides')))
+			.rejects.toThrow('Hunk 1 (@@ -4,2 +4,2 @@) failed: context not found near line 4')
+		await expect(executor.generatePreview('obsidian.update_note', { ...patch('@@ -1 +1 @@\n-a\n+b'), path: 'Notes/Missing.md' }))
+			.rejects.toThrow('File not found: Notes/Missing.md')
+	})
+})
+
+describe('ObsidianToolExecutor batch edits', () => {
+	it('should restore every earlier file when a later operation fails', async () => {
+		const { executor, files, vault } = createExecutor()
+		const modify = vault.modify.bind(vault)
+		Object.assign(vault, {
+			modify: async (target: TFile, content: string) => {
+				if (target.path === 'Notes/Server.md') {
+					throw new Error('Disk full')
+				}
+				await modify(target, content)
+			},
+			create: async (path: string, content: string) => {
+				const created = file(path)
+				files.set(path, { file: created, content })
+				return created
+			},
+			trash: async (target: TFile) => {
+				files.delete(target.path)
+			},
+			delete: async (target: TFile) => {
+				files.delete(target.path)
+			},
+			createFolder: vi.fn()
+		})
+		const before = new Map(Array.from(files, ([path, entry]) => [path, entry.content]))
+
+		const input = ObsidianBatchEditSchema.parse({
+			operations: [
+				{ type: 'update', path: 'Notes/Setup.md', content: 'More', mode: 'append' },
+				{ type: 'create', path: 'Notes/Idea.md', content: '# Idea' },
+				{ type: 'delete', path: 'Notes/Tasks.md' },
+				{ type: 'update', path: 'Notes/Server.md', content: '# Server', mode: 'replace' }
+			],
+			dryRun: false
+		})
+
+		await expect(executor.batchEdit(input, 'ses_1', 'call_1', true))
+			.rejects.toThrow('Batch edit failed at update Notes/Server.md: Disk full. All changes were rolled back.')
+		expect(new Map(Array.from(files, ([path, entry]) => [path, entry.content]))).toEqual(before)
+	})
+})
+
+describe('ObsidianToolExecutor preview versions', () => {
+	const calls = [
+		['obsidian.update_section', { path: 'Notes/Setup.md', target: 'Links', mode: 'append', content: 'More', dryRun: false }],
+		['obsidian.update_properties', { path: 'Notes/Server.md', set: { port: 22 }, dryRun: false }],
+		['obsidian.set_task_status', { path: 'Notes/Tasks.md', line: 2, doneDate: false, dryRun: false }],
+		['obsidian.update_canvas', { path: 'Boards/Plan.canvas', operations: [{ action: 'remove_node', id: 'a' }], dryRun: false }],
+		['obsidian.update_periodic_note', { content: 'Standup', dryRun: false }]
+	] as const
+
+	it.each(calls)('should not let %s write over edits made after its preview', async (toolName, args) => {
+		const { executor, files } = createExecutor()
+		await executor.generatePreview(toolName, args, 'ses_1', 'call_1')
+
+		const target = toolName === 'obsidian.update_periodic_note' ? `${today}.md` : (args as { path: string }).path
+		const entry = files.get(target)!
+		entry.content = target.endsWith('.canvas') ? entry.content.replace('Plan', 'Edited meanwhile') : `${entry.content}\nEdited meanwhile`
+		entry.file.stat = { ...entry.file.stat, mtime: 1 }
+
+		const registry = new ObsidianToolRegistry(executor)
+		await expect(registry.execute(toolName, args, 'ses_1', 'call_1', true)).rejects.toBeInstanceOf(VersionConflictError)
+	})
+})
+
+describe('ObsidianToolExecutor undo snapshots', () => {
+	const memoryAdapter = (): SnapshotAdapter => {
+		const stored = new Map<string, string>()
+		return {
+			exists: async (path: string) => stored.has(path),
+			read: async (path: string) => stored.get(path)!,
+			write: async (path: string, data: string) => {
+				stored.set(path, data)
+			},
+			mkdir: async () => {},
+			remove: async (path: string) => {
+				stored.delete(path)
+			}
+		}
+	}
+
+	it('should not keep a snapshot of a write that failed', async () => {
+		const store = new SnapshotStore(memoryAdapter(), 'snapshots')
+		const { executor, files, vault } = createExecutor(store)
+
+		await expect(executor.createNote(ObsidianCreateNoteSchema.parse({ path: 'Notes/Setup.md', content: 'New' }), 'ses_1', 'call_1', true))
+			.rejects.toThrow('File already exists')
+
+		// The task line changes between reading the note and writing it
+		const process = vault.process.bind(vault)
+		vi.spyOn(vault, 'process').mockImplementationOnce(async (target, edit) => {
+			files.get(target.path)!.content = '# Tasks\n- [ ] Something else'
+			return process(target, edit)
+		})
+		const input = ObsidianSetTaskStatusSchema.parse({ path: 'Notes/Tasks.md', line: 2, doneDate: false, dryRun: false })
+		await expect(executor.setTaskStatus(input, 'ses_1', 'call_2', true)).rejects.toThrow('changed since the preview')
+		await executor.setTaskStatus(input, 'ses_1', 'call_3', true)
+
+		expect((await store.list()).map(entry => entry.id)).toEqual(['call_3'])
+	})
+
+	it('should ask before undoing a write whose note was edited since', async () => {
+		const store = new SnapshotStore(memoryAdapter(), 'snapshots')
+		const { executor, files } = createExecutor(store)
+		const setup = files.get('Notes/Setup.md')!
+		const original = setup.content
+
+		await executor.updateSection(ObsidianUpdateSectionSchema.parse({ path: 'Notes/Setup.md', target: 'Links', mode: 'append', content: 'Wiki', dryRun: false }), 'ses_1', 'call_1', true)
+		setup.content += '\nMy own edit'
+
+		await expect(executor.undoLastChange()).rejects.toBeInstanceOf(UndoConflictError)
+		expect(setup.content).toContain('My own edit')
+
+		await expect(executor.undoLastChange(undefined, true)).resolves.toMatchObject({ restored: ['Notes/Setup.md'] })
+		expect(setup.content).toBe(original)
+	})
+
+	it('should undo a write whose note is as the write left it', async () => {
+		const store = new SnapshotStore(memoryAdapter(), 'snapshots')
+		const { executor, files } = createExecutor(store)
+		const setup = files.get('Notes/Setup.md')!
+		const original = setup.content
+
+		await executor.updateSection(ObsidianUpdateSectionSchema.parse({ path: 'Notes/Setup.md', target: 'Links', mode: 'append', content: 'Wiki', dryRun: false }), 'ses_1', 'call_1', true)
+		expect((await store.load('call_1'))?.files[0]?.afterHash).toMatch(/^[0-9a-f]{64}$/)
+
+		await executor.undoSession('ses_1')
+		expect(setup.content).toBe(original)
+	})
+})
@@ -1,22 +1,26 @@
-import type { App, Vault, MetadataCache, TAbstractFile, TFile, TFolder } from 'obsidian'
-import { TFile as TFileClass } from 'obsidian'
+import type { App, Vault, MetadataCache, TFile, TFolder } from 'obsidian'
+import { arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian'
 import { PermissionManager } from './permission-manager'
 import { AuditLogger } from './audit-logger'
 import { VaultReader } from './vault-reader'
-
-/**
- * Type guard to check if abstract file is a TFile
- */
-function isTFile(file: TAbstractFile | null): file is TFile {
-	return file !== null && file instanceof TFileClass
-}
-
-/**
- * Type guard to check if abstract file is a TFolder
- */
-function isTFolder(file: TAbstractFile | null): file is TFolder {
-	return file !== null && !('extension' in file) && 'children' in file
-}
+import type { VaultSearchIndex } from './vault-search-index'
+import { hashContent, type Snapshot, type SnapshotFile, type SnapshotStore, type UndoResult } from './snapshot-store'
+import type { ApprovalRuleStore } from './approval-rules'
+import { describeSecretFindings, scanForSecrets } from './secret-scanner'
+import { mergeThreeWay, type MergeResult } from './three-way-merge'
+import { describeHunkSelection, type HunkSelection } from './diff-hunks'
+import { getParentFolder } from './link-rewriter'
+import { applyUnifiedDiff, type PatchResult } from './unified-diff'
+import { ATTACHMENT_MIME_TYPES } from './attachments'
+import { isTFile, isTFolder, redactOutputSecrets, type WriteContext } from './write-context'
+import { SectionTools } from './section-tools'
+import { PropertyTools } from './property-tools'
+import { CanvasTools } from './canvas-tools'
+import { PeriodicNoteTools } from './periodic-note-tools'
+import { TemplateTools } from './template-tools'
+import { AttachmentTools } from './attachment-tools'
+import { TaskTools } from './task-tools'
+import { RelocationTools } from './relocation-tools'
 import type {
 	ObsidianSearchVaultInput,
 	ObsidianSearchVaultOutput,
@@ -24,51 +28,215 @@ import type {
 	ObsidianReadNoteOutput,
 	ObsidianListNotesInput,
 	ObsidianListNotesOutput,
+	ObsidianQueryNotesInput,
+	ObsidianQueryNotesOutput,
+	ObsidianGraphInput,
+	ObsidianGraphOutput,
+	ObsidianReadCanvasInput,
+	ObsidianReadCanvasOutput,
+	ObsidianUpdateCanvasInput,
+	ObsidianUpdateCanvasOutput,
+	ObsidianGetPeriodicNoteInput,
+	ObsidianGetPeriodicNoteOutput,
+	ObsidianUpdatePeriodicNoteInput,
+	ObsidianUpdatePeriodicNoteOutput,
+	ObsidianListTemplatesInput,
+	ObsidianListTemplatesOutput,
+	ObsidianGetActiveContextInput,
+	ObsidianGetActiveContextOutput,
+	ObsidianOpenNoteInput,
+	ObsidianOpenNoteOutput,
+	ObsidianListAttachmentsInput,
+	ObsidianListAttachmentsOutput,
+	ObsidianReadAttachmentInput,
+	ObsidianReadAttachmentOutput,
+	ObsidianSaveAttachmentInput,
+	ObsidianSaveAttachmentOutput,
+	ObsidianListTasksInput,
+	ObsidianListTasksOutput,
+	ObsidianSetTaskStatusInput,
+	ObsidianSetTaskStatusOutput,
+	ObsidianCreateFromTemplateInput,
+	ObsidianCreateFromTemplateOutput,
 	ObsidianCreateNoteInput,
 	ObsidianCreateNoteOutput,
 	ObsidianUpdateNoteInput,
 	ObsidianUpdateNoteOutput,
 	ObsidianGetNoteMetadataInput,
 	ObsidianGetNoteMetadataOutput,
+	ObsidianReadSectionInput,
+	ObsidianReadSectionOutput,
+	ObsidianUpdateSectionInput,
+	ObsidianUpdateSectionOutput,
+	ObsidianUpdatePropertiesInput,
+	ObsidianUpdatePropertiesOutput,
+	ObsidianDeleteNoteInput,
+	ObsidianDeleteNoteOutput,
+	ObsidianRenameNoteInput,
+	ObsidianRenameNoteOutput,
+	ObsidianMoveNoteInput,
+	ObsidianMoveNoteOutput,
+	ObsidianBatchEditInput,
+	ObsidianBatchEditOutput,
+	ObsidianToolDefinition,
+	ObsidianToolHandler,
+	ObsidianToolOptions,
 	AuditLogEntry
 } from './types'
+import { ToolPermission } from './types'
+import type { SessionContext } from '../../client/types'
+import type { OperationType } from './permission-types'
+import { PermissionPendingError } from './permission-types'
 import type { PermissionRequest } from './permission-modal'
 
 /**
- * Error thrown when permission is pending (needs user approval)
+ * A file as it was when the preview of a write was generated
+ */
+interface PreviewVersion {
+	/** Modification time, or null if the file did not exist */
+	mtime: number | null
+	/** Content, or null if the file did not exist */
+	content: string | null
+}
+
+// Previews kept for calls waiting for approval (older ones are dropped first)
+const MAX_PREVIEW_VERSIONS = 100
+
+// Tools that write the note their preview shows, checked for edits made to it before approval
+const PREVIEW_VERSION_TOOLS = new Set([
+	'obsidian.update_section',
+	'obsidian.update_properties',
+	'obsidian.update_canvas',
+	'obsidian.update_periodic_note',
+	'obsidian.create_from_template',
+	'obsidian.set_task_status'
+])
+
+/**
+ * A batch_edit operation with its content computed up front
+ */
+interface PlannedBatchOperation {
+	type: 'create' | 'update' | 'delete'
+	path: string
+	/** Existing file, or null if the operation creates the note */
+	file: TFile | null
+	/** Content before the batch (undefined if the note does not exist) */
+	originalContent?: string
+	/** Content after the batch (undefined for deletes) */
+	newContent?: string
+	addedLines: number
+	removedLines: number
+}
+
+/**
+ * Check whether a folder contains any files (in any subfolder)
+ */
+function hasFiles(folder: TFolder): boolean {
+	return folder.children.some(child => isTFolder(child) ? hasFiles(child) : true)
+}
+
+/**
+ * Error thrown when a file changed between the preview the user approved and the write
+ */
+export class VersionConflictError extends Error {
+	path: string
+	/** Content shown in the preview (null if the file did not exist) */
+	baseContent: string | null
+	/** Content the file has now (null if it was deleted) */
+	currentContent: string | null
+	/** The tool's result computed from the previewed content, when the tool can offer a merge */
+	proposedContent?: string
+
+	constructor(path: string, baseContent: string | null, currentContent: string | null, proposedContent?: string) {
+		super(`${path} changed since the preview was generated`)
+		this.name = 'VersionConflictError'
+		this.path = path
+		this.baseContent = baseContent
+		this.currentContent = currentContent
+		this.proposedContent = proposedContent
+	}
+}
+
+/**
+ * Error thrown when undoing a write would discard edits made to its files after it
  */
-export class PermissionPendingError extends Error {
-	constructor(message: string) {
-		super(message)
-		this.name = 'PermissionPendingError'
+export class UndoConflictError extends Error {
+	snapshotId: string
+	toolName: string
+	/** Files whose content differs from what the write left */
+	changedPaths: string[]
+
+	constructor(snapshotId: string, toolName: string, changedPaths: string[]) {
+		super(`${changedPaths.join(', ')} changed since ${toolName} wrote ${changedPaths.length === 1 ? 'it' : 'them'}`)
+		this.name = 'UndoConflictError'
+		this.snapshotId = snapshotId
+		this.toolName = toolName
+		this.changedPaths = changedPaths
 	}
 }
 
 /**
  * Tool executor for Obsidian vault operations
- * Executes tool calls with permission checks and audit logging
+ * Executes tool calls with permission checks and audit logging. Reads are delegated to VaultReader and
+ * each family of write tools to its module (section-tools, relocation-tools, ...), which run through the
+ * audit logging, undo snapshots and preview checks shared here.
  */
 export class ObsidianToolExecutor {
 	private vault: Vault
 	private app: App
-	private metadataCache: MetadataCache
 	private permissionManager: PermissionManager
 	private auditLogger: AuditLogger
 	private reader: VaultReader
+	private snapshotStore: SnapshotStore
+	private sections: SectionTools
+	private properties: PropertyTools
+	private canvases: CanvasTools
+	private periodicNotes: PeriodicNoteTools
+	private templates: TemplateTools
+	private attachments: AttachmentTools
+	private tasks: TaskTools
+	private relocation: RelocationTools
+	// Versions of the files shown in previews, by call ID, checked again before the approved write
+	private previewVersions = new Map<string, Map<string, PreviewVersion>>()
+	// Hunks the user kept of an update approved only in part, by call ID
+	private hunkSelections = new Map<string, HunkSelection>()
+	// Snapshots of writes in progress, by call ID, stored once the write succeeds
+	private pendingSnapshots = new Map<string, Snapshot>()
 
 	constructor(
 		vault: Vault,
 		app: App,
 		metadataCache: MetadataCache,
 		permissionManager: PermissionManager,
-		auditLogger: AuditLogger
+		auditLogger: AuditLogger,
+		searchIndex: VaultSearchIndex,
+		snapshotStore: SnapshotStore
 	) {
 		this.vault = vault
 		this.app = app
-		this.metadataCache = metadataCache
 		this.permissionManager = permissionManager
 		this.auditLogger = auditLogger
-		this.reader = new VaultReader(vault, app, metadataCache, permissionManager, auditLogger)
+		this.reader = new VaultReader(vault, app, metadataCache, permissionManager, auditLogger, searchIndex)
+		this.snapshotStore = snapshotStore
+
+		const context: WriteContext = {
+			vault,
+			app,
+			metadataCache,
+			permissionManager,
+			executeWithAuditLog: this.executeWithAuditLog.bind(this),
+			captureSnapshot: this.captureSnapshot.bind(this),
+			checkPreviewVersion: this.checkPreviewVersion.bind(this),
+			ensureParentFolder: this.ensureParentFolder.bind(this)
+		}
+		this.sections = new SectionTools(context)
+		this.properties = new PropertyTools(context)
+		this.canvases = new CanvasTools(context)
+		this.periodicNotes = new PeriodicNoteTools(context)
+		this.templates = new TemplateTools(context)
+		this.attachments = new AttachmentTools(context)
+		this.tasks = new TaskTools(context)
+		this.relocation = new RelocationTools(context)
 	}
 
 	/**
@@ -87,7 +255,7 @@ export class ObsidianToolExecutor {
 		callId: string,
 		input: unknown,
 		startTime: number,
-		operation: 'read' | 'write' | 'create' | 'modify',
+		operation: OperationType,
 		output?: unknown,
 		error?: Error,
 		affectedPath?: string,
@@ -119,6 +287,21 @@ export class ObsidianToolExecutor {
 		await this.auditLogger.log(logEntry)
 	}
 
+	/**
+	 * Record a call that was rejected before it ran (e.g. over a rate limit or quota)
+	 */
+	async logRejectedCall(
+		toolName: string,
+		sessionId: string | undefined,
+		callId: string | undefined,
+		input: unknown,
+		operation: OperationType,
+		error: Error
+	): Promise<void> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		await this.createAuditLog(toolName, sessionId, effectiveCallId, input, Date.now(), operation, undefined, error, undefined, false, false)
+	}
+
 	/**
 	 * Execute a tool with automatic audit logging
 	 * This helper method reduces code duplication by handling the common audit logging pattern
@@ -128,7 +311,7 @@ export class ObsidianToolExecutor {
 		sessionId: string | undefined,
 		callId: string,
 		input: unknown,
-		operation: 'read' | 'write' | 'create' | 'modify',
+		operation: OperationType,
 		affectedPath: string | undefined,
 		approved: boolean = false,
 		dryRun: boolean = false,
@@ -138,6 +321,7 @@ export class ObsidianToolExecutor {
 		
 		try {
 			const result = await executeFn()
+			await this.commitSnapshot(callId)
 			
 			await this.createAuditLog(
 				toolName,
@@ -155,6 +339,7 @@ export class ObsidianToolExecutor {
 			
 			return result
 		} catch (error) {
+			this.pendingSnapshots.delete(callId)
 			await this.createAuditLog(
 				toolName,
 				sessionId,
@@ -173,15 +358,172 @@ export class ObsidianToolExecutor {
 		}
 	}
 
+	/**
+	 * Read the current content of the files an approved write is about to change, so it can be undone
+	 * The snapshot is only stored by commitSnapshot once the write succeeded; a write that throws leaves no snapshot.
+	 * Failing to read the files is logged and does not block the write.
+	 */
+	private async captureSnapshot(
+		toolName: string,
+		sessionId: string | undefined,
+		callId: string,
+		targets: Array<{ path: string; movedTo?: string }>
+	): Promise<void> {
+		try {
+			const files: SnapshotFile[] = []
+			for (const target of targets) {
+				const file = this.vault.getAbstractFileByPath(target.path)
+				if (!isTFile(file)) {
+					files.push({ ...target, content: null })
+				} else if (file.extension.toLowerCase() in ATTACHMENT_MIME_TYPES) {
+					files.push({ ...target, content: arrayBufferToBase64(await this.vault.readBinary(file)), encoding: 'base64' })
+				} else {
+					files.push({ ...target, content: await this.vault.read(file) })
+				}
+			}
+			this.pendingSnapshots.set(callId, { id: callId, sessionId, toolName, timestamp: Date.now(), files })
+		} catch (error) {
+			console.warn(`[ObsidianToolExecutor] Failed to store undo snapshot for ${callId}:`, error)
+		}
+	}
+
+	/**
+	 * Store the snapshot of a write that succeeded, with a hash of what the write left in each file
+	 * so undo can tell whether the files were edited since
+	 */
+	private async commitSnapshot(callId: string): Promise<void> {
+		const snapshot = this.pendingSnapshots.get(callId)
+		if (!snapshot) {
+			return
+		}
+		this.pendingSnapshots.delete(callId)
+		try {
+			for (const entry of snapshot.files) {
+				entry.afterHash = await this.hashFile(entry.movedTo ?? entry.path)
+			}
+			await this.snapshotStore.record(snapshot)
+		} catch (error) {
+			console.warn(`[ObsidianToolExecutor] Failed to store undo snapshot for ${callId}:`, error)
+		}
+	}
+
+	/**
+	 * Hash the current content of a file, or null if there is no file at the path
+	 */
+	private async hashFile(path: string): Promise<string | null> {
+		const file = this.vault.getAbstractFileByPath(path)
+		if (!isTFile(file)) {
+			return null
+		}
+		return hashContent(file.extension.toLowerCase() in ATTACHMENT_MIME_TYPES
+			? arrayBufferToBase64(await this.vault.readBinary(file))
+			: await this.vault.read(file))
+	}
+
+	/**
+	 * Remember the version of the files a preview shows, so the approved write can check they did not change meanwhile
+	 */
+	private async recordPreviewVersions(callId: string, paths: string[]): Promise<void> {
+		const versions = new Map<string, PreviewVersion>()
+		for (const path of paths) {
+			const file = this.vault.getAbstractFileByPath(path)
+			versions.set(path, isTFile(file)
+				? { mtime: file.stat.mtime, content: await this.vault.read(file) }
+				: { mtime: null, content: null })
+		}
+
+		this.previewVersions.delete(callId)
+		this.previewVersions.set(callId, versions)
+		for (const oldest of this.previewVersions.keys()) {
+			if (this.previewVersions.size <= MAX_PREVIEW_VERSIONS) {
+				break
+			}
+			this.previewVersions.delete(oldest)
+		}
+	}
+
+	/**
+	 * Throw a VersionConflictError if a file changed since the preview of this call was generated
+	 * The modification time is checked first; the content is compared only when it differs.
+	 * @param proposeFromBase - Computes the tool's result from the previewed content, so a merge can be offered
+	 */
+	private async checkPreviewVersion(
+		callId: string,
+		path: string,
+		proposeFromBase?: (baseContent: string | null) => string
+	): Promise<void> {
+		const version = this.previewVersions.get(callId)?.get(path)
+		if (!version) {
+			return
+		}
+
+		const file = this.vault.getAbstractFileByPath(path)
+		if (isTFile(file) && file.stat.mtime === version.mtime) {
+			return
+		}
+		const currentContent = isTFile(file) ? await this.vault.read(file) : null
+		if (currentContent === version.content) {
+			return
+		}
+
+		let proposedContent: string | undefined
+		try {
+			proposedContent = proposeFromBase?.(version.content)
+		} catch {
+			proposedContent = undefined
+		}
+		throw new VersionConflictError(path, version.content, currentContent, proposedContent)
+	}
+
+	/**
+	 * Forget the file versions and hunk selection recorded for a call's preview
+	 */
+	clearPreviewVersions(callId: string): void {
+		this.previewVersions.delete(callId)
+		this.hunkSelections.delete(callId)
+	}
+
+	/**
+	 * Remember which hunks of an update the user kept, for the approved write's result and audit entry
+	 */
+	recordHunkSelection(callId: string, selection: HunkSelection): void {
+		this.hunkSelections.set(callId, selection)
+	}
+
+	/**
+	 * Merge the user's edits that caused a version conflict with the tool's proposed result
+	 * The note's latest content becomes the version the merged result is checked against.
+	 */
+	async mergeVersionConflict(
+		callId: string,
+		conflict: VersionConflictError
+	): Promise<{ currentContent: string; merge: MergeResult }> {
+		const file = this.vault.getAbstractFileByPath(conflict.path)
+		if (!isTFile(file) || conflict.baseContent === null || conflict.proposedContent === undefined) {
+			throw conflict
+		}
+
+		await this.recordPreviewVersions(callId, [conflict.path])
+		const currentContent = this.previewVersions.get(callId)?.get(conflict.path)?.content ?? ''
+		return {
+			currentContent,
+			merge: mergeThreeWay(conflict.baseContent, currentContent, conflict.proposedContent, {
+				ours: 'Your edits',
+				theirs: 'Agent change'
+			})
+		}
+	}
+
 	/**
 	 * Search vault for notes matching query
 	 */
 	async searchVault(
 		input: ObsidianSearchVaultInput,
 		sessionId?: string,
-		callId?: string
+		callId?: string,
+		approved: boolean = false
 	): Promise<ObsidianSearchVaultOutput> {
-		return this.reader.searchVault(input, sessionId, callId)
+		return this.reader.searchVault(input, sessionId, callId, approved)
 	}
 
 	/**
@@ -190,9 +532,10 @@ export class ObsidianToolExecutor {
 	async readNote(
 		input: ObsidianReadNoteInput,
 		sessionId?: string,
-		callId?: string
+		callId?: string,
+		approved: boolean = false
 	): Promise<ObsidianReadNoteOutput> {
-		return this.reader.readNote(input, sessionId, callId)
+		return this.reader.readNote(input, sessionId, callId, approved)
 	}
 
 	/**
@@ -206,15 +549,151 @@ export class ObsidianToolExecutor {
 		return this.reader.listNotes(input, sessionId, callId)
 	}
 
+	/**
+	 * Find notes matching a filter expression
+	 */
+	async queryNotes(
+		input: ObsidianQueryNotesInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianQueryNotesOutput> {
+		return this.reader.queryNotes(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Explore the link graph around notes
+	 */
+	async graph(
+		input: ObsidianGraphInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianGraphOutput> {
+		return this.reader.graph(input, sessionId, callId)
+	}
+
+	/**
+	 * Read a canvas file as nodes and edges
+	 */
+	async readCanvas(
+		input: ObsidianReadCanvasInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianReadCanvasOutput> {
+		return this.reader.readCanvas(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Find the daily, weekly or monthly note for a date
+	 */
+	async getPeriodicNote(
+		input: ObsidianGetPeriodicNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianGetPeriodicNoteOutput> {
+		return this.reader.getPeriodicNote(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * List templates in the configured templates folder
+	 */
+	async listTemplates(
+		input: ObsidianListTemplatesInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianListTemplatesOutput> {
+		return this.reader.listTemplates(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Get the note the user is working in, with cursor and selection
+	 */
+	async getActiveContext(
+		input: ObsidianGetActiveContextInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianGetActiveContextOutput> {
+		return this.reader.getActiveContext(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Describe the note the user is working in for a new session, screened like get_active_context
+	 */
+	async getSessionContext(path: string): Promise<SessionContext | undefined> {
+		return this.reader.getSessionContext(path)
+	}
+
+	/**
+	 * Open a note in the editor
+	 */
+	async openNote(
+		input: ObsidianOpenNoteInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianOpenNoteOutput> {
+		return this.reader.openNote(input, sessionId, callId)
+	}
+
+	/**
+	 * List the files embedded in a note
+	 */
+	async listAttachments(
+		input: ObsidianListAttachmentsInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianListAttachmentsOutput> {
+		return this.reader.listAttachments(input, sessionId, callId)
+	}
+
+	/**
+	 * Read an image attachment as base64
+	 */
+	async readAttachment(
+		input: ObsidianReadAttachmentInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianReadAttachmentOutput> {
+		return this.reader.readAttachment(input, sessionId, callId)
+	}
+
+	/**
+	 * List checkbox tasks in notes
+	 */
+	async listTasks(
+		input: ObsidianListTasksInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianListTasksOutput> {
+		return this.reader.listTasks(input, sessionId, callId, approved)
+	}
+
 	/**
 	 * Get note metadata (frontmatter, tags, links, statistics)
 	 */
 	async getNoteMetadata(
 		input: ObsidianGetNoteMetadataInput,
 		sessionId?: string,
-		callId?: string
+		callId?: string,
+		approved: boolean = false
 	): Promise<ObsidianGetNoteMetadataOutput> {
-		return this.reader.getNoteMetadata(input, sessionId, callId)
+		return this.reader.getNoteMetadata(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Read a single section of a note by heading path or block reference
+	 */
+	async readSection(
+		input: ObsidianReadSectionInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianReadSectionOutput> {
+		return this.reader.readSection(input, sessionId, callId, approved)
 	}
 
 	/**
@@ -249,6 +728,8 @@ export class ObsidianToolExecutor {
 					throw new PermissionPendingError('User approval required for create operation')
 				}
 
+				await this.checkPreviewVersion(effectiveCallId, input.path)
+
 				// Check if file exists
 				const existingFile = this.vault.getAbstractFileByPath(input.path)
 				const existed = isTFile(existingFile)
@@ -256,6 +737,7 @@ export class ObsidianToolExecutor {
 				if (existed && !input.overwrite) {
 					throw new Error(`File already exists: ${input.path}. Use overwrite=true to replace it.`)
 				}
+				await this.captureSnapshot('obsidian.create_note', sessionId, effectiveCallId, [{ path: input.path }])
 
 				// Create or overwrite file
 				if (existed && isTFile(existingFile)) {
@@ -320,66 +802,13 @@ export class ObsidianToolExecutor {
 			const originalContent = isTFile(file) ? await this.vault.read(file) : ''
 
 			// Calculate new content based on mode
-			let newContent: string
-			let addedLines = 0
-			let removedLines = 0
-
-			switch (input.mode) {
-				case 'replace':
-					newContent = input.content
-					if (originalContent) {
-						removedLines = originalContent.split('\n').length
-					}
-					addedLines = newContent.split('\n').length
-					break
-
-				case 'append':
-					newContent = originalContent + (originalContent && !originalContent.endsWith('\n') ? '\n' : '') + input.content
-					addedLines = input.content.split('\n').length
-					break
-
-				case 'prepend':
-					newContent = input.content + (input.content && !input.content.endsWith('\n') ? '\n' : '') + originalContent
-					addedLines = input.content.split('\n').length
-					break
-
-				case 'insert': {
-					// Validate insert parameters
-					if (!input.insertAt && !input.insertMarker) {
-						throw new Error('insertAt or insertMarker is required for insert mode')
-					}
-
-					const originalLines = originalContent.split('\n')
-					let insertIndex: number
-
-					if (input.insertAt !== undefined) {
-						// Insert at line number (1-based, convert to 0-based)
-						insertIndex = Math.max(0, Math.min(originalLines.length, input.insertAt - 1))
-					} else if (input.insertMarker) {
-						// Insert after marker
-						const markerIndex = originalLines.findIndex(line => line.includes(input.insertMarker!))
-						if (markerIndex === -1) {
-							throw new Error(`Marker "${input.insertMarker}" not found in file`)
-						}
-						insertIndex = markerIndex + 1
-					} else {
-						throw new Error('insertAt or insertMarker is required for insert mode')
-					}
-
-					// Insert content at the specified position
-					const insertLines = input.content.split('\n')
-					originalLines.splice(insertIndex, 0, ...insertLines)
-					newContent = originalLines.join('\n')
-					addedLines = insertLines.length
-					break
-				}
-
-				default:
-					throw new Error(`Unknown update mode: ${String(input.mode)}`)
-			}
+			const computed = this.computeUpdatedContent(originalContent, isTFile(file), input)
+			const newContent = computed.newContent
+			let addedLines = computed.addedLines
+			let removedLines = computed.removedLines
 
-			// Calculate statistics for preview
-			if (originalContent) {
+			// Calculate statistics for preview (patch mode already counted them from the diff)
+			if (input.mode !== 'patch' && originalContent) {
 				const originalLineCount = originalContent.split('\n').length
 				const newLineCount = newContent.split('\n').length
 				if (input.mode === 'replace') {
@@ -388,15 +817,15 @@ export class ObsidianToolExecutor {
 				} else {
 					addedLines = newLineCount - originalLineCount
 				}
-			} else {
+			} else if (input.mode !== 'patch') {
 				addedLines = newContent.split('\n').length
 			}
 
 			const preview = {
-				originalContent: originalContent || undefined,
-				newContent,
+				originalContent: originalContent ? redactOutputSecrets(originalContent) : undefined,
+				newContent: redactOutputSecrets(newContent),
 				addedLines,
-				removedLines: input.mode === 'replace' && originalContent ? removedLines : undefined
+				removedLines: (input.mode === 'replace' && originalContent) || input.mode === 'patch' ? removedLines : undefined
 			}
 
 			// If dry-run, return preview only
@@ -430,6 +859,12 @@ export class ObsidianToolExecutor {
 				throw new PermissionPendingError('User approval required for update note operation')
 			}
 
+			// Fail instead of overwriting edits made to the note while the preview was being reviewed
+			await this.checkPreviewVersion(effectiveCallId, input.path, baseContent =>
+				this.computeUpdatedContent(baseContent ?? '', baseContent !== null, input).newContent
+			)
+			await this.captureSnapshot('obsidian.update_note', sessionId, effectiveCallId, [{ path: input.path }])
+
 			// Apply the update
 			if (isTFile(file)) {
 				await this.vault.modify(file, newContent)
@@ -445,12 +880,23 @@ export class ObsidianToolExecutor {
 				}
 				await this.vault.create(input.path, newContent)
 			}
+			await this.commitSnapshot(effectiveCallId)
 
+			const hunks = this.hunkSelections.get(effectiveCallId)
 			const output: ObsidianUpdateNoteOutput = {
 				path: input.path,
 				updated: true,
 				mode: input.mode,
-				preview
+				preview,
+				...(hunks && {
+					hunks: {
+						total: hunks.total,
+						accepted: hunks.accepted,
+						edited: hunks.edited,
+						rejected: hunks.rejected,
+						summary: describeHunkSelection(hunks)
+					}
+				})
 			}
 
 			await this.createAuditLog(
@@ -469,6 +915,7 @@ export class ObsidianToolExecutor {
 
 			return output
 		} catch (error) {
+			this.pendingSnapshots.delete(effectiveCallId)
 			// Don't log audit if it's a PermissionPendingError
 			if (error instanceof PermissionPendingError) {
 				throw error
@@ -492,49 +939,867 @@ export class ObsidianToolExecutor {
 	}
 
 	/**
-	 * Generate preview for tool operation (for permission modal)
-	 * This method should be called before requesting permission to show user what will happen
-	 * It checks permissions and generates a preview with unified audit logging
+	 * Replace, append to or prepend to a single section of a note
 	 */
-	async generatePreview(
-		toolName: string,
-		args: unknown,
+	async updateSection(
+		input: ObsidianUpdateSectionInput,
 		sessionId?: string,
-		callId?: string
-	): Promise<PermissionRequest['preview'] | undefined> {
-		// Delegate read operation previews to VaultReader
-		if (toolName === 'obsidian.read_note') {
-			const preview = await this.reader.generatePreview(toolName, args, sessionId, callId)
-			return preview ? {
-				originalContent: preview.originalContent,
-				newContent: preview.originalContent || '',
-				mode: 'read'
-			} : undefined
-		}
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdateSectionOutput> {
+		return this.sections.updateSection(input, sessionId, callId, approved)
+	}
 
-		const startTime = Date.now()
-		const effectiveCallId = callId || `preview_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
-		
-		// For update_note, generate preview by reading file and calculating changes
-		if (toolName === 'obsidian.update_note') {
-			const updateArgs = args as { path: string; content: string; mode: string }
-			
-			// Check read permission first (required for preview)
-			try {
-				const permissionResult = await this.permissionManager.canRead(updateArgs.path)
-				
-				if (!permissionResult.allowed) {
-					// Permission denied - log audit and return restricted preview
-					await this.createAuditLog(
-						toolName,
-						sessionId,
-						effectiveCallId,
-						args,
-						startTime,
-						'read',
-						undefined,
-						new Error(`Permission denied for preview: ${permissionResult.reason}`),
-						updateArgs.path,
+	/**
+	 * Update frontmatter properties (set, remove, append to lists) without touching the rest of the note
+	 */
+	async updateProperties(
+		input: ObsidianUpdatePropertiesInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdatePropertiesOutput> {
+		return this.properties.updateProperties(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Edit the nodes and edges of a canvas file
+	 */
+	async updateCanvas(
+		input: ObsidianUpdateCanvasInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdateCanvasOutput> {
+		return this.canvases.updateCanvas(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Create a daily, weekly or monthly note from its template if missing and append to it
+	 */
+	async updatePeriodicNote(
+		input: ObsidianUpdatePeriodicNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianUpdatePeriodicNoteOutput> {
+		return this.periodicNotes.updatePeriodicNote(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Create a note from a template, filling in its variables
+	 */
+	async createFromTemplate(
+		input: ObsidianCreateFromTemplateInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianCreateFromTemplateOutput> {
+		return this.templates.createFromTemplate(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Save binary content in the attachment folder configured in Obsidian
+	 */
+	async saveAttachment(
+		input: ObsidianSaveAttachmentInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianSaveAttachmentOutput> {
+		return this.attachments.saveAttachment(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Change the status of one task, rewriting only its line
+	 */
+	async setTaskStatus(
+		input: ObsidianSetTaskStatusInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianSetTaskStatusOutput> {
+		return this.tasks.setTaskStatus(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Delete a note by moving it to the trash
+	 */
+	async deleteNote(
+		input: ObsidianDeleteNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianDeleteNoteOutput> {
+		return this.relocation.deleteNote(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Rename a note within its folder, updating links to it
+	 */
+	async renameNote(
+		input: ObsidianRenameNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianRenameNoteOutput> {
+		return this.relocation.renameNote(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Move a note to another folder, updating links to it
+	 */
+	async moveNote(
+		input: ObsidianMoveNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianMoveNoteOutput> {
+		return this.relocation.moveNote(input, sessionId, callId, approved)
+	}
+
+	/**
+	 * Create, update and delete several notes as one all-or-nothing change
+	 */
+	async batchEdit(
+		input: ObsidianBatchEditInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianBatchEditOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const dryRun = input.dryRun ?? true
+
+		return this.executeWithAuditLog(
+			'obsidian.batch_edit',
+			sessionId,
+			effectiveCallId,
+			input,
+			'modify',
+			input.operations.map(operation => operation.path).join(', '),
+			approved,
+			dryRun,
+			async () => {
+				const plan = await this.prepareBatchEdit(input)
+				const operations = plan.map(operation => ({
+					type: operation.type,
+					path: operation.path,
+					existed: operation.file !== null,
+					addedLines: operation.addedLines,
+					removedLines: operation.removedLines
+				}))
+
+				if (dryRun) {
+					return { applied: false, operations }
+				}
+
+				if (this.permissionManager.requiresApproval('obsidian.batch_edit', 'modify') && !approved) {
+					throw new PermissionPendingError('User approval required for batch edit operation')
+				}
+
+				for (const operation of plan) {
+					await this.checkPreviewVersion(effectiveCallId, operation.path)
+				}
+				await this.captureSnapshot('obsidian.batch_edit', sessionId, effectiveCallId, plan.map(operation => ({ path: operation.path })))
+
+				await this.applyBatchEdit(plan)
+
+				return { applied: true, operations }
+			}
+		)
+	}
+
+	/**
+	 * Validate every operation and compute its resulting content, without touching the vault
+	 */
+	private async prepareBatchEdit(input: ObsidianBatchEditInput): Promise<PlannedBatchOperation[]> {
+		const seen = new Set<string>()
+		for (const operation of input.operations) {
+			if (seen.has(operation.path)) {
+				throw new Error(`Path appears in more than one operation: ${operation.path}`)
+			}
+			seen.add(operation.path)
+		}
+
+		// Check every path before computing anything so one error lists all denied operations
+		const denied: string[] = []
+		for (const operation of input.operations) {
+			const permission = operation.type === 'create'
+				? await this.permissionManager.canCreate(operation.path)
+				: operation.type === 'update'
+					? await this.permissionManager.canModify(operation.path)
+					: await this.permissionManager.canDelete(operation.path)
+			if (!permission.allowed) {
+				denied.push(`${operation.type} ${operation.path}: ${permission.reason}`)
+			}
+		}
+		if (denied.length > 0) {
+			throw new Error(`Permission denied: ${denied.join('; ')}`)
+		}
+
+		const plan: PlannedBatchOperation[] = []
+		for (const operation of input.operations) {
+			const existing = this.vault.getAbstractFileByPath(operation.path)
+			if (existing && !isTFile(existing)) {
+				throw new Error(`Path is a folder: ${operation.path}`)
+			}
+			const file = isTFile(existing) ? existing : null
+			const originalContent = file ? await this.vault.read(file) : undefined
+			const originalLines = originalContent !== undefined ? originalContent.split('\n').length : 0
+
+			switch (operation.type) {
+				case 'create':
+					if (file && !operation.overwrite) {
+						throw new Error(`File already exists: ${operation.path}. Use overwrite=true to replace it.`)
+					}
+					plan.push({
+						type: 'create',
+						path: operation.path,
+						file,
+						originalContent,
+						newContent: operation.content,
+						addedLines: operation.content.split('\n').length,
+						removedLines: originalLines
+					})
+					break
+
+				case 'update': {
+					if (!file || originalContent === undefined) {
+						throw new Error(`File not found: ${operation.path} (use a create operation for new notes)`)
+					}
+					const computed = this.computeUpdatedContent(originalContent, true, operation)
+					plan.push({
+						type: 'update',
+						path: operation.path,
+						file,
+						originalContent,
+						newContent: computed.newContent,
+						addedLines: computed.addedLines,
+						removedLines: computed.removedLines
+					})
+					break
+				}
+
+				case 'delete':
+					if (!file) {
+						throw new Error(`File not found: ${operation.path}`)
+					}
+					plan.push({
+						type: 'delete',
+						path: operation.path,
+						file,
+						originalContent,
+						addedLines: 0,
+						removedLines: originalLines
+					})
+					break
+			}
+		}
+
+		return plan
+	}
+
+	/**
+	 * Apply planned operations in order, undoing the applied ones if any operation fails
+	 */
+	private async applyBatchEdit(plan: PlannedBatchOperation[]): Promise<void> {
+		const undoSteps: Array<() => Promise<void>> = []
+
+		for (const operation of plan) {
+			try {
+				undoSteps.push(await this.applyBatchOperation(operation))
+			} catch (error) {
+				const message = `Batch edit failed at ${operation.type} ${operation.path}: ${error instanceof Error ? error.message : String(error)}.`
+				const rollbackErrors: string[] = []
+				for (const undo of undoSteps.reverse()) {
+					try {
+						await undo()
+					} catch (rollbackError) {
+						rollbackErrors.push(rollbackError instanceof Error ? rollbackError.message : String(rollbackError))
+					}
+				}
+				throw new Error(rollbackErrors.length === 0
+					? `${message} All changes were rolled back.`
+					: `${message} Rollback failed for ${rollbackErrors.length} change(s): ${rollbackErrors.join('; ')}`)
+			}
+		}
+	}
+
+	/**
+	 * Apply one planned operation and return the step that undoes it
+	 */
+	private async applyBatchOperation(operation: PlannedBatchOperation): Promise<() => Promise<void>> {
+		const { file, originalContent } = operation
+
+		if (operation.type === 'delete' && file) {
+			await this.vault.trash(file, true)
+			// The trashed copy stays in the trash; the note is recreated from its content
+			return async () => {
+				const createdFolder = await this.ensureParentFolder(operation.path)
+				try {
+					await this.vault.create(operation.path, originalContent ?? '')
+				} catch (error) {
+					await this.removeCreatedFolder(createdFolder)
+					throw error
+				}
+			}
+		}
+
+		if (file) {
+			await this.vault.modify(file, operation.newContent ?? '')
+			return async () => {
+				await this.vault.modify(file, originalContent ?? '')
+			}
+		}
+
+		const createdFolder = await this.ensureParentFolder(operation.path)
+		let created: TFile
+		try {
+			created = await this.vault.create(operation.path, operation.newContent ?? '')
+		} catch (error) {
+			await this.removeCreatedFolder(createdFolder)
+			throw error
+		}
+		return async () => {
+			await this.vault.delete(created, true)
+			await this.removeCreatedFolder(createdFolder)
+		}
+	}
+
+	/**
+	 * Create the parent folder of a path if needed
+	 * @returns The outermost folder that was created, or null if the parent already existed
+	 */
+	private async ensureParentFolder(path: string): Promise<string | null> {
+		const parentPath = getParentFolder(path)
+		if (!parentPath || isTFolder(this.vault.getAbstractFileByPath(parentPath))) {
+			return null
+		}
+
+		const segments = parentPath.split('/')
+		let outermost = parentPath
+		for (let index = 1; index <= segments.length; index++) {
+			const ancestor = segments.slice(0, index).join('/')
+			if (!this.vault.getAbstractFileByPath(ancestor)) {
+				outermost = ancestor
+				break
+			}
+		}
+
+		await this.vault.createFolder(parentPath)
+		return outermost
+	}
+
+	/**
+	 * Remove a folder created by a batch edit, unless something else was put in it meanwhile
+	 */
+	private async removeCreatedFolder(path: string | null): Promise<void> {
+		if (!path) {
+			return
+		}
+		const folder = this.vault.getAbstractFileByPath(path)
+		if (isTFolder(folder) && !hasFiles(folder)) {
+			await this.vault.delete(folder, true)
+		}
+	}
+
+	/**
+	 * Undo the most recent agent write that has not been undone yet, optionally within one session
+	 * @param force - Undo even if its files were edited after the write, discarding those edits
+	 * @returns null if there is nothing to undo
+	 * @throws UndoConflictError if its files were edited after the write and force is not set
+	 */
+	async undoLastChange(sessionId?: string, force: boolean = false): Promise<UndoResult | null> {
+		const [latest] = await this.snapshotStore.list({ sessionId })
+		return latest ? this.undoSnapshot(latest.id, force) : null
+	}
+
+	/**
+	 * Undo every agent write of a session, most recent first (stops at the first write that cannot be undone)
+	 * @param force - Undo writes whose files were edited after them, discarding those edits
+	 * @throws UndoConflictError at the first write whose files were edited after it, if force is not set
+	 */
+	async undoSession(sessionId: string, force: boolean = false): Promise<UndoResult[]> {
+		const results: UndoResult[] = []
+		for (const entry of await this.snapshotStore.list({ sessionId })) {
+			results.push(await this.undoSnapshot(entry.id, force))
+		}
+		return results
+	}
+
+	/**
+	 * Restore the files of one snapshot: move renamed files back, trash created files and write back pre-images
+	 */
+	private async undoSnapshot(snapshotId: string, force: boolean): Promise<UndoResult> {
+		const startTime = Date.now()
+		const snapshot = await this.snapshotStore.load(snapshotId)
+		if (!snapshot) {
+			throw new Error(`Snapshot not found: ${snapshotId}`)
+		}
+
+		// Restoring would silently discard edits made to the files after the write
+		if (!force) {
+			const changedPaths: string[] = []
+			for (const entry of snapshot.files) {
+				const path = entry.movedTo ?? entry.path
+				if (entry.afterHash !== undefined && await this.hashFile(path) !== entry.afterHash) {
+					changedPaths.push(path)
+				}
+			}
+			if (changedPaths.length > 0) {
+				throw new UndoConflictError(snapshot.id, snapshot.toolName, changedPaths)
+			}
+		}
+
+		const input = { snapshotId, toolName: snapshot.toolName }
+		const affectedPath = snapshot.files.map(file => file.path).join(', ')
+
+		try {
+			// Move files back first so their pre-images are written at the original paths
+			for (const entry of snapshot.files) {
+				if (!entry.movedTo) {
+					continue
+				}
+				const moved = this.vault.getAbstractFileByPath(entry.movedTo)
+				if (!isTFile(moved)) {
+					throw new Error(`File not found: ${entry.movedTo}`)
+				}
+				const existing = this.vault.getAbstractFileByPath(entry.path)
+				if (existing && existing !== moved) {
+					throw new Error(`File already exists: ${entry.path}`)
+				}
+				await this.ensureParentFolder(entry.path)
+				await this.vault.rename(moved, entry.path)
+			}
+
+			const restored: string[] = []
+			for (const entry of [...snapshot.files].reverse()) {
+				const existing = this.vault.getAbstractFileByPath(entry.path)
+				if (existing && !isTFile(existing)) {
+					throw new Error(`Path is a folder: ${entry.path}`)
+				}
+
+				if (entry.content === null) {
+					// Files the agent created go to the trash rather than being deleted permanently
+					if (isTFile(existing)) {
+						await this.vault.trash(existing, true)
+					}
+				} else if (entry.encoding === 'base64') {
+					const data = base64ToArrayBuffer(entry.content)
+					if (isTFile(existing)) {
+						await this.vault.modifyBinary(existing, data)
+					} else {
+						await this.ensureParentFolder(entry.path)
+						await this.vault.createBinary(entry.path, data)
+					}
+				} else if (isTFile(existing)) {
+					await this.vault.modify(existing, entry.content)
+				} else {
+					await this.ensureParentFolder(entry.path)
+					await this.vault.create(entry.path, entry.content)
+				}
+				restored.push(entry.path)
+			}
+
+			await this.snapshotStore.markUndone(snapshot.id)
+			const result: UndoResult = { snapshotId: snapshot.id, toolName: snapshot.toolName, sessionId: snapshot.sessionId, restored }
+			await this.createAuditLog('obsidian.undo', snapshot.sessionId, snapshot.id, input, startTime, 'modify', result, undefined, affectedPath, true, false)
+			return result
+		} catch (error) {
+			const failure = error instanceof Error ? error : new Error(String(error))
+			await this.createAuditLog('obsidian.undo', snapshot.sessionId, snapshot.id, input, startTime, 'modify', undefined, failure, affectedPath, true, false)
+			throw new Error(`Could not undo ${snapshot.toolName} (${snapshot.id}): ${failure.message}`)
+		}
+	}
+
+	/**
+	 * Generate preview for sections, properties, canvases, periodic and template notes, attachments, tasks, delete, rename, move and batch edits
+	 * (changed section, frontmatter, canvas or note, affected files and links, or all files of a batch)
+	 */
+	private async generateFileOperationPreview(
+		toolName: string,
+		args: unknown
+	): Promise<NonNullable<PermissionRequest['preview']>> {
+		if (toolName === 'obsidian.batch_edit') {
+			const plan = await this.prepareBatchEdit(args as ObsidianBatchEditInput)
+			const verbs = { create: 'Create', update: 'Update', delete: 'Delete' }
+			const summaryLines = [`${plan.length} operation(s), applied together or not at all:`]
+			const originalSections: string[] = []
+			const newSections: string[] = []
+			for (const operation of plan) {
+				const stats = operation.type === 'delete' ? '' : ` (+${operation.addedLines} -${operation.removedLines})`
+				summaryLines.push(`- ${verbs[operation.type]} ${operation.path}${stats}`)
+				if (operation.originalContent !== undefined) {
+					originalSections.push(`=== ${operation.path} ===\n${operation.originalContent}`)
+				}
+				newSections.push(`=== ${operation.path} ===\n${operation.newContent ?? '(deleted)'}`)
+			}
+			return {
+				originalContent: originalSections.length > 0 ? originalSections.join('\n\n') : undefined,
+				newContent: newSections.join('\n\n'),
+				mode: 'batch',
+				summary: summaryLines.join('\n')
+			}
+		}
+
+		switch (toolName) {
+			case 'obsidian.update_section':
+				return this.sections.preview(args as ObsidianUpdateSectionInput)
+			case 'obsidian.update_properties':
+				return this.properties.preview(args as ObsidianUpdatePropertiesInput)
+			case 'obsidian.update_canvas':
+				return this.canvases.preview(args as ObsidianUpdateCanvasInput)
+			case 'obsidian.update_periodic_note':
+				return this.periodicNotes.preview(args as ObsidianUpdatePeriodicNoteInput)
+			case 'obsidian.create_from_template':
+				return this.templates.preview(args as ObsidianCreateFromTemplateInput)
+			case 'obsidian.set_task_status':
+				return this.tasks.preview(args as ObsidianSetTaskStatusInput)
+			case 'obsidian.save_attachment':
+				return this.attachments.preview(args as ObsidianSaveAttachmentInput)
+			case 'obsidian.delete_note':
+				return this.relocation.previewDelete(args as ObsidianDeleteNoteInput)
+			default:
+				return this.relocation.previewRelocation(toolName, args as ObsidianRenameNoteInput & ObsidianMoveNoteInput)
+		}
+	}
+
+	/**
+	 * Compute note content after an update_note-style edit (shared by update_note and batch_edit)
+	 */
+	private computeUpdatedContent(
+		originalContent: string,
+		fileExists: boolean,
+		input: Pick<ObsidianUpdateNoteInput, 'path' | 'content' | 'mode' | 'insertAt' | 'insertMarker'>
+	): { newContent: string; addedLines: number; removedLines: number } {
+		let newContent: string
+		let addedLines = 0
+		let removedLines = 0
+
+		switch (input.mode) {
+			case 'replace':
+				newContent = input.content
+				if (originalContent) {
+					removedLines = originalContent.split('\n').length
+				}
+				addedLines = newContent.split('\n').length
+				break
+
+			case 'append':
+				newContent = originalContent + (originalContent && !originalContent.endsWith('\n') ? '\n' : '') + input.content
+				addedLines = input.content.split('\n').length
+				break
+
+			case 'prepend':
+				newContent = input.content + (input.content && !input.content.endsWith('\n') ? '\n' : '') + originalContent
+				addedLines = input.content.split('\n').length
+				break
+
+			case 'insert': {
+				// Validate insert parameters
+				if (!input.insertAt && !input.insertMarker) {
+					throw new Error('insertAt or insertMarker is required for insert mode')
+				}
+
+				const originalLines = originalContent.split('\n')
+				let insertIndex: number
+
+				if (input.insertAt !== undefined) {
+					// Insert at line number (1-based, convert to 0-based)
+					insertIndex = Math.max(0, Math.min(originalLines.length, input.insertAt - 1))
+				} else if (input.insertMarker) {
+					// Insert after marker
+					const markerIndex = originalLines.findIndex(line => line.includes(input.insertMarker!))
+					if (markerIndex === -1) {
+						throw new Error(`Marker "${input.insertMarker}" not found in file`)
+					}
+					insertIndex = markerIndex + 1
+				} else {
+					throw new Error('insertAt or insertMarker is required for insert mode')
+				}
+
+				// Insert content at the specified position
+				const insertLines = input.content.split('\n')
+				originalLines.splice(insertIndex, 0, ...insertLines)
+				newContent = originalLines.join('\n')
+				addedLines = insertLines.length
+				break
+			}
+
+			case 'patch': {
+				if (!fileExists) {
+					throw new Error(`File not found: ${input.path} (patch mode requires an existing note)`)
+				}
+				const patch = applyUnifiedDiff(originalContent, input.content)
+				newContent = patch.content
+				addedLines = patch.addedLines
+				removedLines = patch.removedLines
+				break
+			}
+
+			default:
+				throw new Error(`Unknown update mode: ${String(input.mode)}`)
+		}
+
+		return { newContent, addedLines, removedLines }
+	}
+
+	/**
+	 * Get the path(s) a previewed operation affects, for the audit log
+	 */
+	private async getPreviewPath(toolName: string, args: unknown): Promise<string | undefined> {
+		switch (toolName) {
+			case 'obsidian.batch_edit':
+				return (args as ObsidianBatchEditInput).operations.map(operation => operation.path).join(', ')
+			case 'obsidian.update_periodic_note':
+				return this.periodicNotes.resolvePeriodicNotePath(args as ObsidianUpdatePeriodicNoteInput)
+			case 'obsidian.create_from_template':
+				return this.templates.resolveTemplateTargetPath((args as ObsidianCreateFromTemplateInput).path)
+			case 'obsidian.save_attachment':
+				return this.attachments.resolveAttachmentPath(args as ObsidianSaveAttachmentInput)
+			default:
+				return (args as { path: string }).path
+		}
+	}
+
+	/**
+	 * Paths a write tool call changes, for matching approval rules
+	 * Renames and moves include the destination; tools from other plugins use their paths hook.
+	 */
+	async getAffectedPaths(toolName: string, args: unknown, options?: ObsidianToolOptions): Promise<string[]> {
+		if (options) {
+			return this.getRegisteredToolPaths(options, args)
+		}
+
+		switch (toolName) {
+			case 'obsidian.batch_edit':
+				return (args as ObsidianBatchEditInput).operations.map(operation => operation.path)
+			case 'obsidian.rename_note':
+			case 'obsidian.move_note':
+				return this.relocation.getRelocationPaths(toolName, args as ObsidianRenameNoteInput & ObsidianMoveNoteInput)
+			default: {
+				const path = await this.getPreviewPath(toolName, args)
+				return path ? [path] : []
+			}
+		}
+	}
+
+	/**
+	 * Check a call against the permission profile of the session's agent and the permission policy's sections
+	 * for its tool and agent (the plugin-wide level and scope and the policy's base rules are applied by every permission check)
+	 * @throws Error if the agent's level is below the tool's, or the profile or policy denies one of the paths
+	 */
+	async checkCallPermissions(tool: ObsidianToolDefinition, input: unknown, sessionId?: string, options?: ObsidianToolOptions): Promise<void> {
+		const agent = this.permissionManager.getAgentProfile(sessionId)
+		if (
+			agent?.level &&
+			((tool.permission === ToolPermission.ScopedWrite && agent.level === ToolPermission.ReadOnly) ||
+				(tool.permission === ToolPermission.FullWrite && agent.level !== ToolPermission.FullWrite))
+		) {
+			throw new Error(`Permission denied: Agent '${agent.agentId}' has the ${agent.level} permission level; ${tool.name} requires ${tool.permission}.`)
+		}
+
+		await this.permissionManager.refreshPolicy()
+		const hasPolicy = this.permissionManager.hasPolicy()
+		if (!hasPolicy && !agent?.level && !agent?.scope) {
+			return
+		}
+
+		const deletedPaths = new Set<string>()
+		if (tool.name === 'obsidian.delete_note') {
+			deletedPaths.add((input as ObsidianDeleteNoteInput).path)
+		} else if (tool.name === 'obsidian.batch_edit') {
+			for (const operation of (input as ObsidianBatchEditInput).operations) {
+				if (operation.type === 'delete') {
+					deletedPaths.add(operation.path)
+				}
+			}
+		}
+
+		for (const path of await this.getAffectedPaths(tool.name, input, options)) {
+			let operation: OperationType = 'read'
+			if (tool.permission !== ToolPermission.ReadOnly) {
+				operation = deletedPaths.has(path) ? 'delete' : this.vault.getAbstractFileByPath(path) ? 'modify' : 'create'
+			}
+			const results = [
+				agent && this.permissionManager.checkAgentProfile(agent, path, operation),
+				hasPolicy && this.permissionManager.checkPolicy(path, operation, { toolName: tool.name, agentId: agent?.agentId })
+			]
+			for (const result of results) {
+				if (result && !result.allowed) {
+					throw new Error(`Permission denied: ${result.reason}`)
+				}
+			}
+		}
+	}
+
+	/**
+	 * Note the secrets in a preview's new content, so the permission modal can warn about them
+	 */
+	flagPreviewSecrets(preview: NonNullable<PermissionRequest['preview']>): NonNullable<PermissionRequest['preview']> {
+		const findings = scanForSecrets(preview.newContent)
+		return findings.length > 0 ? { ...preview, secrets: describeSecretFindings(findings) } : preview
+	}
+
+	/**
+	 * Get the approval rules remembered from the permission modal
+	 */
+	getApprovalRules(): ApprovalRuleStore {
+		return this.permissionManager.getApprovalRules()
+	}
+
+	/**
+	 * Execute a tool registered by another plugin
+	 * Applies the tool's permission level, the permission scope of the paths it touches, approval,
+	 * undo snapshots and audit logging, like the built-in tools.
+	 */
+	async executeRegisteredTool(
+		tool: ObsidianToolDefinition,
+		handler: ObsidianToolHandler,
+		options: ObsidianToolOptions,
+		input: unknown,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<unknown> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const isWrite = tool.permission !== ToolPermission.ReadOnly
+		const paths = this.getRegisteredToolPaths(options, input)
+
+		return this.executeWithAuditLog(
+			tool.name,
+			sessionId,
+			effectiveCallId,
+			input,
+			isWrite ? 'modify' : 'read',
+			paths.join(', ') || undefined,
+			approved,
+			false,
+			async () => {
+				await this.checkRegisteredToolPermission(tool, paths)
+
+				if (isWrite) {
+					if (this.permissionManager.requiresApproval(tool.name, 'modify') && !approved) {
+						throw new PermissionPendingError(`User approval required for ${tool.name}`)
+					}
+					await this.captureSnapshot(tool.name, sessionId, effectiveCallId, paths.map(path => ({ path })))
+				}
+
+				return handler(input, { app: this.app, sessionId, callId: effectiveCallId })
+			}
+		)
+	}
+
+	/**
+	 * Generate the approval preview of a tool registered by another plugin (undefined if it has no preview hook)
+	 */
+	async previewRegisteredTool(
+		tool: ObsidianToolDefinition,
+		options: ObsidianToolOptions,
+		input: unknown,
+		sessionId?: string,
+		callId?: string
+	): Promise<PermissionRequest['preview'] | undefined> {
+		const preview = options.preview
+		if (!preview) {
+			return undefined
+		}
+		const effectiveCallId = callId || `preview_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const paths = this.getRegisteredToolPaths(options, input)
+
+		return this.executeWithAuditLog(
+			tool.name,
+			sessionId,
+			effectiveCallId,
+			input,
+			'read',
+			paths.join(', ') || undefined,
+			false,
+			true, // Preview is always a dry run
+			async () => {
+				await this.checkRegisteredToolPermission(tool, paths)
+				return preview(input, { app: this.app, sessionId, callId: effectiveCallId })
+			}
+		)
+	}
+
+	/**
+	 * Paths a registered tool call touches: from its paths hook, or the input's `path` field
+	 */
+	private getRegisteredToolPaths(options: ObsidianToolOptions, input: unknown): string[] {
+		if (options.paths) {
+			return options.paths(input)
+		}
+		const path = input && typeof input === 'object' ? (input as { path?: unknown }).path : undefined
+		return typeof path === 'string' ? [path] : []
+	}
+
+	/**
+	 * Check the permission level a registered tool needs, and the permission scope of its paths
+	 */
+	private async checkRegisteredToolPermission(tool: ObsidianToolDefinition, paths: string[]): Promise<void> {
+		const level = this.permissionManager.getPermissionLevel()
+		if (
+			(tool.permission === ToolPermission.ScopedWrite && level === ToolPermission.ReadOnly) ||
+			(tool.permission === ToolPermission.FullWrite && level !== ToolPermission.FullWrite)
+		) {
+			throw new Error(`Permission denied: ${tool.name} requires the ${tool.permission} permission level.`)
+		}
+
+		for (const path of paths) {
+			const result = tool.permission === ToolPermission.ReadOnly
+				? await this.permissionManager.canRead(path)
+				: await this.permissionManager.canWrite(path)
+			if (!result.allowed) {
+				throw new Error(`Permission denied: ${result.reason}`)
+			}
+		}
+	}
+
+	/**
+	 * Generate preview for tool operation (for permission modal)
+	 * This method should be called before requesting permission to show user what will happen
+	 * It checks permissions and generates a preview with unified audit logging
+	 */
+	async generatePreview(
+		toolName: string,
+		args: unknown,
+		sessionId?: string,
+		callId?: string
+	): Promise<PermissionRequest['preview'] | undefined> {
+		// Delegate read operation previews to VaultReader
+		if (toolName === 'obsidian.read_note') {
+			const preview = await this.reader.generatePreview(toolName, args, sessionId, callId)
+			return preview ? {
+				originalContent: preview.originalContent,
+				newContent: preview.originalContent || '',
+				mode: 'read'
+			} : undefined
+		}
+
+		const startTime = Date.now()
+		const effectiveCallId = callId || `preview_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		
+		// For update_note, generate preview by reading file and calculating changes
+		if (toolName === 'obsidian.update_note') {
+			const updateArgs = args as { path: string; content: string; mode: string }
+			
+			// Check read permission first (required for preview)
+			try {
+				const permissionResult = await this.permissionManager.canRead(updateArgs.path)
+				
+				if (!permissionResult.allowed) {
+					// Permission denied - log audit and return restricted preview
+					await this.createAuditLog(
+						toolName,
+						sessionId,
+						effectiveCallId,
+						args,
+						startTime,
+						'read',
+						undefined,
+						new Error(`Permission denied for preview: ${permissionResult.reason}`),
+						updateArgs.path,
 						false,
 						true // Preview is always a dry run
 					)
@@ -561,15 +1826,19 @@ export class ObsidianToolExecutor {
 			
 			// Permission allowed - read file and generate preview
 			try {
+				await this.recordPreviewVersions(effectiveCallId, [updateArgs.path])
 				let originalContent: string | undefined
 				const file = this.vault.getAbstractFileByPath(updateArgs.path)
 				
 				if (isTFile(file)) {
 					originalContent = await this.vault.read(file)
+				} else if (updateArgs.mode === 'patch') {
+					throw new Error(`File not found: ${updateArgs.path} (patch mode requires an existing note)`)
 				}
 				
 				// Calculate new content based on mode
 				let newContent = updateArgs.content
+				let patch: PatchResult | undefined
 				if (originalContent !== undefined) {
 					if (updateArgs.mode === 'append') {
 						newContent = originalContent + (originalContent && !originalContent.endsWith('\n') ? '\n' : '') + updateArgs.content
@@ -581,14 +1850,22 @@ export class ObsidianToolExecutor {
 						// For insert mode, we'd need the insertAt/insertMarker, which is complex
 						// For now, just use the new content
 						newContent = updateArgs.content
+					} else if (updateArgs.mode === 'patch') {
+						// Preview comes from applying the same diff that will be executed
+						patch = applyUnifiedDiff(originalContent, updateArgs.content)
+						newContent = patch.content
 					}
 				}
 
 				// Calculate line differences
 				const originalLines = originalContent ? originalContent.split('\n').length : 0
 				const newLines = newContent.split('\n').length
-				const addedLines = newLines > originalLines ? newLines - originalLines : 0
-				const removedLines = newLines < originalLines ? originalLines - newLines : 0
+				let addedLines = newLines > originalLines ? newLines - originalLines : 0
+				let removedLines = newLines < originalLines ? originalLines - newLines : 0
+				if (patch) {
+					addedLines = patch.addedLines
+					removedLines = patch.removedLines
+				}
 
 				// Log successful preview generation
 				await this.createAuditLog(
@@ -627,6 +1904,10 @@ export class ObsidianToolExecutor {
 					false,
 					true
 				)
+				// A patch that does not apply is rejected with the hunks that failed, before the modal opens
+				if (updateArgs.mode === 'patch') {
+					throw error
+				}
 				console.warn('[ObsidianToolExecutor] Failed to generate preview:', error)
 				return {
 					originalContent: undefined,
@@ -636,6 +1917,67 @@ export class ObsidianToolExecutor {
 			}
 		}
 
+		// For sections, properties, canvases, periodic and template notes, attachments, tasks, delete, rename, move and batch edits, compute the change up front
+		if (
+			toolName === 'obsidian.update_section' ||
+			toolName === 'obsidian.update_properties' ||
+			toolName === 'obsidian.update_canvas' ||
+			toolName === 'obsidian.update_periodic_note' ||
+			toolName === 'obsidian.create_from_template' ||
+			toolName === 'obsidian.save_attachment' ||
+			toolName === 'obsidian.set_task_status' ||
+			toolName === 'obsidian.delete_note' ||
+			toolName === 'obsidian.rename_note' ||
+			toolName === 'obsidian.move_note' ||
+			toolName === 'obsidian.batch_edit'
+		) {
+			let path: string | undefined
+			try {
+				path = await this.getPreviewPath(toolName, args)
+				// The approved write must change the notes as previewed, so check them for edits made before approval
+				if (toolName === 'obsidian.batch_edit') {
+					await this.recordPreviewVersions(effectiveCallId, (args as ObsidianBatchEditInput).operations.map(operation => operation.path))
+				} else if (PREVIEW_VERSION_TOOLS.has(toolName) && path) {
+					await this.recordPreviewVersions(effectiveCallId, [path])
+				}
+				const preview = await this.generateFileOperationPreview(toolName, args)
+				await this.createAuditLog(
+					toolName,
+					sessionId,
+					effectiveCallId,
+					args,
+					startTime,
+					'read',
+					{ preview },
+					undefined,
+					path,
+					undefined,
+					true // Preview is always a dry run
+				)
+				return preview
+			} catch (error) {
+				await this.createAuditLog(
+					toolName,
+					sessionId,
+					effectiveCallId,
+					args,
+					startTime,
+					'read',
+					undefined,
+					error instanceof Error ? error : new Error(String(error)),
+					path,
+					false,
+					true
+				)
+				throw error
+			}
+		}
+
+		// create_note has no preview, but an overwrite must not replace edits made while approval was pending
+		if (toolName === 'obsidian.create_note') {
+			await this.recordPreviewVersions(effectiveCallId, [(args as ObsidianCreateNoteInput).path])
+		}
+
 		// For other tools, return undefined (no preview available)
 		return undefined
 	}
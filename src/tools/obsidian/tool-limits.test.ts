@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { ToolLimitError, ToolUsageTracker, countFilesWritten, getOutputSize } from './tool-limits'
+
+describe('ToolUsageTracker', () => {
+	it('should limit calls per minute per session and per tool', () => {
+		let now = 0
+		const tracker = new ToolUsageTracker({ callsPerMinute: 3, toolCallsPerMinute: 2, toolOverrides: { 'obsidian.read_note': 3 } }, () => now)
+
+		tracker.checkCall('ses_1', 'obsidian.search_vault', false)
+		now = 10_000
+		tracker.checkCall('ses_1', 'obsidian.search_vault', false)
+		expect(() => tracker.checkCall('ses_1', 'obsidian.search_vault', false)).toThrow(
+			'Rate limit exceeded: more than 2 obsidian.search_vault calls per minute in this session. Retry in 50s.'
+		)
+		tracker.checkCall('ses_1', 'obsidian.read_note', false)
+		expect(() => tracker.checkCall('ses_1', 'obsidian.read_note', false)).toThrow('more than 3 tool calls per minute')
+
+		// Other sessions have their own limits, and calls leave the window after a minute
+		tracker.checkCall('ses_2', 'obsidian.search_vault', false)
+		now = 61_000
+		tracker.checkCall('ses_1', 'obsidian.search_vault', false)
+	})
+
+	it('should enforce the bytes read and files written quotas', () => {
+		const tracker = new ToolUsageTracker({ maxBytesRead: 100, maxFilesWritten: 2 })
+		tracker.recordResult('ses_1', { bytesRead: 120, filesWritten: 2 })
+
+		let error: unknown
+		try {
+			tracker.checkCall('ses_1', 'obsidian.read_note', false)
+		} catch (caught) {
+			error = caught
+		}
+		expect(error).toBeInstanceOf(ToolLimitError)
+		expect(error).toMatchObject({ kind: 'bytes_read', limit: 100, toolName: 'obsidian.read_note', sessionId: 'ses_1' })
+		expect(() => tracker.checkCall('ses_1', 'obsidian.update_note', true)).toThrow('already changed 2 files')
+
+		tracker.resetSession('ses_1')
+		tracker.checkCall('ses_1', 'obsidian.update_note', true)
+	})
+
+	it('should reject a call that needs more than is left of a quota', () => {
+		const tracker = new ToolUsageTracker({ maxBytesRead: 100, maxFilesWritten: 3 })
+		tracker.recordResult('ses_1', { bytesRead: 60, filesWritten: 2 })
+
+		tracker.checkQuota('ses_1', 'obsidian.read_note', { bytesRead: 40 })
+		expect(() => tracker.checkQuota('ses_1', 'obsidian.read_note', { bytesRead: 41 })).toThrow(
+			'Quota exceeded: this obsidian.read_note call would return more than the 40 of 100 bytes read tools may still return in this session.'
+		)
+		tracker.checkQuota('ses_1', 'obsidian.batch_edit', { filesWritten: 1 })
+		expect(() => tracker.checkQuota('ses_1', 'obsidian.batch_edit', { filesWritten: 2 })).toThrow(
+			expect.objectContaining({ kind: 'files_written', limit: 3, remaining: 1 })
+		)
+		tracker.checkQuota('ses_2', 'obsidian.batch_edit', { filesWritten: 3 })
+	})
+
+	it('should forget sessions idle for a day', () => {
+		let now = 0
+		const tracker = new ToolUsageTracker({ maxFilesWritten: 1 }, () => now)
+		tracker.checkCall('ses_1', 'obsidian.update_note', true)
+		tracker.recordResult('ses_1', { filesWritten: 1 })
+		expect(() => tracker.checkCall('ses_1', 'obsidian.update_note', true)).toThrow(ToolLimitError)
+
+		now = 24 * 60 * 60_000
+		tracker.checkCall('ses_2', 'obsidian.read_note', false)
+		expect(tracker.getUsage('ses_1').filesWritten).toBe(0)
+	})
+})
+
+describe('countFilesWritten', () => {
+	it('should count files changed by write tool outputs', () => {
+		expect(countFilesWritten({ path: 'a.md', updated: true })).toBe(1)
+		expect(countFilesWritten({ path: 'a.md', updated: false })).toBe(0)
+		expect(countFilesWritten({
+			path: 'a.md',
+			newPath: 'b.md',
+			renamed: true,
+			updatedLinks: [{ path: 'b.md', count: 1 }, { path: 'c.md', count: 2 }]
+		})).toBe(2)
+		expect(countFilesWritten({ applied: true, operations: [{}, {}, {}] })).toBe(3)
+		expect(countFilesWritten({ applied: false, operations: [{}] })).toBe(0)
+		expect(getOutputSize({ text: 'é' })).toBe(13)
+	})
+})
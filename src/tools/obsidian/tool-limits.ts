@@ -0,0 +1,233 @@
+/**
+ * Per-session rate limits and quotas for tool calls
+ * Stops a looping agent from issuing unbounded calls: calls per minute (per session and per tool),
+ * total bytes returned by read tools and total files changed by write tools.
+ * A limit of 0 or undefined means no limit.
+ */
+
+export interface ToolLimits {
+	/** Calls per minute in one session, across all tools */
+	callsPerMinute?: number
+	/** Calls per minute in one session, for each tool */
+	toolCallsPerMinute?: number
+	/** Per-tool overrides of toolCallsPerMinute, by tool name */
+	toolOverrides?: Record<string, number>
+	/** Bytes read tools may return in one session */
+	maxBytesRead?: number
+	/** Files write tools may change in one session */
+	maxFilesWritten?: number
+}
+
+export type ToolLimitKind = 'calls_per_minute' | 'tool_calls_per_minute' | 'bytes_read' | 'files_written'
+
+/**
+ * Error thrown when a tool call would go over a limit
+ */
+export class ToolLimitError extends Error {
+	kind: ToolLimitKind
+	limit: number
+	toolName: string
+	sessionId?: string
+	/** For rate limits, how long until the next call is allowed */
+	retryAfterMs?: number
+	/** For quotas, how much of the quota was left when the call needed more */
+	remaining?: number
+
+	constructor(kind: ToolLimitKind, limit: number, toolName: string, sessionId?: string, retryAfterMs?: number, remaining?: number) {
+		super(ToolLimitError.describe(kind, limit, toolName, retryAfterMs, remaining))
+		this.name = 'ToolLimitError'
+		this.kind = kind
+		this.limit = limit
+		this.toolName = toolName
+		this.sessionId = sessionId
+		this.retryAfterMs = retryAfterMs
+		this.remaining = remaining
+	}
+
+	private static describe(kind: ToolLimitKind, limit: number, toolName: string, retryAfterMs?: number, remaining?: number): string {
+		const retry = retryAfterMs !== undefined ? ` Retry in ${Math.ceil(retryAfterMs / 1000)}s.` : ''
+		switch (kind) {
+			case 'calls_per_minute':
+				return `Rate limit exceeded: more than ${limit} tool calls per minute in this session.${retry}`
+			case 'tool_calls_per_minute':
+				return `Rate limit exceeded: more than ${limit} ${toolName} calls per minute in this session.${retry}`
+			case 'bytes_read':
+				return remaining !== undefined
+					? `Quota exceeded: this ${toolName} call would return more than the ${remaining} of ${limit} bytes read tools may still return in this session.`
+					: `Quota exceeded: read tools already returned ${limit} bytes in this session.`
+			case 'files_written':
+				return remaining !== undefined
+					? `Quota exceeded: this ${toolName} call would change more than the ${remaining} of ${limit} files write tools may still change in this session.`
+					: `Quota exceeded: write tools already changed ${limit} files in this session.`
+		}
+	}
+}
+
+/**
+ * Calls and totals of one session
+ */
+export interface ToolSessionUsage {
+	/** Timestamps of calls in the last minute */
+	calls: number[]
+	/** Timestamps of calls in the last minute, by tool */
+	toolCalls: Map<string, number[]>
+	bytesRead: number
+	filesWritten: number
+	/** Time of the session's last call */
+	lastCall: number
+}
+
+const WINDOW_MS = 60_000
+// Sessions without a call for this long are forgotten, in case their end was never reported
+const SESSION_IDLE_MS = 24 * 60 * 60_000
+
+/**
+ * Tracks tool usage by session and enforces ToolLimits
+ */
+export class ToolUsageTracker {
+	private limits: ToolLimits
+	private now: () => number
+	private sessions = new Map<string, ToolSessionUsage>()
+
+	constructor(limits: ToolLimits = {}, now: () => number = () => Date.now()) {
+		this.limits = limits
+		this.now = now
+	}
+
+	setLimits(limits: ToolLimits): void {
+		this.limits = limits
+	}
+
+	getLimits(): ToolLimits {
+		return this.limits
+	}
+
+	/**
+	 * Check the limits for a new call and count it
+	 * @param isWrite - Whether the tool changes files (checked against maxFilesWritten instead of maxBytesRead)
+	 * @throws ToolLimitError if the call would go over a limit
+	 */
+	checkCall(sessionId: string | undefined, toolName: string, isWrite: boolean): void {
+		const now = this.now()
+		this.pruneSessions(now)
+		const usage = this.getUsage(sessionId)
+		usage.calls = usage.calls.filter(time => now - time < WINDOW_MS)
+		for (const [name, times] of usage.toolCalls) {
+			if (times.every(time => now - time >= WINDOW_MS)) {
+				usage.toolCalls.delete(name)
+			}
+		}
+		const toolCalls = (usage.toolCalls.get(toolName) ?? []).filter(time => now - time < WINDOW_MS)
+
+		const sessionLimit = this.limits.callsPerMinute
+		if (sessionLimit && usage.calls.length >= sessionLimit) {
+			throw new ToolLimitError('calls_per_minute', sessionLimit, toolName, sessionId, WINDOW_MS - (now - (usage.calls[0] ?? now)))
+		}
+		const toolLimit = this.limits.toolOverrides?.[toolName] ?? this.limits.toolCallsPerMinute
+		if (toolLimit && toolCalls.length >= toolLimit) {
+			throw new ToolLimitError('tool_calls_per_minute', toolLimit, toolName, sessionId, WINDOW_MS - (now - (toolCalls[0] ?? now)))
+		}
+		if (!isWrite && this.limits.maxBytesRead && usage.bytesRead >= this.limits.maxBytesRead) {
+			throw new ToolLimitError('bytes_read', this.limits.maxBytesRead, toolName, sessionId)
+		}
+		if (isWrite && this.limits.maxFilesWritten && usage.filesWritten >= this.limits.maxFilesWritten) {
+			throw new ToolLimitError('files_written', this.limits.maxFilesWritten, toolName, sessionId)
+		}
+
+		usage.calls.push(now)
+		usage.lastCall = now
+		toolCalls.push(now)
+		usage.toolCalls.set(toolName, toolCalls)
+	}
+
+	/**
+	 * Check that what a call will return or change fits in what is left of the session's quotas
+	 * @param planned - Bytes the call's output has, or files it is about to change
+	 * @throws ToolLimitError if it does not fit
+	 */
+	checkQuota(sessionId: string | undefined, toolName: string, planned: { bytesRead?: number; filesWritten?: number }): void {
+		const { bytesRead = 0, filesWritten = 0 } = this.sessions.get(sessionId ?? '') ?? {}
+		const { maxBytesRead, maxFilesWritten } = this.limits
+		if (maxBytesRead && planned.bytesRead && bytesRead + planned.bytesRead > maxBytesRead) {
+			throw new ToolLimitError('bytes_read', maxBytesRead, toolName, sessionId, undefined, Math.max(0, maxBytesRead - bytesRead))
+		}
+		if (maxFilesWritten && planned.filesWritten && filesWritten + planned.filesWritten > maxFilesWritten) {
+			throw new ToolLimitError('files_written', maxFilesWritten, toolName, sessionId, undefined, Math.max(0, maxFilesWritten - filesWritten))
+		}
+	}
+
+	/**
+	 * Add the bytes returned and files changed by a finished call to the session's totals
+	 */
+	recordResult(sessionId: string | undefined, result: { bytesRead?: number; filesWritten?: number }): void {
+		const usage = this.getUsage(sessionId)
+		usage.bytesRead += result.bytesRead ?? 0
+		usage.filesWritten += result.filesWritten ?? 0
+	}
+
+	/**
+	 * Get the usage of a session (created empty on first use)
+	 */
+	getUsage(sessionId: string | undefined): ToolSessionUsage {
+		const key = sessionId ?? ''
+		let usage = this.sessions.get(key)
+		if (!usage) {
+			usage = { calls: [], toolCalls: new Map(), bytesRead: 0, filesWritten: 0, lastCall: this.now() }
+			this.sessions.set(key, usage)
+		}
+		return usage
+	}
+
+	/**
+	 * Forget a session's usage
+	 */
+	resetSession(sessionId: string | undefined): void {
+		this.sessions.delete(sessionId ?? '')
+	}
+
+	/**
+	 * Forget sessions that have been idle for a day
+	 */
+	private pruneSessions(now: number): void {
+		for (const [key, usage] of this.sessions) {
+			if (now - usage.lastCall >= SESSION_IDLE_MS) {
+				this.sessions.delete(key)
+			}
+		}
+	}
+}
+
+/**
+ * Size in bytes of a tool output as sent to the model
+ */
+export function getOutputSize(output: unknown): number {
+	return new TextEncoder().encode(JSON.stringify(output) ?? '').length
+}
+
+/**
+ * Count the files a write tool changed, from its output (dry runs change none)
+ */
+export function countFilesWritten(output: unknown): number {
+	if (!output || typeof output !== 'object') {
+		return 0
+	}
+	const result = output as Record<string, unknown>
+
+	// batch_edit lists every operation it applied
+	if (Array.isArray(result.operations)) {
+		return result.applied === true ? result.operations.length : 0
+	}
+
+	const applied = ['created', 'updated', 'saved', 'deleted', 'renamed', 'moved'].some(key => result[key] === true)
+	if (!applied) {
+		return 0
+	}
+	// rename_note and move_note also rewrite links in other notes
+	const paths = new Set<unknown>([result.newPath ?? result.path])
+	if (Array.isArray(result.updatedLinks)) {
+		for (const update of result.updatedLinks as Array<{ path?: unknown }>) {
+			paths.add(update.path)
+		}
+	}
+	return paths.size
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import { ObsidianToolRegistry, zodToJSONSchema } from './tool-registry'
+import { ObsidianToolExecutor } from './tool-executor'
+import { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import type { AuditLogger } from './audit-logger'
+import type { VaultSearchIndex } from './vault-search-index'
+import type { SnapshotStore } from './snapshot-store'
+import type { App, MetadataCache, Vault } from 'obsidian'
+import { OBSIDIAN_TOOLS, ToolPermission } from './types'
+
+describe('zodToJSONSchema', () => {
+  it('should keep descriptions, defaults, enums and optionals', () => {
+    const updateNote = OBSIDIAN_TOOLS.find(tool => tool.name === 'obsidian.update_note')!
+    const schema = zodToJSONSchema(updateNote.inputSchema, 'input') as {
+      properties: Record<string, Record<string, unknown>>
+      required: string[]
+    }
+
+    expect(schema.properties.mode).toMatchObject({
+      type: 'string',
+      enum: ['replace', 'append', 'prepend', 'insert', 'patch'],
+      description: 'Update mode'
+    })
+    expect(schema.properties.dryRun).toMatchObject({ type: 'boolean', default: true })
+    expect(schema.properties.insertAt).toMatchObject({ type: 'number' })
+    expect(schema.required).toEqual(['path', 'content', 'mode'])
+    expect(schema).not.toHaveProperty('$schema')
+  })
+
+  it('should describe nested objects and arrays', () => {
+    const metadata = OBSIDIAN_TOOLS.find(tool => tool.name === 'obsidian.get_note_metadata')!
+    const schema = zodToJSONSchema(metadata.outputSchema, 'output') as {
+      properties: Record<string, { properties?: Record<string, unknown>; required?: string[] }>
+    }
+
+    expect(schema.properties.links?.properties?.outlinks).toMatchObject({
+      type: 'array',
+      items: { type: 'string' }
+    })
+    expect(schema.properties.links?.required).toEqual(['outlinks', 'backlinks'])
+  })
+
+  it('should treat defaulted fields as required in output schemas', () => {
+    const schema = zodToJSONSchema(z.object({ limit: z.number().default(20) }), 'output') as { required?: string[] }
+    expect(schema.required).toEqual(['limit'])
+  })
+})
+
+describe('ObsidianToolRegistry JSON Schema export', () => {
+  const registry = new ObsidianToolRegistry({} as ObsidianToolExecutor)
+
+  it('should export a real schema for every built-in tool', () => {
+    const tools = registry.listToolsAsJSONSchema()
+
+    expect(tools).toHaveLength(OBSIDIAN_TOOLS.length)
+    for (const tool of tools) {
+      expect(tool.inputSchema).toMatchObject({ type: 'object' })
+      expect(Object.keys((tool.inputSchema as { properties: object }).properties).length).toBeGreaterThan(0)
+      expect(tool.outputSchema).toMatchObject({ type: 'object' })
+    }
+  })
+
+  it('should return undefined for unknown tools', () => {
+    expect(registry.toJSONSchema('obsidian.unknown')).toBeUndefined()
+  })
+})
+
+describe('ObsidianToolRegistry tools from other plugins', () => {
+  const wordCount = {
+    name: 'wordcount.count_words',
+    description: 'Count the words of a note',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: z.object({ path: z.string(), minLength: z.number().default(1) }),
+    outputSchema: z.object({ words: z.number() })
+  }
+
+  it('should validate input and output and run the handler through the executor', async () => {
+    const executeRegisteredTool = vi.fn().mockResolvedValue({ words: 42 })
+    const checkCallPermissions = vi.fn().mockResolvedValue(undefined)
+    const registry = new ObsidianToolRegistry({ executeRegisteredTool, checkCallPermissions } as unknown as ObsidianToolExecutor)
+    const handler = vi.fn()
+    const unregister = registry.registerTool(wordCount, handler)
+
+    await expect(registry.execute('wordcount.count_words', { path: 'a.md' }, 'ses_1', 'call_1')).resolves.toEqual({ words: 42 })
+    expect(executeRegisteredTool).toHaveBeenCalledWith(wordCount, handler, {}, { path: 'a.md', minLength: 1 }, 'ses_1', 'call_1', false)
+    await expect(registry.execute('wordcount.count_words', {})).rejects.toThrow('Invalid input for wordcount.count_words')
+    expect(registry.listToolsAsJSONSchema()).toHaveLength(OBSIDIAN_TOOLS.length + 1)
+
+    unregister()
+    expect(registry.getTool('wordcount.count_words')).toBeUndefined()
+    await expect(registry.execute('wordcount.count_words', { path: 'a.md' })).rejects.toThrow('Tool not found')
+  })
+
+  it('should reject reserved and duplicate names', () => {
+    const registry = new ObsidianToolRegistry({} as ObsidianToolExecutor)
+    registry.registerTool(wordCount, vi.fn())
+
+    expect(() => registry.registerTool(wordCount, vi.fn())).toThrow('Tool already registered')
+    expect(() => registry.registerTool({ ...wordCount, name: 'obsidian.read_note' }, vi.fn())).toThrow('reserved')
+  })
+})
+
+describe('ObsidianToolRegistry agent permission profiles', () => {
+  const createRegistry = () => {
+    const vault = {
+      getAbstractFileByPath: vi.fn().mockReturnValue(null),
+      adapter: { stat: vi.fn().mockResolvedValue(null) }
+    } as unknown as Vault
+    const permissionManager = new PermissionManager(vault, ToolPermission.FullWrite)
+    permissionManager.setAgentResolver(sessionId => sessionId === 'ses_read_only'
+      ? { agentId: 'read-only', level: ToolPermission.ReadOnly }
+      : { agentId: 'inbox', level: ToolPermission.ScopedWrite, scope: { allowedPaths: ['Inbox/**'] } })
+    const auditLogger = { log: vi.fn().mockResolvedValue(undefined) }
+    const executor = new ObsidianToolExecutor(
+      vault, {} as App, {} as MetadataCache, permissionManager, auditLogger as unknown as AuditLogger,
+      {} as VaultSearchIndex, {} as SnapshotStore
+    )
+    return { registry: new ObsidianToolRegistry(executor), auditLogger }
+  }
+
+  it('should deny write tools to a read-only agent before asking for approval', async () => {
+    const { registry, auditLogger } = createRegistry()
+
+    await expect(registry.execute('obsidian.create_note', { path: 'Inbox/idea.md', content: 'Idea' }, 'ses_read_only', 'call_1'))
+      .rejects.toThrow("Permission denied: Agent 'read-only' has the read-only permission level; obsidian.create_note requires scoped-write.")
+    expect(auditLogger.log).toHaveBeenCalledWith(expect.objectContaining({ toolName: 'obsidian.create_note', isError: true }))
+  })
+
+  it('should limit an agent to its scope and level', async () => {
+    const { registry } = createRegistry()
+
+    await expect(registry.execute('obsidian.create_note', { path: 'Projects/plan.md', content: 'Plan' }, 'ses_1'))
+      .rejects.toThrow("Permission denied: Path 'Projects/plan.md' does not match any allowed pattern of agent 'inbox'")
+    await expect(registry.execute('obsidian.delete_note', { path: 'Inbox/idea.md' }, 'ses_1'))
+      .rejects.toThrow("Permission denied: Agent 'inbox' has the scoped-write permission level; obsidian.delete_note requires full-write.")
+    // Within its scope the call goes on to ask for approval
+    await expect(registry.execute('obsidian.create_note', { path: 'Inbox/idea.md', content: 'Idea' }, 'ses_1'))
+      .rejects.toThrow('User approval required')
+  })
+})
+
+describe('ObsidianToolRegistry partial approval', () => {
+  it('should write only the hunks the user kept', async () => {
+    const updateNote = vi.fn()
+      .mockRejectedValueOnce(new PermissionPendingError('User approval required for update note operation'))
+      .mockResolvedValueOnce({ path: 'Plan.md', updated: true, mode: 'replace' })
+    const executor = {
+      checkCallPermissions: vi.fn().mockResolvedValue(undefined),
+      getApprovalRules: () => ({ list: () => [] }),
+      generatePreview: vi.fn().mockResolvedValue({ originalContent: 'a\nb', newContent: 'A\nB' }),
+      flagPreviewSecrets: (preview: unknown) => preview,
+      recordHunkSelection: vi.fn(),
+      clearPreviewVersions: vi.fn(),
+      updateNote
+    }
+    const registry = new ObsidianToolRegistry(executor as unknown as ObsidianToolExecutor)
+    const hunks = { content: 'A\nb', total: 1, accepted: [1], edited: [1], rejected: [] }
+    vi.spyOn(registry, 'requestPermission').mockResolvedValue({ approved: true, hunks })
+
+    await registry.executeWithPermissionHandling('obsidian.update_note', { path: 'Plan.md', content: 'A\nB', mode: 'replace' }, 'ses_1', 'call_1')
+
+    expect(executor.recordHunkSelection).toHaveBeenCalledWith('call_1', hunks)
+    expect(updateNote).toHaveBeenLastCalledWith({ path: 'Plan.md', content: 'A\nb', mode: 'replace', dryRun: false }, 'ses_1', 'call_1', true)
+    expect(executor.clearPreviewVersions).toHaveBeenCalledWith('call_1')
+  })
+
+  it('should write the hunks the user kept of a change the server proposed', async () => {
+    const executor = {
+      checkCallPermissions: vi.fn().mockResolvedValue(undefined),
+      recordHunkSelection: vi.fn(),
+      updateNote: vi.fn().mockResolvedValue({ path: 'Plan.md', updated: true, mode: 'replace' })
+    }
+    const registry = new ObsidianToolRegistry(executor as unknown as ObsidianToolExecutor)
+    const hunks = { content: 'A\nb', total: 2, accepted: [1], edited: [], rejected: [2] }
+
+    await registry.applyKeptHunks('Plan.md', hunks, 'ses_1', 'perm_1')
+
+    expect(executor.recordHunkSelection).toHaveBeenCalledWith('perm_1', hunks)
+    expect(executor.updateNote).toHaveBeenCalledWith({ path: 'Plan.md', content: 'A\nb', mode: 'replace', dryRun: false }, 'ses_1', 'perm_1', true)
+  })
+})
+
+describe('ObsidianToolRegistry quotas', () => {
+  it('should reject a write that would change more files than are left, before it runs', async () => {
+    const batchEdit = vi.fn().mockResolvedValue({
+      applied: true,
+      operations: [{ type: 'update', path: 'a.md', existed: true, addedLines: 1, removedLines: 0 }]
+    })
+    const executor = {
+      checkCallPermissions: vi.fn().mockResolvedValue(undefined),
+      getAffectedPaths: vi.fn(async (_toolName: string, input: { operations: Array<{ path: string }> }) => input.operations.map(operation => operation.path)),
+      logRejectedCall: vi.fn().mockResolvedValue(undefined),
+      batchEdit
+    }
+    const registry = new ObsidianToolRegistry(executor as unknown as ObsidianToolExecutor)
+    registry.setToolLimits({ maxFilesWritten: 2 })
+    const edit = (...paths: string[]) => ({
+      operations: paths.map(path => ({ type: 'update', path, content: 'x', mode: 'append' })),
+      dryRun: false
+    })
+
+    await registry.execute('obsidian.batch_edit', edit('a.md'), 'ses_1', 'call_1', true)
+    await expect(registry.execute('obsidian.batch_edit', edit('b.md', 'c.md'), 'ses_1', 'call_2', true))
+      .rejects.toThrow('would change more than the 1 of 2 files')
+    expect(batchEdit).toHaveBeenCalledTimes(1)
+    expect(executor.logRejectedCall).toHaveBeenCalledWith('obsidian.batch_edit', 'ses_1', 'call_2', expect.anything(), 'modify', expect.anything())
+
+    registry.resetSession('ses_1')
+    await registry.execute('obsidian.batch_edit', edit('b.md', 'c.md'), 'ses_1', 'call_3', true)
+  })
+})
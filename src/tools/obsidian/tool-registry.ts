@@ -1,15 +1,41 @@
 import { z } from 'zod'
-import { ObsidianToolExecutor, PermissionPendingError } from './tool-executor'
-import { OBSIDIAN_TOOLS, type ObsidianToolDefinition } from './types'
+import { ObsidianToolExecutor, VersionConflictError } from './tool-executor'
+import { PermissionPendingError } from './permission-types'
+import { OBSIDIAN_TOOLS, type ObsidianToolDefinition, type ObsidianToolHandler, type ObsidianToolOptions } from './types'
 import { PermissionModal, type PermissionRequest } from './permission-modal'
-import type { App } from 'obsidian'
+import { describeApprovalRule, type ApprovalRule } from './approval-rules'
+import type { HunkSelection } from './diff-hunks'
+import { ToolLimitError, ToolUsageTracker, countFilesWritten, getOutputSize, type ToolLimits } from './tool-limits'
+import { Notice, type App } from 'obsidian'
 import type {
   ObsidianSearchVaultInput,
   ObsidianReadNoteInput,
   ObsidianListNotesInput,
+  ObsidianQueryNotesInput,
+  ObsidianGraphInput,
+  ObsidianReadCanvasInput,
+  ObsidianUpdateCanvasInput,
+  ObsidianGetPeriodicNoteInput,
+  ObsidianUpdatePeriodicNoteInput,
+  ObsidianListTemplatesInput,
+  ObsidianGetActiveContextInput,
+  ObsidianOpenNoteInput,
+  ObsidianListAttachmentsInput,
+  ObsidianReadAttachmentInput,
+  ObsidianSaveAttachmentInput,
+  ObsidianListTasksInput,
+  ObsidianSetTaskStatusInput,
+  ObsidianCreateFromTemplateInput,
   ObsidianCreateNoteInput,
   ObsidianUpdateNoteInput,
-  ObsidianGetNoteMetadataInput
+  ObsidianGetNoteMetadataInput,
+  ObsidianReadSectionInput,
+  ObsidianUpdateSectionInput,
+  ObsidianUpdatePropertiesInput,
+  ObsidianDeleteNoteInput,
+  ObsidianRenameNoteInput,
+  ObsidianMoveNoteInput,
+  ObsidianBatchEditInput
 } from './types'
 
 /**
@@ -21,14 +47,30 @@ function formatZodErrors(error: z.ZodError): string {
   return issues.map((e: z.ZodIssue) => `${e.path.join('.')}: ${e.message}`).join(', ')
 }
 
+/**
+ * Convert a Zod schema to a JSON Schema object
+ * Keeps descriptions, defaults, enums, optionals and nested objects.
+ * Input schemas treat defaulted fields as optional; output schemas treat them as always present.
+ */
+export function zodToJSONSchema(schema: z.ZodType, io: 'input' | 'output'): Record<string, unknown> {
+  // Types without a JSON Schema equivalent (e.g. transforms) become unconstrained instead of throwing
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io, unrepresentable: 'any' })
+  return jsonSchema
+}
+
 /**
  * Tool registry for Obsidian tools
  * Registers tools, routes tool calls, and validates input/output
  */
 export class ObsidianToolRegistry {
   private tools: Map<string, ObsidianToolDefinition> = new Map()
+  /** Hooks of the tools registered by other plugins, by tool name */
+  private toolOptions: Map<string, ObsidianToolOptions> = new Map()
   private executor: ObsidianToolExecutor
   private app: App | null = null
+  private usage = new ToolUsageTracker()
+  /** When a notice was last shown for each session and limit, so a looping agent does not flood the UI */
+  private limitNotices = new Map<string, number>()
 
   /** Tool name to executor method mapping */
   private readonly toolExecutors: Record<string, (input: unknown, sessionId?: string, callId?: string, approved?: boolean) => Promise<unknown>>
@@ -39,18 +81,62 @@ export class ObsidianToolRegistry {
 
     // Initialize tool executor dispatch map
     this.toolExecutors = {
-      'obsidian.search_vault': (input, sessionId, callId) =>
-        this.executor.searchVault(input as ObsidianSearchVaultInput, sessionId, callId),
-      'obsidian.read_note': (input, sessionId, callId) =>
-        this.executor.readNote(input as ObsidianReadNoteInput, sessionId, callId),
+      'obsidian.search_vault': (input, sessionId, callId, approved) =>
+        this.executor.searchVault(input as ObsidianSearchVaultInput, sessionId, callId, approved),
+      'obsidian.read_note': (input, sessionId, callId, approved) =>
+        this.executor.readNote(input as ObsidianReadNoteInput, sessionId, callId, approved),
       'obsidian.list_notes': (input, sessionId, callId) =>
         this.executor.listNotes(input as ObsidianListNotesInput, sessionId, callId),
-      'obsidian.get_note_metadata': (input, sessionId, callId) =>
-        this.executor.getNoteMetadata(input as ObsidianGetNoteMetadataInput, sessionId, callId),
+      'obsidian.query_notes': (input, sessionId, callId, approved) =>
+        this.executor.queryNotes(input as ObsidianQueryNotesInput, sessionId, callId, approved),
+      'obsidian.graph': (input, sessionId, callId) =>
+        this.executor.graph(input as ObsidianGraphInput, sessionId, callId),
+      'obsidian.read_canvas': (input, sessionId, callId, approved) =>
+        this.executor.readCanvas(input as ObsidianReadCanvasInput, sessionId, callId, approved),
+      'obsidian.get_periodic_note': (input, sessionId, callId, approved) =>
+        this.executor.getPeriodicNote(input as ObsidianGetPeriodicNoteInput, sessionId, callId, approved),
+      'obsidian.list_templates': (input, sessionId, callId, approved) =>
+        this.executor.listTemplates(input as ObsidianListTemplatesInput, sessionId, callId, approved),
+      'obsidian.get_active_context': (input, sessionId, callId, approved) =>
+        this.executor.getActiveContext(input as ObsidianGetActiveContextInput, sessionId, callId, approved),
+      'obsidian.open_note': (input, sessionId, callId) =>
+        this.executor.openNote(input as ObsidianOpenNoteInput, sessionId, callId),
+      'obsidian.list_attachments': (input, sessionId, callId) =>
+        this.executor.listAttachments(input as ObsidianListAttachmentsInput, sessionId, callId),
+      'obsidian.read_attachment': (input, sessionId, callId) =>
+        this.executor.readAttachment(input as ObsidianReadAttachmentInput, sessionId, callId),
+      'obsidian.list_tasks': (input, sessionId, callId, approved) =>
+        this.executor.listTasks(input as ObsidianListTasksInput, sessionId, callId, approved),
+      'obsidian.get_note_metadata': (input, sessionId, callId, approved) =>
+        this.executor.getNoteMetadata(input as ObsidianGetNoteMetadataInput, sessionId, callId, approved),
       'obsidian.create_note': (input, sessionId, callId, approved) =>
         this.executor.createNote(input as ObsidianCreateNoteInput, sessionId, callId, approved),
+      'obsidian.create_from_template': (input, sessionId, callId, approved) =>
+        this.executor.createFromTemplate(input as ObsidianCreateFromTemplateInput, sessionId, callId, approved),
+      'obsidian.save_attachment': (input, sessionId, callId, approved) =>
+        this.executor.saveAttachment(input as ObsidianSaveAttachmentInput, sessionId, callId, approved),
+      'obsidian.set_task_status': (input, sessionId, callId, approved) =>
+        this.executor.setTaskStatus(input as ObsidianSetTaskStatusInput, sessionId, callId, approved),
       'obsidian.update_note': (input, sessionId, callId, approved) =>
-        this.executor.updateNote(input as ObsidianUpdateNoteInput, sessionId, callId, approved)
+        this.executor.updateNote(input as ObsidianUpdateNoteInput, sessionId, callId, approved),
+      'obsidian.read_section': (input, sessionId, callId, approved) =>
+        this.executor.readSection(input as ObsidianReadSectionInput, sessionId, callId, approved),
+      'obsidian.update_section': (input, sessionId, callId, approved) =>
+        this.executor.updateSection(input as ObsidianUpdateSectionInput, sessionId, callId, approved),
+      'obsidian.update_properties': (input, sessionId, callId, approved) =>
+        this.executor.updateProperties(input as ObsidianUpdatePropertiesInput, sessionId, callId, approved),
+      'obsidian.delete_note': (input, sessionId, callId, approved) =>
+        this.executor.deleteNote(input as ObsidianDeleteNoteInput, sessionId, callId, approved),
+      'obsidian.rename_note': (input, sessionId, callId, approved) =>
+        this.executor.renameNote(input as ObsidianRenameNoteInput, sessionId, callId, approved),
+      'obsidian.move_note': (input, sessionId, callId, approved) =>
+        this.executor.moveNote(input as ObsidianMoveNoteInput, sessionId, callId, approved),
+      'obsidian.batch_edit': (input, sessionId, callId, approved) =>
+        this.executor.batchEdit(input as ObsidianBatchEditInput, sessionId, callId, approved),
+      'obsidian.update_canvas': (input, sessionId, callId, approved) =>
+        this.executor.updateCanvas(input as ObsidianUpdateCanvasInput, sessionId, callId, approved),
+      'obsidian.update_periodic_note': (input, sessionId, callId, approved) =>
+        this.executor.updatePeriodicNote(input as ObsidianUpdatePeriodicNoteInput, sessionId, callId, approved)
     }
 
     this.registerBuiltInTools()
@@ -63,6 +149,13 @@ export class ObsidianToolRegistry {
     this.app = app
   }
 
+  /**
+   * Set the per-session rate limits and quotas for tool calls
+   */
+  setToolLimits(limits: ToolLimits): void {
+    this.usage.setLimits(limits)
+  }
+
   /**
    * Register all built-in Obsidian tools
    */
@@ -74,9 +167,49 @@ export class ObsidianToolRegistry {
 
   /**
    * Register a tool definition
+   * Built-in tools are dispatched to the executor; tools from other plugins pass a handler, which runs
+   * through the same validation, permission, preview and audit pipeline.
+   * @returns A function that unregisters the tool
    */
-  registerTool(toolDef: ObsidianToolDefinition): void {
+  registerTool<TInput>(
+    toolDef: ObsidianToolDefinition,
+    handler?: ObsidianToolHandler<TInput>,
+    options: ObsidianToolOptions<TInput> = {}
+  ): () => void {
+    if (handler) {
+      if (toolDef.name.startsWith('obsidian.')) {
+        throw new Error(`Tool names starting with "obsidian." are reserved: ${toolDef.name}`)
+      }
+      if (this.tools.has(toolDef.name)) {
+        throw new Error(`Tool already registered: ${toolDef.name}`)
+      }
+
+      const toolHandler = handler as ObsidianToolHandler
+      const toolOptions = options as ObsidianToolOptions
+      this.toolOptions.set(toolDef.name, toolOptions)
+      this.toolExecutors[toolDef.name] = (input, sessionId, callId, approved) =>
+        this.executor.executeRegisteredTool(toolDef, toolHandler, toolOptions, input, sessionId, callId, approved)
+    }
+
     this.tools.set(toolDef.name, toolDef)
+    return () => {
+      // Only remove this registration, not a later one under the same name
+      if (this.tools.get(toolDef.name) === toolDef) {
+        this.unregisterTool(toolDef.name)
+      }
+    }
+  }
+
+  /**
+   * Remove a tool registered by another plugin (built-in tools cannot be removed)
+   */
+  unregisterTool(name: string): void {
+    if (!this.toolOptions.has(name)) {
+      return
+    }
+    this.tools.delete(name)
+    this.toolOptions.delete(name)
+    delete this.toolExecutors[name]
   }
 
   /**
@@ -108,6 +241,19 @@ export class ObsidianToolRegistry {
       throw new Error(`Tool not found: ${toolName}`)
     }
 
+    // Count each call once: the approved re-run of a call that was waiting for approval is not a new call
+    const isWrite = this.requiresApproval(toolName)
+    if (!approved) {
+      try {
+        this.usage.checkCall(sessionId, toolName, isWrite)
+      } catch (error) {
+        if (error instanceof ToolLimitError) {
+          await this.reportLimit(error, args, callId, isWrite)
+        }
+        throw error
+      }
+    }
+
     // Validate input using Zod schema
     let validatedInput: unknown
     try {
@@ -125,7 +271,30 @@ export class ObsidianToolRegistry {
       throw new Error(`Tool execution not implemented: ${toolName}`)
     }
 
+    // The agent's permission profile and the permission policy's tool and agent sections need to know who is calling,
+    // so they are checked here, before a write is offered for approval
+    try {
+      await this.executor.checkCallPermissions(toolDef, validatedInput, sessionId, this.toolOptions.get(toolName))
+    } catch (error) {
+      await this.executor.logRejectedCall(toolName, sessionId, callId, args, isWrite ? 'modify' : 'read', error instanceof Error ? error : new Error(String(error)))
+      throw error
+    }
+
+    // A write must fit in the files left of the session's quota before it runs, and a read's output in the bytes left
+    // before it is returned
+    if (isWrite && this.usage.getLimits().maxFilesWritten && (validatedInput as { dryRun?: boolean }).dryRun !== true) {
+      await this.checkQuota(sessionId, toolName, callId, args, {
+        filesWritten: await this.countPlannedFiles(toolName, validatedInput)
+      })
+    }
     const result = await executor(validatedInput, sessionId, callId, approved)
+    const bytesRead = isWrite ? 0 : getOutputSize(result)
+    if (!isWrite) {
+      await this.checkQuota(sessionId, toolName, callId, args, { bytesRead })
+    }
+    this.usage.recordResult(sessionId, isWrite
+      ? { filesWritten: countFilesWritten(result) }
+      : { bytesRead })
 
     // Validate output using Zod schema
     try {
@@ -138,6 +307,58 @@ export class ObsidianToolRegistry {
     }
   }
 
+  /**
+   * Forget a session's calls and quota usage once it has ended
+   */
+  resetSession(sessionId: string): void {
+    this.usage.resetSession(sessionId)
+  }
+
+  /**
+   * Check what a call will read or write against what is left of the session's quotas, reporting a rejection
+   */
+  private async checkQuota(
+    sessionId: string | undefined,
+    toolName: string,
+    callId: string | undefined,
+    args: unknown,
+    planned: { bytesRead?: number; filesWritten?: number }
+  ): Promise<void> {
+    try {
+      this.usage.checkQuota(sessionId, toolName, planned)
+    } catch (error) {
+      if (error instanceof ToolLimitError) {
+        await this.reportLimit(error, args, callId, planned.filesWritten !== undefined)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Count the files a write is about to change
+   * A rename or move changes one note; the notes whose links it rewrites are only known once it has run.
+   */
+  private async countPlannedFiles(toolName: string, input: unknown): Promise<number> {
+    if (toolName === 'obsidian.rename_note' || toolName === 'obsidian.move_note') {
+      return 1
+    }
+    return (await this.executor.getAffectedPaths(toolName, input, this.toolOptions.get(toolName))).length
+  }
+
+  /**
+   * Record a call rejected by a rate limit or quota in the audit log and tell the user (at most once a minute per limit)
+   */
+  private async reportLimit(error: ToolLimitError, args: unknown, callId: string | undefined, isWrite: boolean): Promise<void> {
+    await this.executor.logRejectedCall(error.toolName, error.sessionId, callId, args, isWrite ? 'modify' : 'read', error)
+
+    const key = `${error.sessionId ?? ''}:${error.kind}`
+    const now = Date.now()
+    if (now - (this.limitNotices.get(key) ?? 0) >= 60_000) {
+      this.limitNotices.set(key, now)
+      new Notice(error.message)
+    }
+  }
+
   /**
    * Check if a tool requires approval for a given operation
    */
@@ -162,18 +383,24 @@ export class ObsidianToolRegistry {
 
   /**
    * Request permission for a tool call using PermissionModal
-   * Returns a promise that resolves when user approves or rejects
+   * Returns a promise that resolves when user approves or rejects; hunks is set when only part of an update was approved
    */
   async requestPermission(
     request: PermissionRequest
-  ): Promise<boolean> {
+  ): Promise<{ approved: boolean; hunks?: HunkSelection }> {
     if (!this.app) {
       throw new Error('App instance is required for permission requests. Call setApp() first.')
     }
 
-    return new Promise<boolean>((resolve) => {
-      const modal = new PermissionModal(this.app!, request, (allowed: boolean) => {
-        resolve(allowed)
+    return new Promise((resolve) => {
+      const modal = new PermissionModal(this.app!, request, (allowed, _reason, rule, hunks) => {
+        // Remember the decision for later calls (the rule does not change the answer to this one)
+        if (rule) {
+          this.executor.getApprovalRules().add(rule).catch((error: unknown) => {
+            console.warn('[ObsidianToolRegistry] Failed to save approval rule:', error)
+          })
+        }
+        resolve({ approved: allowed, hunks })
       })
       modal.open()
     })
@@ -189,9 +416,12 @@ export class ObsidianToolRegistry {
     sessionId?: string,
     callId?: string
   ): Promise<unknown> {
+    // The preview and the approved execution share a call ID so the write can check for edits made in between
+    const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
     // First attempt execution (may throw PermissionPendingError)
     try {
-      return await this.execute(toolName, args, sessionId, callId, false)
+      return await this.execute(toolName, args, sessionId, effectiveCallId, false)
     } catch (error) {
       // If permission is pending, request it from user
       if (error instanceof PermissionPendingError) {
@@ -203,25 +433,55 @@ export class ObsidianToolRegistry {
 
         // Generate preview (permission-checked) before requesting approval.
         // If preview generation is denied by scope, fail fast and do not show modal.
-        const preview = await this.generatePreview(toolName, args, sessionId, callId)
-
-        // Request permission from user
-        const permissionRequest: PermissionRequest = {
-          sessionId: sessionId || '',
-          callId: callId || '',
-          toolName,
-          args,
-          preview
-        }
+        try {
+          // A remembered approval rule answers without prompting
+          const rule = await this.findApprovalRule(toolDef, args, sessionId)
+          if (rule?.decision === 'deny') {
+            const denial = new Error(`Permission denied for ${toolName}: ${describeApprovalRule(rule)}`)
+            await this.executor.logRejectedCall(toolName, sessionId, effectiveCallId, args, 'modify', denial)
+            throw denial
+          }
+          if (rule?.decision === 'allow') {
+            return await this.execute(toolName, args, sessionId, effectiveCallId, true)
+          }
 
-        const approved = await this.requestPermission(permissionRequest)
-        
-        if (!approved) {
-          throw new Error(`Permission denied for ${toolName}`)
-        }
+          let preview = await this.generatePreview(toolName, args, sessionId, effectiveCallId)
+          // A read only waits for approval when its output contains secrets; say which
+          if (!this.requiresApproval(toolName)) {
+            preview = { ...preview, newContent: preview?.newContent ?? '', summary: error.message }
+          }
+
+          // Request permission from user
+          const permissionRequest: PermissionRequest = {
+            sessionId: sessionId || '',
+            callId: effectiveCallId,
+            toolName,
+            args,
+            preview
+          }
 
-        // User approved, execute again with approved=true
-        return await this.execute(toolName, args, sessionId, callId, true)
+          const { approved, hunks } = await this.requestPermission(permissionRequest)
+
+          if (!approved) {
+            throw new Error(`Permission denied for ${toolName}`)
+          }
+
+          // User approved, execute again with approved=true
+          // If only some hunks of an update were kept, the note is replaced with the reviewed result instead
+          const approvedArgs = hunks && toolName === 'obsidian.update_note'
+            ? this.applyHunkSelection(args as ObsidianUpdateNoteInput, hunks, effectiveCallId)
+            : args
+          try {
+            return await this.execute(toolName, approvedArgs, sessionId, effectiveCallId, true)
+          } catch (executeError) {
+            if (executeError instanceof VersionConflictError && toolName === 'obsidian.update_note') {
+              return await this.resolveVersionConflict(executeError, sessionId, effectiveCallId)
+            }
+            throw executeError
+          }
+        } finally {
+          this.executor.clearPreviewVersions(effectiveCallId)
+        }
       }
       
       // Re-throw other errors
@@ -229,6 +489,85 @@ export class ObsidianToolRegistry {
     }
   }
 
+  /**
+   * Find the approval rule that decides a write call, if any
+   */
+  private async findApprovalRule(
+    toolDef: ObsidianToolDefinition,
+    args: unknown,
+    sessionId: string | undefined
+  ): Promise<ApprovalRule | undefined> {
+    const rules = this.executor.getApprovalRules()
+    if (rules.list().length === 0) {
+      return undefined
+    }
+    const input: unknown = toolDef.inputSchema.parse(args)
+    const paths = await this.executor.getAffectedPaths(toolDef.name, input, this.toolOptions.get(toolDef.name))
+    return rules.match(toolDef.name, paths, sessionId)
+  }
+
+  /**
+   * Write the hunks the user kept of a change the OpenCode Server proposed for a note
+   * The server can only write a change whole, so the kept hunks are written as an approved update_note call.
+   */
+  async applyKeptHunks(path: string, hunks: HunkSelection, sessionId: string | undefined, callId: string): Promise<unknown> {
+    const args = this.applyHunkSelection({ path, content: hunks.content, mode: 'replace', dryRun: false }, hunks, callId)
+    return this.execute('obsidian.update_note', args, sessionId, callId, true)
+  }
+
+  /**
+   * Turn an update the user approved only in part into a replace of the note with the kept hunks
+   * The selection is recorded so the write's audit entry and result say which hunks were kept.
+   */
+  private applyHunkSelection(args: ObsidianUpdateNoteInput, hunks: HunkSelection, callId: string): ObsidianUpdateNoteInput {
+    this.executor.recordHunkSelection(callId, hunks)
+    return {
+      path: args.path,
+      content: hunks.content,
+      mode: 'replace',
+      dryRun: false
+    }
+  }
+
+  /**
+   * Handle a note edited while its update was waiting for approval
+   * Offers the agent's change merged with the user's edits; overlapping edits abort without writing.
+   */
+  private async resolveVersionConflict(
+    conflict: VersionConflictError,
+    sessionId: string | undefined,
+    callId: string
+  ): Promise<unknown> {
+    const { currentContent, merge } = await this.executor.mergeVersionConflict(callId, conflict)
+    if (merge.conflicts > 0) {
+      throw new Error(`${conflict.message}: your edits and the agent's change overlap in ${merge.conflicts} place(s). Nothing was written.`)
+    }
+
+    const mergedArgs: ObsidianUpdateNoteInput = {
+      path: conflict.path,
+      content: merge.content,
+      mode: 'replace',
+      dryRun: false
+    }
+    const { approved } = await this.requestPermission({
+      sessionId: sessionId || '',
+      callId,
+      toolName: 'obsidian.update_note',
+      args: mergedArgs,
+      preview: {
+        originalContent: currentContent,
+        newContent: merge.content,
+        mode: 'merge',
+        summary: `${conflict.path} was edited while waiting for approval.\nYour edits were merged with the agent's change.`
+      }
+    })
+    if (!approved) {
+      throw new Error('Permission denied for obsidian.update_note')
+    }
+
+    return await this.execute('obsidian.update_note', mergedArgs, sessionId, callId, true)
+  }
+
   /**
    * Convert tool definitions to JSON Schema format (for OpenCode Server registration)
    */
@@ -241,8 +580,8 @@ export class ObsidianToolRegistry {
     return {
       name: toolDef.name,
       description: toolDef.description,
-      inputSchema: { type: 'object', properties: {}, required: [] },
-      outputSchema: { type: 'object', properties: {}, required: [] },
+      inputSchema: zodToJSONSchema(toolDef.inputSchema, 'input'),
+      outputSchema: zodToJSONSchema(toolDef.outputSchema, 'output'),
       permission: toolDef.permission
     }
   }
@@ -257,19 +596,18 @@ export class ObsidianToolRegistry {
     outputSchema: object
     permission: string
   }> {
-    const schemaPlaceholder = { type: 'object', properties: {}, required: [] }
     return this.listTools().map(tool => ({
       name: tool.name,
       description: tool.description,
-      inputSchema: schemaPlaceholder,
-      outputSchema: schemaPlaceholder,
+      inputSchema: zodToJSONSchema(tool.inputSchema, 'input'),
+      outputSchema: zodToJSONSchema(tool.outputSchema, 'output'),
       permission: tool.permission
     }))
   }
 
   /**
    * Generate preview for tool operation (unified permission check and audit logging)
-   * Delegates to ObsidianToolExecutor
+   * Delegates to ObsidianToolExecutor; secrets in the previewed content are flagged for the modal
    */
   async generatePreview(
     toolName: string,
@@ -277,6 +615,11 @@ export class ObsidianToolRegistry {
     sessionId?: string,
     callId?: string
   ): Promise<PermissionRequest['preview'] | undefined> {
-    return this.executor.generatePreview(toolName, args, sessionId, callId)
+    const toolDef = this.tools.get(toolName)
+    const options = this.toolOptions.get(toolName)
+    const preview = toolDef && options
+      ? await this.executor.previewRegisteredTool(toolDef, options, toolDef.inputSchema.parse(args), sessionId, callId)
+      : await this.executor.generatePreview(toolName, args, sessionId, callId)
+    return preview && this.executor.flagPreviewSecrets(preview)
   }
 }
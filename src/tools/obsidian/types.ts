@@ -1,4 +1,7 @@
 import { z } from 'zod'
+import type { App } from 'obsidian'
+import type { PermissionRequest } from './permission-modal'
+import type { SecretKind } from './secret-scanner'
 
 /**
  * Tool permission levels
@@ -13,9 +16,10 @@ export enum ToolPermission {
  * Schema for obsidian.search_vault tool input
  */
 export const ObsidianSearchVaultSchema = z.object({
-  query: z.string().describe('Search query string'),
+  query: z.string().describe('Search query: words must all match; use "quoted phrases" for exact phrases and prefix* for prefixes'),
   limit: z.number().int().positive().optional().default(20).describe('Maximum number of results to return'),
-  includeContent: z.boolean().optional().default(false).describe('Whether to include content snippets in results')
+  includeContent: z.boolean().optional().default(false).describe('Whether to include content snippets in results'),
+  maxSnippets: z.number().int().positive().optional().default(3).describe('Maximum number of highlighted snippets per result')
 })
 
 export type ObsidianSearchVaultInput = z.infer<typeof ObsidianSearchVaultSchema>
@@ -27,8 +31,13 @@ export const ObsidianSearchVaultOutputSchema = z.object({
   results: z.array(z.object({
     path: z.string().describe('File path'),
     title: z.string().optional().describe('File title or name'),
-    content: z.string().optional().describe('Content snippet if includeContent is true'),
-    matchCount: z.number().optional().describe('Number of matches found in this file')
+    content: z.string().optional().describe('Content snippets (one per line) if includeContent is true'),
+    matchCount: z.number().optional().describe('Number of matches found in this file'),
+    score: z.number().optional().describe('Relevance score (BM25); higher is better'),
+    snippets: z.array(z.object({
+      line: z.number().describe('1-based line number of the snippet'),
+      text: z.string().describe('Excerpt with matches highlighted as ==match==')
+    })).optional().describe('Highlighted excerpts around the matches (empty if only the path matched)')
   })),
   totalMatches: z.number().describe('Total number of matching files found')
 })
@@ -81,6 +90,64 @@ export const ObsidianListNotesOutputSchema = z.object({
 
 export type ObsidianListNotesOutput = z.infer<typeof ObsidianListNotesOutputSchema>
 
+/**
+ * Schema for obsidian.query_notes tool input
+ */
+export const ObsidianQueryNotesSchema = z.object({
+  query: z.string().optional().default('').describe('Filter expression, e.g. \'#project status = active file.mtime >= this-week [[Roadmap]]\'. Conditions: #tag, folder:, path: (glob), links: or [[Note]], linkedfrom:, has:field, field <op> value (=, !=, <, <=, >, >=, ~) on frontmatter or file.path/name/folder/mtime/ctime/size; combine with AND, OR, NOT/-, parentheses. Dates: YYYY-MM-DD, today, yesterday, this-week, this-month, -7d. Empty matches all notes'),
+  sortBy: z.string().optional().default('file.path').describe('file.path, file.name, file.mtime, file.ctime, file.size, or a frontmatter property'),
+  order: z.enum(['asc', 'desc']).optional().default('asc').describe('Sort order'),
+  limit: z.number().int().positive().optional().default(50).describe('Maximum number of notes to return'),
+  offset: z.number().int().nonnegative().optional().default(0).describe('Number of matching notes to skip (for pagination)')
+})
+
+export type ObsidianQueryNotesInput = z.infer<typeof ObsidianQueryNotesSchema>
+
+/**
+ * Output of obsidian.query_notes (same shape as list_notes; totalCount counts all matches before pagination)
+ */
+export type ObsidianQueryNotesOutput = ObsidianListNotesOutput
+
+/**
+ * Schema for obsidian.graph tool input
+ */
+export const ObsidianGraphSchema = z.object({
+  operation: z.enum(['neighborhood', 'path', 'orphans', 'hubs']).describe('neighborhood: notes within depth hops of path; path: shortest link path from path to target; orphans: notes nothing links to; hubs: most-linked notes'),
+  path: z.string().optional().describe('Start note for neighborhood and path (vault path or link text such as "Roadmap")'),
+  target: z.string().optional().describe('End note for path'),
+  depth: z.number().int().min(1).max(5).optional().default(1).describe('Number of hops for neighborhood'),
+  direction: z.enum(['out', 'in', 'both']).optional().default('both').describe('Follow outgoing links, backlinks, or both'),
+  folder: z.string().optional().describe('Restrict orphans and hubs to this folder (default: whole vault)'),
+  includeUnresolved: z.boolean().optional().default(false).describe('Include links to notes that do not exist yet as nodes'),
+  limit: z.number().int().positive().optional().default(50).describe('Maximum number of nodes to return')
+})
+
+export type ObsidianGraphInput = z.infer<typeof ObsidianGraphSchema>
+
+/**
+ * Schema for obsidian.graph tool output
+ */
+export const ObsidianGraphOutputSchema = z.object({
+  operation: z.enum(['neighborhood', 'path', 'orphans', 'hubs']),
+  nodes: z.array(z.object({
+    path: z.string().describe('Note path, or link text for unresolved links'),
+    inlinks: z.number().describe('Number of distinct notes linking to this node'),
+    outlinks: z.number().describe('Number of distinct nodes this note links to'),
+    distance: z.number().optional().describe('Hops from the start note (neighborhood and path)'),
+    unresolved: z.boolean().optional().describe('Whether this is a link to a note that does not exist')
+  })),
+  edges: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    count: z.number().describe('Number of links from the source to the target')
+  })).optional().describe('Links between the returned nodes (neighborhood and path)'),
+  found: z.boolean().optional().describe('Whether the notes are connected (path only)'),
+  truncated: z.boolean().describe('Whether more nodes exist than were returned'),
+  totalCount: z.number().describe('Total number of matching nodes before the limit (neighborhood stops expanding at the limit)')
+})
+
+export type ObsidianGraphOutput = z.infer<typeof ObsidianGraphOutputSchema>
+
 /**
  * Schema for obsidian.create_note tool input
  */
@@ -108,8 +175,8 @@ export type ObsidianCreateNoteOutput = z.infer<typeof ObsidianCreateNoteOutputSc
  */
 export const ObsidianUpdateNoteSchema = z.object({
   path: z.string().describe('Path to the note file'),
-  content: z.string().describe('Content to update with'),
-  mode: z.enum(['replace', 'append', 'prepend', 'insert']).describe('Update mode'),
+  content: z.string().describe('Content to update with (a unified diff in patch mode)'),
+  mode: z.enum(['replace', 'append', 'prepend', 'insert', 'patch']).describe('Update mode'),
   insertAt: z.number().optional().describe('Line number to insert at (required for insert mode)'),
   insertMarker: z.string().optional().describe('Marker string to insert after (alternative to insertAt)'),
   dryRun: z.boolean().optional().default(true).describe('Whether to preview changes without applying them')
@@ -129,7 +196,14 @@ export const ObsidianUpdateNoteOutputSchema = z.object({
     newContent: z.string().describe('Content after update'),
     addedLines: z.number().optional().describe('Number of lines added'),
     removedLines: z.number().optional().describe('Number of lines removed')
-  }).optional().describe('Preview of changes (always included if dryRun=true)')
+  }).optional().describe('Preview of changes (always included if dryRun=true)'),
+  hunks: z.object({
+    total: z.number().describe('Number of hunks in the proposed change'),
+    accepted: z.array(z.number()).describe('Hunks the user kept (1-based)'),
+    edited: z.array(z.number()).describe('Kept hunks the user edited before they were written'),
+    rejected: z.array(z.number()).describe('Hunks the user rejected; these lines were left unchanged'),
+    summary: z.string().describe('What was kept, in words')
+  }).optional().describe('Set when the user approved only part of the change: the note was replaced with the kept hunks')
 })
 
 export type ObsidianUpdateNoteOutput = z.infer<typeof ObsidianUpdateNoteOutputSchema>
@@ -169,6 +243,699 @@ export const ObsidianGetNoteMetadataOutputSchema = z.object({
 
 export type ObsidianGetNoteMetadataOutput = z.infer<typeof ObsidianGetNoteMetadataOutputSchema>
 
+/**
+ * Section target shared by the section tools
+ */
+const SectionTargetSchema = z.string().describe('Heading path (e.g. "## Meetings > ### 2026-10", levels optional) or block reference (e.g. "^block-id")')
+
+/**
+ * Schema for obsidian.read_section tool input
+ */
+export const ObsidianReadSectionSchema = z.object({
+  path: z.string().describe('Path to the note file'),
+  target: SectionTargetSchema,
+  includeHeading: z.boolean().optional().default(true).describe('Whether to include the heading line (heading targets only)')
+})
+
+export type ObsidianReadSectionInput = z.infer<typeof ObsidianReadSectionSchema>
+
+/**
+ * Schema for obsidian.read_section tool output
+ */
+export const ObsidianReadSectionOutputSchema = z.object({
+  path: z.string().describe('File path'),
+  target: z.string().describe('Section target that was read'),
+  content: z.string().describe('Section content'),
+  startLine: z.number().describe('First line of the returned content (1-based)'),
+  endLine: z.number().describe('Last line of the returned content (1-based)')
+})
+
+export type ObsidianReadSectionOutput = z.infer<typeof ObsidianReadSectionOutputSchema>
+
+/**
+ * Schema for obsidian.update_section tool input
+ */
+export const ObsidianUpdateSectionSchema = z.object({
+  path: z.string().describe('Path to the note file'),
+  target: SectionTargetSchema,
+  content: z.string().describe('Content to update the section with (without the heading line)'),
+  mode: z.enum(['replace', 'append', 'prepend']).describe('Update mode (heading sections keep their heading; blocks keep their ^block-id)'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview changes without applying them')
+})
+
+export type ObsidianUpdateSectionInput = z.infer<typeof ObsidianUpdateSectionSchema>
+
+/**
+ * Schema for obsidian.update_section tool output
+ */
+export const ObsidianUpdateSectionOutputSchema = z.object({
+  path: z.string().describe('File path that was updated'),
+  target: z.string().describe('Section target that was updated'),
+  updated: z.boolean().describe('Whether the file was actually updated (false if dryRun)'),
+  mode: z.string().describe('Update mode that was used'),
+  preview: z.object({
+    originalSection: z.string().describe('Section content before the update'),
+    newSection: z.string().describe('Section content after the update')
+  }).optional().describe('Preview of the section change')
+})
+
+export type ObsidianUpdateSectionOutput = z.infer<typeof ObsidianUpdateSectionOutputSchema>
+
+/**
+ * Schema for obsidian.update_properties tool input
+ */
+export const ObsidianUpdatePropertiesSchema = z.object({
+  path: z.string().describe('Path to the note file'),
+  set: z.record(z.string(), z.unknown()).optional().describe('Properties to set (created if missing, replaced if present)'),
+  remove: z.array(z.string()).optional().describe('Property keys to remove'),
+  append: z.record(z.string(), z.unknown()).optional().describe('Values (or arrays of values) to append to list properties; values already present are skipped'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview changes without applying them')
+})
+
+export type ObsidianUpdatePropertiesInput = z.infer<typeof ObsidianUpdatePropertiesSchema>
+
+/**
+ * Schema for obsidian.update_properties tool output
+ */
+export const ObsidianUpdatePropertiesOutputSchema = z.object({
+  path: z.string().describe('File path that was updated'),
+  updated: z.boolean().describe('Whether the file was actually updated (false if dryRun or nothing changed)'),
+  changedKeys: z.array(z.string()).describe('Property keys that were (or would be) changed'),
+  properties: z.record(z.string(), z.unknown()).describe('Frontmatter properties after the change'),
+  preview: z.object({
+    originalFrontmatter: z.string().optional().describe('Frontmatter YAML before the change'),
+    newFrontmatter: z.string().describe('Frontmatter YAML after the change')
+  }).optional().describe('Preview of the frontmatter change')
+})
+
+export type ObsidianUpdatePropertiesOutput = z.infer<typeof ObsidianUpdatePropertiesOutputSchema>
+
+/**
+ * Schema for obsidian.delete_note tool input
+ */
+export const ObsidianDeleteNoteSchema = z.object({
+  path: z.string().describe('Path to the note file to delete'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the deletion without applying it')
+})
+
+export type ObsidianDeleteNoteInput = z.infer<typeof ObsidianDeleteNoteSchema>
+
+/**
+ * Schema for obsidian.delete_note tool output
+ */
+export const ObsidianDeleteNoteOutputSchema = z.object({
+  path: z.string().describe('File path that was deleted'),
+  deleted: z.boolean().describe('Whether the file was actually moved to the trash (false if dryRun)'),
+  backlinks: z.array(z.string()).describe('Notes that link to this note (their links become unresolved)')
+})
+
+export type ObsidianDeleteNoteOutput = z.infer<typeof ObsidianDeleteNoteOutputSchema>
+
+/**
+ * Schema for obsidian.rename_note tool input
+ */
+export const ObsidianRenameNoteSchema = z.object({
+  path: z.string().describe('Path to the note file to rename'),
+  newName: z.string().describe('New file name, with or without extension (the note stays in its folder)'),
+  updateLinks: z.boolean().optional().default(true).describe('Whether to update links to this note across the vault'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the rename without applying it')
+})
+
+export type ObsidianRenameNoteInput = z.infer<typeof ObsidianRenameNoteSchema>
+
+/**
+ * Links rewritten in one note by a rename or move
+ */
+const LinkUpdateSchema = z.object({
+  path: z.string().describe('Note whose links were updated (its path after the operation)'),
+  count: z.number().describe('Number of links updated in this note')
+})
+
+/**
+ * Schema for obsidian.rename_note tool output
+ */
+export const ObsidianRenameNoteOutputSchema = z.object({
+  path: z.string().describe('Original file path'),
+  newPath: z.string().describe('File path after the rename'),
+  renamed: z.boolean().describe('Whether the file was actually renamed (false if dryRun)'),
+  updatedLinks: z.array(LinkUpdateSchema).describe('Notes whose links were (or would be) updated')
+})
+
+export type ObsidianRenameNoteOutput = z.infer<typeof ObsidianRenameNoteOutputSchema>
+
+/**
+ * Schema for obsidian.move_note tool input
+ */
+export const ObsidianMoveNoteSchema = z.object({
+  path: z.string().describe('Path to the note file to move'),
+  targetFolder: z.string().describe('Destination folder (empty string for vault root); created if missing'),
+  updateLinks: z.boolean().optional().default(true).describe('Whether to update links to this note across the vault'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the move without applying it')
+})
+
+export type ObsidianMoveNoteInput = z.infer<typeof ObsidianMoveNoteSchema>
+
+/**
+ * Schema for obsidian.move_note tool output
+ */
+export const ObsidianMoveNoteOutputSchema = z.object({
+  path: z.string().describe('Original file path'),
+  newPath: z.string().describe('File path after the move'),
+  moved: z.boolean().describe('Whether the file was actually moved (false if dryRun)'),
+  updatedLinks: z.array(LinkUpdateSchema).describe('Notes whose links were (or would be) updated')
+})
+
+export type ObsidianMoveNoteOutput = z.infer<typeof ObsidianMoveNoteOutputSchema>
+
+/**
+ * A single operation in a batch edit
+ */
+const BatchOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('create'),
+    path: z.string().describe('Path of the note to create'),
+    content: z.string().describe('Content of the new note'),
+    overwrite: z.boolean().optional().describe('Whether to overwrite the note if it exists')
+  }),
+  z.object({
+    type: z.literal('update'),
+    path: z.string().describe('Path of an existing note'),
+    content: z.string().describe('Content to update with (a unified diff in patch mode)'),
+    mode: ObsidianUpdateNoteSchema.shape.mode,
+    insertAt: z.number().optional().describe('Line number to insert at (insert mode)'),
+    insertMarker: z.string().optional().describe('Marker string to insert after (insert mode)')
+  }),
+  z.object({
+    type: z.literal('delete'),
+    path: z.string().describe('Path of the note to move to the trash')
+  })
+])
+
+export type ObsidianBatchOperation = z.infer<typeof BatchOperationSchema>
+
+/**
+ * Schema for obsidian.batch_edit tool input
+ */
+export const ObsidianBatchEditSchema = z.object({
+  operations: z.array(BatchOperationSchema).min(1).describe('Operations to apply in order; each path may appear only once'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the changes without applying them')
+})
+
+export type ObsidianBatchEditInput = z.infer<typeof ObsidianBatchEditSchema>
+
+/**
+ * Schema for obsidian.batch_edit tool output
+ */
+export const ObsidianBatchEditOutputSchema = z.object({
+  applied: z.boolean().describe('Whether all operations were applied (false if dryRun)'),
+  operations: z.array(z.object({
+    type: z.enum(['create', 'update', 'delete']).describe('Operation type'),
+    path: z.string().describe('Note path'),
+    existed: z.boolean().describe('Whether the note existed before the batch'),
+    addedLines: z.number().describe('Number of lines added'),
+    removedLines: z.number().describe('Number of lines removed')
+  })).describe('Operations in the order they were (or would be) applied')
+})
+
+export type ObsidianBatchEditOutput = z.infer<typeof ObsidianBatchEditOutputSchema>
+
+const CanvasColorSchema = z.string().describe('Preset color "1"-"6" (red, orange, yellow, green, cyan, purple) or "#RRGGBB"')
+const CanvasSideSchema = z.enum(['top', 'right', 'bottom', 'left'])
+const CanvasEndSchema = z.enum(['none', 'arrow'])
+
+/**
+ * A JSON Canvas node
+ */
+const CanvasNodeSchema = z.object({
+  id: z.string(),
+  type: z.enum(['text', 'file', 'link', 'group']),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  color: CanvasColorSchema.optional(),
+  text: z.string().optional().describe('Markdown text (text nodes)'),
+  file: z.string().optional().describe('Vault path (file nodes)'),
+  subpath: z.string().optional().describe('Heading or block starting with # (file nodes)'),
+  url: z.string().optional().describe('URL (link nodes)'),
+  label: z.string().optional().describe('Label (group nodes)'),
+  background: z.string().optional().describe('Background image path (group nodes)'),
+  backgroundStyle: z.enum(['cover', 'ratio', 'repeat']).optional()
+})
+
+/**
+ * A JSON Canvas edge
+ */
+const CanvasEdgeSchema = z.object({
+  id: z.string(),
+  fromNode: z.string(),
+  fromSide: CanvasSideSchema.optional(),
+  fromEnd: CanvasEndSchema.optional(),
+  toNode: z.string(),
+  toSide: CanvasSideSchema.optional(),
+  toEnd: CanvasEndSchema.optional().describe('Defaults to arrow'),
+  color: CanvasColorSchema.optional(),
+  label: z.string().optional()
+})
+
+/**
+ * Schema for obsidian.read_canvas tool input
+ */
+export const ObsidianReadCanvasSchema = z.object({
+  path: z.string().describe('Path to the .canvas file (relative to vault root)')
+})
+
+export type ObsidianReadCanvasInput = z.infer<typeof ObsidianReadCanvasSchema>
+
+/**
+ * Schema for obsidian.read_canvas tool output
+ */
+export const ObsidianReadCanvasOutputSchema = z.object({
+  path: z.string().describe('File path'),
+  nodes: z.array(CanvasNodeSchema).describe('Nodes in z-order (first is bottom-most)'),
+  edges: z.array(CanvasEdgeSchema),
+  summary: z.string().describe('Node and edge counts')
+})
+
+export type ObsidianReadCanvasOutput = z.infer<typeof ObsidianReadCanvasOutputSchema>
+
+const CanvasNodeFieldsShape = {
+  width: z.number().positive().optional().describe('Width (default: 250 for text, 400 otherwise)'),
+  height: z.number().positive().optional().describe('Height (default: 60 for text, 400 otherwise)'),
+  color: CanvasColorSchema.optional(),
+  text: z.string().optional().describe('Markdown text (text nodes)'),
+  file: z.string().optional().describe('Vault path (file nodes)'),
+  subpath: z.string().optional().describe('Heading or block starting with # (file nodes)'),
+  url: z.string().optional().describe('URL (link nodes)'),
+  label: z.string().optional().describe('Label (group nodes)')
+}
+
+/**
+ * A single canvas edit
+ */
+const CanvasOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('add_node'),
+    id: z.string().optional().describe('Node id (generated if omitted)'),
+    type: z.enum(['text', 'file', 'link', 'group']),
+    x: z.number(),
+    y: z.number(),
+    ...CanvasNodeFieldsShape
+  }),
+  z.object({
+    action: z.literal('update_node'),
+    id: z.string(),
+    ...CanvasNodeFieldsShape
+  }),
+  z.object({
+    action: z.literal('move_node'),
+    id: z.string().describe('Node to move; moving a group also moves the nodes inside it'),
+    x: z.number().optional().describe('New x position'),
+    y: z.number().optional().describe('New y position'),
+    dx: z.number().optional().describe('Horizontal offset (when x is not given)'),
+    dy: z.number().optional().describe('Vertical offset (when y is not given)')
+  }),
+  z.object({
+    action: z.literal('remove_node'),
+    id: z.string().describe('Node to remove, together with its edges')
+  }),
+  z.object({
+    action: z.literal('add_edge'),
+    id: z.string().optional().describe('Edge id (generated if omitted)'),
+    fromNode: z.string(),
+    toNode: z.string(),
+    fromSide: CanvasSideSchema.optional(),
+    toSide: CanvasSideSchema.optional(),
+    fromEnd: CanvasEndSchema.optional(),
+    toEnd: CanvasEndSchema.optional(),
+    color: CanvasColorSchema.optional(),
+    label: z.string().optional()
+  }),
+  z.object({
+    action: z.literal('remove_edge'),
+    id: z.string()
+  })
+])
+
+/**
+ * Schema for obsidian.update_canvas tool input
+ */
+export const ObsidianUpdateCanvasSchema = z.object({
+  path: z.string().describe('Path to the .canvas file'),
+  operations: z.array(CanvasOperationSchema).min(1).describe('Edits to apply in order; the result must be a valid canvas or nothing is written'),
+  create: z.boolean().optional().default(false).describe('Create the canvas if it does not exist'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview changes without applying them')
+})
+
+export type ObsidianUpdateCanvasInput = z.infer<typeof ObsidianUpdateCanvasSchema>
+
+/**
+ * Schema for obsidian.update_canvas tool output
+ */
+export const ObsidianUpdateCanvasOutputSchema = z.object({
+  path: z.string().describe('File path'),
+  updated: z.boolean().describe('Whether the file was actually written (false if dryRun)'),
+  created: z.boolean().describe('Whether the canvas was (or would be) created'),
+  changes: z.array(z.string()).describe('One line per change'),
+  summary: z.string().describe('Node and edge counts after the change'),
+  nodes: z.array(CanvasNodeSchema).describe('Nodes after the change'),
+  edges: z.array(CanvasEdgeSchema).describe('Edges after the change')
+})
+
+export type ObsidianUpdateCanvasOutput = z.infer<typeof ObsidianUpdateCanvasOutputSchema>
+
+const NotePeriodSchema = z.enum(['daily', 'weekly', 'monthly']).optional().default('daily').describe('Which periodic note')
+const PeriodDateSchema = z.string().optional().default('today').describe('Any date in the period: YYYY-MM-DD, today, yesterday, tomorrow, or an offset such as -1d, +1w, -1m')
+
+/**
+ * Settings a periodic note path was resolved with
+ */
+const PeriodicNoteSettingsSchema = z.object({
+  folder: z.string().describe('Folder for new notes'),
+  format: z.string().describe('Moment-style date format of the note name'),
+  template: z.string().describe('Template note path (empty for none)'),
+  source: z.enum(['periodic-notes', 'daily-notes', 'default']).describe('Where the settings came from')
+})
+
+/**
+ * Schema for obsidian.get_periodic_note tool input
+ */
+export const ObsidianGetPeriodicNoteSchema = z.object({
+  period: NotePeriodSchema,
+  date: PeriodDateSchema,
+  includeContent: z.boolean().optional().default(true).describe('Whether to include the note content if it exists')
+})
+
+export type ObsidianGetPeriodicNoteInput = z.infer<typeof ObsidianGetPeriodicNoteSchema>
+
+/**
+ * Schema for obsidian.get_periodic_note tool output
+ */
+export const ObsidianGetPeriodicNoteOutputSchema = z.object({
+  path: z.string().describe('Path of the note for the period'),
+  period: z.enum(['daily', 'weekly', 'monthly']),
+  date: z.string().describe('First day of the period (YYYY-MM-DD)'),
+  exists: z.boolean().describe('Whether the note exists'),
+  content: z.string().optional().describe('Note content (if it exists and includeContent is true)'),
+  settings: PeriodicNoteSettingsSchema
+})
+
+export type ObsidianGetPeriodicNoteOutput = z.infer<typeof ObsidianGetPeriodicNoteOutputSchema>
+
+/**
+ * Schema for obsidian.update_periodic_note tool input
+ */
+export const ObsidianUpdatePeriodicNoteSchema = z.object({
+  period: NotePeriodSchema,
+  date: PeriodDateSchema,
+  content: z.string().optional().describe('Text to append (omit to only create the note from its template)'),
+  section: z.string().optional().describe('Heading to append under, e.g. "Log" or "## Log" (added at the end if missing); default: end of note'),
+  createIfMissing: z.boolean().optional().default(true).describe('Create the note from its template if it does not exist'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview changes without applying them')
+})
+
+export type ObsidianUpdatePeriodicNoteInput = z.infer<typeof ObsidianUpdatePeriodicNoteSchema>
+
+/**
+ * Schema for obsidian.update_periodic_note tool output
+ */
+export const ObsidianUpdatePeriodicNoteOutputSchema = z.object({
+  path: z.string().describe('Path of the note for the period'),
+  period: z.enum(['daily', 'weekly', 'monthly']),
+  date: z.string().describe('First day of the period (YYYY-MM-DD)'),
+  created: z.boolean().describe('Whether the note was (or would be) created'),
+  updated: z.boolean().describe('Whether the file was actually written (false if dryRun or nothing changed)'),
+  template: z.string().optional().describe('Template the note was (or would be) created from'),
+  preview: z.object({
+    originalContent: z.string().optional().describe('Content before the change (if the note exists)'),
+    newContent: z.string().describe('Content after the change')
+  })
+})
+
+export type ObsidianUpdatePeriodicNoteOutput = z.infer<typeof ObsidianUpdatePeriodicNoteOutputSchema>
+
+/**
+ * Schema for obsidian.list_templates tool input
+ */
+export const ObsidianListTemplatesSchema = z.object({
+  includeContent: z.boolean().optional().default(false).describe('Whether to include the template content')
+})
+
+export type ObsidianListTemplatesInput = z.infer<typeof ObsidianListTemplatesSchema>
+
+/**
+ * Schema for obsidian.list_templates tool output
+ */
+export const ObsidianListTemplatesOutputSchema = z.object({
+  folder: z.string().describe('Templates folder'),
+  source: z.enum(['templates', 'templater', 'default']).describe('Where the folder setting came from'),
+  templates: z.array(z.object({
+    path: z.string().describe('Template path'),
+    name: z.string().describe('Template name (usable as the template argument of create_from_template)'),
+    variables: z.array(z.string()).describe('Custom {{variables}} the template needs, besides title, date and time'),
+    content: z.string().optional().describe('Template content (if includeContent is true)')
+  }))
+})
+
+export type ObsidianListTemplatesOutput = z.infer<typeof ObsidianListTemplatesOutputSchema>
+
+/**
+ * Schema for obsidian.create_from_template tool input
+ */
+export const ObsidianCreateFromTemplateSchema = z.object({
+  template: z.string().describe('Template name or path (see list_templates)'),
+  path: z.string().describe('Path of the note to create (.md is added if there is no extension)'),
+  variables: z.record(z.string(), z.string()).optional().describe('Values for custom {{variables}}; may also override title'),
+  overwrite: z.boolean().optional().default(false).describe('Whether to overwrite if the note already exists'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the note without creating it')
+})
+
+export type ObsidianCreateFromTemplateInput = z.infer<typeof ObsidianCreateFromTemplateSchema>
+
+/**
+ * Schema for obsidian.create_from_template tool output
+ */
+export const ObsidianCreateFromTemplateOutputSchema = z.object({
+  path: z.string().describe('Path of the note'),
+  template: z.string().describe('Template path used'),
+  created: z.boolean().describe('Whether the note was actually written (false if dryRun)'),
+  existed: z.boolean().describe('Whether a note already existed at the path'),
+  warnings: z.array(z.string()).describe('Parts of the template that were not processed, e.g. Templater commands'),
+  preview: z.object({
+    originalContent: z.string().optional().describe('Content being overwritten'),
+    newContent: z.string().describe('Content of the new note')
+  })
+})
+
+export type ObsidianCreateFromTemplateOutput = z.infer<typeof ObsidianCreateFromTemplateOutputSchema>
+
+/**
+ * Position in a note as reported by obsidian.get_active_context
+ */
+const EditorLocationSchema = z.object({
+  line: z.number().describe('Line (1-based)'),
+  ch: z.number().describe('Column (0-based)')
+})
+
+/**
+ * Schema for obsidian.get_active_context tool input
+ */
+export const ObsidianGetActiveContextSchema = z.object({
+  includeSelection: z.boolean().optional().default(true).describe('Whether to include the selected text'),
+  recentLimit: z.number().int().min(0).max(50).optional().default(10).describe('Maximum number of recently opened files to return')
+})
+
+export type ObsidianGetActiveContextInput = z.infer<typeof ObsidianGetActiveContextSchema>
+
+/**
+ * Schema for obsidian.get_active_context tool output
+ */
+export const ObsidianGetActiveContextOutputSchema = z.object({
+  activeFile: z.string().nullable().describe('Path of the note the user is working in, or null'),
+  mode: z.enum(['source', 'preview']).optional().describe('Editing (source) or reading (preview) view of the active note'),
+  cursor: EditorLocationSchema.optional().describe('Cursor position in the active note'),
+  selection: z.object({
+    text: z.string().describe('Selected text'),
+    from: EditorLocationSchema,
+    to: EditorLocationSchema
+  }).optional().describe('Current selection in the active note'),
+  openTabs: z.array(z.object({
+    path: z.string().describe('File path'),
+    active: z.boolean().describe('Whether this is the tab the user is working in')
+  })).describe('Files open in the main area'),
+  recentFiles: z.array(z.string()).describe('Recently opened files, most recent first')
+})
+
+export type ObsidianGetActiveContextOutput = z.infer<typeof ObsidianGetActiveContextOutputSchema>
+
+/**
+ * Schema for obsidian.open_note tool input
+ */
+export const ObsidianOpenNoteSchema = z.object({
+  path: z.string().describe('Path to the note to open'),
+  line: z.number().int().positive().optional().describe('Line to put the cursor on (1-based)'),
+  newTab: z.boolean().optional().default(false).describe('Whether to open a new tab instead of reusing one')
+})
+
+export type ObsidianOpenNoteInput = z.infer<typeof ObsidianOpenNoteSchema>
+
+/**
+ * Schema for obsidian.open_note tool output
+ */
+export const ObsidianOpenNoteOutputSchema = z.object({
+  path: z.string().describe('Path of the opened note'),
+  opened: z.boolean().describe('Whether the note was opened'),
+  line: z.number().optional().describe('Line the cursor was put on (clamped to the note)')
+})
+
+export type ObsidianOpenNoteOutput = z.infer<typeof ObsidianOpenNoteOutputSchema>
+
+/**
+ * Schema for obsidian.list_attachments tool input
+ */
+export const ObsidianListAttachmentsSchema = z.object({
+  path: z.string().describe('Path to the note whose embedded attachments to list')
+})
+
+export type ObsidianListAttachmentsInput = z.infer<typeof ObsidianListAttachmentsSchema>
+
+/**
+ * Schema for obsidian.list_attachments tool output
+ */
+export const ObsidianListAttachmentsOutputSchema = z.object({
+  path: z.string().describe('Note path'),
+  attachments: z.array(z.object({
+    link: z.string().describe('Embed link as written in the note'),
+    path: z.string().nullable().describe('Vault path of the attachment, or null if the embed does not resolve'),
+    mimeType: z.string().describe('MIME type by file extension'),
+    size: z.number().optional().describe('File size in bytes'),
+    isImage: z.boolean().describe('Whether read_attachment can read it')
+  }))
+})
+
+export type ObsidianListAttachmentsOutput = z.infer<typeof ObsidianListAttachmentsOutputSchema>
+
+/**
+ * Schema for obsidian.read_attachment tool input
+ */
+export const ObsidianReadAttachmentSchema = z.object({
+  path: z.string().describe('Path to the image attachment')
+})
+
+export type ObsidianReadAttachmentInput = z.infer<typeof ObsidianReadAttachmentSchema>
+
+/**
+ * Schema for obsidian.read_attachment tool output
+ */
+export const ObsidianReadAttachmentOutputSchema = z.object({
+  path: z.string().describe('Attachment path'),
+  mimeType: z.string().describe('MIME type of the image'),
+  size: z.number().describe('File size in bytes'),
+  data: z.string().describe('File content as base64')
+})
+
+export type ObsidianReadAttachmentOutput = z.infer<typeof ObsidianReadAttachmentOutputSchema>
+
+/**
+ * Schema for obsidian.save_attachment tool input
+ */
+export const ObsidianSaveAttachmentSchema = z.object({
+  fileName: z.string().describe('File name for the attachment (the extension is taken from a data URL if missing)'),
+  data: z.string().describe('File content as base64 or a base64 data URL'),
+  sourcePath: z.string().optional().describe('Note the attachment is for; decides the folder when attachments are stored next to notes'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the save without writing')
+})
+
+export type ObsidianSaveAttachmentInput = z.infer<typeof ObsidianSaveAttachmentSchema>
+
+/**
+ * Schema for obsidian.save_attachment tool output
+ */
+export const ObsidianSaveAttachmentOutputSchema = z.object({
+  path: z.string().describe('Path the attachment is (or would be) saved at, from the attachment folder setting'),
+  mimeType: z.string().describe('MIME type by file extension'),
+  size: z.number().describe('Size in bytes'),
+  saved: z.boolean().describe('Whether the file was written (false if dryRun)'),
+  embed: z.string().optional().describe('Embed link to insert into the note (if saved)')
+})
+
+export type ObsidianSaveAttachmentOutput = z.infer<typeof ObsidianSaveAttachmentOutputSchema>
+
+const TaskStatusSchema = z.enum(['open', 'in_progress', 'done', 'cancelled'])
+
+const TaskPrioritySchema = z.enum(['highest', 'high', 'medium', 'none', 'low', 'lowest'])
+
+/**
+ * Schema for obsidian.list_tasks tool input
+ */
+export const ObsidianListTasksSchema = z.object({
+  folder: z.string().optional().describe('Only include notes in this folder (recursive)'),
+  query: z.string().optional().describe('Only include notes matching this query_notes filter expression, e.g. \'#project -folder:Archive\''),
+  status: z.enum(['open', 'done', 'cancelled', 'all']).optional().default('open').describe('Tasks to include (open includes in-progress tasks)'),
+  dueBefore: z.string().optional().describe('Only tasks due on or before this date: YYYY-MM-DD, today, tomorrow, this-week, +7d'),
+  dueAfter: z.string().optional().describe('Only tasks due on or after this date'),
+  minPriority: TaskPrioritySchema.optional().describe('Only tasks with at least this priority'),
+  sortBy: z.enum(['path', 'due', 'priority']).optional().default('path').describe('Sort by note and line, due date (undated last), or priority'),
+  limit: z.number().int().positive().optional().default(100).describe('Maximum number of tasks to return')
+})
+
+export type ObsidianListTasksInput = z.infer<typeof ObsidianListTasksSchema>
+
+/**
+ * Schema for obsidian.list_tasks tool output
+ */
+export const ObsidianListTasksOutputSchema = z.object({
+  tasks: z.array(z.object({
+    path: z.string().describe('Note path'),
+    line: z.number().describe('Line of the task (1-based)'),
+    status: TaskStatusSchema,
+    symbol: z.string().describe('Character between the brackets'),
+    text: z.string().describe('Task text as written (pass to set_task_status)'),
+    description: z.string().describe('Task text without emoji metadata'),
+    priority: TaskPrioritySchema,
+    due: z.string().optional().describe('Due date (📅)'),
+    scheduled: z.string().optional().describe('Scheduled date (⏳)'),
+    start: z.string().optional().describe('Start date (🛫)'),
+    done: z.string().optional().describe('Done date (✅)'),
+    recurrence: z.string().optional().describe('Recurrence rule (🔁)'),
+    tags: z.array(z.string()).describe('Tags on the task')
+  })),
+  totalCount: z.number().describe('Number of matching tasks before the limit'),
+  truncated: z.boolean().describe('Whether tasks were left out because of the limit')
+})
+
+export type ObsidianListTasksOutput = z.infer<typeof ObsidianListTasksOutputSchema>
+
+/**
+ * Schema for obsidian.set_task_status tool input
+ */
+export const ObsidianSetTaskStatusSchema = z.object({
+  path: z.string().describe('Path to the note'),
+  line: z.number().int().positive().describe('Line of the task (1-based, from list_tasks)'),
+  status: TaskStatusSchema.optional().describe('New status; omit to toggle between open and done'),
+  text: z.string().optional().describe('Expected task text (from list_tasks); the call fails if the line no longer has it'),
+  doneDate: z.boolean().optional().describe('Whether to add a ✅ done or ❌ cancelled date (default: when the Tasks plugin is enabled)'),
+  dryRun: z.boolean().optional().default(true).describe('Whether to preview the change without applying it')
+})
+
+export type ObsidianSetTaskStatusInput = z.infer<typeof ObsidianSetTaskStatusSchema>
+
+/**
+ * Schema for obsidian.set_task_status tool output
+ */
+export const ObsidianSetTaskStatusOutputSchema = z.object({
+  path: z.string().describe('Note path'),
+  line: z.number().describe('Line of the task (1-based)'),
+  previousStatus: TaskStatusSchema,
+  status: TaskStatusSchema,
+  originalLine: z.string().describe('Line before the change'),
+  newLine: z.string().describe('Line after the change'),
+  updated: z.boolean().describe('Whether the note was written (false if dryRun)'),
+  warnings: z.array(z.string()).describe('Things the tool did not do, e.g. create the next occurrence of a recurring task')
+})
+
+export type ObsidianSetTaskStatusOutput = z.infer<typeof ObsidianSetTaskStatusOutputSchema>
+
 /**
  * Tool definition with name, permission level, and schemas
  */
@@ -182,13 +949,57 @@ export interface ObsidianToolDefinition {
   outputSchema: z.ZodSchema
 }
 
+/**
+ * Context passed to the handler of a tool registered by another plugin
+ */
+export interface ObsidianToolContext {
+  app: App
+  sessionId?: string
+  callId: string
+}
+
+/**
+ * Handler of a tool registered by another plugin
+ * Receives the input already validated against the tool's input schema.
+ */
+export type ObsidianToolHandler<TInput = unknown> = (input: TInput, context: ObsidianToolContext) => Promise<unknown>
+
+/**
+ * Optional hooks of a tool registered by another plugin
+ */
+export interface ObsidianToolOptions<TInput = unknown> {
+  /**
+   * Vault paths a call reads or changes (defaults to the input's `path` field, if any)
+   * They are checked against the permission scope, and write tools snapshot them for undo.
+   */
+  paths?: (input: TInput) => string[]
+  /** Describe the change of a write tool for the approval dialog */
+  preview?: (input: TInput, context: ObsidianToolContext) => Promise<PermissionRequest['preview'] | undefined>
+}
+
+/**
+ * Public API other plugins use to add tools
+ * Available as `app.plugins.plugins['opencode-obsidian'].api` once the plugin has loaded.
+ */
+export interface ObsidianToolApi {
+  /**
+   * Register a tool; returns a function that unregisters it (call it when the registering plugin unloads)
+   * @throws Error if the name is taken or uses the reserved `obsidian.` prefix
+   */
+  registerTool<TInput>(
+    toolDef: ObsidianToolDefinition,
+    handler: ObsidianToolHandler<TInput>,
+    options?: ObsidianToolOptions<TInput>
+  ): () => void
+}
+
 /**
  * All Obsidian tool definitions
  */
 export const OBSIDIAN_TOOLS: ObsidianToolDefinition[] = [
   {
     name: 'obsidian.search_vault',
-    description: 'Search for notes in the vault by query string',
+    description: 'Full-text search over note contents and paths, ranked by relevance, with highlighted snippets',
     permission: ToolPermission.ReadOnly,
     inputSchema: ObsidianSearchVaultSchema,
     outputSchema: ObsidianSearchVaultOutputSchema
@@ -207,6 +1018,55 @@ export const OBSIDIAN_TOOLS: ObsidianToolDefinition[] = [
     inputSchema: ObsidianListNotesSchema,
     outputSchema: ObsidianListNotesOutputSchema
   },
+  {
+    name: 'obsidian.query_notes',
+    description: 'Find notes by tags, frontmatter properties, folder, links and dates, with sorting and pagination',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianQueryNotesSchema,
+    outputSchema: ObsidianListNotesOutputSchema
+  },
+  {
+    name: 'obsidian.graph',
+    description: 'Explore the link graph: N-hop neighborhood of a note, shortest link path between two notes, orphans, and most-linked hubs',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianGraphSchema,
+    outputSchema: ObsidianGraphOutputSchema
+  },
+  {
+    name: 'obsidian.read_canvas',
+    description: 'Read a JSON Canvas (.canvas) file as typed nodes (text, file, link, group) and edges',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianReadCanvasSchema,
+    outputSchema: ObsidianReadCanvasOutputSchema
+  },
+  {
+    name: 'obsidian.get_periodic_note',
+    description: 'Find the daily, weekly or monthly note for a date, using the Daily Notes / Periodic Notes folder and date format',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianGetPeriodicNoteSchema,
+    outputSchema: ObsidianGetPeriodicNoteOutputSchema
+  },
+  {
+    name: 'obsidian.list_templates',
+    description: 'List note templates from the configured templates folder with the custom variables each one needs',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianListTemplatesSchema,
+    outputSchema: ObsidianListTemplatesOutputSchema
+  },
+  {
+    name: 'obsidian.get_active_context',
+    description: 'Get the note the user is working in with cursor position and selected text, plus open tabs and recently opened files',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianGetActiveContextSchema,
+    outputSchema: ObsidianGetActiveContextOutputSchema
+  },
+  {
+    name: 'obsidian.open_note',
+    description: 'Open a note in the editor and optionally move the cursor to a line',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianOpenNoteSchema,
+    outputSchema: ObsidianOpenNoteOutputSchema
+  },
   {
     name: 'obsidian.create_note',
     description: 'Create a new note file with the specified content',
@@ -214,9 +1074,16 @@ export const OBSIDIAN_TOOLS: ObsidianToolDefinition[] = [
     inputSchema: ObsidianCreateNoteSchema,
     outputSchema: ObsidianCreateNoteOutputSchema
   },
+  {
+    name: 'obsidian.create_from_template',
+    description: 'Create a note from a template, filling in {{title}}, {{date}}, {{time}}, {{date:FORMAT}} and custom {{variables}}',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianCreateFromTemplateSchema,
+    outputSchema: ObsidianCreateFromTemplateOutputSchema
+  },
   {
     name: 'obsidian.update_note',
-    description: 'Update a note file with new content (supports replace, append, prepend, insert modes)',
+    description: 'Update a note file with new content (supports replace, append, prepend, insert and unified-diff patch modes)',
     permission: ToolPermission.ScopedWrite,
     inputSchema: ObsidianUpdateNoteSchema,
     outputSchema: ObsidianUpdateNoteOutputSchema
@@ -227,6 +1094,104 @@ export const OBSIDIAN_TOOLS: ObsidianToolDefinition[] = [
     permission: ToolPermission.ReadOnly,
     inputSchema: ObsidianGetNoteMetadataSchema,
     outputSchema: ObsidianGetNoteMetadataOutputSchema
+  },
+  {
+    name: 'obsidian.read_section',
+    description: 'Read a single section of a note by heading path or ^block-id',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianReadSectionSchema,
+    outputSchema: ObsidianReadSectionOutputSchema
+  },
+  {
+    name: 'obsidian.update_section',
+    description: 'Replace, append to or prepend to a single section of a note addressed by heading path or ^block-id',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianUpdateSectionSchema,
+    outputSchema: ObsidianUpdateSectionOutputSchema
+  },
+  {
+    name: 'obsidian.update_properties',
+    description: 'Set, remove or append to frontmatter properties without rewriting the rest of the note or reformatting its YAML',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianUpdatePropertiesSchema,
+    outputSchema: ObsidianUpdatePropertiesOutputSchema
+  },
+  {
+    name: 'obsidian.delete_note',
+    description: 'Delete a note by moving it to the trash (reports notes whose links will break)',
+    permission: ToolPermission.FullWrite,
+    inputSchema: ObsidianDeleteNoteSchema,
+    outputSchema: ObsidianDeleteNoteOutputSchema
+  },
+  {
+    name: 'obsidian.rename_note',
+    description: 'Rename a note within its folder and update wikilinks and markdown links to it across the vault',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianRenameNoteSchema,
+    outputSchema: ObsidianRenameNoteOutputSchema
+  },
+  {
+    name: 'obsidian.move_note',
+    description: 'Move a note to another folder and update wikilinks and markdown links to it across the vault',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianMoveNoteSchema,
+    outputSchema: ObsidianMoveNoteOutputSchema
+  },
+  {
+    name: 'obsidian.batch_edit',
+    description: 'Create, update and delete several notes in one step with a single combined preview; all operations are applied or none are',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianBatchEditSchema,
+    outputSchema: ObsidianBatchEditOutputSchema
+  },
+  {
+    name: 'obsidian.update_canvas',
+    description: 'Add, update, move, connect and remove nodes and edges in a JSON Canvas (.canvas) file, validated against the canvas format',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianUpdateCanvasSchema,
+    outputSchema: ObsidianUpdateCanvasOutputSchema
+  },
+  {
+    name: 'obsidian.update_periodic_note',
+    description: 'Create the daily, weekly or monthly note from its template if missing and append text to it or to one of its sections',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianUpdatePeriodicNoteSchema,
+    outputSchema: ObsidianUpdatePeriodicNoteOutputSchema
+  },
+  {
+    name: 'obsidian.list_attachments',
+    description: 'List the images, PDFs and other files embedded in a note',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianListAttachmentsSchema,
+    outputSchema: ObsidianListAttachmentsOutputSchema
+  },
+  {
+    name: 'obsidian.read_attachment',
+    description: 'Read an image attachment as base64 with its MIME type',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianReadAttachmentSchema,
+    outputSchema: ObsidianReadAttachmentOutputSchema
+  },
+  {
+    name: 'obsidian.save_attachment',
+    description: 'Save base64 content as a file in the attachment folder configured in Obsidian and return the embed link',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianSaveAttachmentSchema,
+    outputSchema: ObsidianSaveAttachmentOutputSchema
+  },
+  {
+    name: 'obsidian.list_tasks',
+    description: 'List checkbox tasks across the vault, a folder or notes matching a query, with Tasks-plugin due dates and priorities',
+    permission: ToolPermission.ReadOnly,
+    inputSchema: ObsidianListTasksSchema,
+    outputSchema: ObsidianListTasksOutputSchema
+  },
+  {
+    name: 'obsidian.set_task_status',
+    description: 'Check, uncheck, cancel or start a task by note and line, changing only that line',
+    permission: ToolPermission.ScopedWrite,
+    inputSchema: ObsidianSetTaskStatusSchema,
+    outputSchema: ObsidianSetTaskStatusOutputSchema
   }
 ]
 
@@ -264,6 +1229,8 @@ export interface AuditLogEntry {
   affectedPath?: string
   /** Duration of tool execution in milliseconds */
   duration?: number
+  /** Kinds of secrets found in the content the call read (their values are not logged unless the user approved sending them) */
+  secrets?: SecretKind[]
 }
 
 /**
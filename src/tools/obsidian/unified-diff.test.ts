@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { applyUnifiedDiff, parseUnifiedDiff } from './unified-diff'
+
+const note = [
+	'# Weekly review',
+	'',
+	'## Done',
+	'- Shipped search',
+	'- Fixed sync',
+	'',
+	'## Next',
+	'- Write docs',
+	'- Plan Q4',
+	''
+].join('\n')
+
+describe('parseUnifiedDiff', () => {
+	it('should skip file headers and accept headers without line numbers', () => {
+		const hunks = parseUnifiedDiff([
+			'diff --git a/note.md b/note.md',
+			'--- a/note.md',
+			'+++ b/note.md',
+			'@@ -3,2 +3,3 @@',
+			' ## Done',
+			'+- Added',
+			'@@ @@',
+			' ## Next'
+		].join('\n'))
+
+		expect(hunks).toHaveLength(2)
+		expect(hunks[0]).toMatchObject({ oldStart: 3, lines: [' ## Done', '+- Added'] })
+		expect(hunks[1]?.oldStart).toBeUndefined()
+	})
+
+	it('should reject diffs without hunks, for several files, or with invalid lines', () => {
+		expect(() => parseUnifiedDiff('just text')).toThrow('no hunks')
+		expect(() => parseUnifiedDiff('+++ a.md\n@@ -1 +1 @@\n-a\n+b\n+++ b.md\n@@ -1 +1 @@\n-a\n+b')).toThrow('more than one file')
+		expect(() => parseUnifiedDiff('@@ -1 +1 @@\n-a\n*b')).toThrow('Invalid line 3')
+	})
+})
+
+describe('applyUnifiedDiff', () => {
+	it('should apply several hunks', () => {
+		const result = applyUnifiedDiff(note, [
+			'@@ -4,2 +4,3 @@',
+			' - Shipped search',
+			' - Fixed sync',
+			'+- Released 1.2',
+			'@@ -8,2 +9,2 @@',
+			'-- Write docs',
+			'+- Write user docs',
+			' - Plan Q4'
+		].join('\n'))
+
+		expect(result.content).toBe(note
+			.replace('- Fixed sync\n', '- Fixed sync\n- Released 1.2\n')
+			.replace('- Write docs', '- Write user docs'))
+		expect(result).toMatchObject({ addedLines: 2, removedLines: 1 })
+		expect(result.hunks.map(hunk => hunk.offset)).toEqual([0, 0])
+	})
+
+	it('should find hunks whose line numbers are off', () => {
+		const result = applyUnifiedDiff(note, '@@ -1,2 +1,2 @@\n - Write docs\n-- Plan Q4\n+- Plan Q1')
+
+		expect(result.content).toContain('- Plan Q1')
+		expect(result.hunks[0]).toMatchObject({ line: 8, offset: 7, fuzz: 0 })
+	})
+
+	it('should apply with fuzz when edge context lines do not match', () => {
+		const result = applyUnifiedDiff(note, '@@ -7,3 +7,3 @@\n ## Later\n-- Write docs\n+- Write guides\n - Plan Q4')
+
+		expect(result.content).toContain('## Next\n- Write guides\n- Plan Q4')
+		expect(result.hunks[0]?.fuzz).toBe(1)
+	})
+
+	it('should not let fuzz drop every context line of an insertion', () => {
+		expect(() => applyUnifiedDiff('one\ntwo\nthree\nfour', '@@ -2,2 +2,3 @@\n totally\n+INSERTED\n unrelated', 1))
+			.toThrow('Hunk 1 (@@ -2,2 +2,3 @@) failed: context not found near line 2')
+	})
+
+	it('should not let fuzz shrink a hunk to its removed lines', () => {
+		// Only "- Fixed sync" matches; dropping both context lines would remove it wherever it is
+		expect(() => applyUnifiedDiff(note, '@@ -4,3 +4,2 @@\n - Shipped indexing\n-- Fixed sync\n ## Later'))
+			.toThrow('Hunk 1 (@@ -4,3 +4,2 @@) failed: context not found near line 4')
+	})
+
+	it('should report every hunk that does not match', () => {
+		const diff = [
+			'@@ -4,1 +4,1 @@',
+			'-- Shipped indexing',
+			'+- Shipped index',
+			'@@ -8,1 +8,1 @@',
+			'-- Write docs',
+			'+- Write guides',
+			'@@ -9,1 +9,1 @@',
+			'-- Plan Q3',
+			'+- Plan Q4'
+		].join('\n')
+
+		expect(() => applyUnifiedDiff(note, diff)).toThrow(
+			/2 of 3 hunks failed[\s\S]*Hunk 1 \(@@ -4,1 \+4,1 @@\) failed: context not found near line 4[\s\S]*- Shipped indexing[\s\S]*Hunk 3/
+		)
+	})
+
+	it('should insert pure additions after the given line and keep CRLF endings', () => {
+		const result = applyUnifiedDiff('a\r\nb\r\n', '@@ -1,0 +2,1 @@\n+inserted')
+
+		expect(result.content).toBe('a\r\ninserted\r\nb\r\n')
+	})
+})
@@ -0,0 +1,244 @@
+/**
+ * Unified diff parsing and application for update_note's patch mode
+ * Hunks are located by their context (not only their line numbers), tolerating shifted
+ * line numbers and, with fuzz, a few mismatched context lines at the hunk edges (as long as
+ * one context line still matches).
+ */
+
+/**
+ * A single hunk of a unified diff
+ */
+export interface DiffHunk {
+	/** Hunk header as written (e.g. `@@ -10,4 +10,5 @@`) */
+	header: string
+	/** 1-based start line in the original file, or undefined if the header has no line numbers */
+	oldStart?: number
+	/** Hunk lines including their prefix (' ', '-' or '+') */
+	lines: string[]
+}
+
+/**
+ * Where a hunk was applied
+ */
+export interface AppliedHunk {
+	/** 1-based hunk number */
+	hunk: number
+	/** 1-based line in the original content where the hunk matched */
+	line: number
+	/** Lines between the expected and the actual position */
+	offset: number
+	/** Number of context lines ignored at each edge to make the hunk match */
+	fuzz: number
+}
+
+/**
+ * Result of applying a patch
+ */
+export interface PatchResult {
+	content: string
+	hunks: AppliedHunk[]
+	addedLines: number
+	removedLines: number
+}
+
+const HUNK_HEADER_PATTERN = /^@@(?:\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?)?\s*@@/
+
+/**
+ * Parse a unified diff for a single file
+ *
+ * File headers (`---`/`+++`, `diff --git`, `index`) are ignored. Hunk headers without line numbers (`@@ @@`)
+ * are accepted; such hunks are located by context alone. Blank lines inside a hunk are treated as
+ * empty context lines, since editors and models often strip the leading space.
+ *
+ * @throws Error if the diff has no hunks, touches several files, or contains an invalid line
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+	const hunks: DiffHunk[] = []
+	let current: DiffHunk | null = null
+	let fileHeaders = 0
+
+	const lines = diff.replace(/\r\n/g, '\n').split('\n')
+	// A trailing newline does not start another context line
+	if (lines[lines.length - 1] === '') {
+		lines.pop()
+	}
+
+	lines.forEach((line, index) => {
+		if (line.startsWith('+++ ') && (!current || lines[index + 1]?.startsWith('@@'))) {
+			fileHeaders++
+			if (fileHeaders > 1) {
+				throw new Error('Patch touches more than one file; send one patch per note')
+			}
+			current = null
+			return
+		}
+		if (line.startsWith('--- ') && (!current || lines[index + 1]?.startsWith('+++ '))) {
+			current = null
+			return
+		}
+
+		const header = HUNK_HEADER_PATTERN.exec(line)
+		if (header) {
+			current = { header: line, oldStart: header[1] !== undefined ? Number(header[1]) : undefined, lines: [] }
+			hunks.push(current)
+			return
+		}
+
+		if (!current) {
+			// diff --git, index and other preamble lines
+			return
+		}
+		if (line.startsWith('\\')) {
+			// "\ No newline at end of file"
+			return
+		}
+		if (line === '') {
+			current.lines.push(' ')
+			return
+		}
+		if (line[0] !== ' ' && line[0] !== '-' && line[0] !== '+') {
+			throw new Error(`Invalid line ${index + 1} in patch: "${line}" (hunk lines must start with ' ', '-' or '+')`)
+		}
+		current.lines.push(line)
+	})
+
+	if (hunks.length === 0) {
+		throw new Error('Patch contains no hunks (expected unified diff with @@ headers)')
+	}
+	return hunks
+}
+
+/**
+ * Compare two lines, ignoring trailing whitespace
+ */
+function linesEqual(a: string, b: string): boolean {
+	return a.trimEnd() === b.trimEnd()
+}
+
+/**
+ * Check whether `expected` matches `lines` at position
+ */
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+	if (position < 0 || position + expected.length > lines.length) {
+		return false
+	}
+	return expected.every((line, index) => linesEqual(lines[position + index] ?? '', line))
+}
+
+/**
+ * Find the match position closest to `expected`, not before `minPosition`
+ */
+function findMatch(lines: string[], oldLines: string[], expected: number, minPosition: number): number {
+	const maxPosition = lines.length - oldLines.length
+	const start = Math.min(Math.max(expected, minPosition), Math.max(maxPosition, minPosition))
+	for (let distance = 0; start + distance <= maxPosition || start - distance >= minPosition; distance++) {
+		if (matchesAt(lines, oldLines, start + distance)) return start + distance
+		if (distance > 0 && start - distance >= minPosition && matchesAt(lines, oldLines, start - distance)) return start - distance
+	}
+	return -1
+}
+
+/**
+ * Count leading or trailing context lines of a hunk
+ */
+function countContext(lines: string[], fromEnd: boolean): number {
+	const ordered = fromEnd ? [...lines].reverse() : lines
+	const index = ordered.findIndex(line => !line.startsWith(' '))
+	return index === -1 ? ordered.length : index
+}
+
+/**
+ * Context lines to ignore at the start and end of a hunk at a fuzz level, at one edge before both
+ * Combinations that ignore no more than a lower level did are left out.
+ */
+function getFuzzCandidates(fuzz: number, leading: number, trailing: number): Array<[number, number]> {
+	if (fuzz === 0) {
+		return [[0, 0]]
+	}
+	const dropLeading = Math.min(fuzz, leading)
+	const dropTrailing = Math.min(fuzz, trailing)
+	const candidates: Array<[number, number]> = [[dropLeading, 0], [0, dropTrailing], [dropLeading, dropTrailing]]
+	return candidates.filter(([start, end], index) =>
+		(start === fuzz || end === fuzz) &&
+		candidates.findIndex(other => other[0] === start && other[1] === end) === index
+	)
+}
+
+/**
+ * Apply a unified diff to content
+ *
+ * Each hunk is searched near its expected line (adjusted by the offset of earlier hunks) and
+ * after the previous hunk. If the exact context is not found, up to `maxFuzz` context lines are
+ * ignored at the start or end of the hunk (or both), as long as at least one context line is left to match.
+ * All hunks are checked before anything is returned, so a failure reports every hunk that did not match.
+ *
+ * @throws Error listing each hunk that could not be applied
+ */
+export function applyUnifiedDiff(content: string, diff: string, maxFuzz: number = 2): PatchResult {
+	const eol = content.includes('\r\n') ? '\r\n' : '\n'
+	const lines = content.split(/\r?\n/)
+	const hunks = parseUnifiedDiff(diff)
+
+	const applied: AppliedHunk[] = []
+	const failures: string[] = []
+	let delta = 0
+	let minPosition = 0
+	let addedLines = 0
+	let removedLines = 0
+
+	hunks.forEach((hunk, index) => {
+		const leading = countContext(hunk.lines, false)
+		const trailing = countContext(hunk.lines, true)
+
+		for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+			const candidates = getFuzzCandidates(fuzz, leading, trailing)
+			if (candidates.length === 0) {
+				break
+			}
+			for (const [dropLeading, dropTrailing] of candidates) {
+				const hunkLines = hunk.lines.slice(dropLeading, hunk.lines.length - dropTrailing)
+				// Fuzz must leave some context to check, or the hunk would be located by its removed lines alone
+				if (fuzz > 0 && !hunkLines.some(line => line.startsWith(' '))) {
+					continue
+				}
+				const oldLines = hunkLines.filter(line => !line.startsWith('+')).map(line => line.slice(1))
+				const newLines = hunkLines.filter(line => !line.startsWith('-')).map(line => line.slice(1))
+
+				// Pure insertions at "-N,0" insert after line N
+				const expected = hunk.oldStart !== undefined
+					? hunk.oldStart - (oldLines.length > 0 ? 1 : 0) + dropLeading + delta
+					: minPosition
+				const position = oldLines.length > 0
+					? findMatch(lines, oldLines, expected, minPosition)
+					: Math.min(Math.max(expected, minPosition), lines.length)
+
+				if (position === -1) {
+					continue
+				}
+
+				lines.splice(position, oldLines.length, ...newLines)
+				applied.push({
+					hunk: index + 1,
+					line: position + 1 - delta,
+					offset: position - expected,
+					fuzz
+				})
+				delta += newLines.length - oldLines.length
+				minPosition = position + newLines.length
+				addedLines += hunkLines.filter(line => line.startsWith('+')).length
+				removedLines += hunkLines.filter(line => line.startsWith('-')).length
+				return
+			}
+		}
+
+		const expectedLine = hunk.oldStart !== undefined ? ` near line ${hunk.oldStart}` : ''
+		const context = hunk.lines.filter(line => !line.startsWith('+')).slice(0, 3).map(line => `  ${line.slice(1)}`).join('\n')
+		failures.push(`Hunk ${index + 1} (${hunk.header}) failed: context not found${expectedLine}. Expected lines:\n${context}`)
+	})
+
+	if (failures.length > 0) {
+		throw new Error(`Patch could not be applied (${failures.length} of ${hunks.length} hunks failed):\n${failures.join('\n')}`)
+	}
+
+	return { content: lines.join(eol), hunks: applied, addedLines, removedLines }
+}
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TFile, moment } from 'obsidian'
+import type { App, CachedMetadata, MetadataCache, Vault, WorkspaceLeaf } from 'obsidian'
+import { VaultReader } from './vault-reader'
+import { PermissionManager } from './permission-manager'
+import { PermissionPendingError } from './permission-types'
+import { buildHeadingCache } from './section-resolver'
+import type { SecretHandling } from './secret-scanner'
+import type { AuditLogger } from './audit-logger'
+import { VaultSearchIndex } from './vault-search-index'
+import {
+	ObsidianGetActiveContextSchema,
+	ObsidianGetNoteMetadataSchema,
+	ObsidianGetPeriodicNoteSchema,
+	ObsidianListTasksSchema,
+	ObsidianListTemplatesSchema,
+	ObsidianQueryNotesSchema,
+	ObsidianReadCanvasSchema,
+	ObsidianReadSectionSchema,
+	ObsidianSearchVaultSchema,
+	ToolPermission
+} from './types'
+
+// The mock has no tag helper; these notes only have inline tags
+vi.mock('obsidian', async importOriginal => ({
+	...(await importOriginal<typeof import('obsidian')>()),
+	getAllTags: (cache: CachedMetadata) => cache.tags?.map(tag => tag.tag) ?? []
+}))
+
+const apiKey = `sk-ant-${'a'.repeat(24)}`
+const today = moment().format('YYYY-MM-DD')
+
+const notes: Record<string, string> = {
+	'Notes/Setup.md': ['# Setup', 'Install the CLI', '', '## Keys', `Use ${apiKey} for the API`, '', '## Links', 'Docs'].join('\n'),
+	'Notes/Tasks.md': ['# Tasks', '- [ ] Water plants', `- [ ] Rotate ${apiKey}`].join('\n'),
+	'Notes/Diary.md': ['# Diary #private', '- [ ] Call mum', 'Dear diary'].join('\n'),
+	'Notes/Server.md': ['---', 'host: example.com', 'password: hunter2', '---', '# Server'].join('\n'),
+	'Boards/Plan.canvas': JSON.stringify({
+		nodes: [
+			{ id: 'a', type: 'text', text: `Key: ${apiKey}`, x: 0, y: 0, width: 100, height: 50 },
+			{ id: 'b', type: 'text', text: 'Ship it', x: 200, y: 0, width: 100, height: 50 }
+		],
+		edges: []
+	}),
+	[`${today}.md`]: `# Today\nToken ${apiKey}`,
+	'Templates/Deploy.md': `Deploy with ${apiKey} for {{project}}`,
+	'Templates/Meeting.md': '# {{title}}\nAttendees: {{people}}'
+}
+
+const file = (path: string) => Object.assign(new TFile(), { path, extension: path.split('.').pop() ?? '' })
+
+/**
+ * Editor leaf showing a note, with some text selected
+ */
+function editorLeaf(path: string, selection: string): WorkspaceLeaf {
+	const editor = {
+		getCursor: (side?: string) => (side === 'from' ? { line: 4, ch: 0 } : { line: 4, ch: 20 }),
+		getSelection: () => selection
+	}
+	return { view: { file: file(path), editor, getViewType: () => 'markdown', getMode: () => 'source' } } as unknown as WorkspaceLeaf
+}
+
+function createReader(handling: SecretHandling, selection?: { path: string; text: string }) {
+	const files = new Map(Object.entries(notes).map(([path, content]) => [path, { file: file(path), content }]))
+	const vault = {
+		getAbstractFileByPath: (path: string) => files.get(path)?.file ?? null,
+		read: async (file: TFile) => files.get(file.path)!.content,
+		cachedRead: async (file: TFile) => files.get(file.path)!.content,
+		getMarkdownFiles: () => [...files.values()].map(entry => entry.file).filter(file => file.extension === 'md'),
+		adapter: { stat: vi.fn().mockResolvedValue(null) }
+	} as unknown as Vault
+	const metadataCache = {
+		getFileCache: (file: TFile): CachedMetadata => {
+			const content = files.get(file.path)!.content
+			const listItems = content.split('\n').flatMap((line, index) => /^- \[.\]/.test(line)
+				? [{ task: line[3], parent: -1, position: { start: { line: index, col: 0, offset: 0 }, end: { line: index, col: 0, offset: 0 } } }]
+				: [])
+			// Flat "key: value" frontmatter is all these notes use
+			const frontmatter = /^---\n([\s\S]*?)\n---/.exec(content)?.[1]
+			return {
+				...buildHeadingCache(content),
+				listItems,
+				frontmatter: frontmatter ? Object.fromEntries(frontmatter.split('\n').map(line => line.split(/:\s*/, 2))) : undefined
+			}
+		}
+	} as unknown as MetadataCache
+	const leaf = selection ? editorLeaf(selection.path, selection.text) : null
+	const app = {
+		workspace: {
+			getMostRecentLeaf: () => leaf,
+			getActiveFile: () => (leaf?.view as unknown as { file: TFile } | undefined)?.file ?? null,
+			getLastOpenFiles: () => [],
+			iterateRootLeaves: (callback: (leaf: WorkspaceLeaf) => void) => leaf && callback(leaf)
+		}
+	} as unknown as App
+
+	const permissionManager = new PermissionManager(vault, ToolPermission.ReadOnly)
+	permissionManager.setSecretHandling(handling)
+	const auditLogger = { log: vi.fn().mockResolvedValue(undefined) }
+	const reader = new VaultReader(vault, app, metadataCache, permissionManager, auditLogger as unknown as AuditLogger, new VaultSearchIndex(vault))
+	return { reader, auditLogger, permissionManager, vault }
+}
+
+describe('VaultReader secret handling', () => {
+	it('should screen the section read_section returns', async () => {
+		const { reader, auditLogger } = createReader('redact')
+		const keys = ObsidianReadSectionSchema.parse({ path: 'Notes/Setup.md', target: 'Keys' })
+
+		expect((await reader.readSection(keys)).content).toBe('## Keys\nUse [REDACTED API key] for the API')
+		expect(auditLogger.log).toHaveBeenCalledWith(expect.objectContaining({ toolName: 'obsidian.read_section', secrets: ['api-key'] }))
+		const links = ObsidianReadSectionSchema.parse({ path: 'Notes/Setup.md', target: 'Links' })
+		expect((await reader.readSection(links)).content).toBe('## Links\nDocs')
+
+		const ask = createReader('ask').reader
+		await expect(ask.readSection(keys)).rejects.toBeInstanceOf(PermissionPendingError)
+		expect((await ask.readSection(keys, undefined, undefined, true)).content).toContain(apiKey)
+
+		await expect(createReader('block').reader.readSection(keys)).rejects.toThrow('Permission denied')
+	})
+
+	it('should screen the tasks list_tasks returns, and leave out tasks of private notes', async () => {
+		const input = ObsidianListTasksSchema.parse({ folder: 'Notes' })
+
+		const { tasks } = await createReader('redact').reader.listTasks(input)
+		expect(tasks.map(task => task.text)).toEqual(['Water plants', 'Rotate [REDACTED API key]'])
+
+		const blocked = await createReader('block').reader.listTasks(input)
+		expect(blocked.tasks.map(task => task.text)).toEqual(['Water plants'])
+
+		await expect(createReader('ask').reader.listTasks(input)).rejects.toBeInstanceOf(PermissionPendingError)
+	})
+
+	it('should screen the text cards read_canvas returns', async () => {
+		const input = ObsidianReadCanvasSchema.parse({ path: 'Boards/Plan.canvas' })
+
+		const canvas = await createReader('redact').reader.readCanvas(input)
+		expect(canvas.nodes.map(node => node.text)).toEqual(['Key: [REDACTED API key]', 'Ship it'])
+		expect(canvas.summary).not.toContain(apiKey)
+
+		await expect(createReader('block').reader.readCanvas(input)).rejects.toThrow('Permission denied')
+	})
+
+	it('should screen the note get_periodic_note returns', async () => {
+		const input = ObsidianGetPeriodicNoteSchema.parse({})
+
+		expect((await createReader('redact').reader.getPeriodicNote(input)).content).toBe('# Today\nToken [REDACTED API key]')
+
+		const ask = createReader('ask').reader
+		await expect(ask.getPeriodicNote(input)).rejects.toBeInstanceOf(PermissionPendingError)
+		expect((await ask.getPeriodicNote(input, undefined, undefined, true)).content).toContain(apiKey)
+	})
+
+	it('should screen the template content list_templates returns', async () => {
+		const input = ObsidianListTemplatesSchema.parse({ includeContent: true })
+
+		const { templates } = await createReader('redact').reader.listTemplates(input)
+		expect(templates.map(template => template.content)).toEqual([
+			'Deploy with [REDACTED API key] for {{project}}',
+			'# {{title}}\nAttendees: {{people}}'
+		])
+
+		const blocked = createReader('block').reader
+		expect((await blocked.listTemplates(input)).templates.map(template => template.name)).toEqual(['Meeting'])
+		const withoutContent = await blocked.listTemplates(ObsidianListTemplatesSchema.parse({}))
+		expect(withoutContent.templates.map(template => template.name)).toEqual(['Deploy', 'Meeting'])
+	})
+
+	it('should screen the properties get_note_metadata returns', async () => {
+		const input = ObsidianGetNoteMetadataSchema.parse({ path: 'Notes/Server.md', includeProperties: true })
+
+		const { reader, auditLogger } = createReader('redact')
+		expect((await reader.getNoteMetadata(input)).frontmatter).toEqual({ host: 'example.com', password: '[REDACTED password in frontmatter]' })
+		expect(auditLogger.log).toHaveBeenCalledWith(expect.objectContaining({ toolName: 'obsidian.get_note_metadata', secrets: ['password'] }))
+
+		const ask = createReader('ask').reader
+		await expect(ask.getNoteMetadata(input)).rejects.toBeInstanceOf(PermissionPendingError)
+		expect((await ask.getNoteMetadata(input, undefined, undefined, true)).frontmatter).toMatchObject({ password: 'hunter2' })
+
+		await expect(createReader('block').reader.getNoteMetadata(input)).rejects.toThrow('Permission denied')
+	})
+
+	it('should not let query_notes match on secret property values', async () => {
+		const byPassword = ObsidianQueryNotesSchema.parse({ query: 'password = hunter2' })
+		const byHost = ObsidianQueryNotesSchema.parse({ query: 'host = example.com' })
+
+		const { reader, auditLogger } = createReader('redact')
+		expect((await reader.queryNotes(byPassword)).files).toEqual([])
+		expect(auditLogger.log).toHaveBeenCalledWith(expect.objectContaining({ toolName: 'obsidian.query_notes', secrets: ['password'] }))
+		expect((await reader.queryNotes(byHost)).files.map(file => file.path)).toEqual(['Notes/Server.md'])
+		expect((await createReader('block').reader.queryNotes(byPassword)).files).toEqual([])
+
+		const ask = createReader('ask').reader
+		await expect(ask.queryNotes(byPassword)).rejects.toBeInstanceOf(PermissionPendingError)
+		expect((await ask.queryNotes(byPassword, undefined, undefined, true)).files).toHaveLength(1)
+	})
+
+	it('should screen the selection get_active_context returns', async () => {
+		const input = ObsidianGetActiveContextSchema.parse({})
+
+		const setup = createReader('redact', { path: 'Notes/Setup.md', text: `Use ${apiKey}` }).reader
+		expect((await setup.getActiveContext(input)).selection?.text).toBe('Use [REDACTED API key]')
+
+		const diary = createReader('redact', { path: 'Notes/Diary.md', text: 'Dear diary' }).reader
+		expect((await diary.getActiveContext(input)).selection?.text).toBe('[Note tagged #private withheld]')
+
+		const ask = createReader('ask', { path: 'Notes/Setup.md', text: `Use ${apiKey}` }).reader
+		await expect(ask.getActiveContext(input)).rejects.toBeInstanceOf(PermissionPendingError)
+	})
+})
+
+describe('VaultReader agent profiles', () => {
+	it('should leave notes outside the agent profile out of search_vault and query_notes results', async () => {
+		const { reader, permissionManager } = createReader('redact')
+		permissionManager.setAgentResolver(sessionId =>
+			sessionId === 'session-1' ? { agentId: 'writer', scope: { deniedPaths: ['Notes/Setup.md'] } } : undefined
+		)
+
+		const search = ObsidianSearchVaultSchema.parse({ query: 'setup' })
+		expect((await reader.searchVault(search)).results.map(result => result.path)).toEqual(['Notes/Setup.md'])
+		expect(await reader.searchVault(search, 'session-1')).toEqual({ results: [], totalMatches: 0 })
+
+		const query = ObsidianQueryNotesSchema.parse({})
+		const paths = (await reader.queryNotes(query, 'session-1')).files.map(file => file.path)
+		expect(paths).toContain('Notes/Tasks.md')
+		expect(paths).not.toContain('Notes/Setup.md')
+	})
+
+	it('should leave notes outside the agent profile out of list_tasks and get_active_context', async () => {
+		const { reader, permissionManager } = createReader('redact', { path: 'Notes/Setup.md', text: 'Install the CLI' })
+		permissionManager.setAgentResolver(() => ({ agentId: 'gardener', scope: { allowedPaths: ['Notes/Tasks.md'] } }))
+
+		const { tasks } = await reader.listTasks(ObsidianListTasksSchema.parse({}), 'session-1')
+		expect(new Set(tasks.map(task => task.path))).toEqual(new Set(['Notes/Tasks.md']))
+		expect(await reader.getActiveContext(ObsidianGetActiveContextSchema.parse({}), 'session-1')).toMatchObject({ activeFile: null })
+	})
+})
+
+describe('VaultReader session context', () => {
+	it('should screen the selection and properties sent with a new session', async () => {
+		const setup = createReader('redact', { path: 'Notes/Setup.md', text: `Use ${apiKey}` }).reader
+		expect(await setup.getSessionContext('Notes/Setup.md')).toMatchObject({ currentNote: 'Notes/Setup.md', selection: 'Use [REDACTED API key]' })
+
+		const server = createReader('redact').reader
+		expect((await server.getSessionContext('Notes/Server.md'))?.properties).toEqual({ host: 'example.com', password: '[REDACTED password in frontmatter]' })
+
+		const ask = createReader('ask', { path: 'Notes/Setup.md', text: `Use ${apiKey}` }).reader
+		expect(await ask.getSessionContext('Notes/Setup.md')).toMatchObject({ currentNote: 'Notes/Setup.md', selection: undefined })
+		expect(await ask.getSessionContext('Notes/Server.md')).toMatchObject({ currentNote: 'Notes/Server.md', properties: undefined })
+	})
+
+	it('should send nothing about a note the selected agent may not read', async () => {
+		const { reader, permissionManager } = createReader('redact', { path: 'Notes/Setup.md', text: 'Install the CLI' })
+		permissionManager.setAgentResolver(() => ({ agentId: 'gardener', scope: { allowedPaths: ['Notes/Tasks.md'] } }))
+
+		expect(await reader.getSessionContext('Notes/Setup.md')).toBeUndefined()
+		expect(await reader.getSessionContext('Notes/Tasks.md')).toMatchObject({ currentNote: 'Notes/Tasks.md' })
+	})
+})
+
+describe('VaultReader permission policy', () => {
+	it('should apply the tool and agent sections of the policy to the notes search_vault and query_notes return', async () => {
+		const { reader, permissionManager, vault } = createReader('redact')
+		const policy = { tools: { 'obsidian.search_vault': [{ effect: 'deny', paths: ['Notes/Setup.md'] }] }, agents: { writer: [{ effect: 'deny', paths: ['Notes/Tasks.md'] }] } }
+		Object.assign(vault.adapter, {
+			stat: vi.fn(async (path: string) => (path === '.opencode/permissions.json' ? { mtime: 1 } : null)),
+			read: vi.fn(async () => JSON.stringify(policy))
+		})
+		permissionManager.setAgentResolver(sessionId => (sessionId === 'session-1' ? { agentId: 'writer' } : undefined))
+
+		expect((await reader.searchVault(ObsidianSearchVaultSchema.parse({ query: 'setup' }))).results).toEqual([])
+		const query = ObsidianQueryNotesSchema.parse({})
+		expect((await reader.queryNotes(query)).files.map(file => file.path)).toContain('Notes/Tasks.md')
+		const paths = (await reader.queryNotes(query, 'session-1')).files.map(file => file.path)
+		expect(paths).toContain('Notes/Setup.md')
+		expect(paths).not.toContain('Notes/Tasks.md')
+	})
+})
+
+describe('VaultReader search', () => {
+	it('should check the policy once and stop reading notes once it has enough results', async () => {
+		const roadmaps = ['Projects/a.md', 'Private/plan.md', 'Projects/b.md', 'Projects/c.md', 'Projects/d.md']
+		const files = new Map(roadmaps.map(path => [path, file(path)]))
+		const vault = {
+			getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+			getMarkdownFiles: () => [...files.values()],
+			cachedRead: vi.fn(async (target: TFile) => `# Roadmap\nThe roadmap for ${target.path}`),
+			adapter: { stat: vi.fn().mockResolvedValue(null) }
+		} as unknown as Vault
+		const permissionManager = new PermissionManager(vault, ToolPermission.ReadOnly, { deniedPaths: ['Private/**'] })
+		const refreshPolicy = vi.spyOn(permissionManager, 'refreshPolicy')
+		const canRead = vi.spyOn(permissionManager, 'canRead')
+		const auditLogger = { log: vi.fn().mockResolvedValue(undefined) }
+		const reader = new VaultReader(
+			vault, {} as App, {} as MetadataCache, permissionManager, auditLogger as unknown as AuditLogger, new VaultSearchIndex(vault)
+		)
+
+		const { results, totalMatches } = await reader.searchVault(ObsidianSearchVaultSchema.parse({ query: 'roadmap', limit: 2 }))
+
+		expect(results).toHaveLength(2)
+		expect(results.map(result => result.path)).not.toContain('Private/plan.md')
+		expect(totalMatches).toBe(4)
+		expect(refreshPolicy).toHaveBeenCalledTimes(1)
+		expect(canRead).not.toHaveBeenCalled()
+		// The index reads every note once; after that only the two results are read
+		expect(vault.cachedRead).toHaveBeenCalledTimes(roadmaps.length + 2)
+	})
+})
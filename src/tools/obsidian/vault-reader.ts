@@ -1,18 +1,55 @@
 import type { App, Vault, MetadataCache, TAbstractFile, TFile, TFolder } from 'obsidian'
-import { TFile as TFileClass } from 'obsidian'
+import { TFile as TFileClass, arrayBufferToBase64, getAllTags, moment } from 'obsidian'
 import { PermissionManager } from './permission-manager'
 import { AuditLogger } from './audit-logger'
+import { getLineNumber, resolveSection } from './section-resolver'
+import { buildSnippets, parseSearchQuery } from './search-index'
+import { compareNotesBy, evaluateNoteQuery, parseDateRange, parseNoteQuery, type NoteQueryContext, type QueryNode } from './note-query'
+import { LinkGraph } from './link-graph'
+import { parseCanvas, summarizeCanvas } from './canvas-editor'
+import { resolvePeriodicNote } from './periodic-notes'
+import { findTemplateVariables, readTemplateSettings } from './note-template'
+import { readActiveContext, revealNote } from './workspace-context'
+import { getMimeType, isImageExtension } from './attachments'
+import { splitLinkTarget } from './link-rewriter'
+import { parseTaskLine, TASK_PRIORITY_ORDER, type ParsedTask } from './task-parser'
+import type { VaultSearchIndex } from './vault-search-index'
+import { PermissionPendingError } from './permission-types'
+import { describeSecretFindings, describeSecretKinds, findSecretProperties, isPrivateNote, redactSecretProperties, redactSecrets, type SecretKind } from './secret-scanner'
 import type {
 	ObsidianSearchVaultInput,
 	ObsidianSearchVaultOutput,
 	ObsidianReadNoteInput,
 	ObsidianReadNoteOutput,
+	ObsidianReadSectionInput,
+	ObsidianReadSectionOutput,
 	ObsidianListNotesInput,
 	ObsidianListNotesOutput,
+	ObsidianQueryNotesInput,
+	ObsidianQueryNotesOutput,
+	ObsidianGraphInput,
+	ObsidianGraphOutput,
+	ObsidianReadCanvasInput,
+	ObsidianReadCanvasOutput,
+	ObsidianGetPeriodicNoteInput,
+	ObsidianGetPeriodicNoteOutput,
+	ObsidianListTemplatesInput,
+	ObsidianListTemplatesOutput,
+	ObsidianGetActiveContextInput,
+	ObsidianGetActiveContextOutput,
+	ObsidianOpenNoteInput,
+	ObsidianOpenNoteOutput,
+	ObsidianListAttachmentsInput,
+	ObsidianListAttachmentsOutput,
+	ObsidianReadAttachmentInput,
+	ObsidianReadAttachmentOutput,
+	ObsidianListTasksInput,
+	ObsidianListTasksOutput,
 	ObsidianGetNoteMetadataInput,
 	ObsidianGetNoteMetadataOutput,
 	AuditLogEntry
 } from './types'
+import type { SessionContext } from '../../client/types'
 
 /**
  * Type guard to check if abstract file is a TFile
@@ -38,25 +75,51 @@ export class VaultReader {
 	private metadataCache: MetadataCache
 	private permissionManager: PermissionManager
 	private auditLogger: AuditLogger
+	private searchIndex: VaultSearchIndex
 
 	constructor(
 		vault: Vault,
 		app: App,
 		metadataCache: MetadataCache,
 		permissionManager: PermissionManager,
-		auditLogger: AuditLogger
+		auditLogger: AuditLogger,
+		searchIndex: VaultSearchIndex
 	) {
 		this.vault = vault
 		this.app = app
 		this.metadataCache = metadataCache
 		this.permissionManager = permissionManager
 		this.auditLogger = auditLogger
+		this.searchIndex = searchIndex
 	}
 
 	private generateLogId(): string {
 		return `log_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
 	}
 
+	/**
+	 * Create a check for the notes a listing, search or query call returns
+	 * The checks before a call only cover the paths in its input, so every note it finds is checked here against the
+	 * permission scope, the profile of the session's agent and the policy's sections for the tool and agent.
+	 * The policy is reloaded once for the whole call.
+	 */
+	private async createReadFilter(toolName: string, sessionId?: string): Promise<(path: string) => boolean> {
+		await this.permissionManager.refreshPolicy()
+		const agent = this.permissionManager.getAgentProfile(sessionId)
+		const hasPolicy = this.permissionManager.hasPolicy()
+		const readable = new Map<string, boolean>()
+		return path => {
+			let allowed = readable.get(path)
+			if (allowed === undefined) {
+				allowed = this.permissionManager.checkRead(path).allowed
+					&& (!agent || this.permissionManager.checkAgentProfile(agent, path, 'read').allowed)
+					&& (!hasPolicy || this.permissionManager.checkPolicy(path, 'read', { toolName, agentId: agent?.agentId }).allowed)
+				readable.set(path, allowed)
+			}
+			return allowed
+		}
+	}
+
 	private getBacklinks(file: TFile): string[] {
 		const allFiles = this.vault.getMarkdownFiles()
 		const backlinks: string[] = []
@@ -90,7 +153,8 @@ export class VaultReader {
 		operation: 'read',
 		output?: unknown,
 		error?: Error,
-		affectedPath?: string
+		affectedPath?: string,
+		secrets?: SecretKind[]
 	): Promise<void> {
 		const logEntry: AuditLogEntry = {
 			id: this.generateLogId(),
@@ -107,7 +171,8 @@ export class VaultReader {
 			approved: undefined,
 			dryRun: false,
 			affectedPath,
-			duration: Date.now() - startTime
+			duration: Date.now() - startTime,
+			secrets: secrets?.length ? secrets : undefined
 		}
 
 		await this.auditLogger.log(logEntry)
@@ -119,15 +184,20 @@ export class VaultReader {
 		callId: string,
 		input: unknown,
 		affectedPath: string | undefined,
-		executeFn: () => Promise<T>
+		executeFn: () => Promise<T>,
+		secrets?: Set<SecretKind>
 	): Promise<T> {
 		const startTime = Date.now()
 		
 		try {
 			const result = await executeFn()
-			await this.createAuditLog(toolName, sessionId, callId, input, startTime, 'read', result, undefined, affectedPath)
+			await this.createAuditLog(toolName, sessionId, callId, input, startTime, 'read', result, undefined, affectedPath, secrets && [...secrets])
 			return result
 		} catch (error) {
+			// A read waiting for approval is logged when it runs
+			if (error instanceof PermissionPendingError) {
+				throw error
+			}
 			await this.createAuditLog(
 				toolName,
 				sessionId,
@@ -137,21 +207,118 @@ export class VaultReader {
 				'read',
 				undefined,
 				error instanceof Error ? error : new Error(String(error)),
-				affectedPath
+				affectedPath,
+				secrets && [...secrets]
 			)
 			throw error
 		}
 	}
 
+	/**
+	 * Apply the secret handling setting to note content about to be returned to the model
+	 * Adds the kinds of secrets found to found, for the audit log.
+	 * @throws Error if the setting blocks the read, PermissionPendingError if it asks first and the call is not approved
+	 */
+	screenSecrets(path: string, content: string, approved: boolean, found: Set<SecretKind>): string {
+		const result = this.permissionManager.checkSecrets(path, content)
+		if (!result.secrets) {
+			return content
+		}
+		result.findings.forEach(finding => found.add(finding.kind))
+
+		if (!result.allowed) {
+			throw new Error(`Permission denied: ${result.reason}`)
+		}
+		if (this.permissionManager.getSecretHandling() === 'ask') {
+			if (!approved) {
+				throw new PermissionPendingError(`${path} contains ${describeSecretFindings(result.findings)}; sending it to the model requires approval`)
+			}
+			return content
+		}
+		return redactSecrets(content, result.findings)
+	}
+
+	/**
+	 * Apply the secret handling setting to part of a note (a section, a task, a selection, a canvas card)
+	 * The part is scanned on its own, except that a note tagged #private withholds every part of it.
+	 * @throws like screenSecrets
+	 */
+	screenExcerpt(path: string, content: string, excerpt: string, approved: boolean, found: Set<SecretKind>): string {
+		if (isPrivateNote(content)) {
+			const screened = this.screenSecrets(path, content, approved, found)
+			return screened === content ? excerpt : screened
+		}
+		return this.screenSecrets(path, excerpt, approved, found)
+	}
+
+	/**
+	 * Apply the secret handling setting to note properties about to be returned to the model
+	 * @throws like screenSecrets
+	 */
+	screenProperties(path: string, properties: Record<string, unknown>, approved: boolean, found: Set<SecretKind>): Record<string, unknown> {
+		const kinds = findSecretProperties(properties)
+		if (kinds.length === 0) {
+			return properties
+		}
+		kinds.forEach(kind => found.add(kind))
+
+		switch (this.permissionManager.getSecretHandling()) {
+			case 'block':
+				throw new Error(`Permission denied: the properties of '${path}' contain secrets (${describeSecretKinds(kinds)})`)
+			case 'ask':
+				if (!approved) {
+					throw new PermissionPendingError(`The properties of ${path} contain ${describeSecretKinds(kinds)}; sending them to the model requires approval`)
+				}
+				return properties
+			default:
+				return redactSecretProperties(properties)
+		}
+	}
+
+	/**
+	 * Evaluate a query_notes filter for a note without letting secret property values decide the result
+	 * Secret values are redacted before matching; only if that changes the result does the secret handling setting
+	 * come into play (asking first, or matching as if the values were not there).
+	 * @throws PermissionPendingError if the setting asks first and the call is not approved
+	 */
+	private matchesQuery(
+		query: QueryNode | null,
+		context: NoteQueryContext,
+		now: number,
+		approved: boolean,
+		found: Set<SecretKind>
+	): boolean {
+		const matches = evaluateNoteQuery(query, context, now)
+		const kinds = findSecretProperties(context.frontmatter)
+		if (kinds.length === 0) {
+			return matches
+		}
+		const screened = evaluateNoteQuery(query, { ...context, frontmatter: redactSecretProperties(context.frontmatter) }, now)
+		if (screened === matches) {
+			return matches
+		}
+		kinds.forEach(kind => found.add(kind))
+		if (this.permissionManager.getSecretHandling() === 'ask') {
+			if (!approved) {
+				throw new PermissionPendingError(`The query matches on ${describeSecretKinds(kinds)} in the properties of ${context.path}; that requires approval`)
+			}
+			return matches
+		}
+		return screened
+	}
+
 	/**
 	 * Search vault for notes matching query
+	 * Snippets that would show secrets are redacted, left out or confirmed first, depending on the secret handling setting.
 	 */
 	async searchVault(
 		input: ObsidianSearchVaultInput,
 		sessionId?: string,
-		callId?: string
+		callId?: string,
+		approved: boolean = false
 	): Promise<ObsidianSearchVaultOutput> {
 		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
 		
 		return this.executeWithAuditLog(
 			'obsidian.search_vault',
@@ -160,68 +327,72 @@ export class VaultReader {
 			input,
 			undefined, // No specific affected path for search
 			async () => {
-				const allFiles = this.vault.getMarkdownFiles()
-				const queryLower = input.query.toLowerCase()
-				const results: Array<{ path: string; title: string; content?: string; matchCount: number }> = []
-				
-				for (const file of allFiles) {
-					const pathMatch = file.path.toLowerCase().includes(queryLower) || 
-													 file.basename.toLowerCase().includes(queryLower)
-					
-					if (pathMatch) {
-						let content: string | undefined
-						let matchCount = 0
-						
-						if (input.includeContent || !pathMatch) {
-							try {
-								const fileContent = await this.vault.read(file)
-								const contentMatch = fileContent.toLowerCase().includes(queryLower)
-								
-								if (contentMatch || pathMatch) {
-									content = input.includeContent ? fileContent : undefined
-									const regex = new RegExp(queryLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')
-									const matches = fileContent.match(regex)
-									matchCount = matches ? matches.length : (pathMatch ? 1 : 0)
-									
-									if (input.includeContent && content) {
-										const firstMatch = fileContent.toLowerCase().indexOf(queryLower)
-										if (firstMatch >= 0) {
-											const start = Math.max(0, firstMatch - 50)
-											const end = Math.min(content.length, firstMatch + queryLower.length + 50)
-											content = `...${content.substring(start, end)}...`
-										}
-									}
-								}
-							} catch {
-								continue
-							}
-						} else if (pathMatch) {
-							matchCount = 1
-						}
-						
-						if (matchCount > 0) {
-							results.push({ path: file.path, title: file.basename, content, matchCount })
+				const clauses = parseSearchQuery(input.query)
+				const hits = await this.searchIndex.search(clauses)
+				const limit = input.limit || 20
+
+				// Only report notes the permission scope and the agent's profile let it read
+				const canRead = await this.createReadFilter('obsidian.search_vault', sessionId)
+				const results = []
+				let totalMatches = 0
+				for (const hit of hits) {
+					if (!canRead(hit.path)) {
+						continue
+					}
+					totalMatches++
+					// Past the limit, readable hits are only counted
+					if (results.length >= limit) {
+						continue
+					}
+
+					const file = this.vault.getAbstractFileByPath(hit.path)
+					if (!isTFile(file)) {
+						continue
+					}
+					const content = await this.vault.cachedRead(file)
+					let snippets = buildSnippets(content, clauses, input.maxSnippets ?? 3)
+
+					// Only secrets on the lines the snippets show would leave the vault
+					const { findings } = this.permissionManager.checkSecrets(file.path, content)
+					const shown = findings.filter(finding =>
+						snippets.some(snippet => snippet.line >= finding.line && snippet.line <= finding.endLine)
+					)
+					if (shown.length > 0) {
+						if (this.permissionManager.getSecretHandling() === 'block') {
+							shown.forEach(finding => secrets.add(finding.kind))
+							continue
 						}
+						snippets = buildSnippets(this.screenSecrets(file.path, content, approved, secrets), clauses, input.maxSnippets ?? 3)
 					}
+
+					results.push({
+						path: file.path,
+						title: file.basename,
+						content: input.includeContent ? snippets.map(snippet => snippet.text).join('\n') : undefined,
+						matchCount: hit.matchCount,
+						score: Math.round(hit.score * 1000) / 1000,
+						snippets
+					})
 				}
-				
-				results.sort((a, b) => b.matchCount - a.matchCount)
-				const limitedResults = results.slice(0, input.limit || 20)
-				
-				return { results: limitedResults, totalMatches: results.length }
-			}
+
+				return { results, totalMatches }
+			},
+			secrets
 		)
 	}
 
 	/**
 	 * Read a note file
+	 * Secrets in the note are redacted, blocked or confirmed first, depending on the secret handling setting.
 	 */
 	async readNote(
 		input: ObsidianReadNoteInput,
 		sessionId?: string,
-		callId?: string
+		callId?: string,
+		approved: boolean = false
 	): Promise<ObsidianReadNoteOutput> {
 		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
 		
 		return this.executeWithAuditLog(
 			'obsidian.read_note',
@@ -242,8 +413,56 @@ export class VaultReader {
 				}
 
 				const content = await this.vault.read(file)
-				return { path: input.path, content, exists: true }
-			}
+				return { path: input.path, content: this.screenSecrets(input.path, content, approved, secrets), exists: true }
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * Read a single section of a note by heading path or block reference
+	 * Secrets in the section are redacted, blocked or confirmed first, depending on the secret handling setting.
+	 */
+	async readSection(
+		input: ObsidianReadSectionInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianReadSectionOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+
+		return this.executeWithAuditLog(
+			'obsidian.read_section',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.path,
+			async () => {
+				const permission = await this.permissionManager.canRead(input.path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const file = this.vault.getAbstractFileByPath(input.path)
+				if (!isTFile(file)) {
+					throw new Error(`File not found: ${input.path}`)
+				}
+
+				const content = await this.vault.read(file)
+				const range = resolveSection(content, this.metadataCache.getFileCache(file), input.target)
+				const start = (input.includeHeading ?? true) ? range.start : range.bodyStart
+				const sectionContent = content.slice(start, range.end).replace(/\s+$/, '')
+
+				return {
+					path: input.path,
+					target: input.target,
+					content: this.screenExcerpt(input.path, content, sectionContent, approved, secrets),
+					startLine: getLineNumber(content, start),
+					endLine: getLineNumber(content, start + sectionContent.length)
+				}
+			},
+			secrets
 		)
 	}
 
@@ -272,11 +491,15 @@ export class VaultReader {
 				}
 
 				const files: Array<{ path: string; isFolder?: boolean; size?: number; modified?: number }> = []
+				const canRead = await this.createReadFilter('obsidian.list_notes', sessionId)
 				
 				const collectFiles = (folder: TFolder | null, recursive: boolean) => {
 					const targetFolder = folder || this.vault.getRoot()
 					
 					for (const child of targetFolder.children) {
+						if (isTFile(child) && !canRead(child.path)) {
+							continue
+						}
 						if (isTFile(child)) {
 							files.push({ path: child.path, size: child.stat.size, modified: child.stat.mtime })
 						} else if (isTFolder(child) && input.includeFolders) {
@@ -298,15 +521,682 @@ export class VaultReader {
 		)
 	}
 
+	/**
+	 * Find notes matching a filter expression over tags, properties, links and dates
+	 */
+	async queryNotes(
+		input: ObsidianQueryNotesInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianQueryNotesOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+
+		return this.executeWithAuditLog(
+			'obsidian.query_notes',
+			sessionId,
+			effectiveCallId,
+			input,
+			undefined, // No specific affected path for queries
+			async () => {
+				const query = this.parseQuery(input.query)
+				const createContext = this.createNoteQueryContextFactory()
+
+				const canRead = await this.createReadFilter('obsidian.query_notes', sessionId)
+
+				const now = Date.now()
+				const matches: Array<{ file: TFile; context: NoteQueryContext }> = []
+				for (const file of this.vault.getMarkdownFiles()) {
+					if (!canRead(file.path)) {
+						continue
+					}
+					const context = createContext(file)
+					if (this.matchesQuery(query, context, now, approved, secrets)) {
+						matches.push({ file, context })
+					}
+				}
+
+				const sortBy = input.sortBy || 'file.path'
+				const order = input.order ?? 'asc'
+				matches.sort((a, b) => compareNotesBy(a.context, b.context, sortBy, order))
+
+				const offset = input.offset ?? 0
+				const files = matches
+					.slice(offset, offset + (input.limit || 50))
+					.map(({ file }) => ({ path: file.path, size: file.stat.size, modified: file.stat.mtime }))
+
+				return { files, totalCount: matches.length }
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * Parse a query_notes filter expression
+	 */
+	private parseQuery(query: string | undefined): QueryNode | null {
+		try {
+			return parseNoteQuery(query ?? '')
+		} catch (error) {
+			throw new Error(`Invalid query: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+
+	/**
+	 * Create a function that describes notes for query evaluation
+	 * The resolved link map is reversed once instead of being scanned per note.
+	 */
+	private createNoteQueryContextFactory(): (file: TFile) => NoteQueryContext {
+		const resolvedLinks = this.metadataCache.resolvedLinks ?? {}
+		const unresolvedLinks = this.metadataCache.unresolvedLinks ?? {}
+		const backlinks = new Map<string, string[]>()
+		for (const [source, targets] of Object.entries(resolvedLinks)) {
+			for (const target of Object.keys(targets)) {
+				const sources = backlinks.get(target)
+				if (sources) {
+					sources.push(source)
+				} else {
+					backlinks.set(target, [source])
+				}
+			}
+		}
+
+		return file => {
+			const cache = this.metadataCache.getFileCache(file)
+			return {
+				path: file.path,
+				name: file.basename,
+				tags: ((cache ? getAllTags(cache) : null) ?? []).map(tag => tag.replace(/^#/, '')),
+				frontmatter: cache?.frontmatter ?? {},
+				outlinks: [...Object.keys(resolvedLinks[file.path] ?? {}), ...Object.keys(unresolvedLinks[file.path] ?? {})],
+				backlinks: backlinks.get(file.path) ?? [],
+				mtime: file.stat.mtime,
+				ctime: file.stat.ctime,
+				size: file.stat.size
+			}
+		}
+	}
+
+	/**
+	 * List checkbox tasks in notes, using the metadata cache to skip notes without tasks
+	 * Tasks showing secrets are redacted, left out or confirmed first, depending on the secret handling setting.
+	 */
+	async listTasks(
+		input: ObsidianListTasksInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianListTasksOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+
+		return this.executeWithAuditLog(
+			'obsidian.list_tasks',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.folder,
+			async () => {
+				const query = this.parseQuery(input.query)
+				const createContext = query ? this.createNoteQueryContextFactory() : null
+				const now = Date.now()
+				const parseDate = (value: string) => {
+					const range = parseDateRange(value, now)
+					if (!range) {
+						throw new Error(`Invalid date "${value}". Use YYYY-MM-DD, today, tomorrow, this-week or an offset like +7d.`)
+					}
+					return range
+				}
+				const dueBefore = input.dueBefore ? parseDate(input.dueBefore)[1] : undefined
+				const dueAfter = input.dueAfter ? parseDate(input.dueAfter)[0] : undefined
+				const maxPriorityRank = input.minPriority ? TASK_PRIORITY_ORDER.indexOf(input.minPriority) : undefined
+				const status = input.status ?? 'open'
+				const folderPrefix = input.folder ? `${input.folder.replace(/^\/+|\/+$/g, '')}/` : ''
+
+				const matchesFilters = (task: ParsedTask) => {
+					const statusMatches = status === 'all'
+						|| (status === 'open' ? task.status === 'open' || task.status === 'in_progress' : task.status === status)
+					if (!statusMatches) {
+						return false
+					}
+					if (maxPriorityRank !== undefined && TASK_PRIORITY_ORDER.indexOf(task.priority) > maxPriorityRank) {
+						return false
+					}
+					if (dueBefore === undefined && dueAfter === undefined) {
+						return true
+					}
+					const due = task.due ? parseDateRange(task.due, now)?.[0] : undefined
+					return due !== undefined && (dueBefore === undefined || due < dueBefore) && (dueAfter === undefined || due >= dueAfter)
+				}
+
+				const canRead = await this.createReadFilter('obsidian.list_tasks', sessionId)
+				const tasks: ObsidianListTasksOutput['tasks'] = []
+				const files = this.vault.getMarkdownFiles()
+					.filter(file => !folderPrefix || file.path.startsWith(folderPrefix))
+					.sort((a, b) => a.path.localeCompare(b.path))
+				for (const file of files) {
+					const taskItems = this.metadataCache.getFileCache(file)?.listItems?.filter(item => item.task !== undefined) ?? []
+					if (taskItems.length === 0 || !canRead(file.path)) {
+						continue
+					}
+					if (query && createContext && !this.matchesQuery(query, createContext(file), now, approved, secrets)) {
+						continue
+					}
+
+					const content = await this.vault.cachedRead(file)
+					const lines = content.split('\n')
+					for (const item of taskItems) {
+						const line = item.position.start.line
+						const raw = (lines[line] ?? '').replace(/\r$/, '')
+						let task = parseTaskLine(raw)
+						if (task && matchesFilters(task)) {
+							try {
+								task = parseTaskLine(this.screenExcerpt(file.path, content, raw, approved, secrets))
+							} catch (error) {
+								if (error instanceof PermissionPendingError) {
+									throw error
+								}
+								// Blocked by the secret handling setting: leave the task out, like search leaves out the note
+								continue
+							}
+							if (!task) {
+								continue
+							}
+							tasks.push({
+								path: file.path,
+								line: line + 1,
+								status: task.status,
+								symbol: task.symbol,
+								text: task.text,
+								description: task.description,
+								priority: task.priority,
+								due: task.due,
+								scheduled: task.scheduled,
+								start: task.start,
+								done: task.done,
+								recurrence: task.recurrence,
+								tags: task.tags
+							})
+						}
+					}
+				}
+
+				const byDue = (a: { due?: string }, b: { due?: string }) =>
+					a.due === b.due ? 0 : !a.due ? 1 : !b.due ? -1 : a.due.localeCompare(b.due)
+				if (input.sortBy === 'due') {
+					tasks.sort(byDue)
+				} else if (input.sortBy === 'priority') {
+					tasks.sort((a, b) => TASK_PRIORITY_ORDER.indexOf(a.priority) - TASK_PRIORITY_ORDER.indexOf(b.priority) || byDue(a, b))
+				}
+
+				const limit = input.limit ?? 100
+				return { tasks: tasks.slice(0, limit), totalCount: tasks.length, truncated: tasks.length > limit }
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * Explore the link graph: neighborhoods, shortest paths, orphans and hubs
+	 * Notes outside the read scope are left out of the graph entirely.
+	 */
+	async graph(
+		input: ObsidianGraphInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianGraphOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+		return this.executeWithAuditLog(
+			'obsidian.graph',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.path,
+			async () => {
+				const notes = this.vault.getMarkdownFiles().map(file => file.path)
+				const canRead = await this.createReadFilter('obsidian.graph', sessionId)
+				const hidden = new Set(notes.filter(path => !canRead(path)))
+
+				const graph = new LinkGraph(
+					{
+						resolvedLinks: this.metadataCache.resolvedLinks ?? {},
+						unresolvedLinks: this.metadataCache.unresolvedLinks ?? {}
+					},
+					{ notes, includeUnresolved: input.includeUnresolved, isHidden: path => hidden.has(path) }
+				)
+				const limit = input.limit || 50
+				const direction = input.direction ?? 'both'
+
+				const resolveNode = (ref: string | undefined, name: string): string => {
+					if (!ref) {
+						throw new Error(`${name} is required for operation ${input.operation}`)
+					}
+					const linkpath = ref.replace(/^\[\[|\]\]$/g, '').split('|')[0]?.split('#')[0]?.trim() ?? ''
+					const direct = this.vault.getAbstractFileByPath(linkpath)
+					const path = isTFile(direct) ? direct.path : this.metadataCache.getFirstLinkpathDest(linkpath, '')?.path
+					if (path && hidden.has(path)) {
+						throw new Error(`Permission denied: ${path} is outside the readable scope`)
+					}
+					if (path && graph.has(path)) {
+						return path
+					}
+					// Links to notes that do not exist yet are nodes when includeUnresolved is set
+					if (graph.has(linkpath)) {
+						return linkpath
+					}
+					throw new Error(`File not found: ${ref}`)
+				}
+
+				switch (input.operation) {
+					case 'neighborhood': {
+						const start = resolveNode(input.path, 'path')
+						const { nodes, edges, truncated } = graph.neighborhood(start, input.depth ?? 1, direction, limit)
+						return { operation: input.operation, nodes, edges, truncated, totalCount: nodes.length }
+					}
+					case 'path': {
+						const from = resolveNode(input.path, 'path')
+						const to = resolveNode(input.target, 'target')
+						const path = graph.shortestPath(from, to, direction)
+						if (!path) {
+							return { operation: input.operation, nodes: [], edges: [], found: false, truncated: false, totalCount: 0 }
+						}
+						return {
+							operation: input.operation,
+							nodes: path.map((node, index) => graph.getNode(node, index)),
+							edges: graph.pathEdges(path),
+							found: true,
+							truncated: false,
+							totalCount: path.length
+						}
+					}
+					case 'orphans':
+					case 'hubs': {
+						const folder = (input.folder ?? '').replace(/^\/+|\/+$/g, '')
+						const include = (path: string) => !folder || path.startsWith(`${folder}/`)
+						const matches = input.operation === 'orphans' ? graph.orphans(include) : graph.hubs(include)
+						return {
+							operation: input.operation,
+							nodes: matches.slice(0, limit),
+							truncated: matches.length > limit,
+							totalCount: matches.length
+						}
+					}
+				}
+			}
+		)
+	}
+
+	/**
+	 * Read a JSON Canvas file as typed nodes and edges
+	 * Secrets in text cards and links are redacted, blocked or confirmed first, depending on the secret handling setting.
+	 */
+	async readCanvas(
+		input: ObsidianReadCanvasInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianReadCanvasOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+
+		return this.executeWithAuditLog(
+			'obsidian.read_canvas',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.path,
+			async () => {
+				const permission = await this.permissionManager.canRead(input.path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const file = this.vault.getAbstractFileByPath(input.path)
+				if (!isTFile(file)) {
+					throw new Error(`File not found: ${input.path}`)
+				}
+				if (file.extension !== 'canvas') {
+					throw new Error(`Not a canvas file: ${input.path}`)
+				}
+
+				const content = await this.vault.read(file)
+				const parsed = parseCanvas(content)
+				const canvas = {
+					...parsed,
+					nodes: parsed.nodes.map(node => node.type === 'text'
+						? { ...node, text: this.screenExcerpt(input.path, content, node.text, approved, secrets) }
+						: node.type === 'link'
+							? { ...node, url: this.screenExcerpt(input.path, content, node.url, approved, secrets) }
+							: node)
+				}
+				return { path: input.path, nodes: canvas.nodes, edges: canvas.edges, summary: summarizeCanvas(canvas) }
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * Find the daily, weekly or monthly note for a date
+	 * Secrets in the note are redacted, blocked or confirmed first, depending on the secret handling setting.
+	 */
+	async getPeriodicNote(
+		input: ObsidianGetPeriodicNoteInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianGetPeriodicNoteOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+		const period = input.period ?? 'daily'
+		const { path, date, settings } = resolvePeriodicNote(this.app, period, input.date ?? 'today')
+
+		return this.executeWithAuditLog(
+			'obsidian.get_periodic_note',
+			sessionId,
+			effectiveCallId,
+			input,
+			path,
+			async () => {
+				const permission = await this.permissionManager.canRead(path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const file = this.vault.getAbstractFileByPath(path)
+				const exists = isTFile(file)
+				const content = exists && (input.includeContent ?? true) ? await this.vault.read(file) : undefined
+				return {
+					path,
+					period,
+					date: moment(date).format('YYYY-MM-DD'),
+					exists,
+					content: content !== undefined ? this.screenSecrets(path, content, approved, secrets) : undefined,
+					settings
+				}
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * List templates in the configured templates folder
+	 * Template content showing secrets is redacted, left out or confirmed first, depending on the secret handling setting.
+	 */
+	async listTemplates(
+		input: ObsidianListTemplatesInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianListTemplatesOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+
+		return this.executeWithAuditLog(
+			'obsidian.list_templates',
+			sessionId,
+			effectiveCallId,
+			input,
+			undefined, // No specific affected path for listing
+			async () => {
+				const settings = readTemplateSettings(this.app)
+				const prefix = settings.folder ? `${settings.folder}/` : null
+				const templates: ObsidianListTemplatesOutput['templates'] = []
+
+				const canRead = await this.createReadFilter('obsidian.list_templates', sessionId)
+				const files = prefix ? this.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix) && canRead(file.path)) : []
+				files.sort((a, b) => a.path.localeCompare(b.path))
+				for (const file of files) {
+					const content = await this.vault.cachedRead(file)
+					let screened: string | undefined
+					if (input.includeContent) {
+						try {
+							screened = this.screenSecrets(file.path, content, approved, secrets)
+						} catch (error) {
+							if (error instanceof PermissionPendingError) {
+								throw error
+							}
+							// Blocked by the secret handling setting: leave the template out, like search leaves out the note
+							continue
+						}
+					}
+					templates.push({
+						path: file.path,
+						name: file.path.slice(prefix?.length ?? 0).replace(/\.md$/, ''),
+						variables: findTemplateVariables(content),
+						content: screened
+					})
+				}
+
+				return { folder: settings.folder, source: settings.source, templates }
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * Get the note the user is working in, with cursor and selection, plus open tabs and recent files
+	 * Files the agent may not read are left out. Secrets in the selection are redacted, blocked or confirmed first,
+	 * depending on the secret handling setting.
+	 */
+	async getActiveContext(
+		input: ObsidianGetActiveContextInput,
+		sessionId?: string,
+		callId?: string,
+		approved: boolean = false
+	): Promise<ObsidianGetActiveContextOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
+
+		return this.executeWithAuditLog(
+			'obsidian.get_active_context',
+			sessionId,
+			effectiveCallId,
+			input,
+			undefined, // Reads workspace state rather than a specific file
+			async () => {
+				const context = readActiveContext(this.app, { recentLimit: input.recentLimit ?? 10 })
+				const canRead = await this.createReadFilter('obsidian.get_active_context', sessionId)
+				const openTabs = context.openTabs.filter(tab => canRead(tab.path))
+				const recentFiles = context.recentFiles.filter(path => canRead(path))
+
+				if (!context.activeFile || !canRead(context.activeFile)) {
+					return { activeFile: null, openTabs, recentFiles }
+				}
+
+				let selection = (input.includeSelection ?? true) ? context.selection : undefined
+				if (selection) {
+					const file = this.vault.getAbstractFileByPath(context.activeFile)
+					const content = isTFile(file) ? await this.vault.cachedRead(file) : selection.text
+					selection = { ...selection, text: this.screenExcerpt(context.activeFile, content, selection.text, approved, secrets) }
+				}
+				return { ...context, selection, openTabs, recentFiles }
+			},
+			secrets
+		)
+	}
+
+	/**
+	 * Describe the note the user is working in for a new session: path, selected text, links, tags and properties
+	 * Sent with the prompt rather than by a tool call, so it gets the checks get_active_context applies to the
+	 * selected agent. Nothing is sent for a note that agent may not read; a selection or properties holding secrets
+	 * are redacted, or left out when secret handling blocks them or asks first (there is no call to approve).
+	 */
+	async getSessionContext(path: string): Promise<SessionContext | undefined> {
+		const file = this.vault.getAbstractFileByPath(path)
+		const canRead = await this.createReadFilter('obsidian.get_active_context')
+		if (!isTFile(file) || !canRead(file.path)) {
+			return undefined
+		}
+
+		const content = await this.vault.cachedRead(file)
+		const cache = this.metadataCache.getFileCache(file)
+		const { activeFile, selection } = readActiveContext(this.app, { recentLimit: 0 })
+		const withhold = <T>(screen: () => T): T | undefined => {
+			try {
+				return screen()
+			} catch {
+				return undefined
+			}
+		}
+		const found = new Set<SecretKind>()
+
+		return {
+			currentNote: file.path,
+			selection: selection && activeFile === file.path
+				? withhold(() => this.screenExcerpt(file.path, content, selection.text, false, found))
+				: undefined,
+			links: cache?.links?.map(link => link.link),
+			tags: cache?.tags?.map(tag => tag.tag),
+			properties: cache?.frontmatter
+				? withhold(() => this.screenProperties(file.path, cache.frontmatter ?? {}, false, found))
+				: undefined
+		}
+	}
+
+	/**
+	 * Open a note in the editor, optionally at a line
+	 */
+	async openNote(
+		input: ObsidianOpenNoteInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianOpenNoteOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+		return this.executeWithAuditLog(
+			'obsidian.open_note',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.path,
+			async () => {
+				const permission = await this.permissionManager.canRead(input.path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const file = this.vault.getAbstractFileByPath(input.path)
+				if (!isTFile(file)) {
+					throw new Error(`File not found: ${input.path}`)
+				}
+
+				const line = await revealNote(this.app, file, { line: input.line, newTab: input.newTab ?? false })
+				return { path: file.path, opened: true, line }
+			}
+		)
+	}
+
+	/**
+	 * List the files embedded in a note (embedded notes are skipped)
+	 */
+	async listAttachments(
+		input: ObsidianListAttachmentsInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianListAttachmentsOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+		return this.executeWithAuditLog(
+			'obsidian.list_attachments',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.path,
+			async () => {
+				const permission = await this.permissionManager.canRead(input.path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const note = this.vault.getAbstractFileByPath(input.path)
+				if (!isTFile(note)) {
+					throw new Error(`File not found: ${input.path}`)
+				}
+
+				const canRead = await this.createReadFilter('obsidian.list_attachments', sessionId)
+				const attachments: ObsidianListAttachmentsOutput['attachments'] = []
+				const seen = new Set<string>()
+				for (const embed of this.metadataCache.getFileCache(note)?.embeds ?? []) {
+					const linkpath = splitLinkTarget(embed.link).path
+					const target = this.metadataCache.getFirstLinkpathDest(linkpath, note.path)
+					// Unresolved embeds without an extension are missing notes, not attachments
+					const extension = target ? target.extension : /\.([^./]+)$/.exec(linkpath)?.[1] ?? 'md'
+					const key = target?.path ?? linkpath
+					if (extension.toLowerCase() === 'md' || seen.has(key)) {
+						continue
+					}
+					if (target && (!canRead(target.path) || !(await this.permissionManager.canReadAttachment(target.path)).allowed)) {
+						continue
+					}
+					seen.add(key)
+					attachments.push({
+						link: embed.original,
+						path: target?.path ?? null,
+						mimeType: getMimeType(extension),
+						size: target?.stat.size,
+						isImage: isImageExtension(extension)
+					})
+				}
+
+				return { path: note.path, attachments }
+			}
+		)
+	}
+
+	/**
+	 * Read an image attachment as base64
+	 */
+	async readAttachment(
+		input: ObsidianReadAttachmentInput,
+		sessionId?: string,
+		callId?: string
+	): Promise<ObsidianReadAttachmentOutput> {
+		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+		return this.executeWithAuditLog(
+			'obsidian.read_attachment',
+			sessionId,
+			effectiveCallId,
+			input,
+			input.path,
+			async () => {
+				const permission = await this.permissionManager.canReadAttachment(input.path)
+				if (!permission.allowed) {
+					throw new Error(`Permission denied: ${permission.reason}`)
+				}
+
+				const file = this.vault.getAbstractFileByPath(input.path)
+				if (!isTFile(file)) {
+					throw new Error(`File not found: ${input.path}`)
+				}
+				if (!isImageExtension(file.extension)) {
+					throw new Error(`Not an image attachment: ${file.path} (${getMimeType(file.extension)})`)
+				}
+
+				const buffer = await this.vault.readBinary(file)
+				return {
+					path: file.path,
+					mimeType: getMimeType(file.extension),
+					size: buffer.byteLength,
+					data: arrayBufferToBase64(buffer)
+				}
+			}
+		)
+	}
+
 	/**
 	 * Get note metadata (frontmatter, tags, links, statistics)
 	 */
 	async getNoteMetadata(
 		input: ObsidianGetNoteMetadataInput,
 		sessionId?: string,
-		callId?: string
+		callId?: string,
+		approved: boolean = false
 	): Promise<ObsidianGetNoteMetadataOutput> {
 		const effectiveCallId = callId || `call_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+		const secrets = new Set<SecretKind>()
 		
 		return this.executeWithAuditLog(
 			'obsidian.get_note_metadata',
@@ -326,7 +1216,7 @@ export class VaultReader {
 
 				let frontmatter: Record<string, unknown> | undefined
 				if (input.includeProperties && cache?.frontmatter) {
-					frontmatter = cache.frontmatter
+					frontmatter = this.screenProperties(file.path, cache.frontmatter, approved, secrets)
 				}
 
 				const tags: string[] | undefined = input.includeTags && cache?.tags
@@ -336,7 +1226,7 @@ export class VaultReader {
 				const links: { outlinks: string[]; backlinks: string[]; unresolvedLinks?: string[] } | undefined = input.includeLinks
 					? {
 							outlinks: cache?.links ? Array.from(new Set(cache.links.map(l => l.link))) : [],
-							backlinks: this.getBacklinks(file),
+							backlinks: this.getBacklinks(file).filter(await this.createReadFilter('obsidian.get_note_metadata', sessionId)),
 							unresolvedLinks: cache?.links ? cache.links
 								.map(l => l.link)
 								.filter(linkPath => !this.vault.getAbstractFileByPath(linkPath)) : []
@@ -366,7 +1256,8 @@ export class VaultReader {
 					links,
 					stats
 				}
-			}
+			},
+			secrets
 		)
 	}
 
@@ -0,0 +1,127 @@
+import type { Component, TAbstractFile, TFile, Vault } from 'obsidian'
+import { SearchIndex, type QueryClause, type SearchHit } from './search-index'
+
+/**
+ * Check whether an abstract file is a markdown note
+ */
+function isMarkdownFile(file: TAbstractFile | null): file is TFile {
+	return file !== null && 'extension' in file && (file as TFile).extension === 'md'
+}
+
+/**
+ * Keeps a SearchIndex in sync with the vault
+ *
+ * The index is built on the first search. Afterwards vault events only mark notes as changed;
+ * changed notes are re-read just before the next search, so edits in quick succession
+ * cost one read and searches always see the current content.
+ */
+export class VaultSearchIndex {
+	private vault: Vault
+	private index: SearchIndex = new SearchIndex()
+	private built = false
+	/** Paths created, modified or deleted since the last update */
+	private dirty: Set<string> = new Set()
+	/** Serializes building and updating so concurrent searches never read a half-updated index */
+	private queue: Promise<void> = Promise.resolve()
+
+	constructor(vault: Vault) {
+		this.vault = vault
+	}
+
+	/**
+	 * Listen to vault changes (events are unregistered when the component unloads)
+	 */
+	registerEvents(component: Component): void {
+		component.registerEvent(this.vault.on('create', file => this.markChanged(file)))
+		component.registerEvent(this.vault.on('modify', file => this.markChanged(file)))
+		component.registerEvent(this.vault.on('delete', file => this.markChanged(file)))
+		component.registerEvent(this.vault.on('rename', (file, oldPath) => this.handleRename(file, oldPath)))
+	}
+
+	/**
+	 * Search the vault, bringing the index up to date first
+	 */
+	async search(clauses: QueryClause[]): Promise<SearchHit[]> {
+		// A failed update must not block later searches
+		this.queue = this.queue.then(() => this.update(), () => this.update())
+		await this.queue
+		return this.index.search(clauses)
+	}
+
+	/**
+	 * Mark a note (or every indexed note in a folder) as changed
+	 */
+	private markChanged(file: TAbstractFile): void {
+		if (isMarkdownFile(file) || this.index.has(file.path)) {
+			this.dirty.add(file.path)
+			return
+		}
+		if (!('extension' in file)) {
+			const prefix = `${file.path}/`
+			for (const path of this.index.paths()) {
+				if (path.startsWith(prefix)) {
+					this.dirty.add(path)
+				}
+			}
+		}
+	}
+
+	/**
+	 * Move renamed notes in the index without re-reading them
+	 */
+	private handleRename(file: TAbstractFile, oldPath: string): void {
+		if (isMarkdownFile(file) && this.index.has(oldPath) && !this.dirty.has(oldPath)) {
+			this.index.rename(oldPath, file.path)
+			return
+		}
+		if (!('extension' in file)) {
+			// Folder renamed: move every note inside it
+			const prefix = `${oldPath}/`
+			for (const path of this.index.paths()) {
+				if (path.startsWith(prefix)) {
+					this.index.rename(path, `${file.path}/${path.slice(prefix.length)}`)
+				}
+			}
+			return
+		}
+		this.dirty.add(oldPath)
+		this.markChanged(file)
+	}
+
+	/**
+	 * Build the index on first use, then re-read notes that changed since the last search
+	 */
+	private async update(): Promise<void> {
+		if (!this.built) {
+			// Changes during the build are applied afterwards from the dirty set
+			this.dirty.clear()
+			for (const file of this.vault.getMarkdownFiles()) {
+				await this.indexFile(file)
+			}
+			this.built = true
+		}
+
+		const paths = Array.from(this.dirty)
+		this.dirty.clear()
+		for (const path of paths) {
+			const file = this.vault.getAbstractFileByPath(path)
+			if (isMarkdownFile(file)) {
+				await this.indexFile(file)
+			} else {
+				this.index.remove(path)
+			}
+		}
+	}
+
+	/**
+	 * Read and index a note, skipping notes that cannot be read
+	 */
+	private async indexFile(file: TFile): Promise<void> {
+		try {
+			this.index.add(file.path, await this.vault.cachedRead(file))
+		} catch (error) {
+			console.warn(`[VaultSearchIndex] Failed to index ${file.path}:`, error)
+			this.index.remove(file.path)
+		}
+	}
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { App, TFile, WorkspaceLeaf } from 'obsidian'
+import { readActiveContext, revealNote } from './workspace-context'
+
+const file = (path: string) => ({ path }) as TFile
+
+function markdownLeaf(path: string, selection = '', lines = 20) {
+	const editor = {
+		getCursor: (side?: string) => (side === 'from' ? { line: 4, ch: 0 } : { line: 5, ch: 12 }),
+		getSelection: () => selection,
+		lastLine: () => lines - 1,
+		setCursor: vi.fn(),
+		scrollIntoView: vi.fn()
+	}
+	return { view: { file: file(path), editor, getViewType: () => 'markdown', getMode: () => 'source' } } as unknown as WorkspaceLeaf
+}
+
+function fakeApp(leaves: WorkspaceLeaf[], recent: WorkspaceLeaf | null) {
+	const workspace = {
+		getMostRecentLeaf: () => recent,
+		getActiveFile: () => (recent?.view as unknown as { file: TFile } | undefined)?.file ?? null,
+		getLastOpenFiles: () => ['Notes/Plan.md', 'Notes/Ideas.md', 'Daily/2026-10-19.md'],
+		iterateRootLeaves: (callback: (leaf: WorkspaceLeaf) => void) => leaves.forEach(callback),
+		getLeaf: vi.fn(() => {
+			const leaf = markdownLeaf('')
+			;(leaf as unknown as { openFile: (f: TFile) => Promise<void> }).openFile = vi.fn(async (opened: TFile) => {
+				(leaf.view as unknown as { file: TFile }).file = opened
+			})
+			return leaf
+		}),
+		setActiveLeaf: vi.fn(),
+		revealLeaf: vi.fn(async () => {})
+	}
+	return { workspace } as unknown as App
+}
+
+describe('readActiveContext', () => {
+	it('should read the cursor and selection of the note being edited', () => {
+		const plan = markdownLeaf('Notes/Plan.md', 'The selected paragraph')
+		const canvas = { view: { file: file('Boards/Roadmap.canvas'), getViewType: () => 'canvas' } } as unknown as WorkspaceLeaf
+		const context = readActiveContext(fakeApp([plan, canvas, markdownLeaf('Notes/Plan.md')], plan), { recentLimit: 2 })
+
+		expect(context).toEqual({
+			activeFile: 'Notes/Plan.md',
+			mode: 'source',
+			cursor: { line: 6, ch: 12 },
+			selection: { text: 'The selected paragraph', from: { line: 5, ch: 0 }, to: { line: 6, ch: 12 } },
+			openTabs: [{ path: 'Notes/Plan.md', active: true }, { path: 'Boards/Roadmap.canvas', active: false }],
+			recentFiles: ['Notes/Plan.md', 'Notes/Ideas.md']
+		})
+	})
+
+	it('should leave out the editor state when no markdown note is open', () => {
+		const context = readActiveContext(fakeApp([], null))
+
+		expect(context.activeFile).toBeNull()
+		expect(context.cursor).toBeUndefined()
+		expect(context.openTabs).toEqual([])
+	})
+})
+
+describe('revealNote', () => {
+	it('should reuse the tab showing the note and clamp the line', async () => {
+		const plan = markdownLeaf('Notes/Plan.md', '', 10)
+		const app = fakeApp([plan], null)
+		const line = await revealNote(app, file('Notes/Plan.md'), { line: 42 })
+
+		expect(line).toBe(10)
+		expect(app.workspace.setActiveLeaf).toHaveBeenCalledWith(plan, { focus: true })
+		expect(app.workspace.getLeaf).not.toHaveBeenCalled()
+		expect((plan.view as unknown as { editor: { setCursor: unknown } }).editor.setCursor).toHaveBeenCalledWith({ line: 9, ch: 0 })
+	})
+
+	it('should open the note in a new tab when asked', async () => {
+		const app = fakeApp([markdownLeaf('Notes/Plan.md')], null)
+		const line = await revealNote(app, file('Notes/Plan.md'), { newTab: true })
+
+		expect(line).toBeUndefined()
+		expect(app.workspace.getLeaf).toHaveBeenCalledWith('tab')
+		expect(app.workspace.revealLeaf).toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,144 @@
+/**
+ * Workspace context
+ * Reads what the user is looking at (active note, cursor, selection, open tabs, recent files) and
+ * reveals notes in the editor. The chat view takes focus while the user types, so the editor is
+ * found through the most recent leaf of the main area rather than the active leaf.
+ */
+
+import type { App, Editor, EditorPosition, TFile, WorkspaceLeaf } from 'obsidian'
+
+/**
+ * Position in a note (1-based line, 0-based column)
+ */
+export interface EditorLocation {
+	line: number
+	ch: number
+}
+
+/**
+ * What the user has open in the workspace
+ */
+export interface ActiveContext {
+	activeFile: string | null
+	/** Editing or reading view of the active markdown note */
+	mode?: 'source' | 'preview'
+	cursor?: EditorLocation
+	selection?: { text: string; from: EditorLocation; to: EditorLocation }
+	openTabs: Array<{ path: string; active: boolean }>
+	recentFiles: string[]
+}
+
+/**
+ * The parts of a markdown view the context is read from
+ */
+interface MarkdownLeafView {
+	file: TFile | null
+	editor: Editor
+	getMode?: () => 'source' | 'preview'
+}
+
+/**
+ * Get the markdown view shown in a leaf, if any
+ */
+function getMarkdownView(leaf: WorkspaceLeaf | null): MarkdownLeafView | null {
+	const view = leaf?.view as (Partial<MarkdownLeafView> & { getViewType?: () => string }) | undefined
+	return view?.getViewType?.() === 'markdown' && view.editor ? (view as MarkdownLeafView) : null
+}
+
+/**
+ * Get the file shown in a leaf, if any
+ */
+function getLeafFile(leaf: WorkspaceLeaf): TFile | null {
+	return (leaf.view as { file?: TFile | null } | undefined)?.file ?? null
+}
+
+/**
+ * Find a tab in the main area that shows a file
+ */
+function findFileLeaf(app: App, path: string): WorkspaceLeaf | null {
+	const leaves: WorkspaceLeaf[] = []
+	app.workspace.iterateRootLeaves(leaf => {
+		if (getLeafFile(leaf)?.path === path) {
+			leaves.push(leaf)
+		}
+	})
+	return leaves[0] ?? null
+}
+
+function toLocation(position: EditorPosition): EditorLocation {
+	return { line: position.line + 1, ch: position.ch }
+}
+
+/**
+ * Read the active note, cursor, selection, open tabs and recently opened files
+ */
+export function readActiveContext(app: App, options: { recentLimit?: number } = {}): ActiveContext {
+	const { workspace } = app
+	const recentLeaf = workspace.getMostRecentLeaf()
+	const activeFile = workspace.getActiveFile()
+	const context: ActiveContext = {
+		activeFile: activeFile?.path ?? null,
+		openTabs: [],
+		recentFiles: workspace.getLastOpenFiles().slice(0, options.recentLimit ?? 10)
+	}
+
+	const view = getMarkdownView(recentLeaf)
+	if (view && activeFile && view.file?.path === activeFile.path) {
+		context.mode = view.getMode?.() ?? 'source'
+		context.cursor = toLocation(view.editor.getCursor('head'))
+		const text = view.editor.getSelection()
+		if (text) {
+			context.selection = {
+				text,
+				from: toLocation(view.editor.getCursor('from')),
+				to: toLocation(view.editor.getCursor('to'))
+			}
+		}
+	}
+
+	const seen = new Map<string, { path: string; active: boolean }>()
+	workspace.iterateRootLeaves(leaf => {
+		const file = getLeafFile(leaf)
+		if (!file) {
+			return
+		}
+		const tab = seen.get(file.path) ?? { path: file.path, active: false }
+		tab.active = tab.active || leaf === recentLeaf
+		if (!seen.has(file.path)) {
+			seen.set(file.path, tab)
+			context.openTabs.push(tab)
+		}
+	})
+
+	return context
+}
+
+/**
+ * Show a note in the editor, reusing a tab that already shows it unless a new tab is requested,
+ * and move the cursor to a line (1-based, clamped to the note). Returns the line the cursor was put on.
+ */
+export async function revealNote(
+	app: App,
+	file: TFile,
+	options: { line?: number; newTab?: boolean } = {}
+): Promise<number | undefined> {
+	const { workspace } = app
+	let leaf = options.newTab ? null : findFileLeaf(app, file.path)
+	if (leaf) {
+		workspace.setActiveLeaf(leaf, { focus: true })
+	} else {
+		leaf = workspace.getLeaf(options.newTab ? 'tab' : false)
+		await leaf.openFile(file, { active: true })
+	}
+	await workspace.revealLeaf(leaf)
+
+	const view = getMarkdownView(leaf)
+	if (options.line === undefined || !view) {
+		return undefined
+	}
+	const line = Math.min(Math.max(options.line, 1), view.editor.lastLine() + 1)
+	const position = { line: line - 1, ch: 0 }
+	view.editor.setCursor(position)
+	view.editor.scrollIntoView({ from: position, to: position }, true)
+	return line
+}
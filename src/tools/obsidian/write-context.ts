@@ -0,0 +1,80 @@
+import type { App, Vault, MetadataCache, TAbstractFile, TFile, TFolder } from 'obsidian'
+import { TFile as TFileClass } from 'obsidian'
+import type { PermissionManager } from './permission-manager'
+import type { OperationType } from './permission-types'
+import type { PermissionRequest } from './permission-modal'
+import { isPrivateNote, redactSecrets, scanForSecrets } from './secret-scanner'
+
+/**
+ * Type guard to check if abstract file is a TFile
+ */
+export function isTFile(file: TAbstractFile | null): file is TFile {
+	return file !== null && file instanceof TFileClass
+}
+
+/**
+ * Type guard to check if abstract file is a TFolder
+ */
+export function isTFolder(file: TAbstractFile | null): file is TFolder {
+	return file !== null && !('extension' in file) && 'children' in file
+}
+
+/**
+ * Preview of a write shown in the permission modal
+ */
+export type WritePreview = NonNullable<PermissionRequest['preview']>
+
+/**
+ * What the executor shares with the write tool families: the vault and the steps every write goes through
+ * (audit logging, undo snapshots and the check for edits made since the preview)
+ */
+export interface WriteContext {
+	vault: Vault
+	app: App
+	metadataCache: MetadataCache
+	permissionManager: PermissionManager
+	/** Run a call and record it in the audit log, storing its undo snapshot if it succeeds */
+	executeWithAuditLog<T>(
+		toolName: string,
+		sessionId: string | undefined,
+		callId: string,
+		input: unknown,
+		operation: OperationType,
+		affectedPath: string | undefined,
+		approved: boolean,
+		dryRun: boolean,
+		executeFn: () => Promise<T>
+	): Promise<T>
+	/** Read the files an approved write is about to change, so it can be undone */
+	captureSnapshot(
+		toolName: string,
+		sessionId: string | undefined,
+		callId: string,
+		targets: Array<{ path: string; movedTo?: string }>
+	): Promise<void>
+	/** Throw a VersionConflictError if a file changed since the preview of this call was generated */
+	checkPreviewVersion(callId: string, path: string): Promise<void>
+	/** Create the parent folder of a path if needed */
+	ensureParentFolder(path: string): Promise<string | null>
+}
+
+/**
+ * Redact secrets in note content shown in a write tool's output
+ * Write output is always redacted, whatever the secret handling setting: blocking or asking after the write
+ * would hide its result or run it twice. note is the whole note when content is only part of it,
+ * so every part of a note tagged #private is withheld.
+ */
+export function redactOutputSecrets(content: string, note: string = content): string {
+	const screened = note !== content && isPrivateNote(note) ? note : content
+	return redactSecrets(screened, scanForSecrets(screened))
+}
+
+/**
+ * Original and new content of a write tool's output, with secrets redacted
+ */
+export function redactContentPreview(originalContent: string | undefined, newContent: string): { originalContent?: string; newContent: string } {
+	return {
+		originalContent: originalContent !== undefined ? redactOutputSecrets(originalContent) : undefined,
+		newContent: redactOutputSecrets(newContent)
+	}
+}
@@ -31,6 +31,15 @@ export interface Agent {
   hidden?: boolean
   /** Agent mode identifier (e.g., "primary") */
   mode?: string
+  /** Permission level the plugin enforces while this agent runs (unset = the plugin-wide level, which it cannot exceed) */
+  permissionLevel?: 'read-only' | 'scoped-write' | 'full-write'
+  /** Paths the plugin limits this agent to, in addition to the plugin-wide permission scope */
+  permissionScope?: {
+    /** Allowed path patterns (glob patterns) */
+    allowedPaths?: string[]
+    /** Denied path patterns (glob patterns, checked first) */
+    deniedPaths?: string[]
+  }
 }
 
 /**
@@ -80,7 +89,50 @@ export interface OpenCodeObsidianSettings {
     maxFileSize?: number
     /** Allowed file extensions (e.g., ['.md', '.txt']) */
     allowedExtensions?: string[]
+    /** Maximum attachment size in bytes */
+    maxAttachmentSize?: number
+    /** Allowed attachment extensions (e.g., ['.png', '.pdf']) */
+    attachmentExtensions?: string[]
   }
+
+  /** Permission profiles set in settings, by agent ID (override the profile an agent was loaded with) */
+  agentPermissions?: Record<string, {
+    /** Permission level while the agent runs (unset = the agent's own level) */
+    permissionLevel?: 'read-only' | 'scoped-write' | 'full-write'
+    /** Paths the agent is limited to (unset = the agent's own scope) */
+    permissionScope?: {
+      allowedPaths?: string[]
+      deniedPaths?: string[]
+    }
+  }>
+
+  /** Per-session rate limits and quotas for tool calls (unset or 0 = no limit) */
+  toolLimits?: {
+    /** Calls per minute in one session, across all tools */
+    callsPerMinute?: number
+    /** Calls per minute in one session, for each tool */
+    toolCallsPerMinute?: number
+    /** Per-tool overrides of toolCallsPerMinute, by tool name */
+    toolOverrides?: Record<string, number>
+    /** Bytes read tools may return in one session */
+    maxBytesRead?: number
+    /** Files write tools may change in one session */
+    maxFilesWritten?: number
+  }
+
+  /** "Allow always" and "Always deny" rules saved from the permission modal */
+  approvalRules?: Array<{
+    id: string
+    decision: 'allow' | 'deny'
+    /** Tool the rule applies to */
+    toolName: string
+    /** Glob pattern the call's paths must match (unset = any path) */
+    pathPattern?: string
+    createdAt: number
+  }>
+
+  /** What to do when read_note or search_vault would send secrets to the model (default: 'redact') */
+  secretHandling?: 'redact' | 'block' | 'ask'
 }
 
 /**
@@ -17,6 +17,9 @@ export type {
 	ConnectionState,
 	ReconnectAttemptInfo,
 	SessionContext,
+	ClientToolDefinition,
+	ToolCallResult,
+	McpServerEndpoint,
 	ProgressUpdate,
 	OpenCodeServerConfig,
 	HealthCheckResult,
@@ -39,5 +42,6 @@ export type {
 	ProgressUpdateEvent,
 	SessionEndEvent,
 	PermissionRequestEvent,
+	ToolCallEvent,
 	ErrorEvent,
 } from '../session/session-event-bus';
@@ -19,6 +19,7 @@ export class ConversationSelectorComponent {
 		private syncFromServer?: () => Promise<void>,
 		private viewSessionDiff?: (sessionId: string) => Promise<void>,
 		private forkConversation?: (id: string) => Promise<void>,
+		private undoSessionChanges?: (sessionId: string) => Promise<void>,
 	) {}
 
 	private get conversations(): Conversation[] {
@@ -310,6 +311,25 @@ export class ConversationSelectorComponent {
 			};
 		}
 
+		// Add "Undo vault changes" option if session has a sessionId and callback is provided
+		if (conversation.sessionId && this.undoSessionChanges) {
+			const undoItem = menu.createDiv("opencode-obsidian-context-menu-item");
+			undoItem.textContent = "Undo vault changes";
+			undoItem.onclick = () => {
+				menu.remove();
+				new ConfirmationModal(
+					this.app,
+					"Undo vault changes",
+					`Restore every note the agent changed in "${conversation.title}" to how it was before?`,
+					async () => {
+						if (conversation.sessionId && this.undoSessionChanges) {
+							await this.undoSessionChanges(conversation.sessionId);
+						}
+					}
+				).open();
+			};
+		}
+
 		const deleteItem = menu.createDiv("opencode-obsidian-context-menu-item");
 		deleteItem.textContent = "Delete";
 		deleteItem.addClass("opencode-obsidian-context-menu-item-danger");
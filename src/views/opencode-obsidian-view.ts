@@ -143,6 +143,7 @@ export class OpenCodeObsidianView extends ItemView {
 			() => this.syncConversationsFromServer(),
 			(sessionId) => this.viewSessionDiff(sessionId),
 			(id) => this.forkConversation(id),
+			(sessionId) => this.plugin.undoSessionChanges(sessionId),
 		);
 
 		// Initialize message sender (needed by input area)
@@ -987,14 +988,21 @@ export class OpenCodeObsidianView extends ItemView {
 						await this.conversationManager.createNewConversation();
 					}
 
-					const attachmentsFolder = "05_Attachments";
-					const timestamp = Date.now();
-					const fileName = `${timestamp}-${file.name}`;
-					const filePath = `${attachmentsFolder}/${fileName}`;
-
-					const folderExists =
-						await this.app.vault.adapter.exists(attachmentsFolder);
-					if (!folderExists) {
+					// Save where Obsidian's attachment folder setting puts attachments of the active note
+					const sourcePath = this.app.workspace.getActiveFile()?.path ?? "";
+					const filePath =
+						await this.app.fileManager.getAvailablePathForAttachment(
+							file.name,
+							sourcePath,
+						);
+					const attachmentsFolder = filePath.includes("/")
+						? filePath.slice(0, filePath.lastIndexOf("/"))
+						: "";
+
+					if (
+						attachmentsFolder &&
+						!(await this.app.vault.adapter.exists(attachmentsFolder))
+					) {
 						await this.app.vault.createFolder(attachmentsFolder);
 					}
 
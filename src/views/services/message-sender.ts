@@ -167,6 +167,9 @@ export class MessageSender {
 			
 			const sendWithRetry = async (currentSessionId: string): Promise<void> => {
 				if (!this.plugin.opencodeClient) return;
+
+				// Tool calls of this session get the permission profile of the agent it was prompted with
+				this.plugin.setSessionAgent(currentSessionId, this.plugin.settings.agent);
 				
 				if (slashCommand) {
 					const commandResponse = await this.plugin.opencodeClient.sendSessionCommand(
@@ -285,14 +288,10 @@ export class MessageSender {
 				newSessionId = await this.sessionManager.createSession(conversation.title);
 			} else {
 				// Fallback to direct client call for backward compatibility
+				// Screened against the permission scope, the agent's profile and secret handling like a tool read
 				const activeFile = this.app.workspace.getActiveFile();
 				const sessionContext = activeFile
-					? {
-							currentNote: activeFile.path,
-							properties:
-								this.app.metadataCache.getFileCache(activeFile)
-									?.frontmatter,
-						}
+					? await this.plugin.toolExecutor?.getSessionContext(activeFile.path)
 					: undefined;
 
 				newSessionId = await this.plugin.opencodeClient.startSession(
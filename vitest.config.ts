@@ -1,8 +1,11 @@
 import { defineConfig } from 'vitest/config'
 import path from 'path'
 import { fileURLToPath } from 'url'
+import { createRequire } from 'module'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
+// Obsidian bundles moment; the mock re-exports the version the obsidian package depends on
+const obsidianRequire = createRequire(createRequire(import.meta.url).resolve('obsidian/package.json'))
 
 export default defineConfig({
   test: {
@@ -32,6 +35,7 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src'),
       'obsidian': path.resolve(__dirname, './__mocks__/obsidian.ts'),
+      'moment': obsidianRequire.resolve('moment'),
     },
   },
   optimizeDeps: {